@@ -13,9 +13,16 @@ import ForgotPassword from "./pages/ForgotPassword";
 import Dashboard from "./pages/Dashboard";
 import Clients from "./pages/Clients";
 import ClientForm from "./pages/ClientForm";
+import ClientDetail from "./pages/ClientDetail";
 import Tasks from "./pages/Tasks";
+import Closing from "./pages/Closing";
 import TaskForm from "./pages/TaskForm";
+import TaskTemplates from "./pages/TaskTemplates";
 import Profile from "./pages/Profile";
+import Holidays from "./pages/Holidays";
+import Team from "./pages/Team";
+import Workflow from "./pages/Workflow";
+import AcceptInvitation from "./pages/AcceptInvitation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -49,6 +56,11 @@ const App = () => (
                 <ClientForm />
               </ProtectedRoute>
             } />
+            <Route path="/clients/:id" element={
+              <ProtectedRoute>
+                <ClientDetail />
+              </ProtectedRoute>
+            } />
             <Route path="/clients/:id/edit" element={
               <ProtectedRoute>
                 <ClientForm />
@@ -59,6 +71,11 @@ const App = () => (
                 <Tasks />
               </ProtectedRoute>
             } />
+            <Route path="/closing" element={
+              <ProtectedRoute>
+                <Closing />
+              </ProtectedRoute>
+            } />
             <Route path="/tasks/new" element={
               <ProtectedRoute>
                 <TaskForm />
@@ -69,6 +86,31 @@ const App = () => (
                 <TaskForm />
               </ProtectedRoute>
             } />
+            <Route path="/templates" element={
+              <ProtectedRoute>
+                <TaskTemplates />
+              </ProtectedRoute>
+            } />
+            <Route path="/holidays" element={
+              <ProtectedRoute>
+                <Holidays />
+              </ProtectedRoute>
+            } />
+            <Route path="/workflow" element={
+              <ProtectedRoute>
+                <Workflow />
+              </ProtectedRoute>
+            } />
+            <Route path="/team" element={
+              <ProtectedRoute>
+                <Team />
+              </ProtectedRoute>
+            } />
+            <Route path="/invite/:token" element={
+              <ProtectedRoute>
+                <AcceptInvitation />
+              </ProtectedRoute>
+            } />
             <Route path="/profile" element={
               <ProtectedRoute>
                 <Profile />
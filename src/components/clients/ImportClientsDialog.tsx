@@ -0,0 +1,384 @@
+import { useRef, useState } from 'react';
+import { CheckCircle2, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateClients } from '@/hooks/use-clients';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  buildErrorReport,
+  buildImportRows,
+  guessMapping,
+  importFields,
+  missingRequiredFields,
+  type ColumnMapping,
+  type ImportRow,
+} from '@/lib/clientImport';
+import { toClientRow } from '@/lib/clients';
+import { formatDocument } from '@/lib/documents';
+import { taxRegimeLabels } from '@/lib/obligations';
+import { fetchAllRows } from '@/lib/pagination';
+import { downloadSpreadsheet, readSpreadsheet, SPREADSHEET_ACCEPT, type Sheet } from '@/lib/spreadsheets';
+import { cn } from '@/lib/utils';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const UNMAPPED = 'none';
+
+interface ImportClientsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+export function ImportClientsDialog({ open, onOpenChange, onImported }: ImportClientsDialogProps) {
+  const { user, organization } = useAuth();
+  const { toast } = useToast();
+  const invalidateClients = useInvalidateClients();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [imported, setImported] = useState(0);
+  const [skipped, setSkipped] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const validRows = rows.filter((row) => row.data);
+  const invalidRows = rows.filter((row) => !row.data);
+  const missing = missingRequiredFields(mapping);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setRows([]);
+    setImported(0);
+    setSkipped(0);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Planilha vazia',
+          description: 'A primeira aba não tem linhas abaixo do cabeçalho.',
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessMapping(data.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Não foi possível ler o arquivo. Envie um CSV ou XLSX.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!organization || !sheet) return;
+
+    setLoading(true);
+    try {
+      const clients = await fetchAllRows((from, to) =>
+        supabase
+          .from('clients')
+          .select('id, cpf_cnpj')
+          .eq('organization_id', organization.id)
+          .order('id')
+          .range(from, to),
+      );
+
+      const existing = new Set(clients.map((client) => client.cpf_cnpj));
+      setRows(buildImportRows(sheet, mapping, existing));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao verificar clientes existentes.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !organization || validRows.length === 0) return;
+
+    setLoading(true);
+    try {
+      // One batch: either every valid row is imported or none is. Documents
+      // registered meanwhile by someone else are skipped, not failed
+      const { data, error } = await supabase
+        .from('clients')
+        .upsert(
+          validRows.map((row) => ({
+            ...toClientRow(row.data),
+            user_id: user.id,
+            organization_id: organization.id,
+          })),
+          { onConflict: 'organization_id,cpf_cnpj', ignoreDuplicates: true },
+        )
+        .select('id');
+
+      if (error) throw error;
+
+      setImported(data?.length ?? 0);
+      setSkipped(validRows.length - (data?.length ?? 0));
+      setStep('done');
+      invalidateClients();
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing clients:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao importar clientes. Nenhum cliente foi cadastrado.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    downloadSpreadsheet(buildErrorReport(sheet, rows), `${baseName}-erros.xlsx`, 'Erros');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Importar clientes</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Envie uma planilha CSV ou XLSX com um cliente por linha e os nomes das colunas na primeira linha.'}
+            {step === 'mapping' && `Indique a coluna de ${fileName} correspondente a cada campo.`}
+            {step === 'preview' && 'Revise as linhas antes de importar. Linhas com erro ou duplicadas não serão cadastradas.'}
+            {step === 'done' && 'Importação concluída.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Upload */}
+        {step === 'upload' && (
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={() => fileInput.current?.click()}
+            onKeyDown={(e) => e.key === 'Enter' && fileInput.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragging(false);
+              handleFile(e.dataTransfer.files[0]);
+            }}
+            className={cn(
+              "rounded-lg border-2 border-dashed p-10 text-center cursor-pointer transition-colors",
+              dragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+            )}
+          >
+            {loading ? (
+              <Loader2 className="w-10 h-10 mx-auto animate-spin text-primary" />
+            ) : (
+              <FileSpreadsheet className="w-10 h-10 mx-auto text-muted-foreground" />
+            )}
+            <p className="mt-3 text-sm text-muted-foreground">
+              Arraste a planilha aqui ou clique para selecionar
+            </p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={SPREADSHEET_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+
+        {/* Column Mapping */}
+        {step === 'mapping' && sheet && (
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              {importFields.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}{required && ' *'}</Label>
+                  <Select
+                    value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) => setMapping({
+                      ...mapping,
+                      [field]: value === UNMAPPED ? undefined : Number(value),
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+                      {sheet.headers.map((header, column) => (
+                        <SelectItem key={column} value={String(column)}>
+                          {header || `Coluna ${column + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Sem a coluna de tipo de pessoa, o tipo é deduzido pelo tamanho do documento. Sem regime tributário,
+              pessoas físicas recebem o regime "{taxRegimeLabels.pf}".
+            </p>
+          </div>
+        )}
+
+        {/* Preview */}
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className="status-badge status-concluida">{validRows.length} válida(s)</span>
+              {invalidRows.length > 0 && (
+                <span className="status-badge status-atrasada">
+                  {invalidRows.length} com erro ({invalidRows.filter((row) => row.duplicate).length} duplicada(s))
+                </span>
+              )}
+            </div>
+            <ScrollArea className="h-80 rounded-lg border border-border/50">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Linha</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Nome</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">CPF/CNPJ</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Situação</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/50">
+                  {rows.map((row) => (
+                    <tr key={row.line} className={cn(!row.data && "bg-destructive/5")}>
+                      <td className="px-3 py-2 text-muted-foreground">{row.line}</td>
+                      <td className="px-3 py-2">{row.data?.name ?? row.cells[mapping.name] ?? ''}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {row.data ? formatDocument(row.data.cpf_cnpj) : row.cells[mapping.cpf_cnpj] ?? ''}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.data ? (
+                          <span className="text-success">OK</span>
+                        ) : (
+                          <span className="text-destructive">{row.errors.join('; ')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {/* Done */}
+        {step === 'done' && (
+          <div className="py-6 text-center space-y-2">
+            <CheckCircle2 className="w-12 h-12 mx-auto text-success" />
+            <p className="font-medium">{imported} cliente(s) importado(s)</p>
+            {skipped > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {skipped} cliente(s) já tinham sido cadastrados durante a revisão e foram ignorados.
+              </p>
+            )}
+            {invalidRows.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {invalidRows.length} linha(s) não foram importadas. Baixe o relatório para corrigi-las.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {(step === 'preview' || step === 'done') && invalidRows.length > 0 && (
+            <Button variant="outline" onClick={downloadErrorReport} className="sm:mr-auto">
+              <Download className="w-4 h-4 mr-2" />
+              Relatório de erros
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Voltar
+              </Button>
+              <Button onClick={handleValidate} disabled={loading || missing.length > 0}>
+                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Validar linhas
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={loading}>
+                Voltar
+              </Button>
+              <Button onClick={handleImport} disabled={loading || validRows.length === 0}>
+                {loading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Importar {validRows.length} cliente(s)
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => handleOpenChange(false)}>
+              Fechar
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Link } from 'react-router-dom';
+import { CheckCircle2, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TaskStatusBadge } from '@/components/tasks/TaskStatusBadge';
+import type { ClosingCell as Cell, ClosingTask } from '@/lib/closing';
+import { formatDate } from '@/lib/dates';
+
+interface ClosingCellProps {
+  cell: Cell;
+  onComplete: (task: ClosingTask) => void;
+}
+
+const MISSING_CLASSES = 'status-badge border border-dashed border-muted-foreground/40 text-muted-foreground';
+
+/** A client's obligation in the closing panel; the task opens a menu to open or complete it. */
+export function ClosingCell({ cell, onComplete }: ClosingCellProps) {
+  if (cell.kind === 'not_applicable') {
+    return <span className="text-muted-foreground/50" title="Não se aplica ao regime do cliente">—</span>;
+  }
+
+  if (cell.kind === 'missing') {
+    return <span className={MISSING_CLASSES}>Não gerada</span>;
+  }
+
+  const { task } = cell;
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+          <TaskStatusBadge status={task.status} dueDate={task.due_date} completedAt={task.completed_at} className="cursor-pointer" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <div>
+          <p className="font-medium">{task.title}</p>
+          <p className="text-sm text-muted-foreground">Vencimento em {formatDate(task.due_date)}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm" className="flex-1">
+            <Link to={`/tasks/${task.id}/edit`}>
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Abrir
+            </Link>
+          </Button>
+          {task.status !== 'concluida' && (
+            <Button size="sm" className="flex-1" onClick={() => onComplete(task)}>
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              Concluir
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
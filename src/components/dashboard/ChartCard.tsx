@@ -0,0 +1,54 @@
+import type { ReactNode } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ChartPeriod } from '@/lib/dashboard';
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  periods: ChartPeriod[];
+  period: string;
+  onPeriodChange: (value: string) => void;
+  /** Shown instead of the chart when there is nothing to plot. */
+  empty?: string | null;
+  children: ReactNode;
+}
+
+/** Dashboard card with a chart and the selector of the period it covers. */
+export function ChartCard({ title, description, icon: Icon, periods, period, onPeriodChange, empty, children }: ChartCardProps) {
+  return (
+    <div className="bg-card rounded-xl border border-border/50 overflow-hidden h-full">
+      <div className="p-6 border-b border-border/50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-primary/10">
+            <Icon className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">{title}</h2>
+            <p className="text-sm text-muted-foreground">{description}</p>
+          </div>
+        </div>
+        <Select value={period} onValueChange={onPeriodChange}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="p-6">
+        {empty ? <p className="py-12 text-sm text-muted-foreground text-center">{empty}</p> : children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllRows } from '@/lib/pagination';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import {
+  deliveryGroupingLabels,
+  deliveryRates,
+  formatRate,
+  overallDeliveryRate,
+  type DeliveryGrouping,
+  type DeliveryReportTask,
+} from '@/lib/delivery';
+import { deliveredStatuses } from '@/lib/tasks';
+
+const periods = [
+  { days: 30, label: 'Últimos 30 dias' },
+  { days: 90, label: 'Últimos 90 dias' },
+  { days: 365, label: 'Últimos 12 meses' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** On-time delivery rate of the organization's tasks completed in a period. */
+export function DeliveryReport() {
+  const { organization } = useAuth();
+  const timeZone = useTimeZone();
+  const [days, setDays] = useState(90);
+  const [grouping, setGrouping] = useState<DeliveryGrouping>('client');
+  const [tasks, setTasks] = useState<DeliveryReportTask[]>([]);
+
+  useEffect(() => {
+    fetchCompletedTasks();
+  }, [days]);
+
+  const fetchCompletedTasks = async () => {
+    if (!organization) return;
+
+    try {
+      setTasks(await fetchAllRows((from, to) =>
+        supabase
+          .from('tasks')
+          .select('id, due_date, completed_at, task_type, client_id, assignee_id, clients(name), assignee:profiles!tasks_assignee_id_fkey(name)')
+          .eq('organization_id', organization.id)
+          .in('status', deliveredStatuses)
+          .gte('completed_at', new Date(Date.now() - days * DAY_MS).toISOString())
+          .order('id')
+          .range(from, to),
+      ));
+    } catch (error) {
+      console.error('Error fetching delivery report:', error);
+    }
+  };
+
+  const overall = overallDeliveryRate(tasks, timeZone);
+  const rates = deliveryRates(tasks, grouping, timeZone);
+
+  return (
+    <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+      <div className="p-6 border-b border-border/50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-success/10">
+            <Timer className="w-6 h-6 text-success" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Entregas no prazo</h2>
+            <p className="text-sm text-muted-foreground">
+              {overall.total > 0
+                ? `${formatRate(overall.rate)} — ${overall.onTime} de ${overall.total} tarefas entregues até o vencimento`
+                : 'Nenhuma tarefa concluída no período'}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Tabs value={grouping} onValueChange={(value) => setGrouping(value as DeliveryGrouping)}>
+            <TabsList>
+              {Object.entries(deliveryGroupingLabels).map(([value, label]) => (
+                <TabsTrigger key={value} value={value}>{label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((period) => (
+                <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {rates.length > 0 && (
+        <div className="divide-y divide-border/50 max-h-96 overflow-y-auto">
+          {rates.map((rate) => (
+            <div key={rate.key} className="px-6 py-3 grid grid-cols-[minmax(0,1fr)_8rem_6rem] items-center gap-4">
+              <span className="font-medium truncate">{rate.label}</span>
+              <Progress value={rate.rate * 100} className="h-2" />
+              <span className="text-sm text-right">
+                <span className="font-semibold">{formatRate(rate.rate)}</span>
+                <span className="text-muted-foreground"> ({rate.onTime}/{rate.total})</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
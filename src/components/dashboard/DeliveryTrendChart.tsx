@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { TrendingUp } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ChartCard } from '@/components/dashboard/ChartCard';
+import { useDeliveryTrend } from '@/hooks/use-dashboard';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import {
+  deliveryMonths,
+  deliveryTrendPeriods,
+  lastMonths,
+  monthRange,
+  taskListPath,
+  type DeliveryTrendRow,
+} from '@/lib/dashboard';
+import { todayISO, toLocalDate } from '@/lib/dates';
+
+const chartConfig = {
+  on_time: { label: 'No prazo', color: 'hsl(var(--success))' },
+  late: { label: 'Com atraso', color: 'hsl(var(--warning))' },
+  overdue: { label: 'Atrasadas', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+type TrendSeries = keyof typeof chartConfig;
+
+const monthLabel = (month: string) => format(toLocalDate(month), 'MMM/yy', { locale: ptBR });
+
+/** Tasks due per month: delivered on time, delivered late and still open past due. */
+export function DeliveryTrendChart({ defaultPeriod = '12' }: { defaultPeriod?: string }) {
+  const navigate = useNavigate();
+  const today = todayISO(useTimeZone());
+  const [months, setMonths] = useState(defaultPeriod);
+  const range = lastMonths(today, Number(months));
+  const { data: rows = [] } = useDeliveryTrend(range);
+
+  const openMonth = (row: DeliveryTrendRow, series: TrendSeries) =>
+    navigate(taskListPath({
+      status: series === 'overdue' ? 'open' : 'delivered',
+      from: row.month,
+      to: monthRange(row.month.slice(0, 7)).end,
+    }));
+
+  return (
+    <ChartCard
+      title="Entregas por mês"
+      description="Entregues no prazo, com atraso e atrasadas, pelo mês de vencimento"
+      icon={TrendingUp}
+      periods={deliveryTrendPeriods}
+      period={months}
+      onPeriodChange={setMonths}
+      empty={rows.length === 0 ? 'Nenhuma tarefa venceu no período' : null}
+    >
+      <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+        <BarChart data={deliveryMonths(rows, range)} accessibilityLayer>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="month" tickFormatter={monthLabel} tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={monthLabel} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {(Object.keys(chartConfig) as TrendSeries[]).map((series) => (
+            <Bar
+              key={series}
+              dataKey={series}
+              stackId="tasks"
+              fill={`var(--color-${series})`}
+              className="cursor-pointer"
+              onClick={(bar: { payload: DeliveryTrendRow }) => openMonth(bar.payload, series)}
+            />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
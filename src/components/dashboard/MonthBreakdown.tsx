@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { BarChart3 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useDashboardSummary } from '@/hooks/use-dashboard';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { currentMonthISO, parseISODate } from '@/lib/dates';
+import { openShare, type DashboardCounts } from '@/lib/dashboard';
+import type { WidgetConfig } from '@/lib/dashboardWidgets';
+import { taskTypeLabels } from '@/lib/tasks';
+
+type Breakdown = 'task_type' | 'client';
+
+interface BreakdownRow extends DashboardCounts {
+  key: string;
+  label: string;
+}
+
+/** Tasks due in the month by task type or client, with how many are still open. */
+export function MonthBreakdown({ config }: { config: WidgetConfig }) {
+  const [breakdown, setBreakdown] = useState<Breakdown>('task_type');
+  const month = currentMonthISO(useTimeZone());
+  const { data: summary } = useDashboardSummary(config);
+  const { year, month: monthNumber } = parseISODate(`${month}-01`);
+  const monthLabel = format(new Date(year, monthNumber - 1, 1), 'MMMM yyyy', { locale: ptBR });
+
+  const rows: BreakdownRow[] = breakdown === 'task_type'
+    ? (summary?.by_task_type ?? []).map((counts) => ({
+      ...counts,
+      key: counts.task_type,
+      label: taskTypeLabels[counts.task_type],
+    }))
+    : (summary?.by_client ?? []).map((counts) => ({
+      ...counts,
+      key: counts.client_id ?? 'none',
+      label: counts.client_name ?? 'Sem cliente',
+    }));
+
+  return (
+    <div className="bg-card rounded-xl border border-border/50 overflow-hidden h-full">
+      <div className="p-6 border-b border-border/50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-primary/10">
+            <BarChart3 className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Vencimentos do mês</h2>
+            <p className="text-sm text-muted-foreground">
+              <span className="capitalize">{monthLabel}</span>
+              {config.scope === 'all' ? ' · Todas as tarefas' : ''}
+            </p>
+          </div>
+        </div>
+        <Tabs value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+          <TabsList>
+            <TabsTrigger value="task_type">Por tipo</TabsTrigger>
+            <TabsTrigger value="client">Por cliente</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="p-6 text-sm text-muted-foreground text-center">Nenhuma tarefa vence neste mês</p>
+      ) : (
+        <div className="divide-y divide-border/50 max-h-96 overflow-y-auto">
+          {rows.map((row) => (
+            <div key={row.key} className="px-6 py-3 grid grid-cols-[minmax(0,1fr)_8rem_9rem] items-center gap-4">
+              <span className="font-medium truncate">{row.label}</span>
+              <Progress value={openShare(row)} className="h-2" />
+              <span className="text-sm text-right">
+                <span className="font-semibold">{row.open} em aberto</span>
+                <span className="text-muted-foreground"> / {row.total}</span>
+                {row.overdue > 0 && <span className="block text-xs text-destructive">{row.overdue} atrasada(s)</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
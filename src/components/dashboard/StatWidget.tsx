@@ -0,0 +1,34 @@
+import { AlertTriangle, CheckSquare, Clock, Users, type LucideIcon } from 'lucide-react';
+import { useDashboardSummary } from '@/hooks/use-dashboard';
+import { filterSummary, type WidgetConfig } from '@/lib/dashboardWidgets';
+
+export type StatType = 'total_clients' | 'pending_tasks' | 'today_tasks' | 'overdue_tasks';
+
+const stats: Record<StatType, { label: string; icon: LucideIcon; color: string; bgColor: string }> = {
+  total_clients: { label: 'Total de Clientes', icon: Users, color: 'text-primary', bgColor: 'bg-primary/10' },
+  pending_tasks: { label: 'Tarefas Pendentes', icon: CheckSquare, color: 'text-warning', bgColor: 'bg-warning/10' },
+  today_tasks: { label: 'Vencem Hoje', icon: Clock, color: 'text-accent', bgColor: 'bg-accent/10' },
+  overdue_tasks: { label: 'Atrasadas', icon: AlertTriangle, color: 'text-destructive', bgColor: 'bg-destructive/10' },
+};
+
+/** One of the dashboard counters. */
+export function StatWidget({ type, config }: { type: StatType; config: WidgetConfig }) {
+  const { data: summary } = useDashboardSummary(config);
+  const stat = stats[type];
+  const details = type === 'total_clients' ? '' : filterSummary(config);
+
+  return (
+    <div className="stat-card h-full">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-muted-foreground">{stat.label}</p>
+          <p className="text-3xl font-bold mt-1">{summary?.[type] ?? 0}</p>
+          {details && <p className="text-xs text-muted-foreground mt-1">{details}</p>}
+        </div>
+        <div className={`p-3 rounded-xl ${stat.bgColor}`}>
+          <stat.icon className={`w-6 h-6 ${stat.color}`} />
+        </div>
+      </div>
+    </div>
+  );
+}
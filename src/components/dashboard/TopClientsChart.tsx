@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Building2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ChartCard } from '@/components/dashboard/ChartCard';
+import { useTopClients } from '@/hooks/use-dashboard';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { taskListPath, topClientsPeriods, type TopClientRow } from '@/lib/dashboard';
+import { addDays, todayISO } from '@/lib/dates';
+
+const chartConfig = {
+  open: { label: 'Em aberto', color: 'hsl(var(--primary))' },
+  overdue: { label: 'Atrasadas', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+type ClientBar = TopClientRow & { name: string };
+
+/** Clients with the most open tasks, overdue ones highlighted. */
+export function TopClientsChart({ defaultPeriod = '30' }: { defaultPeriod?: string }) {
+  const navigate = useNavigate();
+  const today = todayISO(useTimeZone());
+  const [period, setPeriod] = useState(defaultPeriod);
+  const rangeEnd = period === 'all' ? undefined : addDays(today, Number(period));
+  const { data: rows = [] } = useTopClients({ end: rangeEnd });
+  const bars: ClientBar[] = rows.map((row) => ({ ...row, name: row.client_name ?? 'Sem cliente' }));
+
+  const openClient = (row: ClientBar, series: keyof typeof chartConfig) =>
+    navigate(taskListPath({
+      status: 'open',
+      clientId: row.client_id,
+      to: series === 'overdue' ? addDays(today, -1) : rangeEnd,
+    }));
+
+  return (
+    <ChartCard
+      title="Clientes com mais pendências"
+      description="Tarefas em aberto por cliente"
+      icon={Building2}
+      periods={topClientsPeriods}
+      period={period}
+      onPeriodChange={setPeriod}
+      empty={rows.length === 0 ? 'Nenhuma tarefa em aberto' : null}
+    >
+      <ChartContainer config={chartConfig} className="aspect-auto h-80 w-full">
+        <BarChart data={bars} layout="vertical" accessibilityLayer>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {(Object.keys(chartConfig) as (keyof typeof chartConfig)[]).map((series) => (
+            <Bar
+              key={series}
+              dataKey={series}
+              fill={`var(--color-${series})`}
+              radius={4}
+              className="cursor-pointer"
+              onClick={(bar: { payload: ClientBar }) => openClient(bar.payload, series)}
+            />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import { ArrowRight, CheckSquare, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TaskStatusBadge } from '@/components/tasks/TaskStatusBadge';
+import { useDashboardSummary } from '@/hooks/use-dashboard';
+import { filterSummary, type WidgetConfig } from '@/lib/dashboardWidgets';
+import { formatDate } from '@/lib/dates';
+
+/** The next open tasks, by due date. */
+export function UpcomingTasksWidget({ config }: { config: WidgetConfig }) {
+  const { data: summary } = useDashboardSummary(config);
+  const tasks = summary?.upcoming_tasks ?? [];
+  const details = filterSummary(config);
+
+  return (
+    <div className="bg-card rounded-xl border border-border/50 overflow-hidden h-full">
+      <div className="p-6 border-b border-border/50 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Próximas Tarefas</h2>
+          <p className="text-sm text-muted-foreground">
+            {details || 'Suas tarefas mais próximas'}
+          </p>
+        </div>
+        <Button asChild variant="ghost" size="sm">
+          <Link to={config.scope === 'all' ? '/tasks?scope=all' : '/tasks'} className="gap-2">
+            Ver todas
+            <ArrowRight className="w-4 h-4" />
+          </Link>
+        </Button>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div className="p-12 text-center">
+          <CheckSquare className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+          <p className="text-muted-foreground">Nenhuma tarefa cadastrada</p>
+          <Button asChild className="mt-4">
+            <Link to="/tasks/new">
+              <Plus className="w-4 h-4 mr-2" />
+              Criar primeira tarefa
+            </Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {tasks.map((task) => (
+            <div key={task.id} className="p-4 hover:bg-muted/50 transition-colors">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{task.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {task.client_name || 'Sem cliente'} • {formatDate(task.due_date)}
+                  </p>
+                </div>
+                <TaskStatusBadge status={task.status} dueDate={task.due_date} completedAt={task.completed_at} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
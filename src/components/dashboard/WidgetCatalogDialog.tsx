@@ -0,0 +1,46 @@
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { widgetCatalog, widgetTypes, type WidgetType } from '@/lib/dashboardWidgets';
+
+interface WidgetCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (type: WidgetType) => void;
+}
+
+/** Widgets that can be added to the dashboard; the same one can be added more than once with other filters. */
+export function WidgetCatalogDialog({ open, onOpenChange, onAdd }: WidgetCatalogDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Adicionar widget</DialogTitle>
+          <DialogDescription>
+            Escolha o que acompanhar no painel. Os filtros de cada widget podem ser ajustados depois.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-96 overflow-y-auto divide-y divide-border/50 -mx-2">
+          {widgetTypes.map((type) => (
+            <div key={type} className="flex items-center justify-between gap-4 px-2 py-3">
+              <div className="min-w-0">
+                <p className="font-medium">{widgetCatalog[type].label}</p>
+                <p className="text-sm text-muted-foreground">{widgetCatalog[type].description}</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => onAdd(type)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
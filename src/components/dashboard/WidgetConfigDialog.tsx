@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  upcomingLimits,
+  widgetCatalog,
+  type DashboardWidget,
+  type WidgetConfig,
+  type WidgetScope,
+} from '@/lib/dashboardWidgets';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+const ALL_TYPES = 'all';
+
+interface WidgetConfigDialogProps {
+  widget: DashboardWidget | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (config: WidgetConfig) => void;
+}
+
+/** Filters of a widget; only the ones its catalog entry lists are shown. */
+export function WidgetConfigDialog({ widget, onOpenChange, onSave }: WidgetConfigDialogProps) {
+  const [config, setConfig] = useState<WidgetConfig>({});
+
+  useEffect(() => {
+    if (widget) setConfig(widget.config);
+  }, [widget]);
+
+  if (!widget) return null;
+
+  const definition = widgetCatalog[widget.type];
+  const change = (changes: WidgetConfig) => setConfig((current) => ({ ...current, ...changes }));
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{definition.label}</DialogTitle>
+          <DialogDescription>{definition.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {definition.filters.includes('scope') && (
+            <div className="space-y-2">
+              <Label>Tarefas</Label>
+              <Select value={config.scope ?? 'mine'} onValueChange={(scope) => change({ scope: scope as WidgetScope })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mine">Minhas tarefas</SelectItem>
+                  <SelectItem value="all">Todas</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {definition.filters.includes('taskType') && (
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={config.taskType ?? ALL_TYPES}
+                onValueChange={(type) => change({ taskType: type === ALL_TYPES ? null : type as TaskType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>Todos os tipos</SelectItem>
+                  {(Object.entries(taskTypeLabels) as [TaskType, string][]).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {definition.filters.includes('limit') && (
+            <div className="space-y-2">
+              <Label>Quantidade</Label>
+              <Select value={String(config.limit ?? upcomingLimits[0])} onValueChange={(limit) => change({ limit: Number(limit) })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {upcomingLimits.map((limit) => (
+                    <SelectItem key={limit} value={String(limit)}>{limit} tarefas</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {definition.filters.includes('period') && definition.periods && (
+            <div className="space-y-2">
+              <Label>Período inicial</Label>
+              <Select value={config.period} onValueChange={(period) => change({ period })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {definition.periods.map((period) => (
+                    <SelectItem key={period.value} value={period.value}>{period.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onSave(config)}>
+            Aplicar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+import { DeliveryReport } from '@/components/dashboard/DeliveryReport';
+import { DeliveryTrendChart } from '@/components/dashboard/DeliveryTrendChart';
+import { MonthBreakdown } from '@/components/dashboard/MonthBreakdown';
+import { StatWidget } from '@/components/dashboard/StatWidget';
+import { TopClientsChart } from '@/components/dashboard/TopClientsChart';
+import { UpcomingTasksWidget } from '@/components/dashboard/UpcomingTasksWidget';
+import { WorkloadChart } from '@/components/dashboard/WorkloadChart';
+import type { DashboardWidget } from '@/lib/dashboardWidgets';
+
+/** What a widget shows, according to its type and filters. */
+export function WidgetContent({ widget }: { widget: DashboardWidget }) {
+  const { type, config } = widget;
+
+  switch (type) {
+    case 'total_clients':
+    case 'pending_tasks':
+    case 'today_tasks':
+    case 'overdue_tasks':
+      return <StatWidget type={type} config={config} />;
+    case 'upcoming_tasks':
+      return <UpcomingTasksWidget config={config} />;
+    case 'month_breakdown':
+      return <MonthBreakdown config={config} />;
+    // Charts start over from the configured period when it changes
+    case 'workload':
+      return <WorkloadChart key={config.period} defaultPeriod={config.period} />;
+    case 'delivery_trend':
+      return <DeliveryTrendChart key={config.period} defaultPeriod={config.period} />;
+    case 'top_clients':
+      return <TopClientsChart key={config.period} defaultPeriod={config.period} />;
+    case 'delivery_report':
+      return <DeliveryReport />;
+  }
+}
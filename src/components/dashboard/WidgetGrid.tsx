@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, GripVertical, Settings2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { WidgetContent } from '@/components/dashboard/WidgetContent';
+import {
+  moveWidget,
+  removeWidget,
+  resizeWidget,
+  shiftWidget,
+  widgetCatalog,
+  widgetSizeLabels,
+  type DashboardLayout,
+  type DashboardWidget,
+  type WidgetSize,
+} from '@/lib/dashboardWidgets';
+import { cn } from '@/lib/utils';
+
+const sizeClasses: Record<WidgetSize, string> = {
+  sm: 'col-span-1',
+  md: 'sm:col-span-2',
+  lg: 'sm:col-span-2 xl:col-span-3',
+  full: 'sm:col-span-2 xl:col-span-4',
+};
+
+interface WidgetGridProps {
+  layout: DashboardLayout;
+  /** Shows the controls to move, resize, configure and remove widgets. */
+  editing: boolean;
+  onChange: (layout: DashboardLayout) => void;
+  onConfigure: (widget: DashboardWidget) => void;
+}
+
+export function WidgetGrid({ layout, editing, onChange, onConfigure }: WidgetGridProps) {
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const handleDrop = (targetId: string) => {
+    if (dragged) onChange(moveWidget(layout, dragged, targetId));
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="dashboard-grid">
+      {layout.widgets.map((widget, index) => {
+        const definition = widgetCatalog[widget.type];
+        return (
+          <div
+            key={widget.id}
+            className={cn(
+              'min-w-0',
+              sizeClasses[widget.size],
+              editing && 'rounded-xl border border-dashed border-border p-2',
+              dropTarget === widget.id && 'bg-primary/10 ring-2 ring-primary',
+            )}
+            draggable={editing}
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', widget.id);
+              setDragged(widget.id);
+            }}
+            onDragEnd={() => {
+              setDragged(null);
+              setDropTarget(null);
+            }}
+            onDragOver={(e) => {
+              if (!dragged) return;
+              e.preventDefault();
+              setDropTarget(widget.id);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={() => handleDrop(widget.id)}
+          >
+            {editing && (
+              <div className="flex items-center gap-1 mb-2">
+                <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab shrink-0" aria-hidden />
+                <span className="text-sm font-medium truncate flex-1">{definition.label}</span>
+                {definition.sizes.length > 1 && (
+                  <Select
+                    value={widget.size}
+                    onValueChange={(size) => onChange(resizeWidget(layout, widget.id, size as WidgetSize))}
+                  >
+                    <SelectTrigger className="h-8 w-32" aria-label="Tamanho">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {definition.sizes.map((size) => (
+                        <SelectItem key={size} value={size}>{widgetSizeLabels[size]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === 0}
+                  onClick={() => onChange(shiftWidget(layout, widget.id, -1))}
+                  aria-label="Mover para trás"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === layout.widgets.length - 1}
+                  onClick={() => onChange(shiftWidget(layout, widget.id, 1))}
+                  aria-label="Mover para frente"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                {definition.filters.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onConfigure(widget)}
+                    aria-label="Configurar"
+                  >
+                    <Settings2 className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => onChange(removeWidget(layout, widget.id))}
+                  aria-label="Remover"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+            {/* Drill-downs and links are off while arranging */}
+            <div className={editing ? 'pointer-events-none select-none' : 'h-full'}>
+              <WidgetContent widget={widget} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
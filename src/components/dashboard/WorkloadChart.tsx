@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarRange } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ChartCard } from '@/components/dashboard/ChartCard';
+import { useWorkload } from '@/hooks/use-dashboard';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { nextDays, taskListPath, workloadPeriods, workloadWeeks, type WorkloadWeek } from '@/lib/dashboard';
+import { addDays, todayISO } from '@/lib/dates';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+const chartConfig = {
+  imposto: { label: taskTypeLabels.imposto, color: 'hsl(var(--primary))' },
+  folha: { label: taskTypeLabels.folha, color: 'hsl(var(--accent))' },
+  declaracao: { label: taskTypeLabels.declaracao, color: 'hsl(var(--warning))' },
+  outro: { label: taskTypeLabels.outro, color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const taskTypes = Object.keys(taskTypeLabels) as TaskType[];
+
+const weekLabel = (week: string) => `${week.slice(8, 10)}/${week.slice(5, 7)}`;
+
+/** Tasks due per week over the coming days, stacked by task type. */
+export function WorkloadChart({ defaultPeriod = '90' }: { defaultPeriod?: string }) {
+  const navigate = useNavigate();
+  const today = todayISO(useTimeZone());
+  const [days, setDays] = useState(defaultPeriod);
+  const range = nextDays(today, Number(days));
+  const { data: rows = [] } = useWorkload(range);
+  const weeks = workloadWeeks(rows, range);
+
+  const openWeek = (week: WorkloadWeek, taskType: TaskType) =>
+    navigate(taskListPath({
+      taskType,
+      // The first and last weeks are cut to the range
+      from: week.week < range.start ? range.start : week.week,
+      to: addDays(week.week, 6) > range.end ? range.end : addDays(week.week, 6),
+    }));
+
+  return (
+    <ChartCard
+      title="Carga de trabalho"
+      description="Tarefas por semana de vencimento"
+      icon={CalendarRange}
+      periods={workloadPeriods}
+      period={days}
+      onPeriodChange={setDays}
+      empty={rows.length === 0 ? 'Nenhuma tarefa vence no período' : null}
+    >
+      <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+        <BarChart data={weeks} accessibilityLayer>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="week" tickFormatter={weekLabel} tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Semana de ${weekLabel(week)}`} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {taskTypes.map((taskType) => (
+            <Bar
+              key={taskType}
+              dataKey={taskType}
+              stackId="tasks"
+              fill={`var(--color-${taskType})`}
+              className="cursor-pointer"
+              onClick={(bar: { payload: WorkloadWeek }) => openWeek(bar.payload, taskType)}
+            />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
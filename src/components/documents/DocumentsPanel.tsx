@@ -0,0 +1,484 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Download,
+  Eye,
+  FileText,
+  History,
+  Loader2,
+  MoreVertical,
+  RefreshCw,
+  Tag,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { formatDate, formatDateTime } from '@/lib/dates';
+import {
+  deleteDocument,
+  documentTypeLabels,
+  formatFileSize,
+  getDocumentUrl,
+  previewKind,
+  replaceDocument,
+  updateDocumentTags,
+  uploadDocument,
+  type DocumentRecord,
+  type DocumentTags,
+  type DocumentType,
+  type DocumentVersion,
+} from '@/lib/files';
+import { can } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+interface DocumentsPanelProps {
+  /** Client the documents belong to; for task documents, the task's client. */
+  clientId?: string | null;
+  /** When set, only the task's documents are listed and uploads attach to it. */
+  taskId?: string;
+  /** Competência suggested for new uploads (`YYYY-MM-DD`). */
+  competencia?: string | null;
+}
+
+interface Preview {
+  document: DocumentRecord;
+  url: string;
+}
+
+// Month inputs use YYYY-MM; competência is stored as the first day of the month
+const toMonthInput = (competencia: string | null) => competencia?.slice(0, 7) ?? '';
+const fromMonthInput = (month: string) => (month ? `${month}-01` : null);
+
+export function DocumentsPanel({ clientId, taskId, competencia }: DocumentsPanelProps) {
+  const { organization, role } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimeZone();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const replaceInput = useRef<HTMLInputElement>(null);
+  const [documents, setDocuments] = useState<DocumentRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [documentType, setDocumentType] = useState<DocumentType>('outro');
+  const [month, setMonth] = useState(toMonthInput(competencia ?? null));
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [replacing, setReplacing] = useState<DocumentRecord | null>(null);
+  const [versions, setVersions] = useState<{ document: DocumentRecord; items: DocumentVersion[] } | null>(null);
+  const [tagging, setTagging] = useState<{ document: DocumentRecord; tags: DocumentTags } | null>(null);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [clientId, taskId]);
+
+  const fetchDocuments = async () => {
+    let query = supabase
+      .from('documents')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    query = taskId ? query.eq('task_id', taskId) : query.eq('client_id', clientId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching documents:', error);
+    } else {
+      setDocuments(data || []);
+    }
+    setLoading(false);
+  };
+
+  const showError = (description: string) =>
+    toast({
+      variant: 'destructive',
+      title: 'Erro',
+      description,
+    });
+
+  const handleUpload = async (files: FileList | File[]) => {
+    if (!organization || files.length === 0) return;
+
+    setUploading(true);
+    let uploaded = 0;
+    for (const file of Array.from(files)) {
+      const { error } = await uploadDocument(
+        { organizationId: organization.id, clientId, taskId },
+        file,
+        { document_type: documentType, competencia: fromMonthInput(month) },
+      );
+      if (error) {
+        console.error('Error uploading document:', error);
+        showError(`Erro ao enviar ${file.name}.`);
+      } else {
+        uploaded++;
+      }
+    }
+    setUploading(false);
+
+    if (uploaded > 0) {
+      toast({
+        title: 'Documentos enviados',
+        description: `${uploaded} arquivo(s) anexado(s).`,
+      });
+      fetchDocuments();
+    }
+  };
+
+  const handleReplace = async (file: File) => {
+    if (!replacing) return;
+
+    setUploading(true);
+    const { error } = await replaceDocument(replacing, file);
+    setUploading(false);
+    setReplacing(null);
+
+    if (error) {
+      console.error('Error replacing document:', error);
+      showError('Erro ao substituir o arquivo.');
+      return;
+    }
+    toast({
+      title: 'Nova versão enviada',
+      description: `${file.name} substituiu a versão ${replacing.version}.`,
+    });
+    fetchDocuments();
+  };
+
+  const openPreview = async (document: DocumentRecord) => {
+    const { data, error } = await getDocumentUrl(document.storage_path);
+    if (error || !data) {
+      showError('Erro ao abrir o arquivo.');
+      return;
+    }
+    setPreview({ document, url: data });
+  };
+
+  const download = async (path: string, name: string) => {
+    const { data, error } = await getDocumentUrl(path, name);
+    if (error || !data) {
+      showError('Erro ao baixar o arquivo.');
+      return;
+    }
+    window.location.assign(data);
+  };
+
+  const openVersions = async (document: DocumentRecord) => {
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', document.id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      showError('Erro ao carregar versões.');
+      return;
+    }
+    setVersions({ document, items: data || [] });
+  };
+
+  const saveTags = async () => {
+    if (!tagging) return;
+
+    const { error } = await updateDocumentTags(tagging.document.id, tagging.tags);
+    if (error) {
+      console.error('Error updating document:', error);
+      showError('Erro ao atualizar etiquetas.');
+      return;
+    }
+    setTagging(null);
+    fetchDocuments();
+  };
+
+  const handleDelete = async (document: DocumentRecord) => {
+    const { error } = await deleteDocument(document);
+    if (error) {
+      console.error('Error deleting document:', error);
+      showError('Erro ao excluir documento.');
+      return;
+    }
+    setDocuments(documents.filter((d) => d.id !== document.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Upload */}
+      <div className="space-y-4">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Tipo de documento</Label>
+            <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(documentTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-competencia">Competência</Label>
+            <Input
+              id="document-competencia"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => fileInput.current?.click()}
+          onKeyDown={(e) => e.key === 'Enter' && fileInput.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            handleUpload(e.dataTransfer.files);
+          }}
+          className={cn(
+            "rounded-lg border-2 border-dashed p-8 text-center cursor-pointer transition-colors",
+            dragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+          )}
+        >
+          {uploading ? (
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
+          ) : (
+            <Upload className="w-8 h-8 mx-auto text-muted-foreground" />
+          )}
+          <p className="mt-2 text-sm text-muted-foreground">
+            Arraste arquivos aqui ou clique para selecionar
+          </p>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleUpload(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <input
+          ref={replaceInput}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) handleReplace(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* Documents List */}
+      <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="p-12 text-center">
+            <FileText className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">Nenhum documento anexado</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-border/50">
+            {documents.map((document) => (
+              <div key={document.id} className="px-4 py-3 flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{document.name}</p>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      <span className="status-badge bg-primary/10 text-primary">{documentTypeLabels[document.document_type]}</span>
+                      {document.competencia && (
+                        <span className="status-badge bg-muted text-muted-foreground">
+                          {formatDate(document.competencia).slice(3)}
+                        </span>
+                      )}
+                      <span>v{document.version}</span>
+                      <span>•</span>
+                      <span>{formatFileSize(document.size_bytes)}</span>
+                      <span>•</span>
+                      <span>{formatDateTime(document.updated_at, timeZone)}</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {previewKind(document.mime_type) && (
+                    <Button variant="ghost" size="icon" onClick={() => openPreview(document)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon">
+                        <MoreVertical className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => download(document.storage_path, document.name)}>
+                        <Download className="w-4 h-4 mr-2" />
+                        Baixar
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => {
+                          setReplacing(document);
+                          replaceInput.current?.click();
+                        }}
+                      >
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Substituir arquivo
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openVersions(document)}>
+                        <History className="w-4 h-4 mr-2" />
+                        Versões
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setTagging({
+                          document,
+                          tags: { document_type: document.document_type, competencia: document.competencia },
+                        })}
+                      >
+                        <Tag className="w-4 h-4 mr-2" />
+                        Etiquetas
+                      </DropdownMenuItem>
+                      {can(role, 'delete_records') && (
+                        <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(document)}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Excluir
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Preview Dialog */}
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{preview?.document.name}</DialogTitle>
+          </DialogHeader>
+          {preview && (previewKind(preview.document.mime_type) === 'pdf' ? (
+            <iframe src={preview.url} title={preview.document.name} className="w-full h-[70vh] rounded-md border" />
+          ) : (
+            <img src={preview.url} alt={preview.document.name} className="max-h-[70vh] mx-auto rounded-md" />
+          ))}
+        </DialogContent>
+      </Dialog>
+
+      {/* Versions Dialog */}
+      <Dialog open={!!versions} onOpenChange={(open) => !open && setVersions(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Versões de {versions?.document.name}</DialogTitle>
+          </DialogHeader>
+          <div className="divide-y divide-border/50">
+            {versions?.items.map((version) => (
+              <div key={version.id} className="py-2 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    v{version.version} — {version.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(version.size_bytes)} • {formatDateTime(version.created_at, timeZone)}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => download(version.storage_path, version.name)}>
+                  <Download className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Tags Dialog */}
+      <Dialog open={!!tagging} onOpenChange={(open) => !open && setTagging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Etiquetas</DialogTitle>
+          </DialogHeader>
+          {tagging && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Tipo de documento</Label>
+                <Select
+                  value={tagging.tags.document_type}
+                  onValueChange={(value) => setTagging({
+                    ...tagging,
+                    tags: { ...tagging.tags, document_type: value as DocumentType },
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(documentTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tag-competencia">Competência</Label>
+                <Input
+                  id="tag-competencia"
+                  type="month"
+                  value={toMonthInput(tagging.tags.competencia)}
+                  onChange={(e) => setTagging({
+                    ...tagging,
+                    tags: { ...tagging.tags, competencia: fromMonthInput(e.target.value) },
+                  })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagging(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={saveTags}>Salvar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
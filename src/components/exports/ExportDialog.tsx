@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { exportFormatLabels, exportList, type ExportColumn, type ExportFormat } from '@/lib/exports';
+import { cn } from '@/lib/utils';
+
+interface ExportDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  columns: ExportColumn<T>[];
+  /** Rows as currently filtered on screen. */
+  rows: T[];
+}
+
+export function ExportDialog<T>({ open, onOpenChange, title, columns, rows }: ExportDialogProps<T>) {
+  const { organization } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimeZone();
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [selected, setSelected] = useState<string[]>(() => columns.map((column) => column.key));
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setSelected(checked ? [...selected, key] : selected.filter((k) => k !== key));
+
+  const handleExport = () => {
+    try {
+      exportList({
+        title,
+        organizationName: organization?.name ?? 'ContableMax',
+        columns: columns.filter((column) => selected.includes(column.key)),
+        rows,
+        format,
+        timeZone,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting list:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao gerar o arquivo.',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Exportar {title.toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            {rows.length} registro(s) com os filtros atuais.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Formato</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex gap-3"
+            >
+              {Object.entries(exportFormatLabels).map(([value, label]) => (
+                <Label
+                  key={value}
+                  htmlFor={`export-${value}`}
+                  className={cn(
+                    "flex items-center gap-2 p-3 rounded-lg border-2 cursor-pointer transition-all flex-1",
+                    format === value ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                  )}
+                >
+                  <RadioGroupItem value={value} id={`export-${value}`} />
+                  <span className="text-sm font-medium">{label}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Colunas</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={selected.length === 0 || rows.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
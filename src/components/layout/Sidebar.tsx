@@ -3,6 +3,11 @@ import {
   LayoutDashboard, 
   Users, 
   CheckSquare, 
+  Table2,
+  FileStack,
+  CalendarDays,
+  GitBranch,
+  Building2,
   UserCircle, 
   LogOut,
   Calculator,
@@ -11,6 +16,15 @@ import {
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { roleLabels } from '@/lib/permissions';
+import { NotificationsMenu } from '@/components/notifications/NotificationsMenu';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
 
@@ -18,11 +32,16 @@ const menuItems = [
   { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
   { icon: Users, label: 'Clientes', path: '/clients' },
   { icon: CheckSquare, label: 'Tarefas', path: '/tasks' },
+  { icon: Table2, label: 'Fechamento', path: '/closing' },
+  { icon: FileStack, label: 'Modelos', path: '/templates' },
+  { icon: CalendarDays, label: 'Feriados', path: '/holidays' },
+  { icon: GitBranch, label: 'Fluxo de trabalho', path: '/workflow' },
+  { icon: Building2, label: 'Equipe', path: '/team' },
   { icon: UserCircle, label: 'Perfil', path: '/profile' },
 ];
 
 export function Sidebar() {
-  const { signOut, profile } = useAuth();
+  const { signOut, profile, memberships, organization, role, switchOrganization } = useAuth();
   const location = useLocation();
   const [collapsed, setCollapsed] = useState(false);
 
@@ -55,6 +74,23 @@ export function Sidebar() {
           <p className="text-xs text-sidebar-foreground/60 capitalize">
             {profile.account_type === 'escritorio' ? 'Escritório Contábil' : 'Contador'}
           </p>
+          {organization && (memberships.length > 1 ? (
+            <Select value={organization.id} onValueChange={switchOrganization}>
+              <SelectTrigger className="mt-3 h-8 bg-sidebar-accent/50 border-sidebar-border text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {memberships.map((m) => (
+                  <SelectItem key={m.organization.id} value={m.organization.id}>
+                    {m.organization.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="mt-3 text-xs font-medium truncate">{organization.name}</p>
+          ))}
+          {role && <p className="text-xs text-sidebar-foreground/60">{roleLabels[role]}</p>}
         </div>
       )}
 
@@ -78,6 +114,7 @@ export function Sidebar() {
             </NavLink>
           );
         })}
+        <NotificationsMenu collapsed={collapsed} />
       </nav>
 
       {/* Collapse Button */}
@@ -0,0 +1,53 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+import type { PageCursor, PageDirection } from '@/lib/pagination';
+
+interface ListPaginationProps {
+  hasPrevious: boolean;
+  hasNext: boolean;
+  /** Cursors of the first and last rows shown. */
+  first: PageCursor | null;
+  last: PageCursor | null;
+  pageSearch: (direction: PageDirection, cursor: PageCursor) => string;
+  onNavigate: (direction: PageDirection, cursor: PageCursor) => void;
+}
+
+/** Previous/next links of a cursor-paginated list. */
+export function ListPagination({ hasPrevious, hasNext, first, last, pageSearch, onNavigate }: ListPaginationProps) {
+  if (!hasPrevious && !hasNext) return null;
+
+  const link = (direction: PageDirection, cursor: PageCursor | null, enabled: boolean, className: string) => ({
+    href: enabled && cursor ? pageSearch(direction, cursor) : undefined,
+    'aria-disabled': !enabled,
+    className: cn(className, !enabled && 'pointer-events-none opacity-50'),
+    onClick: (event: React.MouseEvent) => {
+      event.preventDefault();
+      if (enabled && cursor) onNavigate(direction, cursor);
+    },
+  });
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink size="default" {...link('before', first, hasPrevious, 'gap-1 pl-2.5')}>
+            <ChevronLeft className="h-4 w-4" />
+            <span>Anterior</span>
+          </PaginationLink>
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationLink size="default" {...link('after', last, hasNext, 'gap-1 pr-2.5')}>
+            <span>Próxima</span>
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+const SEARCH_DELAY_MS = 300;
+
+interface SearchInputProps {
+  value: string;
+  onSearch: (value: string) => void;
+  placeholder: string;
+  className?: string;
+}
+
+/** Search box that reports the query once the user stops typing. */
+export function SearchInput({ value, onSearch, placeholder, className }: SearchInputProps) {
+  const [input, setInput] = useState(value);
+
+  useEffect(() => {
+    // Back/forward navigation changes the query from outside
+    setInput((current) => (current.trim() === value ? current : value));
+  }, [value]);
+
+  useEffect(() => {
+    if (input.trim() === value) return;
+    const timeout = setTimeout(() => onSearch(input.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  return (
+    <div className={cn("relative max-w-md", className)}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        placeholder={placeholder}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        className="pl-10"
+      />
+    </div>
+  );
+}
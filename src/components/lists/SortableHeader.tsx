@@ -0,0 +1,31 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SortableHeaderProps {
+  label: string;
+  active: boolean;
+  ascending: boolean;
+  onClick: () => void;
+  className?: string;
+}
+
+/** Column header that sorts the list by its column. */
+export function SortableHeader({ label, active, ascending, onClick, className }: SortableHeaderProps) {
+  const Icon = !active ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "inline-flex items-center gap-1 uppercase tracking-wider hover:text-foreground transition-colors",
+        active && "text-foreground",
+        className,
+      )}
+      aria-sort={active ? (ascending ? 'ascending' : 'descending') : undefined}
+    >
+      {label}
+      <Icon className="w-3 h-3" />
+    </button>
+  );
+}
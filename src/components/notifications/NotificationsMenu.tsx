@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { formatDateTime } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+interface Notification {
+  id: string;
+  task_id: string | null;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationsMenuProps {
+  collapsed: boolean;
+}
+
+export function NotificationsMenu({ collapsed }: NotificationsMenuProps) {
+  const { user, organization } = useAuth();
+  const navigate = useNavigate();
+  const timeZone = useTimeZone();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user || !organization) return;
+
+    fetchNotifications();
+
+    // New notifications arrive live while the app is open
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => fetchNotifications(),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, organization]);
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, task_id, title, body, read_at, created_at')
+      .eq('organization_id', organization.id)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications(data || []);
+  };
+
+  const markAsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) => (ids.includes(notification.id) ? { ...notification, read_at: readAt } : notification)),
+    );
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) console.error('Error updating notifications:', error);
+  };
+
+  const openNotification = (notification: Notification) => {
+    markAsRead(notification.read_at ? [] : [notification.id]);
+    setOpen(false);
+    if (notification.task_id) {
+      navigate(`/tasks/${notification.task_id}/edit`);
+    }
+  };
+
+  const unread = notifications.filter((notification) => !notification.read_at);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "relative flex w-full items-center gap-3 px-3 py-2.5 rounded-lg transition-all duration-200",
+            "hover:bg-sidebar-accent/50 text-sidebar-foreground/80 hover:text-sidebar-foreground"
+          )}
+        >
+          <Bell className="w-5 h-5 flex-shrink-0" />
+          {!collapsed && <span className="text-sm font-medium">Notificações</span>}
+          {unread.length > 0 && (
+            <span
+              className={cn(
+                "min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center",
+                collapsed ? "absolute -top-1 -right-1" : "ml-auto"
+              )}
+            >
+              {unread.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80 p-0">
+        <div className="p-3 border-b border-border/50 flex items-center justify-between">
+          <p className="font-semibold text-sm">Notificações</p>
+          {unread.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => markAsRead(unread.map((n) => n.id))}>
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Marcar como lidas
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-6 text-sm text-center text-muted-foreground">Nenhuma notificação</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="divide-y divide-border/50">
+              {notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "w-full text-left p-3 hover:bg-muted/50 transition-colors",
+                    !notification.read_at && "bg-primary/5"
+                  )}
+                >
+                  <p className={cn("text-sm", !notification.read_at && "font-medium")}>{notification.title}</p>
+                  {notification.body && (
+                    <p className="text-sm text-muted-foreground truncate">{notification.body}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDateTime(notification.created_at, timeZone)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
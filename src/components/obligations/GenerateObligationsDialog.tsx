@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Loader2, CalendarPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateTasks } from '@/hooks/use-tasks';
+import { useAuth } from '@/contexts/AuthContext';
+import { useHolidayCalendar } from '@/hooks/use-holiday-calendar';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { currentMonthISO, formatDate } from '@/lib/dates';
+import { buildObligationTasks, taxRegimeLabels } from '@/lib/obligations';
+import { generateObligations, type ObligationClient } from '@/lib/generateObligations';
+
+interface GenerateObligationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clients: ObligationClient[];
+  onGenerated?: () => void;
+}
+
+export function GenerateObligationsDialog({ open, onOpenChange, clients, onGenerated }: GenerateObligationsDialogProps) {
+  const { user, organization } = useAuth();
+  const { toast } = useToast();
+  const invalidateTasks = useInvalidateTasks();
+  const timeZone = useTimeZone();
+  const [month, setMonth] = useState(() => currentMonthISO(timeZone));
+  const [loading, setLoading] = useState(false);
+  const calendar = useHolidayCalendar();
+
+  const withRegime = clients.filter((client) => client.tax_regime);
+  const withoutRegime = clients.length - withRegime.length;
+  const single = clients.length === 1 ? clients[0] : null;
+  const preview = single?.tax_regime && month ? buildObligationTasks(single.tax_regime, month, calendar) : [];
+
+  const handleGenerate = async () => {
+    if (!user || !organization || !month) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await generateObligations(
+        { user_id: user.id, organization_id: organization.id },
+        withRegime,
+        month,
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: 'Obrigações geradas',
+        description: data.skipped > 0
+          ? `${data.created} tarefa(s) criada(s); ${data.skipped} já existiam.`
+          : `${data.created} tarefa(s) criada(s).`,
+      });
+
+      invalidateTasks();
+      onGenerated?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error generating obligations:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao gerar obrigações.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Gerar obrigações</DialogTitle>
+          <DialogDescription>
+            {single
+              ? `Cria as tarefas das obrigações fiscais de ${single.name} para a competência escolhida.`
+              : `Cria as tarefas das obrigações fiscais de ${withRegime.length} cliente(s) para a competência escolhida.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="competencia">Competência</Label>
+            <Input
+              id="competencia"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+
+          {single && !single.tax_regime && (
+            <p className="text-sm text-destructive">
+              Este cliente não tem regime tributário definido. Edite o cadastro para gerar obrigações.
+            </p>
+          )}
+
+          {!single && withoutRegime > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {withoutRegime} cliente(s) sem regime tributário serão ignorados.
+            </p>
+          )}
+
+          {preview.length > 0 && (
+            <div className="rounded-lg border border-border/50 divide-y divide-border/50">
+              <p className="px-4 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                {taxRegimeLabels[single.tax_regime]}
+              </p>
+              {preview.map((task) => (
+                <div key={task.obligation.code} className="px-4 py-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{task.title}</span>
+                    <span className="text-muted-foreground">{formatDate(task.due_date)}</span>
+                  </div>
+                  {task.adjustment_reason && (
+                    <p className="text-xs text-muted-foreground mt-1">{task.adjustment_reason}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleGenerate} disabled={loading || !month || withRegime.length === 0}>
+            {loading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarPlus className="w-4 h-4 mr-2" />
+            )}
+            Gerar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { CalendarClock, CheckCircle2, ChevronDown, RotateCcw, Tag, Trash2, UserRound, Building2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { fetchAllClients } from '@/lib/api';
+import { pluralizeTasks, type BulkTaskChanges } from '@/lib/bulkTasks';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+const NO_CLIENT = 'none';
+
+type BulkDialog = 'reopen' | 'due_date' | 'client' | 'delete';
+
+interface BulkTaskBarProps {
+  count: number;
+  canDelete: boolean;
+  onUpdate: (changes: BulkTaskChanges, comment?: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+/** Actions on the selected tasks of the list view. */
+export function BulkTaskBar({ count, canDelete, onUpdate, onDelete, onClear }: BulkTaskBarProps) {
+  const { organization } = useAuth();
+  const members = useOrganizationMembers();
+  const [dialog, setDialog] = useState<BulkDialog | null>(null);
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [comment, setComment] = useState('');
+  const [dueMode, setDueMode] = useState<'date' | 'shift'>('date');
+  const [dueDate, setDueDate] = useState('');
+  const [shiftDays, setShiftDays] = useState('');
+  const [clientId, setClientId] = useState(NO_CLIENT);
+
+  useEffect(() => {
+    if (dialog !== 'client' || !organization || clients.length > 0) return;
+
+    fetchAllClients(organization.id)
+      .then(setClients)
+      .catch((error) => console.error('Error fetching clients:', error));
+  }, [dialog, organization]);
+
+  const openDialog = (next: BulkDialog) => {
+    setComment('');
+    setDueDate('');
+    setShiftDays('');
+    setClientId(NO_CLIENT);
+    setDialog(next);
+  };
+
+  const apply = (changes: BulkTaskChanges, statusComment?: string) => {
+    onUpdate(changes, statusComment);
+    setDialog(null);
+  };
+
+  const shift = Number.parseInt(shiftDays, 10);
+  const dueValid = dueMode === 'date' ? !!dueDate : Number.isInteger(shift) && shift !== 0;
+
+  return (
+    <>
+      <div className="sticky top-4 z-10 flex flex-wrap items-center gap-2 rounded-xl border border-primary/30 bg-card p-3 shadow-md">
+        <span className="text-sm font-medium mr-2">
+          {count === 1 ? '1 tarefa selecionada' : `${count} tarefas selecionadas`}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onUpdate({ status: 'concluida' })}>
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          Concluir
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openDialog('reopen')}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reabrir
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openDialog('due_date')}>
+          <CalendarClock className="w-4 h-4 mr-2" />
+          Vencimento
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Tag className="w-4 h-4 mr-2" />
+              Tipo
+              <ChevronDown className="w-3.5 h-3.5 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {(Object.entries(taskTypeLabels) as [TaskType, string][]).map(([type, label]) => (
+              <DropdownMenuItem key={type} onClick={() => onUpdate({ task_type: type })}>
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" onClick={() => openDialog('client')}>
+          <Building2 className="w-4 h-4 mr-2" />
+          Cliente
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <UserRound className="w-4 h-4 mr-2" />
+              Responsável
+              <ChevronDown className="w-3.5 h-3.5 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="max-h-72 overflow-y-auto">
+            {members.map((member) => (
+              <DropdownMenuItem key={member.user_id} onClick={() => onUpdate({ assignee_id: member.user_id })}>
+                {member.name}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onUpdate({ assignee_id: null })}>
+              Sem responsável
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {canDelete && (
+          <Button variant="outline" size="sm" className="text-destructive" onClick={() => openDialog('delete')}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Excluir
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+          <X className="w-4 h-4 mr-2" />
+          Limpar seleção
+        </Button>
+      </div>
+
+      {/* Reopen Dialog */}
+      <Dialog open={dialog === 'reopen'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reabrir tarefas</DialogTitle>
+            <DialogDescription>
+              As tarefas concluídas da seleção voltam para "Pendente".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-comment">Comentário</Label>
+            <Textarea
+              id="bulk-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Explique o motivo da mudança"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              Obrigatório se o fluxo de trabalho exigir um comentário para reabrir.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={() => apply({ status: 'pendente' }, comment)}>
+              Reabrir
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Due Date Dialog */}
+      <Dialog open={dialog === 'due_date'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Alterar vencimento</DialogTitle>
+            <DialogDescription>{pluralizeTasks(count)}</DialogDescription>
+          </DialogHeader>
+          <Tabs value={dueMode} onValueChange={(value) => setDueMode(value as 'date' | 'shift')}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="date">Nova data</TabsTrigger>
+              <TabsTrigger value="shift">Mover por dias</TabsTrigger>
+            </TabsList>
+            <TabsContent value="date" className="space-y-2 pt-2">
+              <Label htmlFor="bulk-due-date">Vencimento</Label>
+              <Input id="bulk-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </TabsContent>
+            <TabsContent value="shift" className="space-y-2 pt-2">
+              <Label htmlFor="bulk-shift-days">Dias</Label>
+              <Input
+                id="bulk-shift-days"
+                type="number"
+                value={shiftDays}
+                onChange={(e) => setShiftDays(e.target.value)}
+                placeholder="Ex.: 5 para adiar, -2 para antecipar"
+              />
+            </TabsContent>
+          </Tabs>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={!dueValid}
+              onClick={() => apply(dueMode === 'date' ? { due_date: dueDate } : { shift_days: shift })}
+            >
+              Alterar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Client Dialog */}
+      <Dialog open={dialog === 'client'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Vincular cliente</DialogTitle>
+            <DialogDescription>{pluralizeTasks(count)}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Cliente</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CLIENT}>Sem cliente</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={() => apply({ client_id: clientId === NO_CLIENT ? null : clientId })}>
+              Vincular
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={dialog === 'delete'} onOpenChange={(open) => !open && setDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir {pluralizeTasks(count)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As tarefas selecionadas, seus checklists e históricos serão removidos. Você poderá desfazer logo em seguida.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={onDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+import { Progress } from '@/components/ui/progress';
+import { checklistProgress } from '@/lib/checklists';
+import { cn } from '@/lib/utils';
+
+interface ChecklistProgressBarProps {
+  items: { done: boolean }[];
+  className?: string;
+}
+
+/** Compact checklist progress for task rows and cards; hidden without items. */
+export function ChecklistProgressBar({ items, className }: ChecklistProgressBarProps) {
+  const progress = checklistProgress(items);
+  if (progress.total === 0) return null;
+
+  return (
+    <div className={cn("flex items-center gap-2", className)} title={`Checklist: ${progress.done} de ${progress.total}`}>
+      <Progress value={progress.percent} className="h-1.5" />
+      <span className="text-xs text-muted-foreground shrink-0">
+        {progress.done}/{progress.total}
+      </span>
+    </div>
+  );
+}
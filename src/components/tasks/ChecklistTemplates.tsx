@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { ListChecks, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { parseTemplateItems, type ChecklistTemplate } from '@/lib/checklists';
+import { can } from '@/lib/permissions';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+interface TemplateDraft {
+  id: string | null;
+  name: string;
+  task_type: TaskType;
+  items: string;
+  auto_apply: boolean;
+}
+
+const emptyDraft: TemplateDraft = { id: null, name: '', task_type: 'outro', items: '', auto_apply: false };
+
+/** Reusable checklists per task type, managed by owners and admins. */
+export function ChecklistTemplates() {
+  const { organization, role } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can(role, 'manage_workflow');
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    if (!organization) return;
+
+    const { data, error } = await supabase
+      .from('checklist_templates')
+      .select('*')
+      .eq('organization_id', organization.id)
+      .order('task_type')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching checklist templates:', error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  const showError = (description: string) =>
+    toast({
+      variant: 'destructive',
+      title: 'Erro',
+      description,
+    });
+
+  const handleSave = async () => {
+    if (!organization || !draft) return;
+
+    setSaving(true);
+    try {
+      const row = {
+        name: draft.name.trim(),
+        task_type: draft.task_type,
+        items: parseTemplateItems(draft.items),
+        auto_apply: draft.auto_apply,
+      };
+      const { error } = draft.id
+        ? await supabase.from('checklist_templates').update(row).eq('id', draft.id)
+        : await supabase.from('checklist_templates').insert({ ...row, organization_id: organization.id });
+
+      if (error) throw error;
+      setDraft(null);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error saving checklist template:', error);
+      showError('Erro ao salvar modelo de checklist.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleAutoApply = async (template: ChecklistTemplate, autoApply: boolean) => {
+    const { error } = await supabase
+      .from('checklist_templates')
+      .update({ auto_apply: autoApply })
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error saving checklist template:', error);
+      showError('Erro ao salvar modelo de checklist.');
+      return;
+    }
+    fetchTemplates();
+  };
+
+  const handleDelete = async (template: ChecklistTemplate) => {
+    const { error } = await supabase
+      .from('checklist_templates')
+      .delete()
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error deleting checklist template:', error);
+      showError('Erro ao excluir modelo de checklist.');
+      return;
+    }
+    fetchTemplates();
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+      <div className="p-4 border-b border-border/50 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold">Modelos de checklist</h2>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => setDraft(emptyDraft)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo modelo
+          </Button>
+        )}
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="p-8 text-center text-sm text-muted-foreground">Nenhum modelo de checklist cadastrado</p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {templates.map((template) => (
+            <div key={template.id} className="px-4 py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium">{template.name}</p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {taskTypeLabels[template.task_type]} • {template.items.length} itens: {template.items.join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <Label htmlFor={`auto-apply-${template.id}`} className="text-xs text-muted-foreground">
+                  Aplicar em novas tarefas
+                </Label>
+                <Switch
+                  id={`auto-apply-${template.id}`}
+                  checked={template.auto_apply}
+                  disabled={!canManage}
+                  onCheckedChange={(checked) => toggleAutoApply(template, checked)}
+                />
+                {canManage && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft({ ...template, items: template.items.join('\n') })}
+                      aria-label="Editar modelo"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(template)} aria-label="Excluir modelo">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Template Dialog */}
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Editar modelo' : 'Novo modelo de checklist'}</DialogTitle>
+            <DialogDescription>Um item por linha, na ordem em que devem ser feitos.</DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Nome *</Label>
+                  <Input
+                    id="template-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Fechamento mensal"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Tipo de tarefa</Label>
+                  <Select
+                    value={draft.task_type}
+                    onValueChange={(value) => setDraft({ ...draft, task_type: value as TaskType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(taskTypeLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-items">Itens *</Label>
+                <Textarea
+                  id="template-items"
+                  value={draft.items}
+                  onChange={(e) => setDraft({ ...draft, items: e.target.value })}
+                  placeholder={'Importar NF-e\nConciliação bancária\nApurar impostos\nEmitir guias\nEnviar ao cliente'}
+                  rows={6}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="template-auto-apply">Aplicar automaticamente em novas tarefas deste tipo</Label>
+                <Switch
+                  id="template-auto-apply"
+                  checked={draft.auto_apply}
+                  onCheckedChange={(checked) => setDraft({ ...draft, auto_apply: checked })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !draft?.name.trim() || parseTemplateItems(draft?.items ?? '').length === 0}
+            >
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
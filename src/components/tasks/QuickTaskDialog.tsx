@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateTasks } from '@/hooks/use-tasks';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllClients } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useHolidayCalendar } from '@/hooks/use-holiday-calendar';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { formatDate } from '@/lib/dates';
+import { nonBusinessDayReason } from '@/lib/holidays';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+const NO_CLIENT = 'none';
+
+interface QuickTaskDialogProps {
+  /** Due date of the new task; the dialog is open while it is set. */
+  date: string | null;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+export function QuickTaskDialog({ date, onOpenChange, onCreated }: QuickTaskDialogProps) {
+  const { user, organization } = useAuth();
+  const { toast } = useToast();
+  const invalidateTasks = useInvalidateTasks();
+  const members = useOrganizationMembers();
+  const calendar = useHolidayCalendar();
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [title, setTitle] = useState('');
+  const [taskType, setTaskType] = useState<TaskType>('outro');
+  const [dueDate, setDueDate] = useState('');
+  const [clientId, setClientId] = useState(NO_CLIENT);
+  const [assigneeId, setAssigneeId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!date) return;
+
+    setTitle('');
+    setTaskType('outro');
+    setDueDate(date);
+    setClientId(NO_CLIENT);
+    setAssigneeId(user?.id ?? '');
+    if (clients.length === 0) fetchClients();
+  }, [date]);
+
+  const fetchClients = async () => {
+    try {
+      setClients(await fetchAllClients(organization.id));
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!user || !organization) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.from('tasks').insert({
+        title: title.trim(),
+        task_type: taskType,
+        due_date: dueDate,
+        client_id: clientId === NO_CLIENT ? null : clientId,
+        assignee_id: assigneeId || user.id,
+        user_id: user.id,
+        organization_id: organization.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Tarefa criada',
+        description: `${title.trim()} — vencimento em ${formatDate(dueDate)}.`,
+      });
+      invalidateTasks();
+      onCreated?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating task:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao criar tarefa.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const nonBusinessDay = dueDate ? nonBusinessDayReason(calendar, dueDate) : null;
+
+  return (
+    <Dialog open={!!date} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Nova tarefa</DialogTitle>
+          <DialogDescription>
+            Cadastro rápido. Use o formulário completo para descrição, revisor e recorrência.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="quick-title">Título *</Label>
+            <Input
+              id="quick-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Ex: DAS - Competência 03/2026"
+              autoFocus
+            />
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={taskType} onValueChange={(value) => setTaskType(value as TaskType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(taskTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quick-due-date">Vencimento *</Label>
+              <Input
+                id="quick-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {nonBusinessDay && (
+            <p className="text-sm text-warning">{formatDate(dueDate)} cai em {nonBusinessDay}.</p>
+          )}
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Cliente</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CLIENT}>Sem cliente</SelectItem>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Responsável</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleCreate} disabled={loading || title.trim().length < 3 || !dueDate}>
+            {loading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Criar tarefa
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import type { StatusChange, StatusChangeTask } from '@/hooks/use-task-status-change';
+import { taskStatusLabels } from '@/lib/tasks';
+import { transitionFieldLabels, type TransitionValues } from '@/lib/workflow';
+
+interface StatusChangeDialogProps<T extends StatusChangeTask> {
+  /** Pending change; the dialog is open while it is set. */
+  change: StatusChange<T> | null;
+  onConfirm: (values: TransitionValues) => void;
+  onCancel: () => void;
+}
+
+/** Collects the fields a workflow transition requires before applying it. */
+export function StatusChangeDialog<T extends StatusChangeTask>({ change, onConfirm, onCancel }: StatusChangeDialogProps<T>) {
+  const members = useOrganizationMembers();
+  const [values, setValues] = useState<TransitionValues>({});
+
+  useEffect(() => {
+    if (change) setValues({});
+  }, [change]);
+
+  const fields = change?.fields ?? [];
+  const setValue = (field: keyof TransitionValues, value: string) =>
+    setValues((current) => ({ ...current, [field]: value }));
+  const complete = fields.every((field) => values[field]?.trim());
+
+  return (
+    <Dialog open={!!change} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{change ? `Mover para "${taskStatusLabels[change.status]}"` : ''}</DialogTitle>
+          <DialogDescription>{change?.task.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fields.includes('receipt_number') && (
+            <div className="space-y-2">
+              <Label htmlFor="status-receipt">{transitionFieldLabels.receipt_number} *</Label>
+              <Input
+                id="status-receipt"
+                value={values.receipt_number ?? ''}
+                onChange={(e) => setValue('receipt_number', e.target.value)}
+                autoFocus
+              />
+            </div>
+          )}
+          {fields.includes('reviewer_id') && (
+            <div className="space-y-2">
+              <Label>{transitionFieldLabels.reviewer_id} *</Label>
+              <Select value={values.reviewer_id ?? ''} onValueChange={(value) => setValue('reviewer_id', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {fields.includes('comment') && (
+            <div className="space-y-2">
+              <Label htmlFor="status-comment">{transitionFieldLabels.comment} *</Label>
+              <Textarea
+                id="status-comment"
+                value={values.comment ?? ''}
+                onChange={(e) => setValue('comment', e.target.value)}
+                placeholder="Explique o motivo da mudança"
+                rows={3}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button onClick={() => onConfirm(values)} disabled={!complete}>
+            Confirmar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, type DragEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Repeat } from 'lucide-react';
+import { ChecklistProgressBar } from '@/components/tasks/ChecklistProgressBar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { formatDate, todayISO } from '@/lib/dates';
+import { isOpenStatus, taskStatusLabels, taskStatusOrder, taskTypeLabels, type TaskStatus, type TaskType } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+import { workflowStatus } from '@/lib/workflow';
+
+export interface BoardTask {
+  id: string;
+  title: string;
+  task_type: TaskType;
+  status: TaskStatus;
+  due_date: string;
+  client_id: string | null;
+  series_id: string | null;
+  assignee_id: string | null;
+  clients: { name: string } | null;
+  assignee: { name: string } | null;
+  task_checklist_items: { done: boolean }[];
+}
+
+type Swimlane = 'none' | 'client' | 'assignee';
+
+interface Lane {
+  key: string;
+  label: string;
+  tasks: BoardTask[];
+}
+
+// 'pendente' and 'atrasada' are split by the database from the due date, so
+// dropping a card on either column moves it to 'pendente'.
+const columns = taskStatusOrder.map((status) => ({ status, target: workflowStatus(status) }));
+
+const columnAccents: Record<TaskStatus, string> = {
+  pendente: 'border-t-warning',
+  atrasada: 'border-t-destructive',
+  em_andamento: 'border-t-primary',
+  aguardando_cliente: 'border-t-muted-foreground',
+  em_revisao: 'border-t-accent',
+  transmitida: 'border-t-success/60',
+  concluida: 'border-t-success',
+};
+
+const columnsGrid = "grid grid-cols-[repeat(7,minmax(15rem,1fr))] gap-4";
+
+const buildLanes = (tasks: BoardTask[], swimlane: Swimlane): Lane[] => {
+  if (swimlane === 'none') return [{ key: 'all', label: '', tasks }];
+
+  const lanes = new Map<string, Lane>();
+  for (const task of tasks) {
+    const key = (swimlane === 'client' ? task.client_id : task.assignee_id) ?? 'none';
+    const label = swimlane === 'client'
+      ? task.clients?.name ?? 'Sem cliente'
+      : task.assignee?.name ?? 'Sem responsável';
+    if (!lanes.has(key)) lanes.set(key, { key, label, tasks: [] });
+    lanes.get(key).tasks.push(task);
+  }
+
+  return [...lanes.values()].sort((a, b) =>
+    a.key === 'none' ? 1 : b.key === 'none' ? -1 : a.label.localeCompare(b.label, 'pt-BR'),
+  );
+};
+
+function DueDateBadge({ task, today }: { task: BoardTask; today: string }) {
+  const className = task.status === 'atrasada'
+    ? 'status-atrasada'
+    : isOpenStatus(task.status) && task.due_date === today
+      ? 'bg-accent/15 text-accent'
+      : 'bg-muted text-muted-foreground';
+
+  return (
+    <span className={cn('status-badge', className)}>
+      {task.due_date === today ? 'Hoje' : formatDate(task.due_date)}
+    </span>
+  );
+}
+
+interface TaskBoardProps {
+  tasks: BoardTask[];
+  onMove: (task: BoardTask, status: TaskStatus) => void;
+}
+
+export function TaskBoard({ tasks, onMove }: TaskBoardProps) {
+  const timeZone = useTimeZone();
+  const today = todayISO(timeZone);
+  const [swimlane, setSwimlane] = useState<Swimlane>('none');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const lanes = buildLanes(tasks, swimlane);
+
+  const handleDrop = (event: DragEvent, target: TaskStatus) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find((t) => t.id === event.dataTransfer.getData('text/plain'));
+    if (!task) return;
+
+    if (workflowStatus(task.status) !== target) onMove(task, target);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Agrupar por:</span>
+        <Select value={swimlane} onValueChange={(value) => setSwimlane(value as Swimlane)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Sem agrupamento</SelectItem>
+            <SelectItem value="client">Cliente</SelectItem>
+            <SelectItem value="assignee">Responsável</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto pb-2 space-y-4">
+        {/* Column Headers */}
+        <div className={columnsGrid}>
+          {columns.map(({ status }) => (
+            <div key={status} className={cn("bg-card rounded-lg border border-border/50 border-t-4 px-4 py-2", columnAccents[status])}>
+              <span className="font-semibold">{taskStatusLabels[status]}</span>
+              <span className="ml-2 text-sm text-muted-foreground">
+                {tasks.filter((task) => task.status === status).length}
+              </span>
+            </div>
+          ))}
+        </div>
+  
+        {lanes.map((lane) => (
+          <div key={lane.key} className="space-y-2">
+            {lane.label && (
+              <h3 className="text-sm font-semibold text-muted-foreground">
+                {lane.label} <span className="font-normal">({lane.tasks.length})</span>
+              </h3>
+            )}
+            <div className={columnsGrid}>
+              {columns.map(({ status, target }) => {
+                const cellKey = `${lane.key}:${status}`;
+                return (
+                  <div
+                    key={status}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTarget(cellKey);
+                    }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => handleDrop(e, target)}
+                    className={cn(
+                      "min-h-24 rounded-lg bg-muted/30 p-2 space-y-2 transition-colors",
+                      dropTarget === cellKey && "bg-primary/10 ring-2 ring-primary"
+                    )}
+                  >
+                    {lane.tasks
+                      .filter((task) => task.status === status)
+                      .map((task) => (
+                        <Link
+                          key={task.id}
+                          to={`/tasks/${task.id}/edit`}
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData('text/plain', task.id)}
+                          className={cn(
+                            "block bg-card rounded-lg border border-border/50 p-3 space-y-2 hover:shadow-md transition-all cursor-grab",
+                            task.status === 'concluida' && "opacity-75"
+                          )}
+                        >
+                          <p className={cn("font-medium text-sm", task.status === 'concluida' && "line-through")}>
+                            {task.title}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="status-badge bg-primary/10 text-primary">{taskTypeLabels[task.task_type]}</span>
+                            <DueDateBadge task={task} today={today} />
+                            {task.series_id && (
+                              <Repeat className="w-3.5 h-3.5 text-muted-foreground" aria-label="Tarefa recorrente" />
+                            )}
+                          </div>
+                          <ChecklistProgressBar items={task.task_checklist_items} />
+                          {(task.clients || task.assignee) && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              {[swimlane !== 'client' && task.clients?.name, swimlane !== 'assignee' && task.assignee?.name]
+                                .filter(Boolean)
+                                .join(' • ')}
+                            </p>
+                          )}
+                        </Link>
+                      ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
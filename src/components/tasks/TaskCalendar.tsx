@@ -0,0 +1,333 @@
+import { createContext, useContext, useMemo, useState, type DragEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { ptBR } from 'date-fns/locale';
+import { CalendarDays, ChevronLeft, ChevronRight, List, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TaskStatusBadge } from '@/components/tasks/TaskStatusBadge';
+import { useHolidayCalendar } from '@/hooks/use-holiday-calendar';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { addDays, addMonths, formatDate, fromLocalDate, parseISODate, startOfWeek, toLocalDate, todayISO } from '@/lib/dates';
+import { monthLabels } from '@/lib/recurrence';
+import { taskStatusLabels, taskTypeLabels, type TaskStatus, type TaskType } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  task_type: TaskType;
+  status: TaskStatus;
+  due_date: string;
+  completed_at: string | null;
+  clients: { name: string } | null;
+}
+
+type CalendarMode = 'month' | 'week' | 'agenda';
+
+const AGENDA_DAYS = 28;
+const MONTH_CELL_LIMIT = 3;
+
+const weekdayLabels = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const typeColors: Record<TaskType, string> = {
+  imposto: 'border-l-primary bg-primary/10',
+  folha: 'border-l-accent bg-accent/10',
+  declaracao: 'border-l-warning bg-warning/10',
+  outro: 'border-l-muted-foreground bg-muted',
+};
+
+const statusClasses: Record<TaskStatus, string> = {
+  pendente: '',
+  em_andamento: '',
+  aguardando_cliente: 'opacity-80',
+  em_revisao: '',
+  transmitida: 'opacity-80',
+  concluida: 'opacity-60 line-through',
+  atrasada: 'ring-1 ring-destructive',
+};
+
+interface CalendarContextValue {
+  tasksByDate: Map<string, CalendarTask[]>;
+  today: string;
+  dropTarget: string | null;
+  setDropTarget: (date: string | null) => void;
+  onDrop: (event: DragEvent, date: string) => void;
+  onCreate: (date: string) => void;
+  showDay: (date: string) => void;
+}
+
+// Day cells are rendered by react-day-picker, so they read the view state from context
+const CalendarContext = createContext<CalendarContextValue>(null);
+
+function TaskChip({ task }: { task: CalendarTask }) {
+  return (
+    <Link
+      to={`/tasks/${task.id}/edit`}
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', task.id)}
+      onClick={(e) => e.stopPropagation()}
+      title={task.clients ? `${task.title} — ${task.clients.name}` : task.title}
+      className={cn(
+        "block truncate rounded border-l-2 px-1.5 py-0.5 text-xs hover:brightness-95 cursor-grab",
+        typeColors[task.task_type],
+        statusClasses[task.status]
+      )}
+    >
+      {task.title}
+    </Link>
+  );
+}
+
+interface DayCellProps {
+  date: string;
+  outside?: boolean;
+  limit?: number;
+  className?: string;
+}
+
+function DayCell({ date, outside, limit, className }: DayCellProps) {
+  const { tasksByDate, today, dropTarget, setDropTarget, onDrop, onCreate, showDay } = useContext(CalendarContext);
+  const holidays = useHolidayCalendar();
+  const tasks = tasksByDate.get(date) ?? [];
+  const visible = limit ? tasks.slice(0, limit) : tasks;
+  const holiday = holidays.holidayOn(date);
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => onCreate(date)}
+      onKeyDown={(e) => e.key === 'Enter' && onCreate(date)}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDropTarget(date);
+      }}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={(e) => onDrop(e, date)}
+      className={cn(
+        "group h-full p-1 space-y-1 text-left transition-colors cursor-pointer hover:bg-muted/40",
+        outside && "bg-muted/20 text-muted-foreground",
+        holiday && "bg-warning/5",
+        dropTarget === date && "bg-primary/10 ring-2 ring-inset ring-primary",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-1">
+        <span
+          className={cn(
+            "text-xs w-6 h-6 flex items-center justify-center rounded-full",
+            date === today && "bg-primary text-primary-foreground font-semibold"
+          )}
+        >
+          {parseISODate(date).day}
+        </span>
+        <Plus className="w-3.5 h-3.5 text-muted-foreground opacity-0 group-hover:opacity-100" />
+      </div>
+      {holiday && <p className="text-[10px] leading-tight text-warning truncate">{holiday.name}</p>}
+      {visible.map((task) => (
+        <TaskChip key={task.id} task={task} />
+      ))}
+      {tasks.length > visible.length && (
+        <button
+          className="text-xs text-muted-foreground hover:text-foreground"
+          onClick={(e) => {
+            e.stopPropagation();
+            showDay(date);
+          }}
+        >
+          +{tasks.length - visible.length} mais
+        </button>
+      )}
+    </div>
+  );
+}
+
+function MonthDay({ date, displayMonth }: { date: Date; displayMonth: Date }) {
+  return (
+    <DayCell
+      date={fromLocalDate(date)}
+      outside={date.getMonth() !== displayMonth.getMonth()}
+      limit={MONTH_CELL_LIMIT}
+      className="min-h-28"
+    />
+  );
+}
+
+interface TaskCalendarProps {
+  tasks: CalendarTask[];
+  onReschedule: (task: CalendarTask, date: string) => void;
+  onCreate: (date: string) => void;
+}
+
+export function TaskCalendar({ tasks, onReschedule, onCreate }: TaskCalendarProps) {
+  const timeZone = useTimeZone();
+  const today = todayISO(timeZone);
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const tasksByDate = useMemo(() => {
+    const byDate = new Map<string, CalendarTask[]>();
+    for (const task of tasks) {
+      byDate.set(task.due_date, [...(byDate.get(task.due_date) ?? []), task]);
+    }
+    return byDate;
+  }, [tasks]);
+
+  const weekStart = startOfWeek(anchor);
+  const { year, month } = parseISODate(anchor);
+
+  const navigate = (direction: 1 | -1) => {
+    if (mode === 'month') setAnchor(addMonths(anchor, direction));
+    if (mode === 'week') setAnchor(addDays(anchor, direction * 7));
+    if (mode === 'agenda') setAnchor(addDays(anchor, direction * AGENDA_DAYS));
+  };
+
+  const title = mode === 'month'
+    ? `${monthLabels[month - 1]} de ${year}`
+    : mode === 'week'
+      ? `${formatDate(weekStart)} – ${formatDate(addDays(weekStart, 6))}`
+      : `${formatDate(anchor)} – ${formatDate(addDays(anchor, AGENDA_DAYS - 1))}`;
+
+  const context: CalendarContextValue = {
+    tasksByDate,
+    today,
+    dropTarget,
+    setDropTarget,
+    onCreate,
+    showDay: (date) => {
+      setAnchor(date);
+      setMode('week');
+    },
+    onDrop: (event, date) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const task = tasks.find((t) => t.id === event.dataTransfer.getData('text/plain'));
+      if (task && task.due_date !== date) onReschedule(task, date);
+    },
+  };
+
+  const agendaDays = Array.from({ length: AGENDA_DAYS }, (_, i) => addDays(anchor, i))
+    .filter((date) => tasksByDate.has(date));
+
+  return (
+    <CalendarContext.Provider value={context}>
+      <div className="bg-card rounded-xl border border-border/50 p-4 space-y-4">
+        {/* Toolbar */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(today)}>
+              Hoje
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => navigate(1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h2 className="text-lg font-semibold ml-2">{title}</h2>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as CalendarMode)}
+          >
+            <ToggleGroupItem value="month" className="gap-2">
+              <CalendarDays className="w-4 h-4" />
+              Mês
+            </ToggleGroupItem>
+            <ToggleGroupItem value="week">Semana</ToggleGroupItem>
+            <ToggleGroupItem value="agenda" className="gap-2">
+              <List className="w-4 h-4" />
+              Agenda
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {/* Month */}
+        {mode === 'month' && (
+          <Calendar
+            month={toLocalDate(anchor)}
+            onMonthChange={(date) => setAnchor(fromLocalDate(date))}
+            locale={ptBR}
+            className="p-0"
+            classNames={{
+              months: "w-full",
+              month: "w-full",
+              table: "w-full border-collapse",
+              head_row: "flex",
+              head_cell: "flex-1 text-muted-foreground text-xs font-medium uppercase py-2",
+              row: "flex w-full",
+              cell: "flex-1 min-w-0 p-0 border border-border/50",
+            }}
+            components={{ Caption: () => null, Day: MonthDay }}
+          />
+        )}
+
+        {/* Week */}
+        {mode === 'week' && (
+          <div className="grid grid-cols-7 border border-border/50 rounded-lg overflow-hidden">
+            {weekdayLabels.map((label, index) => (
+              <div key={label} className="py-2 text-center text-xs font-medium uppercase text-muted-foreground bg-muted/50">
+                {label} {parseISODate(addDays(weekStart, index)).day}
+              </div>
+            ))}
+            {weekdayLabels.map((label, index) => (
+              <DayCell key={label} date={addDays(weekStart, index)} className="min-h-72 border-r border-border/50 last:border-r-0" />
+            ))}
+          </div>
+        )}
+
+        {/* Agenda */}
+        {mode === 'agenda' && (
+          agendaDays.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">Nenhuma tarefa neste período</p>
+          ) : (
+            <div className="divide-y divide-border/50">
+              {agendaDays.map((date) => (
+                <div key={date} className="py-3 flex gap-4">
+                  <div className="w-28 flex-shrink-0">
+                    <p className={cn("font-medium", date === today && "text-primary")}>{formatDate(date)}</p>
+                    <p className="text-xs text-muted-foreground">{weekdayLabels[toLocalDate(date).getDay()]}</p>
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    {tasksByDate.get(date).map((task) => (
+                      <div key={task.id} className="flex items-center justify-between gap-3">
+                        <Link
+                          to={`/tasks/${task.id}/edit`}
+                          className={cn("flex-1 min-w-0 rounded border-l-2 px-2 py-1 text-sm hover:brightness-95", typeColors[task.task_type])}
+                        >
+                          <span className="font-medium">{task.title}</span>
+                          {task.clients && <span className="text-muted-foreground"> — {task.clients.name}</span>}
+                        </Link>
+                        <TaskStatusBadge status={task.status} dueDate={task.due_date} completedAt={task.completed_at} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          {(Object.keys(typeColors) as TaskType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1.5">
+              <span className={cn("w-3 h-3 rounded-sm border-l-2", typeColors[type])} />
+              {taskTypeLabels[type]}
+            </span>
+          ))}
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm ring-1 ring-destructive" />
+            {taskStatusLabels.atrasada}
+          </span>
+          <span className="line-through">{taskStatusLabels.concluida}</span>
+          <span>Arraste uma tarefa para outro dia para reagendá-la.</span>
+        </div>
+      </div>
+    </CalendarContext.Provider>
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { ArrowDown, ArrowUp, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import {
+  checklistProgress,
+  itemsFromTemplate,
+  moveItem,
+  nextPosition,
+  type ChecklistItem,
+  type ChecklistTemplate,
+} from '@/lib/checklists';
+import type { TaskType } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+const NO_ASSIGNEE = 'none';
+
+interface TaskChecklistProps {
+  taskId: string;
+  taskType: TaskType;
+  /** Whether the task itself is already completed. */
+  taskDone: boolean;
+  /** Called when the user accepts to complete the task after the last item. */
+  onComplete: () => void;
+}
+
+export function TaskChecklist({ taskId, taskType, taskDone, onComplete }: TaskChecklistProps) {
+  const { organization } = useAuth();
+  const { toast } = useToast();
+  const members = useOrganizationMembers();
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+  const [offerCompletion, setOfferCompletion] = useState(false);
+
+  useEffect(() => {
+    fetchItems();
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [taskType]);
+
+  const fetchItems = async () => {
+    const { data, error } = await supabase
+      .from('task_checklist_items')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('position');
+
+    if (error) {
+      console.error('Error fetching checklist:', error);
+      return;
+    }
+    setItems(data || []);
+  };
+
+  const fetchTemplates = async () => {
+    if (!organization) return;
+
+    const { data, error } = await supabase
+      .from('checklist_templates')
+      .select('*')
+      .eq('organization_id', organization.id)
+      .eq('task_type', taskType)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching checklist templates:', error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  const showError = (description: string) =>
+    toast({
+      variant: 'destructive',
+      title: 'Erro',
+      description,
+    });
+
+  const addItems = async (rows: { title: string; position: number }[]) => {
+    if (!organization || rows.length === 0) return;
+
+    const { error } = await supabase
+      .from('task_checklist_items')
+      .insert(rows.map((row) => ({ ...row, task_id: taskId, organization_id: organization.id })));
+
+    if (error) {
+      console.error('Error adding checklist items:', error);
+      showError('Erro ao adicionar itens ao checklist.');
+      return;
+    }
+    fetchItems();
+  };
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    setNewTitle('');
+    await addItems([{ title, position: nextPosition(items) }]);
+  };
+
+  const updateItem = async (item: ChecklistItem, fields: Partial<ChecklistItem>) => {
+    const next = items.map((current) => (current.id === item.id ? { ...current, ...fields } : current));
+    setItems(next);
+
+    const { error } = await supabase
+      .from('task_checklist_items')
+      .update(fields)
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error updating checklist item:', error);
+      setItems(items);
+      showError('Erro ao atualizar item do checklist.');
+      return false;
+    }
+    return next;
+  };
+
+  const toggleItem = async (item: ChecklistItem, done: boolean) => {
+    const next = await updateItem(item, { done });
+    if (next && done && !taskDone && next.every((current) => current.done)) {
+      setOfferCompletion(true);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = moveItem(items, index, direction);
+    if (reordered === items) return;
+
+    setItems(reordered);
+    const moved = reordered.filter((item) => items.find((current) => current.id === item.id)?.position !== item.position);
+    const results = await Promise.all(
+      moved.map((item) =>
+        supabase.from('task_checklist_items').update({ position: item.position }).eq('id', item.id),
+      ),
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error('Error reordering checklist:', failed.error);
+      showError('Erro ao reordenar o checklist.');
+      fetchItems();
+    }
+  };
+
+  const handleDelete = async (item: ChecklistItem) => {
+    setItems(items.filter((current) => current.id !== item.id));
+
+    const { error } = await supabase
+      .from('task_checklist_items')
+      .delete()
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error deleting checklist item:', error);
+      showError('Erro ao excluir item do checklist.');
+      fetchItems();
+    }
+  };
+
+  const progress = checklistProgress(items);
+
+  return (
+    <div className="space-y-4">
+      {items.length > 0 && (
+        <div className="flex items-center gap-3">
+          <Progress value={progress.percent} className="h-2" />
+          <span className="text-sm text-muted-foreground shrink-0">
+            {progress.done} de {progress.total}
+          </span>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <ul className="divide-y divide-border/50">
+          {items.map((item, index) => (
+            <li key={item.id} className="py-2 flex items-center gap-3">
+              <Checkbox
+                checked={item.done}
+                onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                aria-label={item.title}
+              />
+              <span className={cn("flex-1 min-w-0 text-sm", item.done && "line-through text-muted-foreground")}>
+                {item.title}
+              </span>
+              <Select
+                value={item.assignee_id ?? NO_ASSIGNEE}
+                onValueChange={(value) => updateItem(item, { assignee_id: value === NO_ASSIGNEE ? null : value })}
+              >
+                <SelectTrigger className="h-8 w-40 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ASSIGNEE}>Sem responsável</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === 0}
+                  onClick={() => handleMove(index, -1)}
+                  aria-label="Mover para cima"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === items.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                  aria-label="Mover para baixo"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(item)}
+                  aria-label="Excluir item"
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <form onSubmit={handleAdd} className="flex flex-1 gap-2">
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Novo item (ex: Conciliação bancária)"
+          />
+          <Button type="submit" variant="outline" disabled={!newTitle.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar
+          </Button>
+        </form>
+        {templates.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button type="button" variant="outline">
+                <ListChecks className="w-4 h-4 mr-2" />
+                Aplicar modelo
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {templates.map((template) => (
+                <DropdownMenuItem key={template.id} onClick={() => addItems(itemsFromTemplate(template, items))}>
+                  {template.name}
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">{template.items.length} itens</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {/* Complete Task Dialog */}
+      <AlertDialog open={offerCompletion} onOpenChange={setOfferCompletion}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Checklist concluído</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todos os itens foram marcados. Deseja concluir a tarefa também?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Agora não</AlertDialogCancel>
+            <AlertDialogAction onClick={onComplete}>Concluir tarefa</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { formatDate, todayISO } from '@/lib/dates';
+import { completionDate, isDeliveredLate } from '@/lib/delivery';
+import { isOpenStatus, taskStatusClasses, taskStatusLabels, taskStatusOrder, type TaskStatus } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+const TODAY_CLASSES = 'status-badge bg-accent/15 text-accent';
+const LATE_DELIVERY_CLASSES = 'status-badge bg-warning/10 text-warning';
+const PAST_DUE_CLASSES = 'ring-1 ring-destructive';
+
+interface TaskStatusBadgeProps {
+  status: TaskStatus;
+  dueDate: string;
+  completedAt?: string | null;
+  className?: string;
+}
+
+export function TaskStatusBadge({ status, dueDate, completedAt, className }: TaskStatusBadgeProps) {
+  const timeZone = useTimeZone();
+  const today = todayISO(timeZone);
+
+  if (status === 'pendente' && dueDate === today) {
+    return <span className={cn(TODAY_CLASSES, className)}>Hoje</span>;
+  }
+
+  if (!isOpenStatus(status) && isDeliveredLate({ due_date: dueDate, completed_at: completedAt }, timeZone)) {
+    return (
+      <span
+        className={cn(LATE_DELIVERY_CLASSES, className)}
+        title={`Entregue em ${formatDate(completionDate(completedAt, timeZone))}, vencimento em ${formatDate(dueDate)}`}
+      >
+        Entregue com atraso
+      </span>
+    );
+  }
+
+  // Only 'pendente' turns into 'atrasada'; tasks further along the workflow
+  // keep their status and are outlined once past due
+  const pastDue = isOpenStatus(status) && status !== 'atrasada' && dueDate < today;
+
+  return (
+    <span
+      className={cn("status-badge", taskStatusClasses[status], pastDue && PAST_DUE_CLASSES, className)}
+      title={pastDue ? 'Vencida' : undefined}
+    >
+      {taskStatusLabels[status]}
+    </span>
+  );
+}
+
+/** Every look a TaskStatusBadge can take, for legends. */
+export function TaskStatusLegend({ className }: { className?: string }) {
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <span className={TODAY_CLASSES}>Hoje</span>
+      {taskStatusOrder.map((status) => (
+        <span key={status} className={cn("status-badge", taskStatusClasses[status])}>{taskStatusLabels[status]}</span>
+      ))}
+      <span className={LATE_DELIVERY_CLASSES}>Entregue com atraso</span>
+      <span className={cn("status-badge", taskStatusClasses.em_andamento, PAST_DUE_CLASSES)}>Vencida</span>
+    </div>
+  );
+}
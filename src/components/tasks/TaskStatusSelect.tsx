@@ -0,0 +1,44 @@
+import { ChevronDown } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TaskStatusBadge } from '@/components/tasks/TaskStatusBadge';
+import { taskStatusClasses, taskStatusLabels, type TaskStatus } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+interface TaskStatusSelectProps {
+  status: TaskStatus;
+  dueDate: string;
+  completedAt?: string | null;
+  /** Statuses the workflow allows from `status`. */
+  targets: TaskStatus[];
+  onChange: (status: TaskStatus) => void;
+}
+
+export function TaskStatusSelect({ status, dueDate, completedAt, targets, onChange }: TaskStatusSelectProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="inline-flex items-center gap-1 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        disabled={targets.length === 0}
+      >
+        <TaskStatusBadge status={status} dueDate={dueDate} completedAt={completedAt} />
+        {targets.length > 0 && <ChevronDown className="w-3.5 h-3.5 text-muted-foreground" />}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Mover para</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {targets.map((target) => (
+          <DropdownMenuItem key={target} onClick={() => onChange(target)}>
+            <span className={cn("status-badge", taskStatusClasses[target])}>{taskStatusLabels[target]}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { CopyPlus, Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateTasks } from '@/hooks/use-tasks';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllClients } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useHolidayCalendar } from '@/hooks/use-holiday-calendar';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { currentMonthISO, formatDate } from '@/lib/dates';
+import { applyTemplate, buildTemplateTasks, type TaskTemplate, type TemplateClient } from '@/lib/taskTemplates';
+
+interface ApplyTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Template to apply; when not given the user picks one in the dialog. */
+  template?: TaskTemplate | null;
+  onApplied?: () => void;
+}
+
+/** Creates a template's tasks for many clients at once. */
+export function ApplyTemplateDialog({ open, onOpenChange, template, onApplied }: ApplyTemplateDialogProps) {
+  const { user, organization } = useAuth();
+  const { toast } = useToast();
+  const invalidateTasks = useInvalidateTasks();
+  const timeZone = useTimeZone();
+  const calendar = useHolidayCalendar();
+  const members = useOrganizationMembers();
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [clients, setClients] = useState<TemplateClient[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [month, setMonth] = useState(() => currentMonthISO(timeZone));
+  const [assigneeId, setAssigneeId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setTemplateId(template?.id ?? '');
+    setSelected(new Set());
+    setSearch('');
+    setAssigneeId(user?.id ?? '');
+    fetchOptions();
+  }, [open, template]);
+
+  const fetchOptions = async () => {
+    if (!organization) return;
+
+    try {
+      const [clientRows, templatesResult] = await Promise.all([
+        fetchAllClients(organization.id),
+        template
+          ? Promise.resolve({ data: [template], error: null })
+          : supabase.from('task_templates').select('*').eq('organization_id', organization.id).order('name'),
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+      setClients(clientRows);
+      setTemplates(templatesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching template options:', error);
+    }
+  };
+
+  const current = templates.find((t) => t.id === templateId) ?? null;
+  const visibleClients = clients.filter((client) => client.name.toLowerCase().includes(search.toLowerCase()));
+  const selectedClients = clients.filter((client) => selected.has(client.id));
+  const preview = current && month ? buildTemplateTasks(current, selectedClients.slice(0, 3), month, calendar) : [];
+  const allVisibleSelected = visibleClients.length > 0 && visibleClients.every((client) => selected.has(client.id));
+
+  const toggleClient = (id: string, checked: boolean) =>
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const toggleVisible = (checked: boolean) =>
+    setSelected((previous) => {
+      const next = new Set(previous);
+      for (const client of visibleClients) {
+        if (checked) next.add(client.id);
+        else next.delete(client.id);
+      }
+      return next;
+    });
+
+  const handleApply = async () => {
+    if (!user || !organization || !current || !month) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await applyTemplate(
+        { user_id: user.id, organization_id: organization.id, assignee_id: assigneeId || user.id },
+        current,
+        selectedClients,
+        month,
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: 'Tarefas criadas',
+        description: `${data.created} tarefa(s) criada(s) a partir de "${current.name}".`,
+      });
+      invalidateTasks();
+      onApplied?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error applying task template:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao criar tarefas a partir do modelo.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Aplicar modelo</DialogTitle>
+          <DialogDescription>
+            Cria uma tarefa do modelo para cada cliente selecionado, na competência escolhida.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Modelo</Label>
+              <Select value={templateId} onValueChange={setTemplateId} disabled={!!template}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-competencia">Competência</Label>
+              <Input id="template-competencia" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Responsável</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-border/50">
+            <div className="p-2 border-b border-border/50 flex items-center gap-3">
+              <Checkbox
+                checked={allVisibleSelected}
+                onCheckedChange={(checked) => toggleVisible(checked === true)}
+                aria-label="Selecionar todos"
+                className="ml-2"
+              />
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar cliente..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10 h-9"
+                />
+              </div>
+              <span className="text-sm text-muted-foreground shrink-0 pr-2">{selected.size} selecionado(s)</span>
+            </div>
+            <div className="max-h-56 overflow-y-auto divide-y divide-border/50">
+              {visibleClients.map((client) => (
+                <label key={client.id} className="px-4 py-2 flex items-center gap-3 text-sm cursor-pointer hover:bg-muted/50">
+                  <Checkbox
+                    checked={selected.has(client.id)}
+                    onCheckedChange={(checked) => toggleClient(client.id, checked === true)}
+                  />
+                  {client.name}
+                </label>
+              ))}
+              {visibleClients.length === 0 && (
+                <p className="p-4 text-center text-sm text-muted-foreground">Nenhum cliente encontrado</p>
+              )}
+            </div>
+          </div>
+
+          {preview.length > 0 && (
+            <div className="rounded-lg border border-border/50 divide-y divide-border/50">
+              <p className="px-4 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Prévia</p>
+              {preview.map((task) => (
+                <div key={task.client_id} className="px-4 py-2 text-sm flex items-center justify-between gap-4">
+                  <span className="font-medium truncate">{task.title}</span>
+                  <span className="text-muted-foreground shrink-0">{formatDate(task.due_date)}</span>
+                </div>
+              ))}
+              {selectedClients.length > preview.length && (
+                <p className="px-4 py-2 text-sm text-muted-foreground">
+                  e mais {selectedClients.length - preview.length} tarefa(s)
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleApply} disabled={loading || !current || !month || selected.size === 0}>
+            {loading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <CopyPlus className="w-4 h-4 mr-2" />
+            )}
+            Criar {selected.size > 0 ? selected.size : ''} tarefa(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
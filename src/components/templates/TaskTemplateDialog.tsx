@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { parseTemplateItems } from '@/lib/checklists';
+import type { DueDateAdjustment } from '@/lib/holidays';
+import { taskTypeLabels } from '@/lib/tasks';
+import {
+  describeDueRule,
+  dueRuleKindLabels,
+  templateDueRule,
+  templatePlaceholders,
+  type DueRuleKind,
+  type TaskTemplate,
+} from '@/lib/taskTemplates';
+
+const templateSchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter no mínimo 2 caracteres'),
+  title_pattern: z.string().trim().min(3, 'Título deve ter no mínimo 3 caracteres'),
+  task_type: z.enum(['imposto', 'folha', 'declaracao', 'outro']),
+  description: z.string().optional(),
+  checklist: z.string().optional(),
+  due_kind: z.enum(['day', 'business_day', 'last_business_day']),
+  due_months_after: z.coerce.number().int().min(0, 'Informe de 0 a 24 meses').max(24, 'Informe de 0 a 24 meses'),
+  due_day: z.coerce.number().int().min(1, 'Informe um dia entre 1 e 31').max(31, 'Informe um dia entre 1 e 31'),
+  due_adjustment: z.enum(['antecipar', 'postergar']),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+const adjustmentOptions: Record<DueDateAdjustment, string> = {
+  antecipar: 'Antecipar se não for dia útil',
+  postergar: 'Prorrogar se não for dia útil',
+};
+
+const defaultValues: TemplateFormData = {
+  name: '',
+  title_pattern: '',
+  task_type: 'outro',
+  description: '',
+  checklist: '',
+  due_kind: 'day',
+  due_months_after: 1,
+  due_day: 10,
+  due_adjustment: 'antecipar',
+};
+
+interface TaskTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Template being edited; a new one is created when null. */
+  template: TaskTemplate | null;
+  onSaved?: () => void;
+}
+
+export function TaskTemplateDialog({ open, onOpenChange, template, onSaved }: TaskTemplateDialogProps) {
+  const { user, organization } = useAuth();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const { register, handleSubmit, formState: { errors }, setValue, watch, reset } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    reset(template
+      ? {
+        name: template.name,
+        title_pattern: template.title_pattern,
+        task_type: template.task_type,
+        description: template.description ?? '',
+        checklist: template.checklist.join('\n'),
+        due_kind: template.due_kind as DueRuleKind,
+        due_months_after: template.due_months_after,
+        due_day: template.due_day ?? 1,
+        due_adjustment: template.due_adjustment as DueDateAdjustment,
+      }
+      : defaultValues);
+  }, [open, template]);
+
+  const taskType = watch('task_type');
+  const dueKind = watch('due_kind');
+  const dueMonthsAfter = watch('due_months_after');
+  const dueDay = watch('due_day');
+  const dueAdjustment = watch('due_adjustment');
+
+  const onSubmit = async (data: TemplateFormData) => {
+    if (!user || !organization) return;
+
+    setSaving(true);
+    try {
+      const row = {
+        name: data.name,
+        title_pattern: data.title_pattern,
+        task_type: data.task_type,
+        description: data.description?.trim() || null,
+        checklist: parseTemplateItems(data.checklist ?? ''),
+        due_kind: data.due_kind,
+        due_months_after: data.due_months_after,
+        due_day: data.due_kind === 'last_business_day' ? null : data.due_day,
+        due_adjustment: data.due_adjustment,
+      };
+      const { error } = template
+        ? await supabase.from('task_templates').update(row).eq('id', template.id)
+        : await supabase.from('task_templates').insert({ ...row, organization_id: organization.id, created_by: user.id });
+
+      if (error) throw error;
+
+      toast({
+        title: template ? 'Modelo atualizado' : 'Modelo criado',
+        description: data.name,
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving task template:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao salvar modelo de tarefa.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Editar modelo' : 'Novo modelo de tarefa'}</DialogTitle>
+          <DialogDescription>
+            Use {templatePlaceholders.join(' e ')} no título e na descrição; eles são trocados pelo nome do cliente e
+            pelo mês da competência ao criar as tarefas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="task-template-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Nome *</Label>
+              <Input id="template-name" {...register('name')} placeholder="Fechamento mensal" />
+              {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo de tarefa</Label>
+              <Select value={taskType} onValueChange={(value) => setValue('task_type', value as TemplateFormData['task_type'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(taskTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-title">Título *</Label>
+            <Input id="template-title" {...register('title_pattern')} placeholder="Fechamento {competencia} - {cliente}" />
+            {errors.title_pattern && <p className="text-sm text-destructive">{errors.title_pattern.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Descrição</Label>
+            <Textarea id="template-description" {...register('description')} rows={2} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Vencimento</Label>
+            <div className="grid sm:grid-cols-[1fr_5rem_5rem_1.5fr] gap-2">
+              <Select value={dueKind} onValueChange={(value) => setValue('due_kind', value as DueRuleKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(dueRuleKindLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {dueKind !== 'last_business_day' && (
+                <Input type="number" min={1} max={31} {...register('due_day')} aria-label="Dia" />
+              )}
+              <Input type="number" min={0} max={24} {...register('due_months_after')} aria-label="Meses após a competência" />
+              <Select value={dueAdjustment} onValueChange={(value) => setValue('due_adjustment', value as DueDateAdjustment)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(adjustmentOptions).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {errors.due_day || errors.due_months_after ? (
+              <p className="text-sm text-destructive">{(errors.due_day ?? errors.due_months_after).message}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {describeDueRule(templateDueRule({
+                  due_kind: dueKind,
+                  due_months_after: Number(dueMonthsAfter) || 0,
+                  due_day: Number(dueDay) || 1,
+                }))}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-checklist">Checklist</Label>
+            <Textarea
+              id="template-checklist"
+              {...register('checklist')}
+              placeholder={'Um item por linha\nImportar NF-e\nConciliação bancária'}
+              rows={5}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="submit" form="task-template-form" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
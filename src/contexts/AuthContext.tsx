@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { OrganizationRole } from '@/lib/permissions';
 
 interface Profile {
   id: string;
@@ -9,6 +11,18 @@ interface Profile {
   account_type: 'contador' | 'escritorio';
   created_at: string;
   last_login: string | null;
+  time_zone: string;
+  dashboard_layout: Json | null;
+}
+
+interface Organization {
+  id: string;
+  name: string;
+}
+
+interface Membership {
+  organization: Organization;
+  role: OrganizationRole;
 }
 
 interface AuthContextType {
@@ -16,10 +30,17 @@ interface AuthContextType {
   session: Session | null;
   profile: Profile | null;
   loading: boolean;
+  memberships: Membership[];
+  organization: Organization | null;
+  role: OrganizationRole | null;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
+  refreshMemberships: () => Promise<void>;
+  switchOrganization: (organizationId: string) => void;
 }
 
+const ACTIVE_ORGANIZATION_KEY = 'contablemax:organization';
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -27,6 +48,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [memberships, setMemberships] = useState<Membership[] | null>(null);
+  const [activeOrganizationId, setActiveOrganizationId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_ORGANIZATION_KEY),
+  );
 
   const fetchProfile = async (userId: string) => {
     const { data, error } = await supabase
@@ -42,6 +67,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return data as Profile | null;
   };
 
+  const fetchMemberships = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organizations(id, name)')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching organizations:', error);
+      return [];
+    }
+    return (data || []).map((row) => ({ organization: row.organizations, role: row.role }));
+  };
+
+  const loadAccount = async (userId: string) => {
+    const [profileData, membershipData] = await Promise.all([fetchProfile(userId), fetchMemberships(userId)]);
+    setProfile(profileData);
+    setMemberships(membershipData);
+  };
+
   const refreshProfile = async () => {
     if (user) {
       const profileData = await fetchProfile(user.id);
@@ -49,6 +94,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const refreshMemberships = async () => {
+    if (user) {
+      setMemberships(await fetchMemberships(user.id));
+    }
+  };
+
+  const switchOrganization = (organizationId: string) => {
+    localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+    setActiveOrganizationId(organizationId);
+  };
+
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -58,12 +114,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         
         if (session?.user) {
           // Use setTimeout to avoid potential race conditions
-          setTimeout(async () => {
-            const profileData = await fetchProfile(session.user.id);
-            setProfile(profileData);
-          }, 0);
+          setTimeout(() => loadAccount(session.user.id), 0);
         } else {
           setProfile(null);
+          setMemberships(null);
         }
         
         setLoading(false);
@@ -76,7 +130,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        fetchProfile(session.user.id).then(setProfile);
+        loadAccount(session.user.id);
       }
       
       setLoading(false);
@@ -90,16 +144,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(null);
     setSession(null);
     setProfile(null);
+    setMemberships(null);
   };
 
+  // The active organization falls back to the first one the user belongs to
+  const membership = memberships?.find((m) => m.organization.id === activeOrganizationId) ?? memberships?.[0] ?? null;
+
   return (
     <AuthContext.Provider value={{ 
       user, 
       session, 
       profile, 
-      loading, 
+      // Wait for the memberships too: every query is scoped to the organization
+      loading: loading || (!!user && memberships === null),
+      memberships: memberships ?? [],
+      organization: membership?.organization ?? null,
+      role: membership?.role ?? null,
       signOut: handleSignOut,
-      refreshProfile 
+      refreshProfile,
+      refreshMemberships,
+      switchOrganization,
     }}>
       {children}
     </AuthContext.Provider>
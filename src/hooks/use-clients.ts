@@ -0,0 +1,71 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteClient, fetchAllClients, fetchClientPage, queryKeys, type ClientListParams } from '@/lib/api';
+import { removeCachedRows } from '@/lib/queryCache';
+
+/** One page of the client list; the previous page stays on screen while the next loads. */
+export function useClientPage(params: ClientListParams) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.clients.page(organization?.id ?? '', params),
+    queryFn: () => fetchClientPage(organization!.id, params),
+    enabled: !!organization,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every client of the organization, by name. */
+export function useClientList() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.clients.list(organization?.id ?? ''),
+    queryFn: () => fetchAllClients(organization!.id),
+    enabled: !!organization,
+  });
+}
+
+/** Refetches every client list, on every page, and the dashboard. */
+export function useInvalidateClients() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return () =>
+    organization
+      ? Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.clients.all(organization.id) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all(organization.id) }),
+      ])
+      : Promise.resolve();
+}
+
+/** Deletes a client, hiding it from the cached lists until the server confirms. */
+export function useDeleteClient() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: deleteClient,
+    onMutate: async (clientId: string) => {
+      if (!organization) return { previous: [] };
+
+      const queryKey = queryKeys.clients.all(organization.id);
+      await queryClient.cancelQueries({ queryKey });
+
+      const previous = queryClient.getQueriesData({ queryKey });
+      queryClient.setQueriesData({ queryKey }, (data: unknown) => removeCachedRows(data, [clientId]));
+      return { previous };
+    },
+    onError: (_error, _clientId, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () => {
+      if (!organization) return;
+      // The client's tasks stay, now without a client
+      queryClient.invalidateQueries({ queryKey: queryKeys.clients.all(organization.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(organization.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all(organization.id) });
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Json } from '@/integrations/supabase/types';
+import { updateProfile } from '@/lib/api';
+import { parseLayout, type DashboardLayout } from '@/lib/dashboardWidgets';
+
+/** The current user's dashboard layout, and saving it (null restores the default). */
+export function useDashboardLayout() {
+  const { profile, refreshProfile } = useAuth();
+  const layout = useMemo(() => parseLayout(profile?.dashboard_layout), [profile?.dashboard_layout]);
+
+  const save = useMutation({
+    mutationFn: (next: DashboardLayout | null) =>
+      updateProfile(profile!.id, { dashboard_layout: next as unknown as Json }),
+    onSuccess: () => refreshProfile(),
+  });
+
+  return { layout, save };
+}
@@ -0,0 +1,68 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import {
+  fetchDashboardSummary,
+  fetchDeliveryTrend,
+  fetchTopClients,
+  fetchWorkload,
+  queryKeys,
+  type DashboardParams,
+} from '@/lib/api';
+import { monthRange, type DashboardRange } from '@/lib/dashboard';
+import type { WidgetConfig } from '@/lib/dashboardWidgets';
+import { currentMonthISO } from '@/lib/dates';
+
+/**
+ * Counters, next tasks and breakdowns for the current month, filtered like a
+ * widget. Widgets with the same filters share the query.
+ */
+export function useDashboardSummary({ scope = 'mine', taskType = null, limit = 5 }: WidgetConfig = {}) {
+  const { user, organization } = useAuth();
+  const timeZone = useTimeZone();
+  const params: DashboardParams = {
+    range: monthRange(currentMonthISO(timeZone)),
+    timeZone,
+    assigneeId: scope === 'mine' ? user?.id ?? null : null,
+    taskType,
+    upcomingLimit: limit,
+  };
+
+  return useQuery({
+    queryKey: queryKeys.dashboard.summary(organization?.id ?? '', params),
+    queryFn: () => fetchDashboardSummary(organization!.id, params),
+    enabled: !!organization && !!user,
+  });
+}
+
+export function useWorkload(range: DashboardRange) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.dashboard.workload(organization?.id ?? '', range),
+    queryFn: () => fetchWorkload(organization!.id, range),
+    enabled: !!organization,
+  });
+}
+
+export function useDeliveryTrend(range: DashboardRange) {
+  const { organization } = useAuth();
+  const timeZone = useTimeZone();
+
+  return useQuery({
+    queryKey: queryKeys.dashboard.deliveryTrend(organization?.id ?? '', range, timeZone),
+    queryFn: () => fetchDeliveryTrend(organization!.id, range, timeZone),
+    enabled: !!organization,
+  });
+}
+
+export function useTopClients(range: Partial<DashboardRange>) {
+  const { organization } = useAuth();
+  const timeZone = useTimeZone();
+
+  return useQuery({
+    queryKey: queryKeys.dashboard.topClients(organization?.id ?? '', range, timeZone),
+    queryFn: () => fetchTopClients(organization!.id, range, timeZone),
+    enabled: !!organization,
+  });
+}
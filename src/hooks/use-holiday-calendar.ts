@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchHolidayCalendar } from '@/lib/customHolidays';
+import { createHolidayCalendar, type HolidayCalendar } from '@/lib/holidays';
+
+/**
+ * The active organization's holiday calendar. Starts with national holidays
+ * only and switches to the full calendar once the custom holidays are loaded.
+ */
+export function useHolidayCalendar() {
+  const { organization } = useAuth();
+  const [calendar, setCalendar] = useState<HolidayCalendar>(() => createHolidayCalendar());
+
+  useEffect(() => {
+    if (!organization) return;
+
+    fetchHolidayCalendar(organization.id).then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching holidays:', error);
+        return;
+      }
+      setCalendar(data);
+    });
+  }, [organization]);
+
+  return calendar;
+}
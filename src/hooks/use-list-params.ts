@@ -0,0 +1,67 @@
+import { useSearchParams } from 'react-router-dom';
+import { decodeCursor, encodeCursor, type PageCursor, type PageDirection, type PageRequest } from '@/lib/pagination';
+
+interface ListParamsOptions<S extends string> {
+  sorts: readonly S[];
+  defaultSort: S;
+  defaultAscending?: boolean;
+}
+
+/**
+ * Search, filters, sort and page of a list, kept in the URL query string so
+ * the view can be bookmarked and survives reloads. Changing anything but the
+ * page goes back to the first page.
+ */
+export function useListParams<S extends string>({ sorts, defaultSort, defaultAscending = true }: ListParamsOptions<S>) {
+  const [params, setParams] = useSearchParams();
+
+  const sortParam = params.get('sort') as S | null;
+  const sort = sortParam && sorts.includes(sortParam) ? sortParam : defaultSort;
+  const ascending = params.has('dir') ? params.get('dir') === 'asc' : defaultAscending;
+
+  const before = decodeCursor(params.get('before'));
+  const after = decodeCursor(params.get('after'));
+  const page: PageRequest | null = before
+    ? { cursor: before, direction: 'before' }
+    : after
+      ? { cursor: after, direction: 'after' }
+      : null;
+
+  const update = (changes: Record<string, string | null>) =>
+    setParams((current) => {
+      const next = new URLSearchParams(current);
+      Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+      next.delete('after');
+      next.delete('before');
+      return next;
+    }, { replace: true });
+
+  /** Query string of another page, for links. */
+  const pageSearch = (direction: PageDirection, cursor: PageCursor) => {
+    const next = new URLSearchParams(params);
+    next.delete('after');
+    next.delete('before');
+    next.set(direction, encodeCursor(cursor));
+    return `?${next.toString()}`;
+  };
+
+  const goToPage = (direction: PageDirection, cursor: PageCursor) => setParams(pageSearch(direction, cursor));
+
+  /** Sorts by `column`, flipping the direction when it already is the sort. */
+  const toggleSort = (column: S) =>
+    update({ sort: column, dir: column === sort && ascending ? 'desc' : 'asc' });
+
+  return {
+    search: params.get('q') ?? '',
+    sort,
+    ascending,
+    page,
+    /** Raw page params, to refetch when the page changes. */
+    pageKey: params.get('before') ?? params.get('after') ?? '',
+    get: (key: string) => params.get(key),
+    update,
+    pageSearch,
+    goToPage,
+    toggleSort,
+  };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchOrganizationMembers, queryKeys, type OrganizationMember } from '@/lib/api';
+
+export type { OrganizationMember } from '@/lib/api';
+
+const NO_MEMBERS: OrganizationMember[] = [];
+
+/** Members of the active organization, sorted by name, for assignment pickers. */
+export function useOrganizationMembers() {
+  const { organization } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: queryKeys.profiles.members(organization?.id ?? ''),
+    queryFn: () => fetchOrganizationMembers(organization!.id),
+    enabled: !!organization,
+  });
+
+  return data ?? NO_MEMBERS;
+}
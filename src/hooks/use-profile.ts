@@ -0,0 +1,22 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys, updateProfile, type Profile } from '@/lib/api';
+
+type ProfileChanges = Partial<Pick<Profile, 'name' | 'time_zone'>>;
+
+/** Updates the current user's profile and everything that shows their name. */
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+  const { profile, organization, refreshProfile } = useAuth();
+
+  return useMutation({
+    mutationFn: (changes: ProfileChanges) => updateProfile(profile!.id, changes),
+    onSuccess: () => refreshProfile(),
+    onSettled: () => {
+      if (!organization) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all(organization.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(organization.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all(organization.id) });
+    },
+  });
+}
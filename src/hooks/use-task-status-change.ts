@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { taskStatusLabels, type TaskStatus } from '@/lib/tasks';
+import {
+  allowedTargets,
+  findTransition,
+  missingTransitionFields,
+  workflowStatus,
+  type TaskTransition,
+  type TransitionField,
+  type TransitionValues,
+} from '@/lib/workflow';
+
+export interface StatusChangeTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  receipt_number?: string | null;
+  reviewer_id?: string | null;
+}
+
+export interface StatusChange<T extends StatusChangeTask> {
+  task: T;
+  status: TaskStatus;
+  /** Fields the transition requires that the task does not have yet. */
+  fields: TransitionField[];
+}
+
+/** The active organization's workflow transitions. */
+export function useTaskWorkflow() {
+  const { organization } = useAuth();
+  const [transitions, setTransitions] = useState<TaskTransition[]>([]);
+
+  useEffect(() => {
+    if (!organization) return;
+
+    supabase
+      .from('task_status_transitions')
+      .select('*')
+      .eq('organization_id', organization.id)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching workflow:', error);
+          return;
+        }
+        setTransitions(data || []);
+      });
+  }, [organization]);
+
+  return transitions;
+}
+
+/**
+ * Checks a requested status change against the workflow. Changes whose
+ * required fields are already filled are applied right away; the others wait
+ * in `change` until the fields are collected (see StatusChangeDialog).
+ */
+export function useTaskStatusChange<T extends StatusChangeTask>(
+  apply: (task: T, status: TaskStatus, values: TransitionValues) => void,
+) {
+  const { toast } = useToast();
+  const transitions = useTaskWorkflow();
+  const [change, setChange] = useState<StatusChange<T> | null>(null);
+
+  const request = (task: T, status: TaskStatus) => {
+    if (workflowStatus(task.status) === workflowStatus(status)) return;
+
+    const transition = findTransition(transitions, task.status, status);
+    if (!transition) {
+      toast({
+        variant: 'destructive',
+        title: 'Mudança não permitida',
+        description: `O fluxo de trabalho não permite mudar de "${taskStatusLabels[task.status]}" para "${taskStatusLabels[status]}".`,
+      });
+      return;
+    }
+
+    const fields = missingTransitionFields(transition, task);
+    if (fields.length > 0) {
+      setChange({ task, status, fields });
+    } else {
+      apply(task, status, {});
+    }
+  };
+
+  const confirm = (values: TransitionValues) => {
+    if (!change) return;
+    apply(change.task, change.status, values);
+    setChange(null);
+  };
+
+  return {
+    change,
+    request,
+    confirm,
+    cancel: () => setChange(null),
+    targetsFor: (status: TaskStatus) => allowedTargets(transitions, status),
+  };
+}
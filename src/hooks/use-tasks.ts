@@ -0,0 +1,123 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  changeTaskStatus,
+  fetchAllTasks,
+  fetchClosingTasks,
+  fetchTaskPage,
+  queryKeys,
+  rescheduleTask,
+  type Task,
+  type TaskFilters,
+  type TaskListParams,
+} from '@/lib/api';
+import { closingCompetencias } from '@/lib/closing';
+import type { AdjustedDueDate } from '@/lib/holidays';
+import { patchCachedRows } from '@/lib/queryCache';
+import type { TaskStatus } from '@/lib/tasks';
+import type { TransitionValues } from '@/lib/workflow';
+
+/** One page of the task list; the previous page stays on screen while the next loads. */
+export function useTaskPage(params: TaskListParams, enabled = true) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.page(organization?.id ?? '', params),
+    queryFn: () => fetchTaskPage(organization!.id, params),
+    enabled: !!organization && enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Every task matching the filters, by due date. */
+export function useTaskList(filters: TaskFilters, enabled = true) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.list(organization?.id ?? '', filters),
+    queryFn: () => fetchAllTasks(organization!.id, filters),
+    enabled: !!organization && enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Obligation tasks shown in the closing panel for a month (`YYYY-MM`). */
+export function useClosingTasks(month: string) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.closing(organization?.id ?? '', month),
+    queryFn: () => fetchClosingTasks(organization!.id, closingCompetencias(month)),
+    enabled: !!organization && !!month,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Refetches everything derived from the organization's tasks, on every page, and the dashboard. */
+export function useInvalidateTasks() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return () =>
+    organization
+      ? Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(organization.id) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all(organization.id) }),
+      ])
+      : Promise.resolve();
+}
+
+/**
+ * Mutation on a single task that shows its result in every cached list right
+ * away, puts the lists back if the server rejects it and refetches them once
+ * it settles (the database may adjust the row, e.g. pendente/atrasada).
+ */
+function useOptimisticTaskMutation<V, R>(
+  mutationFn: (variables: V) => Promise<R>,
+  optimistic: (variables: V) => { taskId: string; fields: Partial<Task> },
+) {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+  const invalidate = useInvalidateTasks();
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: V) => {
+      if (!organization) return { previous: [] };
+
+      const queryKey = queryKeys.tasks.all(organization.id);
+      await queryClient.cancelQueries({ queryKey });
+
+      const previous = queryClient.getQueriesData({ queryKey });
+      const { taskId, fields } = optimistic(variables);
+      queryClient.setQueriesData({ queryKey }, (data: unknown) => patchCachedRows(data, [taskId], fields));
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () => invalidate(),
+  });
+}
+
+interface StatusChangeVariables {
+  taskId: string;
+  status: TaskStatus;
+  values?: TransitionValues;
+  /** Next occurrence of the task's series, created when it is completed. */
+  next?: AdjustedDueDate | null;
+}
+
+export function useChangeTaskStatus() {
+  return useOptimisticTaskMutation(
+    ({ taskId, status, values, next }: StatusChangeVariables) => changeTaskStatus(taskId, status, values, next),
+    ({ taskId, status }) => ({ taskId, fields: { status } }),
+  );
+}
+
+export function useRescheduleTask() {
+  return useOptimisticTaskMutation(
+    ({ taskId, dueDate }: { taskId: string; dueDate: string }) => rescheduleTask(taskId, dueDate),
+    ({ taskId, dueDate }) => ({ taskId, fields: { due_date: dueDate } }),
+  );
+}
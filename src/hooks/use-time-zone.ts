@@ -0,0 +1,8 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_TIME_ZONE } from '@/lib/dates';
+
+/** The office's configured time zone, used to decide what "today" is. */
+export function useTimeZone() {
+  const { profile } = useAuth();
+  return profile?.time_zone || DEFAULT_TIME_ZONE;
+}
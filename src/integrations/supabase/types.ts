@@ -14,40 +14,810 @@ export type Database = {
   }
   public: {
     Tables: {
+      checklist_templates: {
+        Row: {
+          auto_apply: boolean
+          created_at: string
+          id: string
+          items: string[]
+          name: string
+          organization_id: string
+          task_type: Database["public"]["Enums"]["task_type"]
+        }
+        Insert: {
+          auto_apply?: boolean
+          created_at?: string
+          id?: string
+          items?: string[]
+          name: string
+          organization_id: string
+          task_type: Database["public"]["Enums"]["task_type"]
+        }
+        Update: {
+          auto_apply?: boolean
+          created_at?: string
+          id?: string
+          items?: string[]
+          name?: string
+          organization_id?: string
+          task_type?: Database["public"]["Enums"]["task_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_notes: {
+        Row: {
+          body: string
+          client_id: string
+          created_at: string
+          id: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          client_id: string
+          created_at?: string
+          id?: string
+          organization_id: string
+          user_id?: string
+        }
+        Update: {
+          body?: string
+          client_id?: string
+          created_at?: string
+          id?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_notes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_notes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_notes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
-          cpf_cnpj: string
+          cpf_cnpj: string
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          organization_id: string
+          person_type: Database["public"]["Enums"]["person_type"]
+          phone: string | null
+          tax_regime: Database["public"]["Enums"]["tax_regime"] | null
+          user_id: string
+        }
+        Insert: {
+          cpf_cnpj: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          person_type?: Database["public"]["Enums"]["person_type"]
+          phone?: string | null
+          tax_regime?: Database["public"]["Enums"]["tax_regime"] | null
+          user_id: string
+        }
+        Update: {
+          cpf_cnpj?: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          person_type?: Database["public"]["Enums"]["person_type"]
+          phone?: string | null
+          tax_regime?: Database["public"]["Enums"]["tax_regime"] | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clients_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_file_removals: {
+        Row: {
+          queued_at: string
+          storage_path: string
+        }
+        Insert: {
+          queued_at?: string
+          storage_path: string
+        }
+        Update: {
+          queued_at?: string
+          storage_path?: string
+        }
+        Relationships: []
+      }
+      document_versions: {
+        Row: {
+          created_at: string
+          document_id: string
+          id: string
+          mime_type: string | null
+          name: string
+          organization_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          id?: string
+          mime_type?: string | null
+          name: string
+          organization_id: string
+          size_bytes?: number
+          storage_path: string
+          uploaded_by?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          id?: string
+          mime_type?: string | null
+          name?: string
+          organization_id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_versions_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      documents: {
+        Row: {
+          client_id: string | null
+          competencia: string | null
+          created_at: string
+          document_type: Database["public"]["Enums"]["document_type"]
+          id: string
+          mime_type: string | null
+          name: string
+          organization_id: string
+          size_bytes: number
+          storage_path: string
+          task_id: string | null
+          updated_at: string
+          uploaded_by: string | null
+          version: number
+        }
+        Insert: {
+          client_id?: string | null
+          competencia?: string | null
+          created_at?: string
+          document_type?: Database["public"]["Enums"]["document_type"]
+          id?: string
+          mime_type?: string | null
+          name: string
+          organization_id: string
+          size_bytes?: number
+          storage_path: string
+          task_id?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          version?: number
+        }
+        Update: {
+          client_id?: string | null
+          competencia?: string | null
+          created_at?: string
+          document_type?: Database["public"]["Enums"]["document_type"]
+          id?: string
+          mime_type?: string | null
+          name?: string
+          organization_id?: string
+          size_bytes?: number
+          storage_path?: string
+          task_id?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holidays: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          name: string
+          organization_id: string
+          recurring: boolean
+          scope: Database["public"]["Enums"]["holiday_scope"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          name: string
+          organization_id: string
+          recurring?: boolean
+          scope?: Database["public"]["Enums"]["holiday_scope"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          name?: string
+          organization_id?: string
+          recurring?: boolean
+          scope?: Database["public"]["Enums"]["holiday_scope"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          organization_id: string
+          read_at: string | null
+          task_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          organization_id: string
+          read_at?: string | null
+          task_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          organization_id?: string
+          read_at?: string | null
+          task_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["organization_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organizations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          account_type: Database["public"]["Enums"]["account_type"]
+          created_at: string
+          dashboard_layout: Json | null
+          email: string
+          id: string
+          last_login: string | null
+          name: string
+          time_zone: string
+        }
+        Insert: {
+          account_type?: Database["public"]["Enums"]["account_type"]
+          created_at?: string
+          dashboard_layout?: Json | null
+          email: string
+          id: string
+          last_login?: string | null
+          name: string
+          time_zone?: string
+        }
+        Update: {
+          account_type?: Database["public"]["Enums"]["account_type"]
+          created_at?: string
+          dashboard_layout?: Json | null
+          email?: string
+          id?: string
+          last_login?: string | null
+          name?: string
+          time_zone?: string
+        }
+        Relationships: []
+      }
+      task_assignments: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          from_assignee_id: string | null
+          id: string
+          organization_id: string
+          task_id: string
+          to_assignee_id: string | null
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          from_assignee_id?: string | null
+          id?: string
+          organization_id: string
+          task_id: string
+          to_assignee_id?: string | null
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          from_assignee_id?: string | null
+          id?: string
+          organization_id?: string
+          task_id?: string
+          to_assignee_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_assignments_from_assignee_id_fkey"
+            columns: ["from_assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_assignments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_assignments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_assignments_to_assignee_id_fkey"
+            columns: ["to_assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_bulk_operations: {
+        Row: {
+          action: string
           created_at: string
-          email: string | null
           id: string
-          name: string
-          person_type: Database["public"]["Enums"]["person_type"]
-          phone: string | null
+          organization_id: string
+          performed_by: string
+          snapshot: Json
+          task_count: number
+          undone_at: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          organization_id: string
+          performed_by: string
+          snapshot?: Json
+          task_count?: number
+          undone_at?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          organization_id?: string
+          performed_by?: string
+          snapshot?: Json
+          task_count?: number
+          undone_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_bulk_operations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_bulk_operations_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          assignee_id: string | null
+          created_at: string
+          done: boolean
+          id: string
+          organization_id: string
+          position: number
+          task_id: string
+          title: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          created_at?: string
+          done?: boolean
+          id?: string
+          organization_id: string
+          position?: number
+          task_id: string
+          title: string
+        }
+        Update: {
+          assignee_id?: string | null
+          created_at?: string
+          done?: boolean
+          id?: string
+          organization_id?: string
+          position?: number
+          task_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_checklist_items_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_series: {
+        Row: {
+          assignee_id: string | null
+          client_id: string | null
+          created_at: string
+          day_of_month: number | null
+          description: string | null
+          due_adjustment: string
+          ends_on: string | null
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id: string
+          interval_count: number
+          month_of_year: number | null
+          organization_id: string
+          reviewer_id: string | null
+          task_type: Database["public"]["Enums"]["task_type"]
+          title: string
           user_id: string
         }
         Insert: {
-          cpf_cnpj: string
+          assignee_id?: string | null
+          client_id?: string | null
           created_at?: string
-          email?: string | null
+          day_of_month?: number | null
+          description?: string | null
+          due_adjustment?: string
+          ends_on?: string | null
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
           id?: string
-          name: string
-          person_type?: Database["public"]["Enums"]["person_type"]
-          phone?: string | null
+          interval_count?: number
+          month_of_year?: number | null
+          organization_id: string
+          reviewer_id?: string | null
+          task_type?: Database["public"]["Enums"]["task_type"]
+          title: string
           user_id: string
         }
         Update: {
-          cpf_cnpj?: string
+          assignee_id?: string | null
+          client_id?: string | null
           created_at?: string
-          email?: string | null
+          day_of_month?: number | null
+          description?: string | null
+          due_adjustment?: string
+          ends_on?: string | null
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
           id?: string
-          name?: string
-          person_type?: Database["public"]["Enums"]["person_type"]
-          phone?: string | null
+          interval_count?: number
+          month_of_year?: number | null
+          organization_id?: string
+          reviewer_id?: string | null
+          task_type?: Database["public"]["Enums"]["task_type"]
+          title?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "clients_user_id_fkey"
+            foreignKeyName: "task_series_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_series_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_series_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_series_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_series_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -55,68 +825,228 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      task_status_history: {
         Row: {
-          account_type: Database["public"]["Enums"]["account_type"]
+          changed_by: string | null
+          comment: string | null
           created_at: string
-          email: string
+          from_status: Database["public"]["Enums"]["task_status"]
           id: string
-          last_login: string | null
-          name: string
+          organization_id: string
+          task_id: string
+          to_status: Database["public"]["Enums"]["task_status"]
         }
         Insert: {
-          account_type?: Database["public"]["Enums"]["account_type"]
+          changed_by?: string | null
+          comment?: string | null
           created_at?: string
-          email: string
+          from_status: Database["public"]["Enums"]["task_status"]
+          id?: string
+          organization_id: string
+          task_id: string
+          to_status: Database["public"]["Enums"]["task_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["task_status"]
+          id?: string
+          organization_id?: string
+          task_id?: string
+          to_status?: Database["public"]["Enums"]["task_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_status_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_status_history_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_status_transitions: {
+        Row: {
+          created_at: string
+          from_status: Database["public"]["Enums"]["task_status"]
+          id: string
+          organization_id: string
+          required_fields: string[]
+          to_status: Database["public"]["Enums"]["task_status"]
+        }
+        Insert: {
+          created_at?: string
+          from_status: Database["public"]["Enums"]["task_status"]
+          id?: string
+          organization_id: string
+          required_fields?: string[]
+          to_status: Database["public"]["Enums"]["task_status"]
+        }
+        Update: {
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["task_status"]
+          id?: string
+          organization_id?: string
+          required_fields?: string[]
+          to_status?: Database["public"]["Enums"]["task_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_status_transitions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          checklist: string[]
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_adjustment: string
+          due_day: number | null
+          due_kind: string
+          due_months_after: number
           id: string
-          last_login?: string | null
           name: string
+          organization_id: string
+          task_type: Database["public"]["Enums"]["task_type"]
+          title_pattern: string
+        }
+        Insert: {
+          checklist?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_adjustment?: string
+          due_day?: number | null
+          due_kind?: string
+          due_months_after?: number
+          id?: string
+          name: string
+          organization_id: string
+          task_type?: Database["public"]["Enums"]["task_type"]
+          title_pattern: string
         }
         Update: {
-          account_type?: Database["public"]["Enums"]["account_type"]
+          checklist?: string[]
           created_at?: string
-          email?: string
+          created_by?: string | null
+          description?: string | null
+          due_adjustment?: string
+          due_day?: number | null
+          due_kind?: string
+          due_months_after?: number
           id?: string
-          last_login?: string | null
           name?: string
+          organization_id?: string
+          task_type?: Database["public"]["Enums"]["task_type"]
+          title_pattern?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       tasks: {
         Row: {
+          assignee_id: string | null
           client_id: string | null
+          competencia: string | null
+          completed_at: string | null
+          completed_by: string | null
           created_at: string
           description: string | null
           due_date: string
           id: string
+          obligation_code: string | null
+          organization_id: string
+          receipt_number: string | null
+          reviewer_id: string | null
+          series_id: string | null
           status: Database["public"]["Enums"]["task_status"]
           task_type: Database["public"]["Enums"]["task_type"]
           title: string
           user_id: string
         }
         Insert: {
+          assignee_id?: string | null
           client_id?: string | null
+          competencia?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
           created_at?: string
           description?: string | null
           due_date: string
           id?: string
+          obligation_code?: string | null
+          organization_id: string
+          receipt_number?: string | null
+          reviewer_id?: string | null
+          series_id?: string | null
           status?: Database["public"]["Enums"]["task_status"]
           task_type?: Database["public"]["Enums"]["task_type"]
           title: string
           user_id: string
         }
         Update: {
+          assignee_id?: string | null
           client_id?: string | null
+          competencia?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
           created_at?: string
           description?: string | null
           due_date?: string
           id?: string
+          obligation_code?: string | null
+          organization_id?: string
+          receipt_number?: string | null
+          reviewer_id?: string | null
+          series_id?: string | null
           status?: Database["public"]["Enums"]["task_status"]
           task_type?: Database["public"]["Enums"]["task_type"]
           title?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_client_id_fkey"
             columns: ["client_id"]
@@ -124,6 +1054,34 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "task_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_user_id_fkey"
             columns: ["user_id"]
@@ -138,13 +1096,192 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_invitation: { Args: { invitation_token: string }; Returns: string }
+      account_today: { Args: { account_id: string }; Returns: string }
+      bulk_delete_tasks: {
+        Args: { target_organization_id: string; target_task_ids: string[] }
+        Returns: Json
+      }
+      bulk_update_tasks: {
+        Args: {
+          changes: Json
+          next_occurrences?: Json
+          status_comment?: string
+          target_organization_id: string
+          target_task_ids: string[]
+        }
+        Returns: Json
+      }
+      checked_time_zone: { Args: { zone: string }; Returns: string }
+      dashboard_delivery_trend: {
+        Args: {
+          range_end: string
+          range_start: string
+          target_organization_id: string
+          time_zone?: string
+        }
+        Returns: {
+          late: number
+          month: string
+          on_time: number
+          overdue: number
+        }[]
+      }
+      dashboard_summary: {
+        Args: {
+          client_limit?: number
+          range_end: string
+          range_start: string
+          target_assignee_id?: string
+          target_organization_id: string
+          target_task_type?: Database["public"]["Enums"]["task_type"]
+          time_zone?: string
+          upcoming_limit?: number
+        }
+        Returns: Json
+      }
+      dashboard_top_clients: {
+        Args: {
+          client_limit?: number
+          range_end?: string
+          range_start?: string
+          target_organization_id: string
+          time_zone?: string
+        }
+        Returns: {
+          client_id: string
+          client_name: string
+          open: number
+          overdue: number
+        }[]
+      }
+      dashboard_workload: {
+        Args: {
+          range_end: string
+          range_start: string
+          target_organization_id: string
+        }
+        Returns: {
+          task_type: Database["public"]["Enums"]["task_type"]
+          total: number
+          week_start: string
+        }[]
+      }
+      has_org_role: {
+        Args: {
+          org_id: string
+          roles: Database["public"]["Enums"]["organization_role"][]
+        }
+        Returns: boolean
+      }
+      is_open_status: {
+        Args: { status: Database["public"]["Enums"]["task_status"] }
+        Returns: boolean
+      }
+      is_org_member: { Args: { org_id: string }; Returns: boolean }
+      is_restoring_tasks: { Args: never; Returns: boolean }
+      is_valid_cnpj: { Args: { value: string }; Returns: boolean }
+      is_valid_cpf: { Args: { value: string }; Returns: boolean }
+      is_valid_time_zone: { Args: { zone: string }; Returns: boolean }
+      normalize_cpf_cnpj: { Args: { value: string }; Returns: string }
+      refresh_overdue_tasks: { Args: never; Returns: number }
+      search_clients: {
+        Args: { search?: string; target_organization_id: string }
+        Returns: {
+          cpf_cnpj: string
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          organization_id: string
+          person_type: Database["public"]["Enums"]["person_type"]
+          phone: string | null
+          tax_regime: Database["public"]["Enums"]["tax_regime"] | null
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "clients"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_normalize: { Args: { value: string }; Returns: string }
+      search_prefix_query: { Args: { value: string }; Returns: unknown }
+      search_tasks: {
+        Args: { search?: string; target_organization_id: string }
+        Returns: {
+          assignee_id: string | null
+          client_id: string | null
+          competencia: string | null
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          description: string | null
+          due_date: string
+          id: string
+          obligation_code: string | null
+          organization_id: string
+          receipt_number: string | null
+          reviewer_id: string | null
+          series_id: string | null
+          status: Database["public"]["Enums"]["task_status"]
+          task_type: Database["public"]["Enums"]["task_type"]
+          title: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "tasks"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      set_task_status: {
+        Args: {
+          new_status: Database["public"]["Enums"]["task_status"]
+          next_due_date?: string
+          next_due_note?: string
+          receipt?: string
+          reviewer?: string
+          status_comment?: string
+          target_task_id: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
+      undo_task_bulk_operation: {
+        Args: { target_operation_id: string }
+        Returns: number
+      }
     }
     Enums: {
       account_type: "contador" | "escritorio"
+      document_type:
+        | "guia"
+        | "recibo"
+        | "contrato"
+        | "xml"
+        | "declaracao"
+        | "outro"
+      holiday_scope: "estadual" | "municipal"
+      organization_role: "owner" | "admin" | "contador" | "assistente"
       person_type: "PF" | "PJ"
-      task_status: "pendente" | "concluida" | "atrasada"
+      recurrence_frequency: "mensal" | "trimestral" | "anual" | "dias_uteis"
+      task_status:
+        | "pendente"
+        | "em_andamento"
+        | "aguardando_cliente"
+        | "em_revisao"
+        | "transmitida"
+        | "concluida"
+        | "atrasada"
       task_type: "imposto" | "folha" | "declaracao" | "outro"
+      tax_regime:
+        | "mei"
+        | "simples_nacional"
+        | "lucro_presumido"
+        | "lucro_real"
+        | "pf"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -273,9 +1410,35 @@ export const Constants = {
   public: {
     Enums: {
       account_type: ["contador", "escritorio"],
+      document_type: [
+        "guia",
+        "recibo",
+        "contrato",
+        "xml",
+        "declaracao",
+        "outro",
+      ],
+      holiday_scope: ["estadual", "municipal"],
+      organization_role: ["owner", "admin", "contador", "assistente"],
       person_type: ["PF", "PJ"],
-      task_status: ["pendente", "concluida", "atrasada"],
+      recurrence_frequency: ["mensal", "trimestral", "anual", "dias_uteis"],
+      task_status: [
+        "pendente",
+        "em_andamento",
+        "aguardando_cliente",
+        "em_revisao",
+        "transmitida",
+        "concluida",
+        "atrasada",
+      ],
       task_type: ["imposto", "folha", "declaracao", "outro"],
+      tax_regime: [
+        "mei",
+        "simples_nacional",
+        "lucro_presumido",
+        "lucro_real",
+        "pf",
+      ],
     },
   },
 } as const
@@ -0,0 +1,331 @@
+// Data access
+//
+// Typed reads and writes for clients, tasks and profiles, used by pages
+// through the React Query hooks (hooks/use-clients, hooks/use-tasks,
+// hooks/use-organization-members). Functions throw the Supabase error so React
+// Query can surface it.
+//
+// Cache keys start with the resource and the organization: invalidating
+// `queryKeys.tasks.all(org)` refreshes the task list, the board and the
+// calendar at once, whichever page they are on.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { ClosingTask } from '@/lib/closing';
+import type { DashboardRange, DashboardSummary, DeliveryTrendRow, TopClientRow, WorkloadRow } from '@/lib/dashboard';
+import type { AdjustedDueDate } from '@/lib/holidays';
+import { fetchAllRows, keysetFilter, PAGE_SIZE, queryAscending, toPage, type Page, type PageRequest } from '@/lib/pagination';
+import type { OrganizationRole } from '@/lib/permissions';
+import { deliveredStatuses, NO_CLIENT, type TaskStatus, type TaskType } from '@/lib/tasks';
+import { setTaskStatus, type TransitionValues } from '@/lib/workflow';
+
+type Tables = Database['public']['Tables'];
+
+export type Client = Tables['clients']['Row'];
+export type Task = Tables['tasks']['Row'];
+export type Profile = Tables['profiles']['Row'];
+
+export const clientSorts = ['name', 'cpf_cnpj', 'created_at'] as const;
+export type ClientSort = typeof clientSorts[number];
+
+export interface ClientListParams {
+  search: string;
+  sort: ClientSort;
+  ascending: boolean;
+  page: PageRequest | null;
+}
+
+export const taskSorts = ['due_date', 'title', 'created_at'] as const;
+export type TaskSort = typeof taskSorts[number];
+
+export interface TaskFilters {
+  search: string;
+  /** 'open' and 'delivered' split the statuses as `isOpenStatus` does. */
+  status: TaskStatus | 'open' | 'delivered' | 'all';
+  /** Only tasks assigned to this member; null for everyone's. */
+  assigneeId: string | null;
+  taskType?: TaskType | null;
+  /** A client's tasks, or NO_CLIENT for the tasks without one. */
+  clientId?: string | null;
+  /** Due date bounds, both inclusive. */
+  dueFrom?: string | null;
+  dueTo?: string | null;
+}
+
+export interface TaskListParams extends TaskFilters {
+  sort: TaskSort;
+  ascending: boolean;
+  page: PageRequest | null;
+}
+
+export interface DashboardParams {
+  range: DashboardRange;
+  timeZone: string;
+  /** Only tasks assigned to this member; null for everyone's. */
+  assigneeId: string | null;
+  taskType: TaskType | null;
+  upcomingLimit: number;
+}
+
+export const queryKeys = {
+  clients: {
+    all: (organizationId: string) => ['clients', organizationId] as const,
+    page: (organizationId: string, params: ClientListParams) =>
+      [...queryKeys.clients.all(organizationId), 'page', params] as const,
+    list: (organizationId: string) => [...queryKeys.clients.all(organizationId), 'list'] as const,
+  },
+  tasks: {
+    all: (organizationId: string) => ['tasks', organizationId] as const,
+    page: (organizationId: string, params: TaskListParams) =>
+      [...queryKeys.tasks.all(organizationId), 'page', params] as const,
+    list: (organizationId: string, filters: TaskFilters) =>
+      [...queryKeys.tasks.all(organizationId), 'list', filters] as const,
+    closing: (organizationId: string, month: string) =>
+      [...queryKeys.tasks.all(organizationId), 'closing', month] as const,
+  },
+  // Derived from both clients and tasks: invalidated along with either
+  dashboard: {
+    all: (organizationId: string) => ['dashboard', organizationId] as const,
+    summary: (organizationId: string, params: DashboardParams) =>
+      [...queryKeys.dashboard.all(organizationId), 'summary', params] as const,
+    workload: (organizationId: string, range: DashboardRange) =>
+      [...queryKeys.dashboard.all(organizationId), 'workload', range] as const,
+    deliveryTrend: (organizationId: string, range: DashboardRange, timeZone: string) =>
+      [...queryKeys.dashboard.all(organizationId), 'delivery-trend', range, timeZone] as const,
+    topClients: (organizationId: string, range: Partial<DashboardRange>, timeZone: string) =>
+      [...queryKeys.dashboard.all(organizationId), 'top-clients', range, timeZone] as const,
+  },
+  profiles: {
+    all: (organizationId: string) => ['profiles', organizationId] as const,
+    members: (organizationId: string) => [...queryKeys.profiles.all(organizationId), 'members'] as const,
+  },
+};
+
+// Clients
+
+const clientsQuery = (organizationId: string, search: string) =>
+  supabase
+    .rpc('search_clients', { target_organization_id: organizationId, search })
+    .select('*');
+
+export const fetchClientPage = async (organizationId: string, params: ClientListParams): Promise<Page<Client>> => {
+  const { search, sort, ascending, page } = params;
+
+  let query = clientsQuery(organizationId, search);
+  if (page) query = query.or(keysetFilter(sort, ascending, page));
+
+  const { data, error } = await query
+    .order(sort, { ascending: queryAscending(ascending, page) })
+    .order('id', { ascending: queryAscending(ascending, page) })
+    .limit(PAGE_SIZE + 1);
+
+  if (error) throw error;
+  return toPage(data || [], PAGE_SIZE, page);
+};
+
+/** Every client matching the search, for actions that span pages. */
+export const fetchAllClients = async (
+  organizationId: string,
+  search = '',
+  sort: ClientSort = 'name',
+  ascending = true,
+) =>
+  fetchAllRows((from, to) =>
+    clientsQuery(organizationId, search)
+      .order(sort, { ascending })
+      .order('id', { ascending })
+      .range(from, to),
+  );
+
+export const deleteClient = async (clientId: string) => {
+  const { error } = await supabase
+    .from('clients')
+    .delete()
+    .eq('id', clientId);
+
+  if (error) throw error;
+};
+
+// Tasks
+
+const TASK_LIST_COLUMNS = '*, clients(name), assignee:profiles!tasks_assignee_id_fkey(name), task_checklist_items(done)';
+
+export type TaskListItem = Task & {
+  clients: { name: string } | null;
+  assignee: { name: string } | null;
+  task_checklist_items: { done: boolean }[];
+};
+
+const tasksQuery = (organizationId: string, filters: TaskFilters) => {
+  let query = supabase
+    .rpc('search_tasks', { target_organization_id: organizationId, search: filters.search })
+    .select(TASK_LIST_COLUMNS);
+
+  if (filters.status === 'open') query = query.not('status', 'in', `(${deliveredStatuses.join(',')})`);
+  else if (filters.status === 'delivered') query = query.in('status', deliveredStatuses);
+  else if (filters.status !== 'all') query = query.eq('status', filters.status);
+  if (filters.assigneeId) query = query.eq('assignee_id', filters.assigneeId);
+  if (filters.taskType) query = query.eq('task_type', filters.taskType);
+  if (filters.clientId === NO_CLIENT) query = query.is('client_id', null);
+  else if (filters.clientId) query = query.eq('client_id', filters.clientId);
+  if (filters.dueFrom) query = query.gte('due_date', filters.dueFrom);
+  if (filters.dueTo) query = query.lte('due_date', filters.dueTo);
+  return query;
+};
+
+export const fetchTaskPage = async (organizationId: string, params: TaskListParams): Promise<Page<TaskListItem>> => {
+  const { sort, ascending, page } = params;
+
+  let query = tasksQuery(organizationId, params);
+  if (page) query = query.or(keysetFilter(sort, ascending, page));
+
+  const { data, error } = await query
+    .order(sort, { ascending: queryAscending(ascending, page) })
+    .order('id', { ascending: queryAscending(ascending, page) })
+    .limit(PAGE_SIZE + 1);
+
+  if (error) throw error;
+  return toPage(data || [], PAGE_SIZE, page);
+};
+
+/** Every task matching the filters, for the board, the calendar and exports. */
+export const fetchAllTasks = async (
+  organizationId: string,
+  filters: TaskFilters,
+  sort: TaskSort = 'due_date',
+  ascending = true,
+): Promise<TaskListItem[]> =>
+  fetchAllRows((from, to) =>
+    tasksQuery(organizationId, filters)
+      .order(sort, { ascending })
+      .order('id', { ascending })
+      .range(from, to),
+  );
+
+export const changeTaskStatus = async (
+  taskId: string,
+  status: TaskStatus,
+  values: TransitionValues = {},
+  next: AdjustedDueDate | null = null,
+) => {
+  const { data, error } = await setTaskStatus(taskId, status, values, next);
+  if (error) throw error;
+  return data;
+};
+
+export const rescheduleTask = async (taskId: string, dueDate: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ due_date: dueDate })
+    .eq('id', taskId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Obligation tasks of the given competências, for the closing panel. */
+export const fetchClosingTasks = (organizationId: string, competencias: string[]): Promise<ClosingTask[]> =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from('tasks')
+      .select('id, title, client_id, obligation_code, competencia, status, due_date, completed_at, series_id, receipt_number, reviewer_id')
+      .eq('organization_id', organizationId)
+      .not('obligation_code', 'is', null)
+      .in('competencia', competencias)
+      .order('id')
+      .range(from, to),
+  );
+
+// Dashboard
+
+export const fetchDashboardSummary = async (organizationId: string, params: DashboardParams) => {
+  const { data, error } = await supabase.rpc('dashboard_summary', {
+    target_organization_id: organizationId,
+    range_start: params.range.start,
+    range_end: params.range.end,
+    time_zone: params.timeZone,
+    target_assignee_id: params.assigneeId ?? undefined,
+    target_task_type: params.taskType ?? undefined,
+    upcoming_limit: params.upcomingLimit,
+  });
+
+  if (error) throw error;
+  return data as unknown as DashboardSummary;
+};
+
+/** Tasks due per week and task type, for the whole organization. */
+export const fetchWorkload = async (organizationId: string, range: DashboardRange): Promise<WorkloadRow[]> => {
+  const { data, error } = await supabase.rpc('dashboard_workload', {
+    target_organization_id: organizationId,
+    range_start: range.start,
+    range_end: range.end,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchDeliveryTrend = async (
+  organizationId: string,
+  range: DashboardRange,
+  timeZone: string,
+): Promise<DeliveryTrendRow[]> => {
+  const { data, error } = await supabase.rpc('dashboard_delivery_trend', {
+    target_organization_id: organizationId,
+    range_start: range.start,
+    range_end: range.end,
+    time_zone: timeZone,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** Clients with the most open tasks; a missing bound leaves the range open. */
+export const fetchTopClients = async (
+  organizationId: string,
+  range: Partial<DashboardRange>,
+  timeZone: string,
+): Promise<TopClientRow[]> => {
+  const { data, error } = await supabase.rpc('dashboard_top_clients', {
+    target_organization_id: organizationId,
+    range_start: range.start,
+    range_end: range.end,
+    time_zone: timeZone,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Profiles
+
+export interface OrganizationMember {
+  user_id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+/** Members of an organization, sorted by name, for assignment pickers. */
+export const fetchOrganizationMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id, role, profiles(name)')
+    .eq('organization_id', organizationId);
+
+  if (error) throw error;
+  return (data || [])
+    .map((member) => ({ user_id: member.user_id, role: member.role, name: member.profiles?.name ?? '—' }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const updateProfile = async (userId: string, values: Tables['profiles']['Update']) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update(values)
+    .eq('id', userId);
+
+  if (error) throw error;
+};
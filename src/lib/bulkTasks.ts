@@ -0,0 +1,110 @@
+// Bulk task operations
+//
+// Each action runs as a single call (bulk_update_tasks / bulk_delete_tasks)
+// that keeps a snapshot of the rows it touched, so the user who ran it can
+// revert it with undo_task_bulk_operation. Tasks the workflow rejects are
+// skipped and reported instead of failing the whole action.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { AdjustedDueDate } from '@/lib/holidays';
+import type { TaskStatus, TaskType } from '@/lib/tasks';
+
+/** Changes applied to every selected task; a key set to null clears the field. */
+export interface BulkTaskChanges {
+  status?: TaskStatus;
+  due_date?: string;
+  /** Moves the due date by this many calendar days (negative moves it earlier). */
+  shift_days?: number;
+  task_type?: TaskType;
+  client_id?: string | null;
+  assignee_id?: string | null;
+}
+
+export interface BulkUpdateResult {
+  operationId: string | null;
+  updated: number;
+  skipped: string[];
+}
+
+export interface BulkDeleteResult {
+  operationId: string | null;
+  deleted: number;
+}
+
+/**
+ * Selection after a checkbox click. A shift-click sets every task between the
+ * previous click (`anchor`) and the clicked one to the clicked state; a plain
+ * click, or an anchor no longer in the list, only touches the clicked task.
+ */
+export const selectRange = (
+  ids: string[],
+  selected: Set<string>,
+  anchor: string | null,
+  target: string,
+  checked: boolean,
+  shiftKey: boolean,
+): Set<string> => {
+  const from = shiftKey && anchor ? ids.indexOf(anchor) : -1;
+  const to = ids.indexOf(target);
+  const range = from >= 0 && to >= 0
+    ? ids.slice(Math.min(from, to), Math.max(from, to) + 1)
+    : [target];
+
+  const next = new Set(selected);
+  range.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+  return next;
+};
+
+/** Drops selected ids that are no longer listed, e.g. after a filter change. */
+export const pruneSelection = (selected: Set<string>, ids: string[]) => {
+  const listed = new Set(ids);
+  const next = new Set([...selected].filter((id) => listed.has(id)));
+  return next.size === selected.size ? selected : next;
+};
+
+/** "1 tarefa" / "3 tarefas" */
+export const pluralizeTasks = (count: number) => `${count} ${count === 1 ? 'tarefa' : 'tarefas'}`;
+
+/**
+ * Applies `changes` to the tasks. Completing occurrences of a series also
+ * creates `nextOccurrences` (see `findNextOccurrences`), keyed by task id;
+ * undoing the operation deletes them.
+ */
+export const bulkUpdateTasks = async (
+  organizationId: string,
+  taskIds: string[],
+  changes: BulkTaskChanges,
+  comment?: string,
+  nextOccurrences: Record<string, AdjustedDueDate> = {},
+) => {
+  const { data, error } = await supabase.rpc('bulk_update_tasks', {
+    target_organization_id: organizationId,
+    target_task_ids: taskIds,
+    changes: { ...changes },
+    status_comment: comment || undefined,
+    next_occurrences: Object.fromEntries(
+      Object.entries(nextOccurrences).map(([taskId, next]) => [taskId, { due_date: next.date, note: next.reason }]),
+    ),
+  });
+  if (error) return { data: null, error };
+
+  const result = data as { operation_id: string | null; updated: number; skipped: string[] };
+  return {
+    data: { operationId: result.operation_id, updated: result.updated, skipped: result.skipped } as BulkUpdateResult,
+    error: null,
+  };
+};
+
+export const bulkDeleteTasks = async (organizationId: string, taskIds: string[]) => {
+  const { data, error } = await supabase.rpc('bulk_delete_tasks', {
+    target_organization_id: organizationId,
+    target_task_ids: taskIds,
+  });
+  if (error) return { data: null, error };
+
+  const result = data as { operation_id: string | null; deleted: number };
+  return { data: { operationId: result.operation_id, deleted: result.deleted } as BulkDeleteResult, error: null };
+};
+
+export const undoBulkOperation = (operationId: string) =>
+  supabase.rpc('undo_task_bulk_operation', { target_operation_id: operationId });
@@ -0,0 +1,53 @@
+// Task checklists
+//
+// Items are ordered by `position`. Templates hold plain item titles and are
+// copied into tasks, either automatically on creation (auto_apply, see the
+// apply_checklist_templates trigger) or on demand from the task page.
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type ChecklistItem = Database['public']['Tables']['task_checklist_items']['Row'];
+export type ChecklistTemplate = Database['public']['Tables']['checklist_templates']['Row'];
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+  /** Share of items done, 0-100. */
+  percent: number;
+}
+
+export const checklistProgress = (items: { done: boolean }[]): ChecklistProgress => {
+  const done = items.filter((item) => item.done).length;
+  return { done, total: items.length, percent: items.length > 0 ? Math.round((done / items.length) * 100) : 0 };
+};
+
+/** Position for an item added at the end of the checklist. */
+export const nextPosition = (items: { position: number }[]) =>
+  items.reduce((max, item) => Math.max(max, item.position + 1), 0);
+
+/**
+ * Moves the item at `index` one step up or down and renumbers the list.
+ * Returns the items in their new order, or the same list when the move falls
+ * off either end.
+ */
+export const moveItem = <T extends { position: number }>(items: T[], index: number, direction: -1 | 1): T[] => {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+
+  const reordered = [...items];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered.map((item, position) => ({ ...item, position }));
+};
+
+/** Titles from a template as new items, numbered after the existing ones. */
+export const itemsFromTemplate = (template: Pick<ChecklistTemplate, 'items'>, existing: { position: number }[]) => {
+  const start = nextPosition(existing);
+  return template.items
+    .map((title) => title.trim())
+    .filter(Boolean)
+    .map((title, offset) => ({ title, position: start + offset }));
+};
+
+/** One item per non-empty line, for editing templates in a textarea. */
+export const parseTemplateItems = (text: string) =>
+  text.split('\n').map((line) => line.trim()).filter(Boolean);
@@ -0,0 +1,177 @@
+// Client import
+//
+// Rows from a spreadsheet are mapped to `clients` fields, validated with the
+// same `clientSchema` used by the client form and checked for duplicated
+// CPF/CNPJ, both against the office's clients and earlier rows of the file.
+
+import { clientSchema, toClientRow, type ClientFormData } from '@/lib/clients';
+import { CNPJ_LENGTH, CPF_LENGTH, normalizeCnpj, type PersonType } from '@/lib/documents';
+import type { TaxRegime } from '@/lib/obligations';
+import type { Sheet } from '@/lib/spreadsheets';
+
+export type ImportField = keyof ClientFormData;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  /** Header names recognized when guessing the mapping (already normalized). */
+  aliases: string[];
+}
+
+export const importFields: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Nome / Razão social', required: true, aliases: ['nome', 'razaosocial', 'cliente', 'nomecliente'] },
+  { field: 'cpf_cnpj', label: 'CPF/CNPJ', required: true, aliases: ['cpfcnpj', 'cnpjcpf', 'cpf', 'cnpj', 'documento', 'doc'] },
+  { field: 'person_type', label: 'Tipo de pessoa', required: false, aliases: ['tipo', 'tipopessoa', 'pessoa', 'pfpj'] },
+  { field: 'tax_regime', label: 'Regime tributário', required: false, aliases: ['regime', 'regimetributario', 'tributacao'] },
+  { field: 'email', label: 'E-mail', required: false, aliases: ['email', 'mail'] },
+  { field: 'phone', label: 'Telefone', required: false, aliases: ['telefone', 'fone', 'celular', 'whatsapp', 'phone'] },
+];
+
+/** Column index of each mapped field. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  /** Line in the spreadsheet (the header is line 1). */
+  line: number;
+  cells: string[];
+  data: ClientFormData | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/** Maps each field to the first column whose header matches one of its aliases. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  for (const { field, aliases } of importFields) {
+    const index = normalized.findIndex(
+      (header, column) => aliases.includes(header) && !Object.values(mapping).includes(column),
+    );
+    if (index >= 0) mapping[field] = index;
+  }
+
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  importFields.filter(({ field, required }) => required && mapping[field] === undefined);
+
+const taxRegimeAliases: Record<string, TaxRegime> = {
+  mei: 'mei',
+  simples: 'simples_nacional',
+  simplesnacional: 'simples_nacional',
+  lucropresumido: 'lucro_presumido',
+  presumido: 'lucro_presumido',
+  lucroreal: 'lucro_real',
+  real: 'lucro_real',
+  pf: 'pf',
+  pessoafisica: 'pf',
+};
+
+const parsePersonType = (value: string): PersonType | null => {
+  const normalized = normalizeHeader(value);
+  if (['pf', 'fisica', 'pessoafisica', 'cpf'].includes(normalized)) return 'PF';
+  if (['pj', 'juridica', 'pessoajuridica', 'cnpj'].includes(normalized)) return 'PJ';
+  return null;
+};
+
+// Spreadsheets often store documents as numbers, dropping leading zeros
+const restoreLeadingZeros = (document: string, personType: PersonType) => {
+  if (!/^\d+$/.test(document)) return document;
+  return document.padStart(personType === 'PJ' ? CNPJ_LENGTH : CPF_LENGTH, '0');
+};
+
+/** Converts one spreadsheet row into client form values plus parse errors. */
+const parseRow = (cells: string[], mapping: ColumnMapping) => {
+  const cell = (field: ImportField) => (mapping[field] === undefined ? '' : cells[mapping[field]] ?? '');
+  const errors: string[] = [];
+
+  const document = normalizeCnpj(cell('cpf_cnpj'));
+  let personType: PersonType = document.length > CPF_LENGTH ? 'PJ' : 'PF';
+  if (cell('person_type')) {
+    const parsed = parsePersonType(cell('person_type'));
+    if (parsed) {
+      personType = parsed;
+    } else {
+      errors.push(`Tipo de pessoa desconhecido: "${cell('person_type')}"`);
+    }
+  }
+
+  let taxRegime: TaxRegime | undefined = personType === 'PF' ? 'pf' : undefined;
+  if (cell('tax_regime')) {
+    taxRegime = taxRegimeAliases[normalizeHeader(cell('tax_regime'))];
+    if (!taxRegime) errors.push(`Regime tributário desconhecido: "${cell('tax_regime')}"`);
+  }
+
+  const values = {
+    name: cell('name'),
+    cpf_cnpj: restoreLeadingZeros(document, personType),
+    person_type: personType,
+    tax_regime: taxRegime,
+    email: cell('email'),
+    phone: cell('phone'),
+  };
+
+  return { values, errors };
+};
+
+/**
+ * Validates every row of the sheet. `existingDocuments` holds the normalized
+ * CPF/CNPJ of the office's clients.
+ */
+export const buildImportRows = (
+  sheet: Sheet,
+  mapping: ColumnMapping,
+  existingDocuments: Set<string>,
+): ImportRow[] => {
+  const seen = new Map<string, number>();
+
+  return sheet.rows.map((cells, index) => {
+    const line = index + 2;
+    const { values, errors } = parseRow(cells, mapping);
+    const result = clientSchema.safeParse(values);
+
+    if (!result.success) {
+      errors.push(...result.error.issues.map((issue) => issue.message));
+    }
+
+    let duplicate = false;
+    if (result.success) {
+      const { cpf_cnpj } = toClientRow(result.data);
+      if (existingDocuments.has(cpf_cnpj)) {
+        duplicate = true;
+        errors.push('CPF/CNPJ já cadastrado');
+      } else if (seen.has(cpf_cnpj)) {
+        duplicate = true;
+        errors.push(`CPF/CNPJ repetido na linha ${seen.get(cpf_cnpj)}`);
+      } else {
+        seen.set(cpf_cnpj, line);
+      }
+    }
+
+    return {
+      line,
+      cells,
+      data: errors.length === 0 && result.success ? result.data : null,
+      errors,
+      duplicate,
+    };
+  });
+};
+
+/** Rows that were not imported, in the original layout plus line and errors. */
+export const buildErrorReport = (sheet: Sheet, rows: ImportRow[]) => [
+  ['Linha', ...sheet.headers, 'Erros'],
+  ...rows
+    .filter((row) => row.errors.length > 0)
+    .map((row) => [row.line, ...sheet.headers.map((_, column) => row.cells[column] ?? ''), row.errors.join('; ')]),
+];
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { isValidDocument, normalizeDocument } from '@/lib/documents';
+
+export const clientSchema = z.object({
+  name: z.string().min(2, 'Nome deve ter no mínimo 2 caracteres'),
+  cpf_cnpj: z.string().min(1, 'CPF/CNPJ é obrigatório'),
+  person_type: z.enum(['PF', 'PJ']),
+  tax_regime: z.enum(['mei', 'simples_nacional', 'lucro_presumido', 'lucro_real', 'pf']).optional(),
+  email: z.string().email('E-mail inválido').optional().or(z.literal('')),
+  phone: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.cpf_cnpj && !isValidDocument(data.cpf_cnpj, data.person_type)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: data.person_type === 'PJ' ? 'CNPJ inválido' : 'CPF inválido',
+      path: ['cpf_cnpj'],
+    });
+  }
+});
+
+export type ClientFormData = z.infer<typeof clientSchema>;
+
+/** Converts validated form values into a `clients` row (without owner columns). */
+export const toClientRow = (data: ClientFormData) => ({
+  name: data.name,
+  cpf_cnpj: normalizeDocument(data.cpf_cnpj, data.person_type),
+  person_type: data.person_type,
+  tax_regime: data.tax_regime || null,
+  email: data.email || null,
+  phone: data.phone || null,
+});
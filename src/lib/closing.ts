@@ -0,0 +1,121 @@
+// Monthly closing
+//
+// The closing panel crosses the office's clients with the obligations catalog
+// for one competência: each cell holds the obligation task generated for that
+// client and competência, if there is one. Annual obligations show the
+// previous year, as generating the month's obligations does.
+
+import { isDeliveredLate } from '@/lib/delivery';
+import { DEFAULT_TIME_ZONE } from '@/lib/dates';
+import {
+  formatCompetencia,
+  obligationCompetencia,
+  obligations,
+  obligationsForRegime,
+  taxRegimeLabels,
+  type Obligation,
+  type TaxRegime,
+} from '@/lib/obligations';
+import type { ObligationClient } from '@/lib/generateObligations';
+import { isOpenStatus, taskStatusLabels, type TaskStatus } from '@/lib/tasks';
+
+export interface ClosingTask {
+  id: string;
+  title: string;
+  client_id: string | null;
+  obligation_code: string | null;
+  competencia: string | null;
+  status: TaskStatus;
+  due_date: string;
+  completed_at: string | null;
+  series_id: string | null;
+  receipt_number: string | null;
+  reviewer_id: string | null;
+}
+
+export type ClosingCell =
+  | { kind: 'task'; task: ClosingTask }
+  /** Owed by the client's regime but not generated yet. */
+  | { kind: 'missing' }
+  | { kind: 'not_applicable' };
+
+export interface ClosingRow {
+  client: ObligationClient;
+  /** One per column, in column order. */
+  cells: ClosingCell[];
+}
+
+/** Every competência shown for `month`, to fetch the tasks in one query. */
+export const closingCompetencias = (month: string) => [
+  ...new Set(obligations.map((obligation) => obligationCompetencia(obligation, month))),
+];
+
+/** Obligations of a regime, or the whole catalog. */
+export const closingColumns = (regime: TaxRegime | null): Obligation[] =>
+  regime ? obligationsForRegime(regime) : obligations;
+
+/**
+ * Tasks of other regimes are still shown: a client may have changed regime
+ * after the obligations were generated.
+ */
+export const buildClosingRows = (
+  clients: ObligationClient[],
+  tasks: ClosingTask[],
+  columns: Obligation[],
+  month: string,
+): ClosingRow[] => {
+  const tasksByCell = new Map(
+    tasks.map((task) => [`${task.client_id}|${task.obligation_code}|${task.competencia}`, task]),
+  );
+
+  return clients.map((client) => ({
+    client,
+    cells: columns.map((obligation): ClosingCell => {
+      const task = tasksByCell.get(`${client.id}|${obligation.code}|${obligationCompetencia(obligation, month)}`);
+      if (task) return { kind: 'task', task };
+      return client.tax_regime && obligation.regimes.includes(client.tax_regime)
+        ? { kind: 'missing' }
+        : { kind: 'not_applicable' };
+    }),
+  }));
+};
+
+/** Delivered tasks out of the cells owed in a column. */
+export const columnProgress = (rows: ClosingRow[], column: number) => {
+  const owed = rows.map((row) => row.cells[column]).filter((cell) => cell.kind !== 'not_applicable');
+  return {
+    done: owed.filter((cell) => cell.kind === 'task' && !isOpenStatus(cell.task.status)).length,
+    total: owed.length,
+  };
+};
+
+/** Cell text for the export, worded like TaskStatusBadge. */
+export const closingCellLabel = (cell: ClosingCell, today: string, timeZone: string = DEFAULT_TIME_ZONE) => {
+  if (cell.kind === 'missing') return 'Não gerada';
+  if (cell.kind === 'not_applicable') return '—';
+
+  const { task } = cell;
+  if (!isOpenStatus(task.status) && isDeliveredLate(task, timeZone)) return 'Entregue com atraso';
+
+  const pastDue = isOpenStatus(task.status) && task.status !== 'atrasada' && task.due_date < today;
+  return pastDue ? `${taskStatusLabels[task.status]} (vencida)` : taskStatusLabels[task.status];
+};
+
+export const closingColumnLabel = (obligation: Obligation, month: string) =>
+  `${obligation.label} ${formatCompetencia(obligation, obligationCompetencia(obligation, month))}`;
+
+/** The panel as spreadsheet rows, headers first. */
+export const closingSheetRows = (
+  rows: ClosingRow[],
+  columns: Obligation[],
+  month: string,
+  today: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+) => [
+  ['Cliente', 'Regime tributário', ...columns.map((obligation) => closingColumnLabel(obligation, month))],
+  ...rows.map((row) => [
+    row.client.name,
+    row.client.tax_regime ? taxRegimeLabels[row.client.tax_regime] : '',
+    ...row.cells.map((cell) => closingCellLabel(cell, today, timeZone)),
+  ]),
+];
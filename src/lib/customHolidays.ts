@@ -0,0 +1,16 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createHolidayCalendar } from '@/lib/holidays';
+
+/**
+ * Builds an organization's holiday calendar: national holidays plus the
+ * state/municipal holidays registered in `holidays`.
+ */
+export const fetchHolidayCalendar = async (organizationId: string) => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .select('date, name, scope, recurring')
+    .eq('organization_id', organizationId);
+
+  if (error) return { data: null, error };
+  return { data: createHolidayCalendar(data || []), error: null };
+};
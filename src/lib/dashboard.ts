@@ -0,0 +1,172 @@
+// Dashboard data
+//
+// The counters, next tasks and month breakdowns come from the
+// dashboard_summary RPC in one call, as of today in the user's time zone.
+// Each chart has its own RPC and range; the helpers here fill the gaps the
+// aggregates leave (weeks or months without tasks) and link bars to the
+// task list.
+
+import { addDays, addMonths, daysInMonth, parseISODate, startOfWeek, toISODate } from '@/lib/dates';
+import { NO_CLIENT, type TaskStatus, type TaskType } from '@/lib/tasks';
+
+export interface DashboardRange {
+  /** First and last due dates included, as DATE strings. */
+  start: string;
+  end: string;
+}
+
+export interface DashboardCounts {
+  total: number;
+  open: number;
+  overdue: number;
+}
+
+export interface TaskTypeCounts extends DashboardCounts {
+  task_type: TaskType;
+}
+
+export interface ClientCounts extends DashboardCounts {
+  /** Null for the tasks without a client. */
+  client_id: string | null;
+  client_name: string | null;
+}
+
+export interface UpcomingTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  due_date: string;
+  completed_at: string | null;
+  client_name: string | null;
+}
+
+export interface DashboardSummary {
+  today: string;
+  total_clients: number;
+  pending_tasks: number;
+  today_tasks: number;
+  overdue_tasks: number;
+  upcoming_tasks: UpcomingTask[];
+  by_task_type: TaskTypeCounts[];
+  by_client: ClientCounts[];
+}
+
+/** The whole month of a `YYYY-MM` value. */
+export const monthRange = (month: string): DashboardRange => {
+  const { year, month: monthNumber } = parseISODate(`${month}-01`);
+  return {
+    start: `${month}-01`,
+    end: toISODate({ year, month: monthNumber, day: daysInMonth(year, monthNumber) }),
+  };
+};
+
+/** Share of the tasks still open, 0-100. */
+export const openShare = (counts: DashboardCounts) =>
+  counts.total > 0 ? Math.round((counts.open / counts.total) * 100) : 0;
+
+// Charts
+
+export interface WorkloadRow {
+  /** Sunday of the week. */
+  week_start: string;
+  task_type: TaskType;
+  total: number;
+}
+
+export interface DeliveryTrendRow {
+  /** First day of the month. */
+  month: string;
+  on_time: number;
+  late: number;
+  overdue: number;
+}
+
+export interface TopClientRow {
+  client_id: string | null;
+  client_name: string | null;
+  open: number;
+  overdue: number;
+}
+
+export interface ChartPeriod {
+  value: string;
+  label: string;
+}
+
+/** Days ahead. */
+export const workloadPeriods: ChartPeriod[] = [
+  { value: '30', label: 'Próximos 30 dias' },
+  { value: '60', label: 'Próximos 60 dias' },
+  { value: '90', label: 'Próximos 90 dias' },
+];
+
+/** Months back. */
+export const deliveryTrendPeriods: ChartPeriod[] = [
+  { value: '3', label: 'Últimos 3 meses' },
+  { value: '6', label: 'Últimos 6 meses' },
+  { value: '12', label: 'Últimos 12 meses' },
+];
+
+/** Days ahead; overdue tasks are always included, only the end of the range moves. */
+export const topClientsPeriods: ChartPeriod[] = [
+  { value: '30', label: 'Vencendo em 30 dias' },
+  { value: '90', label: 'Vencendo em 90 dias' },
+  { value: 'all', label: 'Todas em aberto' },
+];
+
+/** Today through `days` days from now. */
+export const nextDays = (today: string, days: number): DashboardRange => ({
+  start: today,
+  end: addDays(today, days),
+});
+
+/** The last `months` months, the current one included. */
+export const lastMonths = (today: string, months: number): DashboardRange => {
+  const month = today.slice(0, 7);
+  return { start: addMonths(`${month}-01`, 1 - months), end: monthRange(month).end };
+};
+
+export type WorkloadWeek = { week: string } & Partial<Record<TaskType, number>>;
+
+/** One entry per week of the range, empty weeks included, with a count per task type. */
+export const workloadWeeks = (rows: WorkloadRow[], range: DashboardRange): WorkloadWeek[] => {
+  const weeks = new Map<string, WorkloadWeek>();
+  for (let week = startOfWeek(range.start); week <= range.end; week = addDays(week, 7)) {
+    weeks.set(week, { week });
+  }
+  rows.forEach((row) => {
+    const entry = weeks.get(row.week_start);
+    if (entry) entry[row.task_type] = row.total;
+  });
+  return [...weeks.values()];
+};
+
+/** One entry per month of the range, empty months included. */
+export const deliveryMonths = (rows: DeliveryTrendRow[], range: DashboardRange): DeliveryTrendRow[] => {
+  const months = new Map<string, DeliveryTrendRow>();
+  for (let month = `${range.start.slice(0, 7)}-01`; month <= range.end; month = addMonths(month, 1)) {
+    months.set(month, { month, on_time: 0, late: 0, overdue: 0 });
+  }
+  rows.forEach((row) => months.has(row.month) && months.set(row.month, row));
+  return [...months.values()];
+};
+
+export interface TaskListLink {
+  status?: TaskStatus | 'open' | 'delivered';
+  taskType?: TaskType;
+  /** Null for the tasks without a client. */
+  clientId?: string | null;
+  from?: string;
+  to?: string;
+}
+
+/** Task list filtered to what a chart shows, across the whole organization. */
+export const taskListPath = (link: TaskListLink) => {
+  const params = new URLSearchParams({ scope: 'all' });
+  if (link.status) params.set('status', link.status);
+  if (link.taskType) params.set('type', link.taskType);
+  if (link.clientId !== undefined) params.set('client', link.clientId ?? NO_CLIENT);
+  if (link.from) params.set('from', link.from);
+  if (link.to) params.set('to', link.to);
+  return `/tasks?${params.toString()}`;
+};
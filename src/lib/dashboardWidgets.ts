@@ -0,0 +1,248 @@
+// Dashboard widgets
+//
+// Each user's dashboard is a list of widgets picked from the catalog, in
+// order, each with a size (columns of a four-column grid) and its own
+// filters. The layout is saved on the profile; reading it drops whatever the
+// catalog no longer knows, so old layouts keep working.
+
+import {
+  deliveryTrendPeriods,
+  topClientsPeriods,
+  workloadPeriods,
+  type ChartPeriod,
+} from '@/lib/dashboard';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+export const widgetTypes = [
+  'total_clients',
+  'pending_tasks',
+  'today_tasks',
+  'overdue_tasks',
+  'upcoming_tasks',
+  'month_breakdown',
+  'workload',
+  'delivery_trend',
+  'top_clients',
+  'delivery_report',
+] as const;
+export type WidgetType = typeof widgetTypes[number];
+
+export const widgetSizes = ['sm', 'md', 'lg', 'full'] as const;
+export type WidgetSize = typeof widgetSizes[number];
+
+export const widgetSizeLabels: Record<WidgetSize, string> = {
+  sm: 'Pequeno',
+  md: 'Médio',
+  lg: 'Grande',
+  full: 'Largura total',
+};
+
+export type WidgetScope = 'mine' | 'all';
+
+export const upcomingLimits = [5, 10, 20];
+
+export interface WidgetConfig {
+  /** The current user's tasks or everyone's. */
+  scope?: WidgetScope;
+  taskType?: TaskType | null;
+  /** Rows to list. */
+  limit?: number;
+  /** Period a chart opens with. */
+  period?: string;
+}
+
+export type WidgetFilter = keyof WidgetConfig;
+
+export interface WidgetDefinition {
+  label: string;
+  description: string;
+  /** Sizes the widget can take, the first one being the default. */
+  sizes: WidgetSize[];
+  filters: WidgetFilter[];
+  defaults: WidgetConfig;
+  periods?: ChartPeriod[];
+}
+
+const counter = (label: string, description: string): WidgetDefinition => ({
+  label,
+  description,
+  sizes: ['sm', 'md'],
+  filters: ['scope', 'taskType'],
+  defaults: { scope: 'mine', taskType: null },
+});
+
+const chart = (label: string, description: string, periods: ChartPeriod[], period: string, sizes: WidgetSize[]): WidgetDefinition => ({
+  label,
+  description,
+  sizes,
+  filters: ['period'],
+  defaults: { period },
+  periods,
+});
+
+export const widgetCatalog: Record<WidgetType, WidgetDefinition> = {
+  total_clients: {
+    label: 'Total de clientes',
+    description: 'Clientes cadastrados no escritório',
+    sizes: ['sm', 'md'],
+    filters: [],
+    defaults: {},
+  },
+  pending_tasks: counter('Tarefas pendentes', 'Tarefas em aberto'),
+  today_tasks: counter('Vencem hoje', 'Tarefas em aberto que vencem hoje'),
+  overdue_tasks: counter('Atrasadas', 'Tarefas em aberto com vencimento passado'),
+  upcoming_tasks: {
+    label: 'Próximas tarefas',
+    description: 'As tarefas em aberto com vencimento mais próximo',
+    sizes: ['full', 'lg', 'md'],
+    filters: ['scope', 'taskType', 'limit'],
+    defaults: { scope: 'mine', taskType: null, limit: 5 },
+  },
+  month_breakdown: {
+    label: 'Vencimentos do mês',
+    description: 'Tarefas do mês por tipo ou cliente',
+    sizes: ['full', 'lg', 'md'],
+    filters: ['scope'],
+    defaults: { scope: 'mine' },
+  },
+  workload: chart('Carga de trabalho', 'Tarefas por semana de vencimento', workloadPeriods, '90', ['full', 'lg', 'md']),
+  delivery_trend: chart(
+    'Entregas por mês',
+    'Concluídas no prazo, com atraso e atrasadas',
+    deliveryTrendPeriods,
+    '12',
+    ['md', 'lg', 'full'],
+  ),
+  top_clients: chart(
+    'Clientes com mais pendências',
+    'Tarefas em aberto por cliente',
+    topClientsPeriods,
+    '30',
+    ['md', 'lg', 'full'],
+  ),
+  delivery_report: {
+    label: 'Entregas no prazo',
+    description: 'Taxa de entrega no prazo por cliente, tipo ou responsável',
+    sizes: ['full', 'lg', 'md'],
+    filters: [],
+    defaults: {},
+  },
+};
+
+/** Task filters that differ from the default, e.g. "Todas as tarefas · Imposto". */
+export const filterSummary = ({ scope, taskType }: WidgetConfig) =>
+  [scope === 'all' && 'Todas as tarefas', taskType && taskTypeLabels[taskType]].filter(Boolean).join(' · ');
+
+export interface DashboardWidget {
+  id: string;
+  type: WidgetType;
+  size: WidgetSize;
+  config: WidgetConfig;
+}
+
+export interface DashboardLayout {
+  widgets: DashboardWidget[];
+}
+
+export const createWidget = (type: WidgetType, id: string = crypto.randomUUID()): DashboardWidget => ({
+  id,
+  type,
+  size: widgetCatalog[type].sizes[0],
+  config: { ...widgetCatalog[type].defaults },
+});
+
+/** The dashboard as it was before it could be customized. */
+export const defaultLayout = (): DashboardLayout => ({
+  widgets: (['total_clients', 'pending_tasks', 'today_tasks', 'overdue_tasks', 'upcoming_tasks', 'workload'] as const)
+    .map((type) => createWidget(type, type))
+    .concat([
+      { ...createWidget('delivery_trend', 'delivery_trend'), size: 'md' },
+      { ...createWidget('top_clients', 'top_clients'), size: 'md' },
+      createWidget('month_breakdown', 'month_breakdown'),
+      createWidget('delivery_report', 'delivery_report'),
+    ]),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Keeps the filters the widget has, with valid values, over its defaults. */
+const parseConfig = (type: WidgetType, value: unknown): WidgetConfig => {
+  const { filters, defaults, periods } = widgetCatalog[type];
+  const config: WidgetConfig = { ...defaults };
+  if (!isObject(value)) return config;
+
+  if (filters.includes('scope') && (value.scope === 'mine' || value.scope === 'all')) {
+    config.scope = value.scope;
+  }
+  if (filters.includes('taskType') && (value.taskType === null || (typeof value.taskType === 'string' && value.taskType in taskTypeLabels))) {
+    config.taskType = value.taskType as TaskType | null;
+  }
+  if (filters.includes('limit') && typeof value.limit === 'number' && upcomingLimits.includes(value.limit)) {
+    config.limit = value.limit;
+  }
+  if (filters.includes('period') && periods?.some((period) => period.value === value.period)) {
+    config.period = value.period as string;
+  }
+  return config;
+};
+
+/** Layout saved on a profile; the default one when nothing usable is saved. */
+export const parseLayout = (value: unknown): DashboardLayout => {
+  if (!isObject(value) || !Array.isArray(value.widgets)) return defaultLayout();
+
+  const ids = new Set<string>();
+  const widgets = value.widgets.flatMap((widget): DashboardWidget[] => {
+    if (!isObject(widget) || typeof widget.id !== 'string' || ids.has(widget.id)) return [];
+    if (!widgetTypes.includes(widget.type as WidgetType)) return [];
+
+    const type = widget.type as WidgetType;
+    const { sizes } = widgetCatalog[type];
+    ids.add(widget.id);
+    return [{
+      id: widget.id,
+      type,
+      size: sizes.includes(widget.size as WidgetSize) ? widget.size as WidgetSize : sizes[0],
+      config: parseConfig(type, widget.config),
+    }];
+  });
+
+  return { widgets };
+};
+
+const updateWidget = (layout: DashboardLayout, id: string, changes: Partial<DashboardWidget>): DashboardLayout => ({
+  widgets: layout.widgets.map((widget) => (widget.id === id ? { ...widget, ...changes } : widget)),
+});
+
+export const addWidget = (layout: DashboardLayout, type: WidgetType): DashboardLayout => ({
+  widgets: [...layout.widgets, createWidget(type)],
+});
+
+export const removeWidget = (layout: DashboardLayout, id: string): DashboardLayout => ({
+  widgets: layout.widgets.filter((widget) => widget.id !== id),
+});
+
+export const resizeWidget = (layout: DashboardLayout, id: string, size: WidgetSize) =>
+  updateWidget(layout, id, { size });
+
+export const configureWidget = (layout: DashboardLayout, id: string, config: WidgetConfig) =>
+  updateWidget(layout, id, { config });
+
+/** Moves a widget to where `targetId` is, shifting the ones in between. */
+export const moveWidget = (layout: DashboardLayout, id: string, targetId: string): DashboardLayout => {
+  const from = layout.widgets.findIndex((widget) => widget.id === id);
+  const to = layout.widgets.findIndex((widget) => widget.id === targetId);
+  if (from < 0 || to < 0 || from === to) return layout;
+
+  const widgets = [...layout.widgets];
+  const [moved] = widgets.splice(from, 1);
+  widgets.splice(to, 0, moved);
+  return { widgets };
+};
+
+/** Moves a widget one place earlier (-1) or later (1). */
+export const shiftWidget = (layout: DashboardLayout, id: string, offset: -1 | 1): DashboardLayout => {
+  const index = layout.widgets.findIndex((widget) => widget.id === id);
+  const target = layout.widgets[index + offset];
+  return index < 0 || !target ? layout : moveWidget(layout, id, target.id);
+};
@@ -0,0 +1,130 @@
+// Date helpers.
+//
+// DATE columns (`YYYY-MM-DD` strings) have no time zone, so they are handled
+// as plain year/month/day components and never go through `new Date(string)`,
+// which would read them as UTC midnight and show the previous day in Brazil.
+// "Today" and TIMESTAMPTZ columns are always resolved in the office's
+// configured time zone, never in UTC or the browser's zone.
+
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+export const timeZoneOptions = [
+  { value: 'America/Sao_Paulo', label: 'Brasília (UTC-3)' },
+  { value: 'America/Noronha', label: 'Fernando de Noronha (UTC-2)' },
+  { value: 'America/Manaus', label: 'Amazonas (UTC-4)' },
+  { value: 'America/Cuiaba', label: 'Mato Grosso (UTC-4)' },
+  { value: 'America/Porto_Velho', label: 'Rondônia (UTC-4)' },
+  { value: 'America/Boa_Vista', label: 'Roraima (UTC-4)' },
+  { value: 'America/Rio_Branco', label: 'Acre (UTC-5)' },
+];
+
+/** IANA zones the browser knows, like the database's pg_timezone_names. */
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('pt-BR', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface CalendarDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const parseISODate = (value: string): CalendarDay => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return { year, month, day };
+};
+
+export const toISODate = ({ year, month, day }: CalendarDay) => `${year}-${pad(month)}-${pad(day)}`;
+
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/** Day of week for a calendar day, 0 = Sunday. */
+export const dayOfWeek = (value: string) => {
+  const { year, month, day } = parseISODate(value);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export const isWeekend = (value: string) => {
+  const weekday = dayOfWeek(value);
+  return weekday === 0 || weekday === 6;
+};
+
+export const addDays = (value: string, amount: number) => {
+  const { year, month, day } = parseISODate(value);
+  const date = new Date(Date.UTC(year, month - 1, day + amount));
+  return toISODate({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() });
+};
+
+/** The Sunday that starts the week of a calendar day. */
+export const startOfWeek = (value: string) => addDays(value, -dayOfWeek(value));
+
+/** Calendar day of a local `Date`, as produced by date pickers. */
+export const fromLocalDate = (date: Date) =>
+  toISODate({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+
+/** Local midnight of a calendar day, for date pickers. */
+export const toLocalDate = (value: string) => {
+  const { year, month, day } = parseISODate(value);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Moves a date by whole months. When `dayOfMonth` is given it replaces the
+ * original day; either way the day is clamped to the length of the target
+ * month (31 → 28/29/30).
+ */
+export const addMonths = (value: string, amount: number, dayOfMonth?: number | null) => {
+  const { year, month, day } = parseISODate(value);
+  const index = year * 12 + (month - 1) + amount;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = (index % 12) + 1;
+  return toISODate({
+    year: targetYear,
+    month: targetMonth,
+    day: Math.min(dayOfMonth ?? day, daysInMonth(targetYear, targetMonth)),
+  });
+};
+
+/** The calendar day an instant falls on in `timeZone`. */
+export const toCalendarDay = (instant: Date, timeZone: string = DEFAULT_TIME_ZONE): CalendarDay => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+/** Today as a DATE string (`YYYY-MM-DD`) in `timeZone`. */
+export const todayISO = (timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()) =>
+  toISODate(toCalendarDay(now, timeZone));
+
+/** Current month as `YYYY-MM` in `timeZone`. */
+export const currentMonthISO = (timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()) =>
+  todayISO(timeZone, now).slice(0, 7);
+
+/** Formats a DATE column as `dd/mm/aaaa`. */
+export const formatDate = (value: string) => {
+  const { year, month, day } = parseISODate(value);
+  return `${pad(day)}/${pad(month)}/${year}`;
+};
+
+/** Formats a TIMESTAMPTZ column as a date in `timeZone`. */
+export const formatTimestamp = (
+  value: string,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  options: Intl.DateTimeFormatOptions = {},
+) => new Date(value).toLocaleDateString('pt-BR', { timeZone, ...options });
+
+/** Formats a TIMESTAMPTZ column as date and time in `timeZone`. */
+export const formatDateTime = (value: string, timeZone: string = DEFAULT_TIME_ZONE) =>
+  new Date(value).toLocaleString('pt-BR', { timeZone, dateStyle: 'short', timeStyle: 'short' });
@@ -0,0 +1,97 @@
+// On-time delivery
+//
+// A task is delivered on time when it is completed on or before its due date,
+// with the completion day taken in the office's time zone.
+
+import { DEFAULT_TIME_ZONE, todayISO } from '@/lib/dates';
+import { taskTypeLabels, type TaskType } from '@/lib/tasks';
+
+export interface DeliveredTask {
+  due_date: string;
+  completed_at: string | null;
+}
+
+/** Day a task was completed (`YYYY-MM-DD`) in `timeZone`. */
+export const completionDate = (completedAt: string, timeZone: string = DEFAULT_TIME_ZONE) =>
+  todayISO(timeZone, new Date(completedAt));
+
+export const isDeliveredLate = (task: DeliveredTask, timeZone: string = DEFAULT_TIME_ZONE) =>
+  !!task.completed_at && completionDate(task.completed_at, timeZone) > task.due_date;
+
+export type DeliveryGrouping = 'client' | 'task_type' | 'assignee';
+
+export const deliveryGroupingLabels: Record<DeliveryGrouping, string> = {
+  client: 'Cliente',
+  task_type: 'Tipo',
+  assignee: 'Responsável',
+};
+
+export interface DeliveryReportTask extends DeliveredTask {
+  task_type: TaskType;
+  client_id: string | null;
+  assignee_id: string | null;
+  clients: { name: string } | null;
+  assignee: { name: string } | null;
+}
+
+export interface DeliveryRate {
+  key: string;
+  label: string;
+  total: number;
+  onTime: number;
+  /** Share delivered on time, 0-1. */
+  rate: number;
+}
+
+const groupOf = (task: DeliveryReportTask, grouping: DeliveryGrouping) => {
+  switch (grouping) {
+    case 'client':
+      return { key: task.client_id ?? 'none', label: task.clients?.name ?? 'Sem cliente' };
+    case 'task_type':
+      return { key: task.task_type, label: taskTypeLabels[task.task_type] };
+    case 'assignee':
+      return { key: task.assignee_id ?? 'none', label: task.assignee?.name ?? 'Sem responsável' };
+  }
+};
+
+const toRate = (key: string, label: string, total: number, onTime: number): DeliveryRate => ({
+  key,
+  label,
+  total,
+  onTime,
+  rate: total > 0 ? onTime / total : 0,
+});
+
+/** On-time rate over every completed task. */
+export const overallDeliveryRate = (tasks: DeliveryReportTask[], timeZone: string = DEFAULT_TIME_ZONE) => {
+  const completed = tasks.filter((task) => task.completed_at);
+  const onTime = completed.filter((task) => !isDeliveredLate(task, timeZone)).length;
+  return toRate('all', 'Total', completed.length, onTime);
+};
+
+/**
+ * On-time rate of completed tasks per client, task type or staff member,
+ * worst first so the groups that need attention come up on top.
+ */
+export const deliveryRates = (
+  tasks: DeliveryReportTask[],
+  grouping: DeliveryGrouping,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): DeliveryRate[] => {
+  const groups = new Map<string, { label: string; total: number; onTime: number }>();
+
+  for (const task of tasks) {
+    if (!task.completed_at) continue;
+    const { key, label } = groupOf(task, grouping);
+    const group = groups.get(key) ?? { label, total: 0, onTime: 0 };
+    group.total += 1;
+    if (!isDeliveredLate(task, timeZone)) group.onTime += 1;
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => toRate(key, group.label, group.total, group.onTime))
+    .sort((a, b) => a.rate - b.rate || b.total - a.total || a.label.localeCompare(b.label, 'pt-BR'));
+};
+
+export const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
@@ -0,0 +1,89 @@
+// CPF / CNPJ helpers
+//
+// Documents are stored normalized: CPF as 11 digits, CNPJ as 14 characters
+// (12 alphanumeric + 2 numeric check digits, per the alphanumeric CNPJ
+// introduced by the Receita Federal). Masks are only applied for display.
+
+export type PersonType = 'PF' | 'PJ';
+
+export const CPF_LENGTH = 11;
+export const CNPJ_LENGTH = 14;
+
+export const normalizeCpf = (value: string) => value.replace(/\D/g, '').slice(0, CPF_LENGTH);
+
+export const normalizeCnpj = (value: string) =>
+  value.toUpperCase().replace(/[^0-9A-Z]/g, '').slice(0, CNPJ_LENGTH);
+
+export const normalizeDocument = (value: string, personType: PersonType) =>
+  personType === 'PJ' ? normalizeCnpj(value) : normalizeCpf(value);
+
+const allSameCharacter = (value: string) => /^(.)\1*$/.test(value);
+
+export const isValidCpf = (value: string) => {
+  const cpf = value.replace(/\D/g, '');
+  if (cpf.length !== CPF_LENGTH || allSameCharacter(cpf)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(cpf[i]) * (length + 1 - i);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+};
+
+export const isValidCnpj = (value: string) => {
+  const cnpj = value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj) || allSameCharacter(cnpj)) return false;
+
+  // Each character is worth its ASCII code minus 48, so digits keep their
+  // value and letters map to 17..42 (alphanumeric CNPJ rule).
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    let weight = 2;
+    for (let i = length - 1; i >= 0; i--) {
+      sum += (cnpj.charCodeAt(i) - 48) * weight;
+      weight = weight === 9 ? 2 : weight + 1;
+    }
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === Number(cnpj[12]) && checkDigit(13) === Number(cnpj[13]);
+};
+
+export const isValidDocument = (value: string, personType: PersonType) =>
+  personType === 'PJ' ? isValidCnpj(value) : isValidCpf(value);
+
+const applyPattern = (value: string, pattern: string) => {
+  let result = '';
+  let index = 0;
+  for (const char of pattern) {
+    if (index >= value.length) break;
+    if (char === '#') {
+      result += value[index++];
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+export const formatCpf = (value: string) => applyPattern(normalizeCpf(value), '###.###.###-##');
+
+export const formatCnpj = (value: string) => applyPattern(normalizeCnpj(value), '##.###.###/####-##');
+
+/** Masks a (possibly partial) document while the user types. */
+export const maskDocument = (value: string, personType: PersonType) =>
+  personType === 'PJ' ? formatCnpj(value) : formatCpf(value);
+
+/** Formats a stored document for display, inferring the type from its length. */
+export const formatDocument = (value: string) => {
+  const normalized = normalizeCnpj(value);
+  if (normalized.length === CNPJ_LENGTH) return formatCnpj(normalized);
+  if (normalized.length === CPF_LENGTH) return formatCpf(normalized);
+  return value;
+};
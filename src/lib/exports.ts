@@ -0,0 +1,139 @@
+// List exports
+//
+// Lists are exported as they are shown on screen: the page passes its
+// filtered rows and the columns picked by the user. CSV and XLSX go through
+// `downloadSpreadsheet`; PDFs are rendered with jsPDF and carry the office
+// name and the generation time on every page.
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { formatDate, formatDateTime, formatTimestamp, todayISO } from '@/lib/dates';
+import { formatDocument } from '@/lib/documents';
+import { taxRegimeLabels, type TaxRegime } from '@/lib/obligations';
+import { downloadSpreadsheet } from '@/lib/spreadsheets';
+import { taskStatusLabels, taskTypeLabels, type TaskStatus, type TaskType } from '@/lib/tasks';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF',
+};
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => string;
+}
+
+export interface ExportOptions<T> {
+  /** Report title, also used as the file name. */
+  title: string;
+  organizationName: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  format: ExportFormat;
+  timeZone: string;
+}
+
+export interface ExportClient {
+  name: string;
+  cpf_cnpj: string;
+  person_type: 'PF' | 'PJ';
+  tax_regime: TaxRegime | null;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+}
+
+export const clientExportColumns = (timeZone: string): ExportColumn<ExportClient>[] => [
+  { key: 'name', label: 'Nome', value: (client) => client.name },
+  { key: 'cpf_cnpj', label: 'CPF/CNPJ', value: (client) => formatDocument(client.cpf_cnpj) },
+  { key: 'person_type', label: 'Tipo', value: (client) => (client.person_type === 'PJ' ? 'Pessoa Jurídica' : 'Pessoa Física') },
+  { key: 'tax_regime', label: 'Regime tributário', value: (client) => (client.tax_regime ? taxRegimeLabels[client.tax_regime] : '') },
+  { key: 'email', label: 'E-mail', value: (client) => client.email ?? '' },
+  { key: 'phone', label: 'Telefone', value: (client) => client.phone ?? '' },
+  { key: 'created_at', label: 'Cadastro', value: (client) => formatTimestamp(client.created_at, timeZone) },
+];
+
+export interface ExportTask {
+  title: string;
+  task_type: TaskType;
+  due_date: string;
+  status: TaskStatus;
+  clients: { name: string } | null;
+  assignee: { name: string } | null;
+}
+
+export const taskExportColumns: ExportColumn<ExportTask>[] = [
+  { key: 'title', label: 'Tarefa', value: (task) => task.title },
+  { key: 'client', label: 'Cliente', value: (task) => task.clients?.name ?? '' },
+  { key: 'task_type', label: 'Tipo', value: (task) => taskTypeLabels[task.task_type] },
+  { key: 'due_date', label: 'Vencimento', value: (task) => formatDate(task.due_date) },
+  { key: 'status', label: 'Status', value: (task) => taskStatusLabels[task.status] },
+  { key: 'assignee', label: 'Responsável', value: (task) => task.assignee?.name ?? '' },
+];
+
+/** Header row followed by one row per record. */
+export const buildExportRows = <T>(columns: ExportColumn<T>[], rows: T[]) => [
+  columns.map((column) => column.label),
+  ...rows.map((row) => columns.map((column) => column.value(row))),
+];
+
+export const exportFileName = (title: string, format: ExportFormat, today: string) => {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug}-${today}.${format}`;
+};
+
+// --primary (hsl 220 70% 25%)
+const BRAND_COLOR: [number, number, number] = [19, 49, 108];
+
+const exportPdf = <T>({ title, organizationName, columns, rows, timeZone }: ExportOptions<T>, fileName: string) => {
+  const doc = new jsPDF({ orientation: columns.length > 5 ? 'landscape' : 'portrait' });
+  const generatedAt = `Gerado em ${formatDateTime(new Date().toISOString(), timeZone)}`;
+  const [head, ...body] = buildExportRows(columns, rows);
+
+  autoTable(doc, {
+    head: [head],
+    body,
+    startY: 30,
+    margin: { top: 30 },
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: BRAND_COLOR },
+    didDrawPage: () => {
+      const width = doc.internal.pageSize.getWidth();
+      const height = doc.internal.pageSize.getHeight();
+
+      doc.setFillColor(...BRAND_COLOR);
+      doc.rect(0, 0, width, 4, 'F');
+      doc.setTextColor(...BRAND_COLOR);
+      doc.setFontSize(14);
+      doc.text(organizationName, 14, 14);
+      doc.setTextColor(80);
+      doc.setFontSize(11);
+      doc.text(title, 14, 21);
+      doc.setFontSize(8);
+      doc.text(generatedAt, width - 14, 14, { align: 'right' });
+      doc.text(`${rows.length} registro(s)`, width - 14, 21, { align: 'right' });
+      doc.text(`ContableMax • Página ${doc.getCurrentPageInfo().pageNumber}`, width - 14, height - 8, { align: 'right' });
+    },
+  });
+
+  doc.save(fileName);
+};
+
+export const exportList = <T>(options: ExportOptions<T>) => {
+  const fileName = exportFileName(options.title, options.format, todayISO(options.timeZone));
+
+  if (options.format === 'pdf') {
+    exportPdf(options, fileName);
+  } else {
+    downloadSpreadsheet(buildExportRows(options.columns, options.rows), fileName, options.title.replace(/[\\/?*[\]:]/g, '-').slice(0, 31));
+  }
+};
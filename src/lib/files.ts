@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export const DOCUMENTS_BUCKET = 'documents';
+
+export type DocumentType = Database['public']['Enums']['document_type'];
+export type DocumentRecord = Database['public']['Tables']['documents']['Row'];
+export type DocumentVersion = Database['public']['Tables']['document_versions']['Row'];
+
+export const documentTypeLabels: Record<DocumentType, string> = {
+  guia: 'Guia',
+  recibo: 'Recibo',
+  contrato: 'Contrato',
+  xml: 'XML',
+  declaracao: 'Declaração',
+  outro: 'Outro',
+};
+
+/** What a document is attached to. Task documents also carry the task's client. */
+export interface DocumentTarget {
+  organizationId: string;
+  clientId?: string | null;
+  taskId?: string | null;
+}
+
+export interface DocumentTags {
+  document_type: DocumentType;
+  competencia: string | null;
+}
+
+/** Storage keys only accept a safe subset of characters: drop accents and symbols. */
+export const sanitizeFileName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/_+/g, '_');
+
+// The organization is the first folder: storage policies check membership on it
+export const storagePath = (organizationId: string, documentId: string, version: number, fileName: string) =>
+  `${organizationId}/${documentId}/v${version}-${sanitizeFileName(fileName)}`;
+
+export const previewKind = (mimeType: string | null): 'pdf' | 'image' | null => {
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType?.startsWith('image/')) return 'image';
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+};
+
+const uploadFile = (path: string, file: File) =>
+  supabase.storage.from(DOCUMENTS_BUCKET).upload(path, file, { contentType: file.type || undefined });
+
+const fileFields = (file: File, path: string) => ({
+  name: file.name,
+  storage_path: path,
+  mime_type: file.type || null,
+  size_bytes: file.size,
+});
+
+/** Uploads a new document (version 1). */
+export const uploadDocument = async (target: DocumentTarget, file: File, tags: DocumentTags) => {
+  const documentId = crypto.randomUUID();
+  const path = storagePath(target.organizationId, documentId, 1, file.name);
+
+  const { error: uploadError } = await uploadFile(path, file);
+  if (uploadError) return { data: null, error: uploadError };
+
+  const { data, error } = await supabase
+    .from('documents')
+    .insert({
+      id: documentId,
+      organization_id: target.organizationId,
+      client_id: target.clientId ?? null,
+      task_id: target.taskId ?? null,
+      ...tags,
+      ...fileFields(file, path),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+    return { data: null, error };
+  }
+
+  const { error: versionError } = await supabase
+    .from('document_versions')
+    .insert({ document_id: documentId, organization_id: target.organizationId, version: 1, ...fileFields(file, path) });
+
+  return { data, error: versionError };
+};
+
+/**
+ * Replaces a document's file with a new version. Previous versions stay in
+ * storage and in `document_versions`.
+ */
+export const replaceDocument = async (document: DocumentRecord, file: File) => {
+  const version = document.version + 1;
+  const path = storagePath(document.organization_id, document.id, version, file.name);
+
+  const { error: uploadError } = await uploadFile(path, file);
+  if (uploadError) return { data: null, error: uploadError };
+
+  const { error: versionError } = await supabase
+    .from('document_versions')
+    .insert({ document_id: document.id, organization_id: document.organization_id, version, ...fileFields(file, path) });
+
+  if (versionError) {
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+    return { data: null, error: versionError };
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ ...fileFields(file, path), version, updated_at: new Date().toISOString() })
+    .eq('id', document.id)
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+export const updateDocumentTags = (documentId: string, tags: DocumentTags) =>
+  supabase
+    .from('documents')
+    .update(tags)
+    .eq('id', documentId);
+
+/** Short-lived URL for previewing, or downloading when `downloadName` is given. */
+export const getDocumentUrl = async (path: string, downloadName?: string) => {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(path, 300, downloadName ? { download: downloadName } : undefined);
+
+  return { data: data?.signedUrl ?? null, error };
+};
+
+/** Deletes a document with every stored version. */
+export const deleteDocument = async (document: DocumentRecord) => {
+  const { data: versions, error: versionsError } = await supabase
+    .from('document_versions')
+    .select('storage_path')
+    .eq('document_id', document.id);
+
+  if (versionsError) return { error: versionsError };
+
+  const { error } = await supabase
+    .from('documents')
+    .delete()
+    .eq('id', document.id);
+
+  if (error) return { error };
+
+  const paths = (versions || []).map((version) => version.storage_path);
+  const { error: storageError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(paths);
+  return { error: storageError };
+};
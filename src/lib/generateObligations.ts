@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { fetchHolidayCalendar } from '@/lib/customHolidays';
+import { buildObligationTasks, type TaxRegime } from '@/lib/obligations';
+
+type TaskInsert = Database['public']['Tables']['tasks']['Insert'];
+
+export interface ObligationClient {
+  id: string;
+  name: string;
+  tax_regime: TaxRegime | null;
+}
+
+/**
+ * Creates the obligation tasks for each client in the month `month`
+ * (`YYYY-MM`). Tasks that already exist for the same client, obligation and
+ * competência are skipped by the database, so the action can be re-run.
+ * Returns how many tasks were created and how many already existed.
+ */
+export const generateObligations = async (
+  owner: Pick<TaskInsert, 'user_id' | 'organization_id'>,
+  clients: ObligationClient[],
+  month: string,
+) => {
+  const { data: calendar, error: calendarError } = await fetchHolidayCalendar(owner.organization_id);
+  if (calendarError) return { data: null, error: calendarError };
+
+  const rows: TaskInsert[] = clients
+    .filter((client) => client.tax_regime)
+    .flatMap((client) =>
+      buildObligationTasks(client.tax_regime, month, calendar).map((task) => ({
+        title: task.title,
+        description: task.adjustment_reason
+          ? `${task.obligation.description}\n${task.adjustment_reason}`
+          : task.obligation.description,
+        task_type: task.obligation.task_type,
+        due_date: task.due_date,
+        obligation_code: task.obligation.code,
+        competencia: task.competencia,
+        client_id: client.id,
+        ...owner,
+      })),
+    );
+
+  if (rows.length === 0) return { data: { created: 0, skipped: 0 }, error: null };
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .upsert(rows, { onConflict: 'client_id,obligation_code,competencia', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) return { data: null, error };
+
+  const created = data?.length ?? 0;
+  return { data: { created, skipped: rows.length - created }, error: null };
+};
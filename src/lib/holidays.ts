@@ -0,0 +1,146 @@
+import { addDays, dayOfWeek, formatDate, toISODate } from '@/lib/dates';
+
+export type HolidayScope = 'nacional' | 'estadual' | 'municipal';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  scope: HolidayScope;
+}
+
+/** Mirrors a row of the `holidays` table (state/municipal holidays per account). */
+export interface CustomHoliday {
+  date: string;
+  name: string;
+  scope: 'estadual' | 'municipal';
+  recurring: boolean;
+}
+
+/** What to do with a deadline that falls on a non-business day. */
+export type DueDateAdjustment = 'antecipar' | 'postergar';
+
+export const adjustmentLabels: Record<DueDateAdjustment, string> = {
+  antecipar: 'antecipado para o dia útil anterior',
+  postergar: 'prorrogado para o próximo dia útil',
+};
+
+const weekdayNames = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+const fixedHolidays: [string, string][] = [
+  ['01-01', 'Confraternização Universal'],
+  ['04-21', 'Tiradentes'],
+  ['05-01', 'Dia do Trabalho'],
+  ['09-07', 'Independência do Brasil'],
+  ['10-12', 'Nossa Senhora Aparecida'],
+  ['11-02', 'Finados'],
+  ['11-15', 'Proclamação da República'],
+  ['11-20', 'Dia Nacional de Zumbi e da Consciência Negra'],
+  ['12-25', 'Natal'],
+];
+
+/** Easter Sunday (Gregorian computus, Meeus/Jones/Butcher). */
+export const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toISODate({ year, month, day });
+};
+
+/**
+ * National holidays for a year. Carnaval and Corpus Christi are officially
+ * "ponto facultativo" but have no banking hours, so deadlines move as if they
+ * were holidays.
+ */
+export const nationalHolidays = (year: number): Holiday[] => {
+  const easter = easterSunday(year);
+  const holidays: Holiday[] = [
+    ...fixedHolidays.map(([monthDay, name]) => ({ date: `${year}-${monthDay}`, name, scope: 'nacional' as const })),
+    { date: addDays(easter, -48), name: 'Carnaval', scope: 'nacional' },
+    { date: addDays(easter, -47), name: 'Carnaval', scope: 'nacional' },
+    { date: addDays(easter, -2), name: 'Sexta-feira Santa', scope: 'nacional' },
+    { date: addDays(easter, 60), name: 'Corpus Christi', scope: 'nacional' },
+  ];
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export interface HolidayCalendar {
+  holidayOn: (date: string) => Holiday | null;
+  isBusinessDay: (date: string) => boolean;
+}
+
+export const createHolidayCalendar = (custom: CustomHoliday[] = []): HolidayCalendar => {
+  const byYear = new Map<number, Map<string, Holiday>>();
+
+  const holidaysFor = (year: number) => {
+    let holidays = byYear.get(year);
+    if (!holidays) {
+      holidays = new Map(nationalHolidays(year).map((holiday) => [holiday.date, holiday]));
+      for (const holiday of custom) {
+        const date = holiday.recurring ? `${year}${holiday.date.slice(4, 10)}` : holiday.date;
+        if (date.startsWith(`${year}-`) && !holidays.has(date)) {
+          holidays.set(date, { date, name: holiday.name, scope: holiday.scope });
+        }
+      }
+      byYear.set(year, holidays);
+    }
+    return holidays;
+  };
+
+  const holidayOn = (date: string) => holidaysFor(Number(date.slice(0, 4))).get(date) ?? null;
+
+  return {
+    holidayOn,
+    isBusinessDay: (date) => {
+      const weekday = dayOfWeek(date);
+      return weekday !== 0 && weekday !== 6 && !holidayOn(date);
+    },
+  };
+};
+
+/** Explains why a day is not a business day, or returns null when it is. */
+export const nonBusinessDayReason = (calendar: HolidayCalendar, date: string) => {
+  const holiday = calendar.holidayOn(date);
+  if (holiday) return `feriado ${holiday.scope} (${holiday.name})`;
+  const weekday = dayOfWeek(date);
+  if (weekday === 0 || weekday === 6) return `um ${weekdayNames[weekday]}`;
+  return null;
+};
+
+export interface AdjustedDueDate {
+  date: string;
+  original: string;
+  /** Human-readable explanation, null when the date did not move. */
+  reason: string | null;
+}
+
+export const adjustDueDate = (
+  date: string,
+  adjustment: DueDateAdjustment,
+  calendar: HolidayCalendar,
+): AdjustedDueDate => {
+  const reason = nonBusinessDayReason(calendar, date);
+  if (!reason) return { date, original: date, reason: null };
+
+  const step = adjustment === 'antecipar' ? -1 : 1;
+  let adjusted = addDays(date, step);
+  while (!calendar.isBusinessDay(adjusted)) {
+    adjusted = addDays(adjusted, step);
+  }
+
+  return {
+    date: adjusted,
+    original: date,
+    reason: `${formatDate(date)} cai em ${reason}; vencimento ${adjustmentLabels[adjustment]}.`,
+  };
+};
@@ -0,0 +1,237 @@
+import { addDays, addMonths, daysInMonth, parseISODate, toISODate } from '@/lib/dates';
+import {
+  adjustDueDate,
+  createHolidayCalendar,
+  type DueDateAdjustment,
+  type HolidayCalendar,
+} from '@/lib/holidays';
+import type { BusinessDayPredicate } from '@/lib/recurrence';
+
+export type TaxRegime = 'mei' | 'simples_nacional' | 'lucro_presumido' | 'lucro_real' | 'pf';
+
+export const taxRegimeLabels: Record<TaxRegime, string> = {
+  mei: 'MEI',
+  simples_nacional: 'Simples Nacional',
+  lucro_presumido: 'Lucro Presumido',
+  lucro_real: 'Lucro Real',
+  pf: 'Pessoa Física',
+};
+
+export type ObligationCode =
+  | 'das'
+  | 'dctfweb'
+  | 'efd_reinf'
+  | 'efd_contribuicoes'
+  | 'sped_ecd'
+  | 'sped_ecf'
+  | 'defis'
+  | 'dasn_simei'
+  | 'dirpf';
+
+/**
+ * Legal due date, counted from the first month of the competência (the
+ * reference month, or January of the reference year for annual obligations).
+ */
+export type DueRule =
+  | { kind: 'day'; monthsAfter: number; day: number }
+  | { kind: 'business_day'; monthsAfter: number; day: number }
+  | { kind: 'last_business_day'; monthsAfter: number };
+
+export interface Obligation {
+  code: ObligationCode;
+  label: string;
+  task_type: 'imposto' | 'folha' | 'declaracao' | 'outro';
+  periodicity: 'mensal' | 'anual';
+  due: DueRule;
+  /** Where a fixed-day deadline moves when it falls on a non-business day. */
+  adjustment: DueDateAdjustment;
+  description: string;
+  regimes: TaxRegime[];
+}
+
+export const obligations: Obligation[] = [
+  {
+    code: 'das',
+    label: 'DAS',
+    task_type: 'imposto',
+    periodicity: 'mensal',
+    due: { kind: 'day', monthsAfter: 1, day: 20 },
+    adjustment: 'postergar',
+    description: 'Documento de Arrecadação do Simples Nacional — vence no dia 20 do mês seguinte.',
+    regimes: ['mei', 'simples_nacional'],
+  },
+  {
+    code: 'dctfweb',
+    label: 'DCTFWeb',
+    task_type: 'declaracao',
+    periodicity: 'mensal',
+    due: { kind: 'day', monthsAfter: 1, day: 15 },
+    adjustment: 'antecipar',
+    description: 'Declaração de débitos e créditos tributários federais previdenciários — até o dia 15 do mês seguinte.',
+    regimes: ['simples_nacional', 'lucro_presumido', 'lucro_real'],
+  },
+  {
+    code: 'efd_reinf',
+    label: 'EFD-Reinf',
+    task_type: 'declaracao',
+    periodicity: 'mensal',
+    due: { kind: 'day', monthsAfter: 1, day: 15 },
+    adjustment: 'antecipar',
+    description: 'Escrituração Fiscal Digital de Retenções e Outras Informações Fiscais — até o dia 15 do mês seguinte.',
+    regimes: ['simples_nacional', 'lucro_presumido', 'lucro_real'],
+  },
+  {
+    code: 'efd_contribuicoes',
+    label: 'EFD-Contribuições',
+    task_type: 'declaracao',
+    periodicity: 'mensal',
+    due: { kind: 'business_day', monthsAfter: 2, day: 10 },
+    adjustment: 'postergar',
+    description: 'Escrituração de PIS/Pasep e Cofins — até o 10º dia útil do segundo mês seguinte.',
+    regimes: ['lucro_presumido', 'lucro_real'],
+  },
+  {
+    code: 'sped_ecd',
+    label: 'SPED ECD',
+    task_type: 'declaracao',
+    periodicity: 'anual',
+    due: { kind: 'last_business_day', monthsAfter: 16 },
+    adjustment: 'antecipar',
+    description: 'Escrituração Contábil Digital — até o último dia útil de maio do ano seguinte.',
+    regimes: ['lucro_presumido', 'lucro_real'],
+  },
+  {
+    code: 'sped_ecf',
+    label: 'SPED ECF',
+    task_type: 'declaracao',
+    periodicity: 'anual',
+    due: { kind: 'last_business_day', monthsAfter: 18 },
+    adjustment: 'antecipar',
+    description: 'Escrituração Contábil Fiscal — até o último dia útil de julho do ano seguinte.',
+    regimes: ['lucro_presumido', 'lucro_real'],
+  },
+  {
+    code: 'defis',
+    label: 'DEFIS',
+    task_type: 'declaracao',
+    periodicity: 'anual',
+    due: { kind: 'day', monthsAfter: 14, day: 31 },
+    adjustment: 'postergar',
+    description: 'Declaração de Informações Socioeconômicas e Fiscais — até 31 de março do ano seguinte.',
+    regimes: ['simples_nacional'],
+  },
+  {
+    code: 'dasn_simei',
+    label: 'DASN-SIMEI',
+    task_type: 'declaracao',
+    periodicity: 'anual',
+    due: { kind: 'day', monthsAfter: 16, day: 31 },
+    adjustment: 'postergar',
+    description: 'Declaração Anual do MEI — até 31 de maio do ano seguinte.',
+    regimes: ['mei'],
+  },
+  {
+    code: 'dirpf',
+    label: 'DIRPF',
+    task_type: 'declaracao',
+    periodicity: 'anual',
+    due: { kind: 'last_business_day', monthsAfter: 16 },
+    adjustment: 'antecipar',
+    description: 'Declaração de Imposto de Renda da Pessoa Física — até o último dia útil de maio do ano seguinte.',
+    regimes: ['pf'],
+  },
+];
+
+export const obligationsByCode = Object.fromEntries(
+  obligations.map((obligation) => [obligation.code, obligation]),
+) as Record<ObligationCode, Obligation>;
+
+export const obligationsForRegime = (regime: TaxRegime) =>
+  obligations.filter((obligation) => obligation.regimes.includes(regime));
+
+/** First day of the competência as stored in `tasks.competencia`. */
+export const competenciaDate = (obligation: Obligation, month: string) => {
+  const { year, month: monthNumber } = parseISODate(`${month}-01`);
+  return toISODate({ year, month: obligation.periodicity === 'anual' ? 1 : monthNumber, day: 1 });
+};
+
+/**
+ * Competência an obligation generated in `month` (`YYYY-MM`) refers to: the
+ * month itself, or the previous year for annual obligations.
+ */
+export const obligationCompetencia = (obligation: Obligation, month: string) => {
+  const reference = obligation.periodicity === 'anual' ? addMonths(`${month}-01`, -12) : `${month}-01`;
+  return competenciaDate(obligation, reference.slice(0, 7));
+};
+
+export const formatCompetencia = (obligation: Obligation, competencia: string) => {
+  const { year, month } = parseISODate(competencia);
+  return obligation.periodicity === 'anual' ? String(year) : `${String(month).padStart(2, '0')}/${year}`;
+};
+
+export const computeDueDate = (
+  due: DueRule,
+  competencia: string,
+  isBusinessDay: BusinessDayPredicate = createHolidayCalendar().isBusinessDay,
+) => {
+  const firstDay = addMonths(competencia, due.monthsAfter, 1);
+
+  switch (due.kind) {
+    case 'day':
+      return addMonths(competencia, due.monthsAfter, due.day);
+    case 'business_day': {
+      let date = firstDay;
+      let count = isBusinessDay(date) ? 1 : 0;
+      while (count < due.day) {
+        date = addDays(date, 1);
+        if (isBusinessDay(date)) count++;
+      }
+      return date;
+    }
+    case 'last_business_day': {
+      const { year, month } = parseISODate(firstDay);
+      let date = toISODate({ year, month, day: daysInMonth(year, month) });
+      while (!isBusinessDay(date)) {
+        date = addDays(date, -1);
+      }
+      return date;
+    }
+  }
+};
+
+export interface ObligationTask {
+  obligation: Obligation;
+  competencia: string;
+  due_date: string;
+  /** Why `due_date` differs from the legal day, null when it does not. */
+  adjustment_reason: string | null;
+  title: string;
+}
+
+/**
+ * Lists the obligation tasks a client owes for the month `month` (`YYYY-MM`).
+ * Annual obligations refer to the previous calendar year, so running any month
+ * of 2026 yields the 2025 DEFIS/DIRPF/etc. Due dates falling on weekends or
+ * holidays of `calendar` are moved according to each obligation's rule. The
+ * database unique index makes repeated runs idempotent.
+ */
+export const buildObligationTasks = (
+  regime: TaxRegime,
+  month: string,
+  calendar: HolidayCalendar = createHolidayCalendar(),
+): ObligationTask[] =>
+  obligationsForRegime(regime).map((obligation) => {
+    const competencia = obligationCompetencia(obligation, month);
+    const due = adjustDueDate(
+      computeDueDate(obligation.due, competencia, calendar.isBusinessDay),
+      obligation.adjustment,
+      calendar,
+    );
+    return {
+      obligation,
+      competencia,
+      due_date: due.date,
+      adjustment_reason: due.reason,
+      title: `${obligation.label} ${formatCompetencia(obligation, competencia)}`,
+    };
+  });
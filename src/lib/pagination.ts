@@ -0,0 +1,92 @@
+// Keyset (cursor) pagination for the client and task lists
+//
+// Lists are ordered by a sort column with the id as tie-breaker. A cursor is
+// the (value, id) of the row a page starts after, or ends before when going
+// back, so pages stay stable while rows are added or removed. Cursors travel
+// in the URL with the rest of the list state (see useListParams).
+
+export const PAGE_SIZE = 25;
+
+export type PageDirection = 'after' | 'before';
+
+export interface PageCursor {
+  value: string;
+  id: string;
+}
+
+export interface PageRequest {
+  cursor: PageCursor;
+  direction: PageDirection;
+}
+
+export interface Page<T> {
+  rows: T[];
+  hasPrevious: boolean;
+  hasNext: boolean;
+}
+
+/** Ids never contain '|', so the value is everything before the last one. */
+export const encodeCursor = (cursor: PageCursor) => `${cursor.value}|${cursor.id}`;
+
+export const decodeCursor = (raw: string | null): PageCursor | null => {
+  const split = raw?.lastIndexOf('|') ?? -1;
+  if (split < 0 || split === raw.length - 1) return null;
+  return { value: raw.slice(0, split), id: raw.slice(split + 1) };
+};
+
+export const rowCursor = <T extends { id: string }>(row: T, column: keyof T & string): PageCursor => ({
+  value: String(row[column]),
+  id: row.id,
+});
+
+/** Quotes a value for a PostgREST filter, which splits on commas and parentheses. */
+export const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Order to query a page in. Previous pages are read backwards from their
+ * cursor and flipped back by toPage.
+ */
+export const queryAscending = (ascending: boolean, page: PageRequest | null) =>
+  page?.direction === 'before' ? !ascending : ascending;
+
+/** PostgREST `or` filter keeping the rows past the cursor in query order. */
+export const keysetFilter = (column: string, ascending: boolean, page: PageRequest) => {
+  const operator = queryAscending(ascending, page) ? 'gt' : 'lt';
+  const value = quoteFilterValue(page.cursor.value);
+  return `${column}.${operator}.${value},and(${column}.eq.${value},id.${operator}.${page.cursor.id})`;
+};
+
+/**
+ * Builds a page from rows queried with a limit of `pageSize + 1`: the extra
+ * row only tells whether there is more in the direction of the query.
+ */
+export const toPage = <T>(rows: T[], pageSize: number, page: PageRequest | null): Page<T> => {
+  const more = rows.length > pageSize;
+  const visible = rows.slice(0, pageSize);
+
+  if (page?.direction === 'before') {
+    return { rows: visible.reverse(), hasPrevious: more, hasNext: true };
+  }
+  return { rows: visible, hasPrevious: !!page, hasNext: more };
+};
+
+/** Rows PostgREST returns per request at most (its `max-rows` default). */
+export const MAX_ROWS = 1000;
+
+/**
+ * Reads every row of a query, `batchSize` at a time, until a short batch comes
+ * back. `fetchBatch` runs the query for the inclusive range; it must be
+ * ordered by a unique column so batches do not overlap.
+ */
+export const fetchAllRows = async <T>(
+  fetchBatch: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  batchSize = MAX_ROWS,
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += batchSize) {
+    const { data, error } = await fetchBatch(from, from + batchSize - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < batchSize) return rows;
+  }
+};
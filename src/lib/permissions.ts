@@ -0,0 +1,33 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type OrganizationRole = Database['public']['Enums']['organization_role'];
+
+export const roleLabels: Record<OrganizationRole, string> = {
+  owner: 'Proprietário',
+  admin: 'Administrador',
+  contador: 'Contador',
+  assistente: 'Assistente',
+};
+
+export const roleDescriptions: Record<OrganizationRole, string> = {
+  owner: 'Acesso total, inclusive à exclusão do escritório',
+  admin: 'Gerencia a equipe, convites, feriados e o fluxo de trabalho',
+  contador: 'Cadastra, edita e exclui clientes, tarefas e modelos de tarefa',
+  assistente: 'Cadastra e edita clientes e tarefas, sem excluir',
+};
+
+export type Permission = 'manage_members' | 'manage_holidays' | 'manage_notes' | 'manage_workflow' | 'manage_templates' | 'delete_records';
+
+// Mirrors the RLS policies in the organizations migration; the database has
+// the final word, this only hides actions that would be rejected.
+const permissions: Record<Permission, OrganizationRole[]> = {
+  manage_members: ['owner', 'admin'],
+  manage_holidays: ['owner', 'admin'],
+  manage_notes: ['owner', 'admin'],
+  manage_workflow: ['owner', 'admin'],
+  manage_templates: ['owner', 'admin', 'contador'],
+  delete_records: ['owner', 'admin', 'contador'],
+};
+
+export const can = (role: OrganizationRole | null, permission: Permission) =>
+  role !== null && permissions[permission].includes(role);
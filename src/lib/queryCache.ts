@@ -0,0 +1,37 @@
+// Optimistic cache updates
+//
+// Task data is cached in several shapes under the same key prefix: pages of
+// the list, full lists for the board and the calendar, counters. These
+// helpers patch a row wherever it is, leaving the other shapes alone until
+// they are refetched.
+
+type Row = { id: string };
+
+const isRowList = (data: unknown): data is Row[] => Array.isArray(data);
+
+const isPage = (data: unknown): data is { rows: Row[] } =>
+  typeof data === 'object' && data !== null && Array.isArray((data as { rows?: unknown }).rows);
+
+const patchRows = <R extends Row>(rows: R[], ids: Set<string>, fields: Partial<R>) =>
+  rows.some((row) => ids.has(row.id))
+    ? rows.map((row) => (ids.has(row.id) ? { ...row, ...fields } : row))
+    : rows;
+
+/** Applies `fields` to the rows with the given ids in any cached list or page. */
+export const patchCachedRows = <T>(data: T, rowIds: string[], fields: Record<string, unknown>): T => {
+  const ids = new Set(rowIds);
+  if (isRowList(data)) return patchRows(data, ids, fields) as T;
+  if (isPage(data)) {
+    const rows = patchRows(data.rows, ids, fields);
+    return rows === data.rows ? data : { ...data, rows };
+  }
+  return data;
+};
+
+/** Drops the rows with the given ids from any cached list or page. */
+export const removeCachedRows = <T>(data: T, rowIds: string[]): T => {
+  const ids = new Set(rowIds);
+  if (isRowList(data)) return data.filter((row) => !ids.has(row.id)) as T;
+  if (isPage(data)) return { ...data, rows: data.rows.filter((row) => !ids.has(row.id)) };
+  return data;
+};
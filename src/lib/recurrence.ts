@@ -0,0 +1,141 @@
+import { addDays, addMonths, daysInMonth, parseISODate, toISODate } from '@/lib/dates';
+import {
+  adjustDueDate,
+  createHolidayCalendar,
+  type AdjustedDueDate,
+  type DueDateAdjustment,
+  type HolidayCalendar,
+} from '@/lib/holidays';
+
+export type RecurrenceFrequency = 'mensal' | 'trimestral' | 'anual' | 'dias_uteis';
+
+/** Mirrors the recurrence columns of `task_series`. */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  day_of_month: number | null;
+  month_of_year: number | null;
+  /** Where an occurrence that falls on a non-business day moves to. */
+  due_adjustment: DueDateAdjustment;
+}
+
+export const recurrenceLabels: Record<RecurrenceFrequency, string> = {
+  mensal: 'Mensal',
+  trimestral: 'Trimestral',
+  anual: 'Anual',
+  dias_uteis: 'A cada N dias úteis',
+};
+
+export const monthLabels = [
+  'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+  'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro',
+];
+
+export type BusinessDayPredicate = (date: string) => boolean;
+
+// Weekends and national holidays; pass an account calendar to include
+// state/municipal holidays.
+const defaultIsBusinessDay: BusinessDayPredicate = createHolidayCalendar().isBusinessDay;
+
+export const addBusinessDays = (
+  date: string,
+  amount: number,
+  isBusinessDay: BusinessDayPredicate = defaultIsBusinessDay,
+) => {
+  let result = date;
+  let remaining = amount;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (isBusinessDay(result)) remaining--;
+  }
+  return result;
+};
+
+const dayNumber = (value: string) => {
+  const { year, month, day } = parseISODate(value);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+};
+
+/**
+ * The date the rule scheduled for an occurrence due on `date`, before it was
+ * moved to a business day: the rule's day closest to `date`. A move spans a
+ * few days at most, so it may cross into the neighbouring month (day 1 →
+ * previous month) but never past another scheduled date.
+ */
+const scheduledDate = (rule: RecurrenceRule, date: string) => {
+  if (rule.frequency === 'dias_uteis' || !rule.day_of_month) return date;
+
+  const { year, month } = parseISODate(date);
+  const candidates = [-1, 0, 1].map((offset) => {
+    if (rule.frequency !== 'anual') return addMonths(date, offset, rule.day_of_month);
+    const targetMonth = rule.month_of_year ?? month;
+    return toISODate({
+      year: year + offset,
+      month: targetMonth,
+      day: Math.min(rule.day_of_month, daysInMonth(year + offset, targetMonth)),
+    });
+  });
+
+  const distance = (candidate: string) => Math.abs(dayNumber(candidate) - dayNumber(date));
+  return candidates.reduce((closest, candidate) => (distance(candidate) < distance(closest) ? candidate : closest));
+};
+
+/**
+ * Returns the date the rule schedules after the occurrence due on `current`,
+ * before any business-day adjustment (see `nextSeriesOccurrence`).
+ */
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  current: string,
+  isBusinessDay: BusinessDayPredicate = defaultIsBusinessDay,
+) => {
+  const interval = Math.max(1, rule.interval_count || 1);
+  const scheduled = scheduledDate(rule, current);
+
+  switch (rule.frequency) {
+    case 'mensal':
+      return addMonths(scheduled, interval, rule.day_of_month);
+    case 'trimestral':
+      return addMonths(scheduled, interval * 3, rule.day_of_month);
+    case 'anual': {
+      const { year, month, day } = parseISODate(scheduled);
+      const targetYear = year + interval;
+      const targetMonth = rule.month_of_year ?? month;
+      return toISODate({
+        year: targetYear,
+        month: targetMonth,
+        day: Math.min(rule.day_of_month ?? day, daysInMonth(targetYear, targetMonth)),
+      });
+    }
+    case 'dias_uteis':
+      return addBusinessDays(scheduled, interval, isBusinessDay);
+  }
+};
+
+/**
+ * The due date of the occurrence that follows `current`, moved by the rule's
+ * `due_adjustment` when it falls on a weekend or holiday of `calendar`.
+ */
+export const nextSeriesOccurrence = (
+  rule: RecurrenceRule,
+  current: string,
+  calendar: HolidayCalendar = createHolidayCalendar(),
+): AdjustedDueDate =>
+  adjustDueDate(nextOccurrence(rule, current, calendar.isBusinessDay), rule.due_adjustment, calendar);
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const interval = Math.max(1, rule.interval_count || 1);
+
+  switch (rule.frequency) {
+    case 'mensal':
+      return interval > 1
+        ? `A cada ${interval} meses, dia ${rule.day_of_month}`
+        : `Mensal, dia ${rule.day_of_month}`;
+    case 'trimestral':
+      return `Trimestral, dia ${rule.day_of_month}`;
+    case 'anual':
+      return `Anual, ${rule.day_of_month} de ${monthLabels[(rule.month_of_year ?? 1) - 1].toLowerCase()}`;
+    case 'dias_uteis':
+      return `A cada ${interval} ${interval > 1 ? 'dias úteis' : 'dia útil'}`;
+  }
+};
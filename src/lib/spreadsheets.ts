@@ -0,0 +1,51 @@
+import * as XLSX from 'xlsx';
+
+/** A sheet as rows of cell text; the first row holds the headers. */
+export interface Sheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,.xls';
+
+/**
+ * Reads the first sheet of a CSV or XLSX file as text. CSV files are parsed
+ * without type inference so documents keep their leading zeros; the
+ * delimiter (`,` or `;`) is detected from the content.
+ */
+export const readSpreadsheet = async (file: File): Promise<Sheet> => {
+  const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+  return readWorkbook(workbook);
+};
+
+/**
+ * The first sheet of a workbook as text. Cells are read by value, not as
+ * displayed: a CNPJ typed as a number shows as "1.12223E+13" in Excel.
+ */
+export const readWorkbook = (workbook: XLSX.WorkBook): Sheet => {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const [headers = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+  });
+
+  return {
+    headers: headers.map((header) => String(header).trim()),
+    rows: rows.map((row) => row.map((cell) => String(cell).trim())),
+  };
+};
+
+/** Downloads rows (headers first) as an XLSX or CSV file. */
+export const downloadSpreadsheet = (rows: (string | number)[][], fileName: string, sheetName = 'Planilha') => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  XLSX.writeFile(workbook, fileName, { bookType: fileName.endsWith('.csv') ? 'csv' : 'xlsx' });
+};
@@ -0,0 +1,158 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { fetchHolidayCalendar } from '@/lib/customHolidays';
+import type { AdjustedDueDate, DueDateAdjustment, HolidayCalendar } from '@/lib/holidays';
+import { nextSeriesOccurrence, type RecurrenceRule } from '@/lib/recurrence';
+import { deliveredStatuses } from '@/lib/tasks';
+
+type TaskSeries = Database['public']['Tables']['task_series']['Row'];
+type TaskSeriesUpdate = Database['public']['Tables']['task_series']['Update'];
+
+export type SeriesFields = Pick<
+  TaskSeries,
+  'title' | 'description' | 'task_type' | 'client_id' | 'assignee_id' | 'reviewer_id'
+>;
+
+/** Who a new series belongs to: its creator and the organization. */
+export type SeriesOwner = Pick<TaskSeries, 'user_id' | 'organization_id'>;
+
+export const createTaskSeries = async (
+  owner: SeriesOwner,
+  fields: SeriesFields,
+  rule: RecurrenceRule,
+  firstDueDate: string,
+) => {
+  const { data: series, error } = await supabase
+    .from('task_series')
+    .insert({ ...fields, ...rule, ...owner })
+    .select()
+    .single();
+
+  if (error) return { data: null, error };
+
+  const { data, error: taskError } = await supabase
+    .from('tasks')
+    .insert({ ...fields, due_date: firstDueDate, series_id: series.id, ...owner })
+    .select()
+    .single();
+
+  return { data, error: taskError };
+};
+
+const followingOccurrence = (series: TaskSeries, dueDate: string, calendar: HolidayCalendar) => {
+  const next = nextSeriesOccurrence(
+    { ...series, due_adjustment: series.due_adjustment as DueDateAdjustment },
+    dueDate,
+    calendar,
+  );
+  return series.ends_on && next.original > series.ends_on ? null : next;
+};
+
+/**
+ * Computes the occurrence that follows `task` in its series, moved to a
+ * business day by the series' rule. Completing the task with it (see
+ * `setTaskStatus`) creates the occurrence, with the move explained in its
+ * description as for generated obligations. Returns `data: null` when the task
+ * is not part of a series or the series has ended.
+ */
+export const findNextOccurrence = async (task: { series_id: string | null; due_date: string }) => {
+  if (!task.series_id) return { data: null, error: null };
+
+  const { data: series, error } = await supabase
+    .from('task_series')
+    .select('*')
+    .eq('id', task.series_id)
+    .maybeSingle();
+
+  if (error || !series) return { data: null, error };
+
+  const { data: calendar, error: calendarError } = await fetchHolidayCalendar(series.organization_id);
+  if (calendarError) return { data: null, error: calendarError };
+
+  return { data: followingOccurrence(series, task.due_date, calendar), error: null };
+};
+
+/**
+ * `findNextOccurrence` for several tasks of one organization, keyed by task
+ * id, for completing them in bulk (see `bulkUpdateTasks`). Tasks outside a
+ * series, or whose series has ended, are left out.
+ */
+export const findNextOccurrences = async (
+  tasks: { id: string; series_id: string | null; due_date: string }[],
+) => {
+  const occurrences: Record<string, AdjustedDueDate> = {};
+  const seriesIds = [...new Set(tasks.map((task) => task.series_id).filter(Boolean))];
+  if (seriesIds.length === 0) return { data: occurrences, error: null };
+
+  const { data: series, error } = await supabase
+    .from('task_series')
+    .select('*')
+    .in('id', seriesIds);
+
+  if (error || series.length === 0) return { data: occurrences, error };
+
+  const { data: calendar, error: calendarError } = await fetchHolidayCalendar(series[0].organization_id);
+  if (calendarError) return { data: null, error: calendarError };
+
+  const seriesById = new Map(series.map((row) => [row.id, row]));
+  tasks.forEach((task) => {
+    const taskSeries = seriesById.get(task.series_id);
+    const next = taskSeries && followingOccurrence(taskSeries, task.due_date, calendar);
+    if (next) occurrences[task.id] = next;
+  });
+
+  return { data: occurrences, error: null };
+};
+
+/**
+ * Applies an edit to "this and future occurrences": updates the series itself
+ * and every open occurrence (see `isOpenStatus`) due on or after `fromDate`. Pass `rule: null`
+ * to stop the series after `fromDate`.
+ */
+export const updateFutureOccurrences = async (
+  seriesId: string,
+  fromDate: string,
+  fields: SeriesFields,
+  rule: RecurrenceRule | null,
+) => {
+  const seriesUpdate: TaskSeriesUpdate = rule ? { ...fields, ...rule, ends_on: null } : { ...fields, ends_on: fromDate };
+
+  const { error } = await supabase
+    .from('task_series')
+    .update(seriesUpdate)
+    .eq('id', seriesId);
+
+  if (error) return { error };
+
+  const { error: tasksError } = await supabase
+    .from('tasks')
+    .update(fields)
+    .eq('series_id', seriesId)
+    .not('status', 'in', `(${deliveredStatuses.join(',')})`)
+    .gte('due_date', fromDate);
+
+  return { error: tasksError };
+};
+
+/** Turns an existing one-off task into the first occurrence of a new series. */
+export const startSeriesFromTask = async (
+  taskId: string,
+  owner: SeriesOwner,
+  fields: SeriesFields,
+  rule: RecurrenceRule,
+) => {
+  const { data: series, error } = await supabase
+    .from('task_series')
+    .insert({ ...fields, ...rule, ...owner })
+    .select()
+    .single();
+
+  if (error) return { error };
+
+  const { error: taskError } = await supabase
+    .from('tasks')
+    .update({ series_id: series.id })
+    .eq('id', taskId);
+
+  return { error: taskError };
+};
@@ -0,0 +1,185 @@
+// Task templates
+//
+// Blueprints for tasks an office creates over and over. The title and the
+// description may use {cliente} and {competencia}; the due date follows a
+// DueRule counted from the competência, like the fiscal obligations.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { nextPosition } from '@/lib/checklists';
+import { fetchHolidayCalendar } from '@/lib/customHolidays';
+import { parseISODate } from '@/lib/dates';
+import { adjustDueDate, createHolidayCalendar, type DueDateAdjustment, type HolidayCalendar } from '@/lib/holidays';
+import { computeDueDate, type DueRule } from '@/lib/obligations';
+
+type TaskInsert = Database['public']['Tables']['tasks']['Insert'];
+
+export type TaskTemplate = Database['public']['Tables']['task_templates']['Row'];
+
+export type DueRuleKind = DueRule['kind'];
+
+export const dueRuleKindLabels: Record<DueRuleKind, string> = {
+  day: 'Dia fixo',
+  business_day: 'Dia útil',
+  last_business_day: 'Último dia útil',
+};
+
+export const templatePlaceholders = ['{cliente}', '{competencia}'];
+
+export interface TemplateClient {
+  id: string;
+  name: string;
+}
+
+export const templateDueRule = (template: Pick<TaskTemplate, 'due_kind' | 'due_months_after' | 'due_day'>): DueRule =>
+  template.due_kind === 'last_business_day'
+    ? { kind: 'last_business_day', monthsAfter: template.due_months_after }
+    : { kind: template.due_kind as 'day' | 'business_day', monthsAfter: template.due_months_after, day: template.due_day ?? 1 };
+
+/** "Dia 20 do mês seguinte", "5º dia útil do 2º mês após a competência"... */
+export const describeDueRule = (rule: DueRule) => {
+  const month = rule.monthsAfter === 0
+    ? 'do mês da competência'
+    : rule.monthsAfter === 1
+      ? 'do mês seguinte'
+      : `do ${rule.monthsAfter}º mês após a competência`;
+
+  switch (rule.kind) {
+    case 'day':
+      return `Dia ${rule.day} ${month}`;
+    case 'business_day':
+      return `${rule.day}º dia útil ${month}`;
+    case 'last_business_day':
+      return `Último dia útil ${month}`;
+  }
+};
+
+/** Competência `YYYY-MM-DD` as shown in titles: `MM/AAAA`. */
+export const formatCompetenciaMonth = (competencia: string) => {
+  const { year, month } = parseISODate(competencia);
+  return `${String(month).padStart(2, '0')}/${year}`;
+};
+
+/**
+ * Replaces the placeholders of `pattern`. Without a client, {cliente} is
+ * dropped along with the separator next to it ("DAS - {cliente}" → "DAS").
+ */
+export const fillTemplate = (pattern: string, values: { cliente: string | null; competencia: string }) => {
+  const text = values.cliente
+    ? pattern.replace(/\{cliente\}/gi, values.cliente)
+    : pattern.replace(/\s*[-–—|•:]?\s*\{cliente\}\s*[-–—|•:]?\s*/gi, ' ');
+
+  return text
+    .replace(/\{competencia\}/gi, formatCompetenciaMonth(values.competencia))
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+};
+
+export interface TemplateTask {
+  client_id: string | null;
+  title: string;
+  description: string | null;
+  task_type: TaskTemplate['task_type'];
+  competencia: string;
+  due_date: string;
+  /** Why `due_date` differs from the rule's day, null when it does not. */
+  adjustment_reason: string | null;
+}
+
+/**
+ * The tasks a template yields for the competência `month` (`YYYY-MM`), one
+ * per client, or a single task without client when `clients` is empty.
+ */
+export const buildTemplateTasks = (
+  template: TaskTemplate,
+  clients: TemplateClient[],
+  month: string,
+  calendar: HolidayCalendar = createHolidayCalendar(),
+): TemplateTask[] => {
+  const competencia = `${month}-01`;
+  const due = adjustDueDate(
+    computeDueDate(templateDueRule(template), competencia, calendar.isBusinessDay),
+    template.due_adjustment as DueDateAdjustment,
+    calendar,
+  );
+
+  return (clients.length > 0 ? clients : [null]).map((client) => {
+    const values = { cliente: client?.name ?? null, competencia };
+    return {
+      client_id: client?.id ?? null,
+      title: fillTemplate(template.title_pattern, values),
+      description: template.description ? fillTemplate(template.description, values) : null,
+      task_type: template.task_type,
+      competencia,
+      due_date: due.date,
+      adjustment_reason: due.reason,
+    };
+  });
+};
+
+/**
+ * Creates the template's tasks for each client in the competência `month`,
+ * with the template's checklist. Returns how many tasks were created.
+ */
+export const applyTemplate = async (
+  owner: Pick<TaskInsert, 'user_id' | 'organization_id' | 'assignee_id'>,
+  template: TaskTemplate,
+  clients: TemplateClient[],
+  month: string,
+) => {
+  const { data: calendar, error: calendarError } = await fetchHolidayCalendar(owner.organization_id);
+  if (calendarError) return { data: null, error: calendarError };
+
+  const rows: TaskInsert[] = buildTemplateTasks(template, clients, month, calendar).map((task) => ({
+    title: task.title,
+    description: [task.description, task.adjustment_reason].filter(Boolean).join('\n') || null,
+    task_type: task.task_type,
+    due_date: task.due_date,
+    competencia: task.competencia,
+    client_id: task.client_id,
+    ...owner,
+  }));
+
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .insert(rows)
+    .select('id');
+
+  if (error) return { data: null, error };
+
+  const { error: checklistError } = await addTemplateChecklist(owner.organization_id, template, tasks.map((task) => task.id));
+  if (checklistError) return { data: null, error: checklistError };
+
+  return { data: { created: tasks.length }, error: null };
+};
+
+/** Appends the template's checklist to tasks created from it. */
+export const addTemplateChecklist = async (organizationId: string, template: TaskTemplate, taskIds: string[]) => {
+  const items = template.checklist.map((title) => title.trim()).filter(Boolean);
+  if (items.length === 0 || taskIds.length === 0) return { error: null };
+
+  // Items copied from auto_apply checklist templates come first
+  const { data: existing, error: existingError } = await supabase
+    .from('task_checklist_items')
+    .select('task_id, position')
+    .in('task_id', taskIds);
+
+  if (existingError) return { error: existingError };
+
+  const start = (taskId: string) => nextPosition((existing || []).filter((item) => item.task_id === taskId));
+
+  const { error } = await supabase
+    .from('task_checklist_items')
+    .insert(
+      taskIds.flatMap((taskId) =>
+        items.map((title, offset) => ({
+          task_id: taskId,
+          organization_id: organizationId,
+          title,
+          position: start(taskId) + offset,
+        })),
+      ),
+    );
+
+  return { error };
+};
@@ -0,0 +1,53 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type TaskType = Database['public']['Enums']['task_type'];
+export type TaskStatus = Database['public']['Enums']['task_status'];
+
+export const taskTypeLabels: Record<TaskType, string> = {
+  imposto: 'Imposto',
+  folha: 'Folha',
+  declaracao: 'Declaração',
+  outro: 'Outro',
+};
+
+export const taskStatusLabels: Record<TaskStatus, string> = {
+  pendente: 'Pendente',
+  em_andamento: 'Em andamento',
+  aguardando_cliente: 'Aguardando cliente',
+  em_revisao: 'Em revisão',
+  transmitida: 'Transmitida',
+  concluida: 'Concluída',
+  atrasada: 'Atrasada',
+};
+
+/** Order of the statuses in filters and on the board. */
+export const taskStatusOrder: TaskStatus[] = [
+  'pendente',
+  'atrasada',
+  'em_andamento',
+  'aguardando_cliente',
+  'em_revisao',
+  'transmitida',
+  'concluida',
+];
+
+export const taskStatusClasses: Record<TaskStatus, string> = {
+  pendente: 'status-pendente',
+  em_andamento: 'status-em-andamento',
+  aguardando_cliente: 'status-aguardando-cliente',
+  em_revisao: 'status-em-revisao',
+  transmitida: 'status-transmitida',
+  concluida: 'status-concluida',
+  atrasada: 'status-atrasada',
+};
+
+/**
+ * Delivered tasks: transmitted to the tax authority or concluded. Every other
+ * status is open. Mirrors `is_open_status` in the database.
+ */
+export const deliveredStatuses: TaskStatus[] = ['transmitida', 'concluida'];
+
+export const isOpenStatus = (status: TaskStatus) => !deliveredStatuses.includes(status);
+
+/** Filter value for the tasks without a client. */
+export const NO_CLIENT = 'none';
@@ -0,0 +1,61 @@
+// Task workflow
+//
+// The allowed status changes live in `task_status_transitions`, per
+// organization, and are enforced by the validate_task_status_transition
+// trigger. 'atrasada' is managed by the database from the due date, so it is
+// not a workflow state: overdue tasks follow the transitions of 'pendente'.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { AdjustedDueDate } from '@/lib/holidays';
+import { taskStatusOrder, type TaskStatus } from '@/lib/tasks';
+
+export type TaskTransition = Database['public']['Tables']['task_status_transitions']['Row'];
+
+export type TransitionField = 'receipt_number' | 'comment' | 'reviewer_id';
+
+export const transitionFieldLabels: Record<TransitionField, string> = {
+  receipt_number: 'Número do recibo',
+  comment: 'Comentário',
+  reviewer_id: 'Revisor',
+};
+
+export type TransitionValues = Partial<Record<TransitionField, string | null>>;
+
+/** Statuses that can be picked in the workflow: every status but 'atrasada'. */
+export const workflowStatuses = taskStatusOrder.filter((status) => status !== 'atrasada');
+
+export const workflowStatus = (status: TaskStatus): TaskStatus => (status === 'atrasada' ? 'pendente' : status);
+
+export const findTransition = (transitions: TaskTransition[], from: TaskStatus, to: TaskStatus) =>
+  transitions.find(
+    (transition) => transition.from_status === workflowStatus(from) && transition.to_status === workflowStatus(to),
+  ) ?? null;
+
+/** Statuses a task in `from` can move to, in display order. */
+export const allowedTargets = (transitions: TaskTransition[], from: TaskStatus) =>
+  workflowStatuses.filter((to) => findTransition(transitions, from, to));
+
+/** Required fields of a transition that `values` does not fill yet. */
+export const missingTransitionFields = (transition: TaskTransition, values: TransitionValues) =>
+  (transition.required_fields as TransitionField[]).filter((field) => !values[field]?.trim());
+
+/**
+ * Changes a task's status. Completing an occurrence of a series also creates
+ * `next` (see `findNextOccurrence`) in the same call.
+ */
+export const setTaskStatus = (
+  taskId: string,
+  status: TaskStatus,
+  values: TransitionValues = {},
+  next: AdjustedDueDate | null = null,
+) =>
+  supabase.rpc('set_task_status', {
+    target_task_id: taskId,
+    new_status: status,
+    receipt: values.receipt_number || undefined,
+    status_comment: values.comment || undefined,
+    reviewer: values.reviewer_id || undefined,
+    next_due_date: next?.date,
+    next_due_note: next?.reason || undefined,
+  });
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Calculator, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function AcceptInvitation() {
+  const { token } = useParams();
+  const { refreshMemberships, switchOrganization } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    acceptInvitation();
+  }, [token]);
+
+  const acceptInvitation = async () => {
+    const { data: organizationId, error } = await supabase.rpc('accept_invitation', {
+      invitation_token: token,
+    });
+
+    if (error) {
+      console.error('Error accepting invitation:', error);
+      setError(error.message);
+      return;
+    }
+
+    await refreshMemberships();
+    switchOrganization(organizationId);
+    toast({
+      title: 'Convite aceito',
+      description: 'Você agora faz parte da equipe do escritório.',
+    });
+    navigate('/dashboard', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="w-full max-w-md text-center space-y-4 animate-fade-in">
+        <div className="inline-flex items-center justify-center w-14 h-14 rounded-xl bg-primary">
+          <Calculator className="w-7 h-7 text-primary-foreground" />
+        </div>
+        {error ? (
+          <>
+            <h1 className="text-2xl font-bold">Não foi possível aceitar o convite</h1>
+            <p className="text-muted-foreground">{error}</p>
+            <Button asChild>
+              <Link to="/dashboard">Ir para o Dashboard</Link>
+            </Button>
+          </>
+        ) : (
+          <div className="flex flex-col items-center gap-4">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Aceitando convite...</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, CalendarPlus, Loader2, Pencil, Plus, Repeat, Trash2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { TaskStatusBadge } from '@/components/tasks/TaskStatusBadge';
+import { GenerateObligationsDialog } from '@/components/obligations/GenerateObligationsDialog';
+import { DocumentsPanel } from '@/components/documents/DocumentsPanel';
+import { formatDate, formatDateTime, formatTimestamp } from '@/lib/dates';
+import { formatDocument } from '@/lib/documents';
+import { formatCompetencia, obligationsByCode, taxRegimeLabels, type TaxRegime } from '@/lib/obligations';
+import { can } from '@/lib/permissions';
+import { isOpenStatus, taskTypeLabels, type TaskStatus, type TaskType } from '@/lib/tasks';
+
+interface Client {
+  id: string;
+  name: string;
+  cpf_cnpj: string;
+  person_type: 'PF' | 'PJ';
+  email: string | null;
+  phone: string | null;
+  tax_regime: TaxRegime | null;
+  created_at: string;
+}
+
+interface ClientTask {
+  id: string;
+  title: string;
+  task_type: TaskType;
+  due_date: string;
+  status: TaskStatus;
+  completed_at: string | null;
+  series_id: string | null;
+  obligation_code: string | null;
+  competencia: string | null;
+  assignee: { name: string } | null;
+}
+
+interface Note {
+  id: string;
+  body: string;
+  user_id: string;
+  created_at: string;
+  profiles: { name: string } | null;
+}
+
+interface CompetenciaGroup {
+  competencia: string;
+  label: string;
+  tasks: ClientTask[];
+}
+
+// Generated obligations grouped by competência, most recent first. Annual
+// obligations form their own group ("2025") instead of joining January.
+const groupByCompetencia = (tasks: ClientTask[]): CompetenciaGroup[] => {
+  const groups = new Map<string, CompetenciaGroup>();
+
+  for (const task of tasks) {
+    if (!task.competencia) continue;
+    const obligation = obligationsByCode[task.obligation_code];
+    const label = obligation
+      ? formatCompetencia(obligation, task.competencia)
+      : formatDate(task.competencia).slice(3);
+    const group = groups.get(label) ?? { competencia: task.competencia, label, tasks: [] };
+    group.tasks.push(task);
+    groups.set(label, group);
+  }
+
+  return [...groups.values()].sort((a, b) => b.competencia.localeCompare(a.competencia));
+};
+
+export default function ClientDetail() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, organization, role } = useAuth();
+  const timeZone = useTimeZone();
+  const [client, setClient] = useState<Client | null>(null);
+  const [tasks, setTasks] = useState<ClientTask[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [newNote, setNewNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    fetchClient();
+    fetchTasks();
+    fetchNotes();
+  }, [id]);
+
+  const fetchClient = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        navigate('/clients');
+        return;
+      }
+      setClient(data);
+    } catch (error) {
+      console.error('Error fetching client:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao carregar cliente.',
+      });
+      navigate('/clients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTasks = async () => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, title, task_type, due_date, status, completed_at, series_id, obligation_code, competencia, assignee:profiles!tasks_assignee_id_fkey(name)')
+      .eq('client_id', id)
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tasks:', error);
+      return;
+    }
+    setTasks(data || []);
+  };
+
+  const fetchNotes = async () => {
+    const { data, error } = await supabase
+      .from('client_notes')
+      .select('id, body, user_id, created_at, profiles(name)')
+      .eq('client_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching notes:', error);
+      return;
+    }
+    setNotes(data || []);
+  };
+
+  const addNote = async () => {
+    if (!user || !organization || !newNote.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const { error } = await supabase
+        .from('client_notes')
+        .insert({
+          client_id: id,
+          organization_id: organization.id,
+          user_id: user.id,
+          body: newNote.trim(),
+        });
+
+      if (error) throw error;
+      setNewNote('');
+      fetchNotes();
+    } catch (error) {
+      console.error('Error saving note:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao salvar anotação.',
+      });
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const deleteNote = async (noteId: string) => {
+    try {
+      const { error } = await supabase
+        .from('client_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) throw error;
+      setNotes(notes.filter((note) => note.id !== noteId));
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao excluir anotação.',
+      });
+    }
+  };
+
+  if (loading || !client) {
+    return (
+      <MainLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const pendingTasks = tasks.filter((task) => isOpenStatus(task.status));
+  const deliveredTasks = tasks.filter((task) => !isOpenStatus(task.status)).reverse();
+  const history = groupByCompetencia(tasks);
+
+  const renderTask = (task: ClientTask) => (
+    <div key={task.id} className="px-4 py-3 flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <Link to={`/tasks/${task.id}/edit`} className="font-medium hover:text-primary hover:underline">
+          {task.title}
+        </Link>
+        <div className="flex items-center gap-3 mt-1 text-sm text-muted-foreground">
+          <span>{taskTypeLabels[task.task_type]}</span>
+          <span>•</span>
+          <span>{formatDate(task.due_date)}</span>
+          <span>•</span>
+          <span>{task.assignee?.name || 'Sem responsável'}</span>
+          {task.series_id && <Repeat className="w-3.5 h-3.5" aria-label="Tarefa recorrente" />}
+        </div>
+      </div>
+      <TaskStatusBadge status={task.status} dueDate={task.due_date} completedAt={task.completed_at} />
+    </div>
+  );
+
+  const emptyState = (message: string) => (
+    <p className="p-8 text-center text-sm text-muted-foreground">{message}</p>
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/clients">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">{client.name}</h1>
+              <p className="text-muted-foreground mt-1">
+                {formatDocument(client.cpf_cnpj)}
+                {client.tax_regime && ` • ${taxRegimeLabels[client.tax_regime]}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Button variant="outline" onClick={() => setGenerating(true)} disabled={!client.tax_regime}>
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Gerar obrigações
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to={`/clients/${client.id}/edit`}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Editar
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link to={`/tasks/new?client_id=${client.id}`}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Tarefa
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <Tabs defaultValue="tasks">
+          <TabsList>
+            <TabsTrigger value="data">Dados</TabsTrigger>
+            <TabsTrigger value="tasks">Tarefas ({pendingTasks.length})</TabsTrigger>
+            <TabsTrigger value="history">Histórico</TabsTrigger>
+            <TabsTrigger value="documents">Documentos</TabsTrigger>
+            <TabsTrigger value="notes">Anotações ({notes.length})</TabsTrigger>
+          </TabsList>
+
+          {/* Registration Data */}
+          <TabsContent value="data">
+            <div className="form-section">
+              <dl className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <dt className="text-sm text-muted-foreground">Nome / Razão Social</dt>
+                  <dd className="font-medium">{client.name}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">{client.person_type === 'PJ' ? 'CNPJ' : 'CPF'}</dt>
+                  <dd className="font-medium">{formatDocument(client.cpf_cnpj)}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Tipo</dt>
+                  <dd className="font-medium">{client.person_type === 'PJ' ? 'Pessoa Jurídica' : 'Pessoa Física'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Regime tributário</dt>
+                  <dd className="font-medium">{client.tax_regime ? taxRegimeLabels[client.tax_regime] : '-'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">E-mail</dt>
+                  <dd className="font-medium">{client.email || '-'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Telefone</dt>
+                  <dd className="font-medium">{client.phone || '-'}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Cliente desde</dt>
+                  <dd className="font-medium">{formatTimestamp(client.created_at, timeZone)}</dd>
+                </div>
+              </dl>
+            </div>
+          </TabsContent>
+
+          {/* Tasks */}
+          <TabsContent value="tasks" className="space-y-6">
+            <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+              <div className="p-4 border-b border-border/50">
+                <h2 className="text-lg font-semibold">Pendentes</h2>
+              </div>
+              {pendingTasks.length === 0
+                ? emptyState('Nenhuma tarefa pendente')
+                : <div className="divide-y divide-border/50">{pendingTasks.map(renderTask)}</div>}
+            </div>
+
+            <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+              <div className="p-4 border-b border-border/50">
+                <h2 className="text-lg font-semibold">Entregues</h2>
+              </div>
+              {deliveredTasks.length === 0
+                ? emptyState('Nenhuma tarefa entregue')
+                : <div className="divide-y divide-border/50">{deliveredTasks.map(renderTask)}</div>}
+            </div>
+          </TabsContent>
+
+          {/* Obligation History */}
+          <TabsContent value="history" className="space-y-6">
+            {history.length === 0 ? (
+              <div className="bg-card rounded-xl border border-border/50">
+                {emptyState('Nenhuma obrigação gerada para este cliente')}
+              </div>
+            ) : (
+              history.map((group) => (
+                <div key={group.label} className="bg-card rounded-xl border border-border/50 overflow-hidden">
+                  <div className="p-4 border-b border-border/50 flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Competência {group.label}</h2>
+                    <span className="text-sm text-muted-foreground">
+                      {group.tasks.filter((task) => !isOpenStatus(task.status)).length}/{group.tasks.length} entregues
+                    </span>
+                  </div>
+                  <div className="divide-y divide-border/50">{group.tasks.map(renderTask)}</div>
+                </div>
+              ))
+            )}
+          </TabsContent>
+
+          {/* Documents */}
+          <TabsContent value="documents">
+            <DocumentsPanel clientId={client.id} />
+          </TabsContent>
+
+          {/* Notes */}
+          <TabsContent value="notes" className="space-y-4">
+            <div className="form-section">
+              <Textarea
+                value={newNote}
+                onChange={(e) => setNewNote(e.target.value)}
+                placeholder="Escreva uma anotação sobre o cliente..."
+                rows={3}
+              />
+              <div className="flex justify-end">
+                <Button onClick={addNote} disabled={savingNote || !newNote.trim()}>
+                  {savingNote && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Adicionar anotação
+                </Button>
+              </div>
+            </div>
+
+            {notes.map((note) => (
+              <div key={note.id} className="bg-card rounded-xl border border-border/50 p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+                  {(note.user_id === user?.id || can(role, 'manage_notes')) && (
+                    <Button variant="ghost" size="icon" onClick={() => deleteNote(note.id)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {note.profiles?.name} • {formatDateTime(note.created_at, timeZone)}
+                </p>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <GenerateObligationsDialog
+        open={generating}
+        onOpenChange={setGenerating}
+        clients={[client]}
+        onGenerated={fetchTasks}
+      />
+    </MainLayout>
+  );
+}
@@ -2,37 +2,38 @@ import { useEffect, useState } from 'react';
 import { useNavigate, useParams, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useInvalidateClients } from '@/hooks/use-clients';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-
-const clientSchema = z.object({
-  name: z.string().min(2, 'Nome deve ter no mínimo 2 caracteres'),
-  cpf_cnpj: z.string().min(11, 'CPF/CNPJ inválido'),
-  person_type: z.enum(['PF', 'PJ']),
-  email: z.string().email('E-mail inválido').optional().or(z.literal('')),
-  phone: z.string().optional(),
-});
-
-type ClientForm = z.infer<typeof clientSchema>;
+import { clientSchema, toClientRow, type ClientFormData } from '@/lib/clients';
+import { formatDocument, maskDocument, normalizeDocument } from '@/lib/documents';
+import { taxRegimeLabels } from '@/lib/obligations';
 
 export default function ClientFormPage() {
   const { id } = useParams();
   const isEditing = !!id;
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const invalidateClients = useInvalidateClients();
+  const { user, organization } = useAuth();
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(isEditing);
 
-  const { register, handleSubmit, formState: { errors }, setValue, watch, reset } = useForm<ClientForm>({
+  const { register, handleSubmit, formState: { errors }, setValue, setError, getValues, watch, reset } = useForm<ClientFormData>({
     resolver: zodResolver(clientSchema),
     defaultValues: {
       person_type: 'PF',
@@ -40,6 +41,13 @@ export default function ClientFormPage() {
   });
 
   const personType = watch('person_type');
+  const taxRegime = watch('tax_regime');
+
+  const handlePersonTypeChange = (value: 'PF' | 'PJ') => {
+    setValue('person_type', value);
+    setValue('tax_regime', value === 'PF' ? 'pf' : undefined);
+    setValue('cpf_cnpj', maskDocument(getValues('cpf_cnpj') || '', value));
+  };
 
   useEffect(() => {
     if (isEditing) {
@@ -60,8 +68,9 @@ export default function ClientFormPage() {
       if (data) {
         reset({
           name: data.name,
-          cpf_cnpj: data.cpf_cnpj,
+          cpf_cnpj: formatDocument(data.cpf_cnpj),
           person_type: data.person_type as 'PF' | 'PJ',
+          tax_regime: data.tax_regime || undefined,
           email: data.email || '',
           phone: data.phone || '',
         });
@@ -79,19 +88,25 @@ export default function ClientFormPage() {
     }
   };
 
-  const onSubmit = async (data: ClientForm) => {
-    if (!user) return;
+  const describeDuplicate = async (cpfCnpj: string) => {
+    const { data } = await supabase
+      .from('clients')
+      .select('name')
+      .eq('organization_id', organization.id)
+      .eq('cpf_cnpj', cpfCnpj)
+      .maybeSingle();
+
+    return data
+      ? `Este documento já está cadastrado para o cliente "${data.name}".`
+      : 'Já existe um cliente cadastrado com este documento.';
+  };
+
+  const onSubmit = async (data: ClientFormData) => {
+    if (!user || !organization) return;
 
     setLoading(true);
     try {
-      const clientData = {
-        name: data.name,
-        cpf_cnpj: data.cpf_cnpj,
-        person_type: data.person_type,
-        email: data.email || null,
-        phone: data.phone || null,
-        user_id: user.id,
-      };
+      const clientData = toClientRow(data);
 
       if (isEditing) {
         const { error } = await supabase
@@ -108,7 +123,7 @@ export default function ClientFormPage() {
       } else {
         const { error } = await supabase
           .from('clients')
-          .insert(clientData);
+          .insert({ ...clientData, user_id: user.id, organization_id: organization.id });
 
         if (error) throw error;
 
@@ -118,9 +133,26 @@ export default function ClientFormPage() {
         });
       }
 
+      invalidateClients();
       navigate('/clients');
     } catch (error: any) {
       console.error('Error saving client:', error);
+
+      // 23505: unique (organization_id, cpf_cnpj); 23514: rejected by validate_client_cpf_cnpj
+      if (error.code === '23505' || error.code === '23514') {
+        const message = error.code === '23505'
+          ? await describeDuplicate(normalizeDocument(data.cpf_cnpj, data.person_type))
+          : data.person_type === 'PJ' ? 'CNPJ inválido' : 'CPF inválido';
+
+        setError('cpf_cnpj', { message });
+        toast({
+          variant: 'destructive',
+          title: error.code === '23505' ? 'Cliente duplicado' : 'Documento inválido',
+          description: message,
+        });
+        return;
+      }
+
       toast({
         variant: 'destructive',
         title: 'Erro',
@@ -179,7 +211,7 @@ export default function ClientFormPage() {
             <Label>Tipo de pessoa *</Label>
             <RadioGroup
               value={personType}
-              onValueChange={(value) => setValue('person_type', value as 'PF' | 'PJ')}
+              onValueChange={(value) => handlePersonTypeChange(value as 'PF' | 'PJ')}
               className="flex gap-4"
             >
               <Label
@@ -211,7 +243,10 @@ export default function ClientFormPage() {
             <Label htmlFor="cpf_cnpj">{personType === 'PJ' ? 'CNPJ *' : 'CPF *'}</Label>
             <Input
               id="cpf_cnpj"
-              {...register('cpf_cnpj')}
+              {...register('cpf_cnpj', {
+                onChange: (e) => setValue('cpf_cnpj', maskDocument(e.target.value, personType)),
+              })}
+              inputMode={personType === 'PJ' ? 'text' : 'numeric'}
               placeholder={personType === 'PJ' ? '00.000.000/0000-00' : '000.000.000-00'}
             />
             {errors.cpf_cnpj && (
@@ -219,6 +254,28 @@ export default function ClientFormPage() {
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label>Regime tributário</Label>
+            <Select
+              value={taxRegime || ''}
+              onValueChange={(value) => setValue('tax_regime', value as ClientFormData['tax_regime'])}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o regime" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(taxRegimeLabels)
+                  .filter(([value]) => (personType === 'PF') === (value === 'pf'))
+                  .map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Define quais obrigações fiscais são geradas para o cliente.
+            </p>
+          </div>
+
           <div className="grid sm:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="email">E-mail</Label>
@@ -1,9 +1,8 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, Search, Users, MoreVertical, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Users, MoreVertical, Pencil, Trash2, CalendarPlus, Eye, FileSpreadsheet, Download, CopyPlus } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,53 +20,62 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { formatDocument } from '@/lib/documents';
+import { taxRegimeLabels, type TaxRegime } from '@/lib/obligations';
+import { formatTimestamp } from '@/lib/dates';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { useAuth } from '@/contexts/AuthContext';
+import { useListParams } from '@/hooks/use-list-params';
+import { useClientPage, useDeleteClient, useInvalidateClients } from '@/hooks/use-clients';
+import { clientSorts, fetchAllClients, type Client, type ClientSort } from '@/lib/api';
+import { can } from '@/lib/permissions';
+import { rowCursor } from '@/lib/pagination';
+import { SearchInput } from '@/components/lists/SearchInput';
+import { SortableHeader } from '@/components/lists/SortableHeader';
+import { ListPagination } from '@/components/lists/ListPagination';
+import { GenerateObligationsDialog } from '@/components/obligations/GenerateObligationsDialog';
+import { ImportClientsDialog } from '@/components/clients/ImportClientsDialog';
+import { ApplyTemplateDialog } from '@/components/templates/ApplyTemplateDialog';
+import { ExportDialog } from '@/components/exports/ExportDialog';
+import { clientExportColumns } from '@/lib/exports';
 
-interface Client {
-  id: string;
-  name: string;
-  cpf_cnpj: string;
-  person_type: 'PF' | 'PJ';
-  email: string | null;
-  phone: string | null;
-  created_at: string;
-}
+const NO_CLIENTS: Client[] = [];
 
 export default function Clients() {
-  const [clients, setClients] = useState<Client[]>([]);
-  const [filteredClients, setFilteredClients] = useState<Client[]>([]);
-  const [search, setSearch] = useState('');
-  const [loading, setLoading] = useState(true);
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [obligationClients, setObligationClients] = useState<Client[] | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportRows, setExportRows] = useState<Client[] | null>(null);
+  const [applyTemplateOpen, setApplyTemplateOpen] = useState(false);
   const { toast } = useToast();
+  const { organization, role } = useAuth();
+  const timeZone = useTimeZone();
+  const list = useListParams<ClientSort>({ sorts: clientSorts, defaultSort: 'name' });
+  const { search, sort, ascending, page } = list;
 
-  useEffect(() => {
-    fetchClients();
-  }, []);
+  const clientPage = useClientPage({ search, sort, ascending, page });
+  const clients = clientPage.data?.rows ?? NO_CLIENTS;
+  const hasPrevious = !!clientPage.data?.hasPrevious;
+  const hasNext = !!clientPage.data?.hasNext;
+  const invalidateClients = useInvalidateClients();
+  const removeClient = useDeleteClient();
 
   useEffect(() => {
-    if (search) {
-      const filtered = clients.filter(
-        (client) =>
-          client.name.toLowerCase().includes(search.toLowerCase()) ||
-          client.cpf_cnpj.includes(search)
-      );
-      setFilteredClients(filtered);
-    } else {
-      setFilteredClients(clients);
-    }
-  }, [search, clients]);
+    if (!clientPage.error) return;
+    console.error('Error fetching clients:', clientPage.error);
+    toast({
+      variant: 'destructive',
+      title: 'Erro',
+      description: 'Erro ao carregar clientes.',
+    });
+  }, [clientPage.error]);
 
-  const fetchClients = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('clients')
-        .select('*')
-        .order('name');
+  /** Every client matching the search, for actions that span pages. */
+  const loadAllClients = async (term: string, onLoaded: (clients: Client[]) => void) => {
+    if (!organization) return;
 
-      if (error) throw error;
-      setClients(data || []);
-      setFilteredClients(data || []);
+    try {
+      onLoaded(await fetchAllClients(organization.id, term, sort, ascending));
     } catch (error) {
       console.error('Error fetching clients:', error);
       toast({
@@ -75,28 +83,21 @@ export default function Clients() {
         title: 'Erro',
         description: 'Erro ao carregar clientes.',
       });
-    } finally {
-      setLoading(false);
     }
   };
 
+  const noClients = clients.length === 0 && !search && !hasPrevious;
+
   const handleDelete = async () => {
     if (!deleteId) return;
 
     try {
-      const { error } = await supabase
-        .from('clients')
-        .delete()
-        .eq('id', deleteId);
-
-      if (error) throw error;
+      await removeClient.mutateAsync(deleteId);
 
       toast({
         title: 'Cliente excluído',
         description: 'O cliente foi excluído com sucesso.',
       });
-
-      fetchClients();
     } catch (error) {
       console.error('Error deleting client:', error);
       toast({
@@ -109,10 +110,6 @@ export default function Clients() {
     }
   };
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('pt-BR');
-  };
-
   return (
     <MainLayout>
       <div className="space-y-6 animate-fade-in">
@@ -124,27 +121,45 @@ export default function Clients() {
               Gerencie seus clientes e informações
             </p>
           </div>
-          <Button asChild>
-            <Link to="/clients/new">
-              <Plus className="w-4 h-4 mr-2" />
-              Novo Cliente
-            </Link>
-          </Button>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Importar
+            </Button>
+            <Button variant="outline" onClick={() => loadAllClients(search, setExportRows)} disabled={clients.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Exportar
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => loadAllClients('', setObligationClients)}
+              disabled={noClients}
+            >
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Gerar obrigações
+            </Button>
+            <Button variant="outline" onClick={() => setApplyTemplateOpen(true)} disabled={noClients}>
+              <CopyPlus className="w-4 h-4 mr-2" />
+              Aplicar modelo
+            </Button>
+            <Button asChild>
+              <Link to="/clients/new">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Cliente
+              </Link>
+            </Button>
+          </div>
         </div>
 
         {/* Search */}
-        <div className="relative max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Buscar por nome ou CPF/CNPJ..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+        <SearchInput
+          value={search}
+          onSearch={(value) => list.update({ q: value })}
+          placeholder="Buscar por nome ou CPF/CNPJ..."
+        />
 
         {/* Clients List */}
-        {filteredClients.length === 0 ? (
+        {clients.length === 0 ? (
           <div className="bg-card rounded-xl border border-border/50 p-12 text-center">
             <Users className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
             <p className="text-muted-foreground">
@@ -166,10 +181,20 @@ export default function Clients() {
                 <thead className="bg-muted/50">
                   <tr>
                     <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Nome
+                      <SortableHeader
+                        label="Nome"
+                        active={sort === 'name'}
+                        ascending={ascending}
+                        onClick={() => list.toggleSort('name')}
+                      />
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      CPF/CNPJ
+                      <SortableHeader
+                        label="CPF/CNPJ"
+                        active={sort === 'cpf_cnpj'}
+                        ascending={ascending}
+                        onClick={() => list.toggleSort('cpf_cnpj')}
+                      />
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                       Tipo
@@ -178,7 +203,12 @@ export default function Clients() {
                       Contato
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Cadastro
+                      <SortableHeader
+                        label="Cadastro"
+                        active={sort === 'created_at'}
+                        ascending={ascending}
+                        onClick={() => list.toggleSort('created_at')}
+                      />
                     </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
                       Ações
@@ -186,13 +216,15 @@ export default function Clients() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-border/50">
-                  {filteredClients.map((client) => (
+                  {clients.map((client) => (
                     <tr key={client.id} className="hover:bg-muted/30 transition-colors">
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <p className="font-medium">{client.name}</p>
+                        <Link to={`/clients/${client.id}`} className="font-medium hover:text-primary hover:underline">
+                          {client.name}
+                        </Link>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
-                        {client.cpf_cnpj}
+                        {formatDocument(client.cpf_cnpj)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`inline-flex px-2 py-1 text-xs rounded-md font-medium ${
@@ -202,12 +234,17 @@ export default function Clients() {
                         }`}>
                           {client.person_type === 'PJ' ? 'Pessoa Jurídica' : 'Pessoa Física'}
                         </span>
+                        {client.tax_regime && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {taxRegimeLabels[client.tax_regime]}
+                          </p>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                         {client.email || client.phone || '-'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
-                        {formatDate(client.created_at)}
+                        {formatTimestamp(client.created_at, timeZone)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right">
                         <DropdownMenu>
@@ -217,19 +254,31 @@ export default function Clients() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
+                            <DropdownMenuItem asChild>
+                              <Link to={`/clients/${client.id}`}>
+                                <Eye className="w-4 h-4 mr-2" />
+                                Ver detalhes
+                              </Link>
+                            </DropdownMenuItem>
                             <DropdownMenuItem asChild>
                               <Link to={`/clients/${client.id}/edit`}>
                                 <Pencil className="w-4 h-4 mr-2" />
                                 Editar
                               </Link>
                             </DropdownMenuItem>
-                            <DropdownMenuItem 
-                              className="text-destructive"
-                              onClick={() => setDeleteId(client.id)}
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Excluir
+                            <DropdownMenuItem onClick={() => setObligationClients([client])}>
+                              <CalendarPlus className="w-4 h-4 mr-2" />
+                              Gerar obrigações
                             </DropdownMenuItem>
+                            {can(role, 'delete_records') && (
+                              <DropdownMenuItem 
+                                className="text-destructive"
+                                onClick={() => setDeleteId(client.id)}
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Excluir
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </td>
@@ -240,8 +289,46 @@ export default function Clients() {
             </div>
           </div>
         )}
+
+        <ListPagination
+          hasPrevious={hasPrevious}
+          hasNext={hasNext}
+          first={clients.length > 0 ? rowCursor(clients[0], sort) : null}
+          last={clients.length > 0 ? rowCursor(clients[clients.length - 1], sort) : null}
+          pageSearch={list.pageSearch}
+          onNavigate={list.goToPage}
+        />
       </div>
 
+      {/* Generate Obligations Dialog */}
+      <GenerateObligationsDialog
+        open={!!obligationClients}
+        onOpenChange={(open) => !open && setObligationClients(null)}
+        clients={obligationClients || []}
+      />
+
+      {/* Apply Template Dialog */}
+      <ApplyTemplateDialog
+        open={applyTemplateOpen}
+        onOpenChange={setApplyTemplateOpen}
+      />
+
+      {/* Import Dialog */}
+      <ImportClientsDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={invalidateClients}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        open={!!exportRows}
+        onOpenChange={(open) => !open && setExportRows(null)}
+        title="Clientes"
+        columns={clientExportColumns(timeZone)}
+        rows={exportRows || []}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
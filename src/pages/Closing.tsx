@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarPlus, Download, Loader2, Table2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SearchInput } from '@/components/lists/SearchInput';
+import { ClosingCell } from '@/components/closing/ClosingCell';
+import { StatusChangeDialog } from '@/components/tasks/StatusChangeDialog';
+import { TaskStatusLegend } from '@/components/tasks/TaskStatusBadge';
+import { GenerateObligationsDialog } from '@/components/obligations/GenerateObligationsDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useListParams } from '@/hooks/use-list-params';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { useClientList } from '@/hooks/use-clients';
+import { useChangeTaskStatus, useClosingTasks } from '@/hooks/use-tasks';
+import { useTaskStatusChange } from '@/hooks/use-task-status-change';
+import {
+  buildClosingRows,
+  closingColumnLabel,
+  closingColumns,
+  closingSheetRows,
+  columnProgress,
+  type ClosingTask,
+} from '@/lib/closing';
+import { currentMonthISO, formatDate, todayISO } from '@/lib/dates';
+import { exportFileName } from '@/lib/exports';
+import { taxRegimeLabels, type TaxRegime } from '@/lib/obligations';
+import { downloadSpreadsheet } from '@/lib/spreadsheets';
+import { findNextOccurrence } from '@/lib/taskSeries';
+import type { TaskStatus } from '@/lib/tasks';
+import type { TransitionValues } from '@/lib/workflow';
+
+const CLOSING_SORTS = ['name'] as const;
+
+export default function Closing() {
+  const { toast } = useToast();
+  const timeZone = useTimeZone();
+  const list = useListParams({ sorts: CLOSING_SORTS, defaultSort: 'name' });
+  const [generateOpen, setGenerateOpen] = useState(false);
+
+  const month = list.get('competencia') || currentMonthISO(timeZone);
+  const regimeParam = list.get('regime') as TaxRegime | null;
+  const regime = regimeParam && regimeParam in taxRegimeLabels ? regimeParam : null;
+  const search = list.search.trim().toLowerCase();
+
+  const clientsQuery = useClientList();
+  const tasksQuery = useClosingTasks(month);
+  const error = clientsQuery.error || tasksQuery.error;
+  const loading = clientsQuery.isLoading || tasksQuery.isLoading;
+
+  const changeStatus = useChangeTaskStatus();
+
+  useEffect(() => {
+    if (!error) return;
+    console.error('Error fetching closing:', error);
+    toast({
+      variant: 'destructive',
+      title: 'Erro',
+      description: 'Erro ao carregar o fechamento.',
+    });
+  }, [error, toast]);
+
+  const columns = useMemo(() => closingColumns(regime), [regime]);
+  const clients = useMemo(
+    () => (clientsQuery.data ?? []).filter((client) =>
+      (!regime || client.tax_regime === regime) && (!search || client.name.toLowerCase().includes(search)),
+    ),
+    [clientsQuery.data, regime, search],
+  );
+  const rows = useMemo(
+    () => buildClosingRows(clients, tasksQuery.data ?? [], columns, month),
+    [clients, tasksQuery.data, columns, month],
+  );
+
+  const updateTaskStatus = async (task: ClosingTask, newStatus: TaskStatus, values: TransitionValues) => {
+    try {
+      const { data: next, error: nextError } = await findNextOccurrence(task);
+      if (nextError) throw nextError;
+
+      await changeStatus.mutateAsync({ taskId: task.id, status: newStatus, values, next });
+
+      const description = next
+        ? `${task.title} — próxima ocorrência em ${formatDate(next.date)}`
+        : task.title;
+
+      toast({ title: 'Tarefa concluída!', description });
+    } catch (error) {
+      console.error('Error updating task:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao atualizar tarefa.',
+      });
+    }
+  };
+
+  const statusChange = useTaskStatusChange(updateTaskStatus);
+
+  const exportClosing = () => {
+    const today = todayISO(timeZone);
+    downloadSpreadsheet(
+      closingSheetRows(rows, columns, month, today, timeZone),
+      exportFileName(`Fechamento ${month}`, 'xlsx', today),
+      'Fechamento',
+    );
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Fechamento</h1>
+            <p className="text-muted-foreground mt-1">
+              Obrigações de cada cliente na competência
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={exportClosing} disabled={rows.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Exportar XLSX
+            </Button>
+            <Button onClick={() => setGenerateOpen(true)} disabled={clients.length === 0}>
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Gerar obrigações
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <SearchInput
+            value={list.search}
+            onSearch={(value) => list.update({ q: value })}
+            placeholder="Buscar cliente..."
+          />
+          <Input
+            type="month"
+            className="w-44"
+            value={month}
+            onChange={(e) => list.update({ competencia: e.target.value || null })}
+            aria-label="Competência"
+          />
+          <Select value={regime ?? 'all'} onValueChange={(value) => list.update({ regime: value === 'all' ? null : value })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os regimes</SelectItem>
+              {(Object.entries(taxRegimeLabels) as [TaxRegime, string][]).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <TaskStatusLegend />
+          <ClosingCell cell={{ kind: 'missing' }} onComplete={() => {}} />
+          <span className="text-muted-foreground">— Não se aplica</span>
+        </div>
+
+        {/* Grid */}
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="bg-card rounded-xl border border-border/50 p-12 text-center">
+            <Table2 className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">Nenhum cliente encontrado</p>
+          </div>
+        ) : (
+          <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="sticky left-0 z-10 bg-muted px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Cliente
+                    </th>
+                    {columns.map((obligation) => (
+                      <th
+                        key={obligation.code}
+                        className="px-4 py-3 text-center text-xs font-medium text-muted-foreground uppercase tracking-wider whitespace-nowrap"
+                      >
+                        {closingColumnLabel(obligation, month)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/50">
+                  {rows.map((row) => (
+                    <tr key={row.client.id} className="hover:bg-muted/30 transition-colors">
+                      <td className="sticky left-0 z-10 bg-card px-6 py-3 whitespace-nowrap">
+                        <p className="font-medium">{row.client.name}</p>
+                        {row.client.tax_regime && (
+                          <p className="text-xs text-muted-foreground">{taxRegimeLabels[row.client.tax_regime]}</p>
+                        )}
+                      </td>
+                      {row.cells.map((cell, index) => (
+                        <td key={columns[index].code} className="px-4 py-3 text-center whitespace-nowrap">
+                          <ClosingCell cell={cell} onComplete={(task) => statusChange.request(task, 'concluida')} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-muted/50 border-t border-border/50">
+                  <tr>
+                    <td className="sticky left-0 z-10 bg-muted px-6 py-3 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Concluídas
+                    </td>
+                    {columns.map((obligation, index) => {
+                      const { done, total } = columnProgress(rows, index);
+                      return (
+                        <td key={obligation.code} className="px-4 py-3 text-center text-sm text-muted-foreground">
+                          {total > 0 ? `${done}/${total}` : '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Status Change Dialog */}
+      <StatusChangeDialog
+        change={statusChange.change}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+
+      {/* Generate Obligations Dialog */}
+      <GenerateObligationsDialog
+        open={generateOpen}
+        onOpenChange={setGenerateOpen}
+        clients={clients}
+      />
+    </MainLayout>
+  );
+}
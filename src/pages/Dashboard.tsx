@@ -1,140 +1,51 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { 
-  Users, 
-  CheckSquare, 
-  Clock, 
-  AlertTriangle, 
+import {
+  LayoutDashboard,
   Plus,
-  ArrowRight,
-  TrendingUp
+  RotateCcw,
 } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-
-interface DashboardStats {
-  totalClients: number;
-  pendingTasks: number;
-  todayTasks: number;
-  overdueTasks: number;
-}
+import { useToast } from '@/hooks/use-toast';
+import { useDashboardLayout } from '@/hooks/use-dashboard-layout';
+import { WidgetGrid } from '@/components/dashboard/WidgetGrid';
+import { WidgetCatalogDialog } from '@/components/dashboard/WidgetCatalogDialog';
+import { WidgetConfigDialog } from '@/components/dashboard/WidgetConfigDialog';
+import {
+  addWidget,
+  configureWidget,
+  defaultLayout,
+  type DashboardLayout,
+  type DashboardWidget,
+} from '@/lib/dashboardWidgets';
 
 export default function Dashboard() {
   const { profile } = useAuth();
-  const [stats, setStats] = useState<DashboardStats>({
-    totalClients: 0,
-    pendingTasks: 0,
-    todayTasks: 0,
-    overdueTasks: 0,
-  });
-  const [recentTasks, setRecentTasks] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { layout, save } = useDashboardLayout();
+  // Changes are kept aside while arranging and saved all at once
+  const [draft, setDraft] = useState<DashboardLayout | null>(null);
+  const [catalogOpen, setCatalogOpen] = useState(false);
+  const [configuring, setConfiguring] = useState<DashboardWidget | null>(null);
 
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
+  const editing = !!draft;
+  const shown = draft ?? layout;
 
-  const fetchDashboardData = async () => {
+  const saveLayout = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-
-      // Fetch clients count
-      const { count: clientsCount } = await supabase
-        .from('clients')
-        .select('*', { count: 'exact', head: true });
-
-      // Fetch pending tasks
-      const { count: pendingCount } = await supabase
-        .from('tasks')
-        .select('*', { count: 'exact', head: true })
-        .eq('status', 'pendente');
-
-      // Fetch today's tasks
-      const { count: todayCount } = await supabase
-        .from('tasks')
-        .select('*', { count: 'exact', head: true })
-        .eq('due_date', today)
-        .eq('status', 'pendente');
-
-      // Fetch overdue tasks
-      const { count: overdueCount } = await supabase
-        .from('tasks')
-        .select('*', { count: 'exact', head: true })
-        .lt('due_date', today)
-        .eq('status', 'pendente');
-
-      // Fetch recent tasks
-      const { data: tasks } = await supabase
-        .from('tasks')
-        .select('*, clients(name)')
-        .order('due_date', { ascending: true })
-        .limit(5);
-
-      setStats({
-        totalClients: clientsCount || 0,
-        pendingTasks: pendingCount || 0,
-        todayTasks: todayCount || 0,
-        overdueTasks: overdueCount || 0,
-      });
-
-      setRecentTasks(tasks || []);
+      await save.mutateAsync(draft);
+      setDraft(null);
+      toast({ title: 'Painel salvo' });
     } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const statCards = [
-    {
-      label: 'Total de Clientes',
-      value: stats.totalClients,
-      icon: Users,
-      color: 'text-primary',
-      bgColor: 'bg-primary/10',
-    },
-    {
-      label: 'Tarefas Pendentes',
-      value: stats.pendingTasks,
-      icon: CheckSquare,
-      color: 'text-warning',
-      bgColor: 'bg-warning/10',
-    },
-    {
-      label: 'Vencem Hoje',
-      value: stats.todayTasks,
-      icon: Clock,
-      color: 'text-accent',
-      bgColor: 'bg-accent/10',
-    },
-    {
-      label: 'Atrasadas',
-      value: stats.overdueTasks,
-      icon: AlertTriangle,
-      color: 'text-destructive',
-      bgColor: 'bg-destructive/10',
-    },
-  ];
-
-  const getStatusBadge = (status: string, dueDate: string) => {
-    const today = new Date().toISOString().split('T')[0];
-    
-    if (status === 'concluida') {
-      return <span className="status-badge status-concluida">Concluída</span>;
-    }
-    if (dueDate < today) {
-      return <span className="status-badge status-atrasada">Atrasada</span>;
-    }
-    if (dueDate === today) {
-      return <span className="status-badge bg-accent/15 text-accent">Hoje</span>;
+      console.error('Error saving dashboard layout:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao salvar o painel.',
+      });
     }
-    return <span className="status-badge status-pendente">Pendente</span>;
-  };
-
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('pt-BR');
   };
 
   return (
@@ -147,87 +58,88 @@ export default function Dashboard() {
               Olá, {profile?.name?.split(' ')[0]}! 👋
             </h1>
             <p className="text-muted-foreground mt-1">
-              Aqui está o resumo da sua contabilidade
+              {editing
+                ? 'Arraste os widgets para reordenar e ajuste o tamanho e os filtros de cada um'
+                : 'Aqui está o resumo das suas tarefas'}
             </p>
           </div>
-          <div className="flex gap-3">
-            <Button asChild variant="outline">
-              <Link to="/clients/new">
-                <Plus className="w-4 h-4 mr-2" />
-                Novo Cliente
-              </Link>
-            </Button>
-            <Button asChild>
-              <Link to="/tasks/new">
+          {editing ? (
+            <div className="flex flex-wrap gap-3">
+              <Button variant="outline" onClick={() => setCatalogOpen(true)}>
                 <Plus className="w-4 h-4 mr-2" />
-                Nova Tarefa
-              </Link>
-            </Button>
-          </div>
-        </div>
-
-        {/* Stats Grid */}
-        <div className="dashboard-grid">
-          {statCards.map((stat) => (
-            <div key={stat.label} className="stat-card">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm text-muted-foreground">{stat.label}</p>
-                  <p className="text-3xl font-bold mt-1">{stat.value}</p>
-                </div>
-                <div className={`p-3 rounded-xl ${stat.bgColor}`}>
-                  <stat.icon className={`w-6 h-6 ${stat.color}`} />
-                </div>
-              </div>
-            </div>
-          ))}
-        </div>
-
-        {/* Recent Tasks */}
-        <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
-          <div className="p-6 border-b border-border/50 flex items-center justify-between">
-            <div>
-              <h2 className="text-lg font-semibold">Próximas Tarefas</h2>
-              <p className="text-sm text-muted-foreground">Suas tarefas mais próximas</p>
+                Adicionar widget
+              </Button>
+              <Button variant="outline" onClick={() => setDraft(defaultLayout())}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restaurar padrão
+              </Button>
+              <Button variant="ghost" onClick={() => setDraft(null)}>
+                Cancelar
+              </Button>
+              <Button onClick={saveLayout} disabled={save.isPending}>
+                {save.isPending ? 'Salvando...' : 'Salvar painel'}
+              </Button>
             </div>
-            <Button asChild variant="ghost" size="sm">
-              <Link to="/tasks" className="gap-2">
-                Ver todas
-                <ArrowRight className="w-4 h-4" />
-              </Link>
-            </Button>
-          </div>
-          
-          {recentTasks.length === 0 ? (
-            <div className="p-12 text-center">
-              <CheckSquare className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
-              <p className="text-muted-foreground">Nenhuma tarefa cadastrada</p>
-              <Button asChild className="mt-4">
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              <Button variant="outline" onClick={() => setDraft(layout)}>
+                <LayoutDashboard className="w-4 h-4 mr-2" />
+                Personalizar
+              </Button>
+              <Button asChild variant="outline">
+                <Link to="/clients/new">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Novo Cliente
+                </Link>
+              </Button>
+              <Button asChild>
                 <Link to="/tasks/new">
                   <Plus className="w-4 h-4 mr-2" />
-                  Criar primeira tarefa
+                  Nova Tarefa
                 </Link>
               </Button>
             </div>
-          ) : (
-            <div className="divide-y divide-border/50">
-              {recentTasks.map((task) => (
-                <div key={task.id} className="p-4 hover:bg-muted/50 transition-colors">
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium truncate">{task.title}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {task.clients?.name || 'Sem cliente'} • {formatDate(task.due_date)}
-                      </p>
-                    </div>
-                    {getStatusBadge(task.status, task.due_date)}
-                  </div>
-                </div>
-              ))}
-            </div>
           )}
         </div>
+
+        {/* Widgets */}
+        {shown.widgets.length === 0 ? (
+          <div className="bg-card rounded-xl border border-border/50 p-12 text-center">
+            <LayoutDashboard className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">Nenhum widget no painel</p>
+            <Button
+              className="mt-4"
+              onClick={() => {
+                setDraft(shown);
+                setCatalogOpen(true);
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar widget
+            </Button>
+          </div>
+        ) : (
+          <WidgetGrid layout={shown} editing={editing} onChange={setDraft} onConfigure={setConfiguring} />
+        )}
       </div>
+
+      <WidgetCatalogDialog
+        open={catalogOpen}
+        onOpenChange={setCatalogOpen}
+        onAdd={(type) => {
+          setDraft(addWidget(shown, type));
+          setCatalogOpen(false);
+        }}
+      />
+
+      <WidgetConfigDialog
+        widget={configuring}
+        onOpenChange={(open) => !open && setConfiguring(null)}
+        onSave={(config) => {
+          setDraft(configureWidget(shown, configuring!.id, config));
+          setConfiguring(null);
+        }}
+      />
     </MainLayout>
   );
 }
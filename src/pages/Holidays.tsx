@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2, Plus, Trash2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { formatDate, todayISO } from '@/lib/dates';
+import { nationalHolidays } from '@/lib/holidays';
+import { can } from '@/lib/permissions';
+
+const holidaySchema = z.object({
+  date: z.string().min(1, 'Data é obrigatória'),
+  name: z.string().min(2, 'Nome deve ter no mínimo 2 caracteres'),
+  scope: z.enum(['estadual', 'municipal']),
+  recurring: z.boolean(),
+});
+
+type HolidayForm = z.infer<typeof holidaySchema>;
+
+interface CustomHolidayRow {
+  id: string;
+  date: string;
+  name: string;
+  scope: 'estadual' | 'municipal';
+  recurring: boolean;
+}
+
+const scopeLabels: Record<string, string> = {
+  nacional: 'Nacional',
+  estadual: 'Estadual',
+  municipal: 'Municipal',
+};
+
+export default function Holidays() {
+  const { user, organization, role } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimeZone();
+  const [year, setYear] = useState(() => Number(todayISO(timeZone).slice(0, 4)));
+  const [holidays, setHolidays] = useState<CustomHolidayRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can(role, 'manage_holidays');
+
+  const { register, handleSubmit, formState: { errors }, setValue, watch, reset } = useForm<HolidayForm>({
+    resolver: zodResolver(holidaySchema),
+    defaultValues: {
+      scope: 'municipal',
+      recurring: true,
+    },
+  });
+
+  const scope = watch('scope');
+  const recurring = watch('recurring');
+
+  useEffect(() => {
+    fetchHolidays();
+  }, []);
+
+  const fetchHolidays = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('holidays')
+        .select('id, date, name, scope, recurring')
+        .eq('organization_id', organization.id)
+        .order('date');
+
+      if (error) throw error;
+      setHolidays(data || []);
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao carregar feriados.',
+      });
+    }
+  };
+
+  const onSubmit = async (data: HolidayForm) => {
+    if (!user || !organization) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('holidays')
+        .insert({
+          date: data.date,
+          name: data.name,
+          scope: data.scope,
+          recurring: data.recurring,
+          user_id: user.id,
+          organization_id: organization.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Feriado cadastrado',
+        description: 'Os prazos passam a considerar este feriado.',
+      });
+
+      reset({ date: '', name: '', scope: data.scope, recurring: data.recurring });
+      fetchHolidays();
+    } catch (error) {
+      console.error('Error saving holiday:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao cadastrar feriado. Verifique se a data já não está cadastrada.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('holidays')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchHolidays();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao excluir feriado.',
+      });
+    }
+  };
+
+  // Custom holidays that fall in the selected year, recurring ones moved to it
+  const yearHolidays = [
+    ...nationalHolidays(year).map((holiday) => ({ ...holiday, id: null as string | null })),
+    ...holidays
+      .map((holiday) => ({
+        ...holiday,
+        date: holiday.recurring ? `${year}${holiday.date.slice(4)}` : holiday.date,
+      }))
+      .filter((holiday) => holiday.date.startsWith(`${year}-`)),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold">Feriados</h1>
+          <p className="text-muted-foreground mt-1">
+            Feriados usados para ajustar os vencimentos que caem em dias não úteis
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Add Holiday Form */}
+          {canManage && (
+            <form onSubmit={handleSubmit(onSubmit)} className="form-section h-fit">
+              <h3 className="text-lg font-semibold">Novo feriado</h3>
+
+              <div className="space-y-2">
+                <Label htmlFor="date">Data *</Label>
+                <Input id="date" type="date" {...register('date')} />
+                {errors.date && (
+                  <p className="text-sm text-destructive">{errors.date.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="name">Nome *</Label>
+                <Input id="name" {...register('name')} placeholder="Aniversário da cidade" />
+                {errors.name && (
+                  <p className="text-sm text-destructive">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Abrangência</Label>
+                <Select value={scope} onValueChange={(value) => setValue('scope', value as HolidayForm['scope'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="estadual">Estadual</SelectItem>
+                    <SelectItem value="municipal">Municipal</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="recurring">Repete todo ano</Label>
+                <Switch
+                  id="recurring"
+                  checked={recurring}
+                  onCheckedChange={(checked) => setValue('recurring', checked)}
+                />
+              </div>
+
+              <Button type="submit" disabled={saving} className="w-full">
+                {saving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="w-4 h-4 mr-2" />
+                )}
+                Adicionar
+              </Button>
+            </form>
+          )}
+
+          {/* Holidays List */}
+          <div className={`${canManage ? 'lg:col-span-2' : 'lg:col-span-3'} bg-card rounded-xl border border-border/50 overflow-hidden`}>
+            <div className="p-4 border-b border-border/50 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5 text-muted-foreground" />
+                <h2 className="text-lg font-semibold">{year}</h2>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => setYear(year - 1)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setYear(year + 1)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="divide-y divide-border/50">
+              {yearHolidays.map((holiday) => (
+                <div key={`${holiday.date}-${holiday.name}`} className="px-4 py-3 flex items-center justify-between">
+                  <div className="flex items-center gap-4">
+                    <span className="text-sm text-muted-foreground w-24">{formatDate(holiday.date)}</span>
+                    <span className="font-medium">{holiday.name}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="status-badge bg-muted text-muted-foreground">{scopeLabels[holiday.scope]}</span>
+                    {holiday.id && canManage ? (
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(holiday.id)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    ) : (
+                      <div className="w-10" />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -8,13 +8,22 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useUpdateProfile } from '@/hooks/use-profile';
 import { updatePassword } from '@/lib/supabase';
+import { DEFAULT_TIME_ZONE, formatTimestamp, isValidTimeZone, timeZoneOptions } from '@/lib/dates';
 
 const profileSchema = z.object({
   name: z.string().min(3, 'Nome deve ter no mínimo 3 caracteres'),
+  time_zone: z.string().min(1, 'Fuso horário é obrigatório').refine(isValidTimeZone, 'Fuso horário inválido'),
 });
 
 const passwordSchema = z.object({
@@ -30,8 +39,9 @@ type ProfileForm = z.infer<typeof profileSchema>;
 type PasswordForm = z.infer<typeof passwordSchema>;
 
 export default function Profile() {
-  const { profile, refreshProfile } = useAuth();
+  const { profile } = useAuth();
   const { toast } = useToast();
+  const saveProfile = useUpdateProfile();
   const [loadingProfile, setLoadingProfile] = useState(false);
   const [loadingPassword, setLoadingPassword] = useState(false);
 
@@ -39,6 +49,7 @@ export default function Profile() {
     resolver: zodResolver(profileSchema),
     defaultValues: {
       name: profile?.name || '',
+      time_zone: profile?.time_zone || DEFAULT_TIME_ZONE,
     },
   });
 
@@ -51,14 +62,7 @@ export default function Profile() {
 
     setLoadingProfile(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ name: data.name })
-        .eq('id', profile.id);
-
-      if (error) throw error;
-
-      await refreshProfile();
+      await saveProfile.mutateAsync({ name: data.name, time_zone: data.time_zone });
 
       toast({
         title: 'Perfil atualizado',
@@ -100,7 +104,7 @@ export default function Profile() {
   };
 
   const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('pt-BR', {
+    return formatTimestamp(date, profile?.time_zone, {
       day: '2-digit',
       month: 'long',
       year: 'numeric',
@@ -159,6 +163,33 @@ export default function Profile() {
               )}
             </div>
 
+            <div className="space-y-2">
+              <Label>Fuso horário do escritório</Label>
+              <Select
+                value={profileForm.watch('time_zone')}
+                onValueChange={(value) => profileForm.setValue('time_zone', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZoneOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Define quando as tarefas passam a vencer hoje ou ficam atrasadas
+              </p>
+              {profileForm.formState.errors.time_zone && (
+                <p className="text-sm text-destructive">
+                  {profileForm.formState.errors.time_zone.message}
+                </p>
+              )}
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="email">E-mail</Label>
               <Input
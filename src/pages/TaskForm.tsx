@@ -1,9 +1,9 @@
 import { useEffect, useState } from 'react';
-import { useNavigate, useParams, Link } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ArrowLeft, Loader2 } from 'lucide-react';
+import { ArrowLeft, FileStack, FileText, GitBranch, History, ListChecks, Loader2 } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,9 +16,39 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { DocumentsPanel } from '@/components/documents/DocumentsPanel';
+import { StatusChangeDialog } from '@/components/tasks/StatusChangeDialog';
+import { TaskChecklist } from '@/components/tasks/TaskChecklist';
+import { TaskStatusSelect } from '@/components/tasks/TaskStatusSelect';
 import { useToast } from '@/hooks/use-toast';
+import { useInvalidateTasks } from '@/hooks/use-tasks';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchAllClients } from '@/lib/api';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useAuth } from '@/contexts/AuthContext';
+import { useHolidayCalendar } from '@/hooks/use-holiday-calendar';
+import { useOrganizationMembers } from '@/hooks/use-organization-members';
+import { useTaskStatusChange, type StatusChangeTask } from '@/hooks/use-task-status-change';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { currentMonthISO, formatDate, formatDateTime, parseISODate } from '@/lib/dates';
+import { adjustDueDate, adjustmentLabels, nonBusinessDayReason, type DueDateAdjustment } from '@/lib/holidays';
+import { obligationsByCode, type ObligationCode } from '@/lib/obligations';
+import { describeRecurrence, monthLabels, recurrenceLabels, type RecurrenceRule } from '@/lib/recurrence';
+import { createTaskSeries, findNextOccurrence, startSeriesFromTask, updateFutureOccurrences } from '@/lib/taskSeries';
+import { taskStatusLabels, type TaskStatus } from '@/lib/tasks';
+import { addTemplateChecklist, buildTemplateTasks, type TaskTemplate } from '@/lib/taskTemplates';
+import { setTaskStatus, type TransitionValues } from '@/lib/workflow';
+
+const isPositiveInteger = (value: string | undefined, max = Infinity) =>
+  !value || (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= max);
 
 const taskSchema = z.object({
   title: z.string().min(3, 'Título deve ter no mínimo 3 caracteres'),
@@ -26,73 +56,199 @@ const taskSchema = z.object({
   task_type: z.enum(['imposto', 'folha', 'declaracao', 'outro']),
   due_date: z.string().min(1, 'Data de vencimento é obrigatória'),
   client_id: z.string().optional(),
+  assignee_id: z.string().min(1, 'Responsável é obrigatório'),
+  reviewer_id: z.string().optional(),
+  recurrence: z.enum(['nenhuma', 'mensal', 'trimestral', 'anual', 'dias_uteis']),
+  day_of_month: z.string().optional().refine((v) => isPositiveInteger(v, 31), 'Informe um dia entre 1 e 31'),
+  month_of_year: z.string().optional(),
+  interval_count: z.string().optional().refine((v) => isPositiveInteger(v), 'Informe um número maior que zero'),
+  due_adjustment: z.enum(['antecipar', 'postergar']),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
 
+type EditScope = 'occurrence' | 'future';
+
+// Missing day/month default to the first due date, so "mensal" created on the
+// 20th repeats on the 20th.
+const buildRule = (data: TaskFormData): RecurrenceRule | null => {
+  if (data.recurrence === 'nenhuma') return null;
+
+  const dueDate = parseISODate(data.due_date);
+  return {
+    frequency: data.recurrence,
+    interval_count: data.interval_count ? Number(data.interval_count) : 1,
+    day_of_month: data.recurrence === 'dias_uteis' ? null : Number(data.day_of_month || dueDate.day),
+    month_of_year: data.recurrence === 'anual' ? Number(data.month_of_year || dueDate.month) : null,
+    due_adjustment: data.due_adjustment,
+  };
+};
+
 interface Client {
   id: string;
   name: string;
 }
 
+interface Assignment {
+  id: string;
+  created_at: string;
+  to: { name: string } | null;
+  by: { name: string } | null;
+}
+
+const NO_TEMPLATE = 'none';
+
+type WorkflowTask = StatusChangeTask & { completed_at: string | null; due_date: string; series_id: string | null };
+
+interface StatusHistoryEntry {
+  id: string;
+  from_status: TaskStatus;
+  to_status: TaskStatus;
+  comment: string | null;
+  created_at: string;
+  by: { name: string } | null;
+}
+
 export default function TaskFormPage() {
   const { id } = useParams();
   const isEditing = !!id;
+  const [searchParams] = useSearchParams();
+  // Opened from a client's page: the task starts linked to it and saving goes back there
+  const linkedClientId = searchParams.get('client_id');
+  const backTo = linkedClientId ? `/clients/${linkedClientId}` : '/tasks';
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const invalidateTasks = useInvalidateTasks();
+  const { user, organization } = useAuth();
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(isEditing);
   const [clients, setClients] = useState<Client[]>([]);
+  const [seriesId, setSeriesId] = useState<string | null>(null);
+  const [pendingData, setPendingData] = useState<TaskFormData | null>(null);
+  const [obligationCode, setObligationCode] = useState<ObligationCode | null>(null);
+  const [competencia, setCompetencia] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [statusTask, setStatusTask] = useState<WorkflowTask | null>(null);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [template, setTemplate] = useState<TaskTemplate | null>(null);
+  const calendar = useHolidayCalendar();
+  const members = useOrganizationMembers();
+  const timeZone = useTimeZone();
+  const [templateMonth, setTemplateMonth] = useState(() => currentMonthISO(timeZone));
 
   const { register, handleSubmit, formState: { errors }, setValue, watch, reset } = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
     defaultValues: {
       task_type: 'outro',
+      recurrence: 'nenhuma',
+      due_adjustment: 'antecipar',
+      assignee_id: user?.id,
+      client_id: linkedClientId || undefined,
     },
   });
 
   const taskType = watch('task_type');
   const clientId = watch('client_id');
+  const assigneeId = watch('assignee_id');
+  const reviewerId = watch('reviewer_id');
+  const recurrence = watch('recurrence');
+  const monthOfYear = watch('month_of_year');
+  const dueAdjustment = watch('due_adjustment');
+  const dueDate = watch('due_date');
+
+  // Generated obligations follow their legal rule; manual tasks offer both directions
+  const obligation = obligationCode ? obligationsByCode[obligationCode] : null;
+  const nonBusinessReason = dueDate ? nonBusinessDayReason(calendar, dueDate) : null;
+  const dueDateOptions: DueDateAdjustment[] = obligation ? [obligation.adjustment] : ['antecipar', 'postergar'];
 
   useEffect(() => {
     fetchClients();
     if (isEditing) {
       fetchTask();
+      fetchAssignments();
+      fetchStatusHistory();
+    } else {
+      fetchTemplates();
     }
   }, [id]);
 
+  // While a template is selected, title and due date follow the client and competência
+  useEffect(() => {
+    if (!template || !templateMonth) return;
+
+    const client = clients.find((c) => c.id === clientId);
+    const [task] = buildTemplateTasks(template, client ? [client] : [], templateMonth, calendar);
+    setValue('title', task.title);
+    setValue('description', [task.description, task.adjustment_reason].filter(Boolean).join('\n'));
+    setValue('task_type', task.task_type);
+    setValue('due_date', task.due_date);
+  }, [template, templateMonth, clientId, clients, calendar]);
+
   const fetchClients = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('clients')
-        .select('id, name')
-        .order('name');
+    if (!organization) return;
 
-      if (error) throw error;
-      setClients(data || []);
+    try {
+      setClients(await fetchAllClients(organization.id));
     } catch (error) {
       console.error('Error fetching clients:', error);
     }
   };
 
+  const fetchTemplates = async () => {
+    if (!organization) return;
+
+    const { data, error } = await supabase
+      .from('task_templates')
+      .select('*')
+      .eq('organization_id', organization.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching task templates:', error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
   const fetchTask = async () => {
     try {
       const { data, error } = await supabase
         .from('tasks')
-        .select('*')
+        .select('*, task_series(*)')
         .eq('id', id)
         .maybeSingle();
 
       if (error) throw error;
       
       if (data) {
+        const series = data.task_series;
+        setSeriesId(data.series_id);
+        setObligationCode(data.obligation_code as ObligationCode | null);
+        setCompetencia(data.competencia);
+        setStatusTask({
+          id: data.id,
+          title: data.title,
+          status: data.status,
+          receipt_number: data.receipt_number,
+          reviewer_id: data.reviewer_id,
+          completed_at: data.completed_at,
+          due_date: data.due_date,
+          series_id: data.series_id,
+        });
         reset({
           title: data.title,
           description: data.description || '',
           task_type: data.task_type as 'imposto' | 'folha' | 'declaracao' | 'outro',
           due_date: data.due_date,
           client_id: data.client_id || undefined,
+          assignee_id: data.assignee_id || '',
+          reviewer_id: data.reviewer_id || undefined,
+          recurrence: series && !series.ends_on ? series.frequency : 'nenhuma',
+          day_of_month: series?.day_of_month ? String(series.day_of_month) : '',
+          month_of_year: series?.month_of_year ? String(series.month_of_year) : '',
+          interval_count: series ? String(series.interval_count) : '',
+          due_adjustment: (series?.due_adjustment as DueDateAdjustment) ?? 'antecipar',
         });
       }
     } catch (error) {
@@ -108,19 +264,99 @@ export default function TaskFormPage() {
     }
   };
 
+  const fetchAssignments = async () => {
+    const { data, error } = await supabase
+      .from('task_assignments')
+      .select('id, created_at, to:profiles!task_assignments_to_assignee_id_fkey(name), by:profiles!task_assignments_assigned_by_fkey(name)')
+      .eq('task_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching assignments:', error);
+      return;
+    }
+    setAssignments(data || []);
+  };
+
+  const fetchStatusHistory = async () => {
+    const { data, error } = await supabase
+      .from('task_status_history')
+      .select('id, from_status, to_status, comment, created_at, by:profiles!task_status_history_changed_by_fkey(name)')
+      .eq('task_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching status history:', error);
+      return;
+    }
+    setStatusHistory(data || []);
+  };
+
+  const changeStatus = async (task: WorkflowTask, status: TaskStatus, values: TransitionValues) => {
+    try {
+      const { data: next, error: nextError } = status === 'concluida'
+        ? await findNextOccurrence(task)
+        : { data: null, error: null };
+      if (nextError) throw nextError;
+
+      const { data, error } = await setTaskStatus(task.id, status, values, next);
+      if (error) throw error;
+
+      setStatusTask({
+        ...task,
+        status: data.status,
+        receipt_number: data.receipt_number,
+        reviewer_id: data.reviewer_id,
+        completed_at: data.completed_at,
+      });
+      if (data.reviewer_id) setValue('reviewer_id', data.reviewer_id);
+      fetchStatusHistory();
+
+      invalidateTasks();
+      toast({
+        title: 'Status atualizado',
+        description: `Tarefa movida para "${taskStatusLabels[status]}".`,
+      });
+    } catch (error) {
+      console.error('Error updating task status:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao atualizar status da tarefa.',
+      });
+    }
+  };
+
+  const statusChange = useTaskStatusChange(changeStatus);
+
   const onSubmit = async (data: TaskFormData) => {
-    if (!user) return;
+    // Editing an occurrence of a series asks for the scope first
+    if (isEditing && seriesId) {
+      setPendingData(data);
+      return;
+    }
+    await saveTask(data);
+  };
+
+  const saveTask = async (data: TaskFormData, scope: EditScope = 'occurrence') => {
+    if (!user || !organization) return;
 
     setLoading(true);
     try {
-      const taskData = {
+      const owner = { user_id: user.id, organization_id: organization.id };
+      const fields = {
         title: data.title,
         description: data.description || null,
         task_type: data.task_type,
-        due_date: data.due_date,
         client_id: data.client_id || null,
-        user_id: user.id,
+        assignee_id: data.assignee_id,
+        reviewer_id: data.reviewer_id || null,
+      };
+      const taskData = {
+        ...fields,
+        due_date: data.due_date,
       };
+      const rule = buildRule(data);
 
       if (isEditing) {
         const { error } = await supabase
@@ -130,24 +366,44 @@ export default function TaskFormPage() {
 
         if (error) throw error;
 
+        if (seriesId && scope === 'future') {
+          const { error: seriesError } = await updateFutureOccurrences(seriesId, data.due_date, fields, rule);
+          if (seriesError) throw seriesError;
+        } else if (!seriesId && rule) {
+          const { error: seriesError } = await startSeriesFromTask(id, owner, fields, rule);
+          if (seriesError) throw seriesError;
+        }
+
         toast({
           title: 'Tarefa atualizada',
-          description: 'As informações foram atualizadas com sucesso.',
+          description: scope === 'future'
+            ? 'Esta ocorrência e as futuras foram atualizadas.'
+            : 'As informações foram atualizadas com sucesso.',
         });
       } else {
-        const { error } = await supabase
-          .from('tasks')
-          .insert(taskData);
+        const { data: task, error } = rule
+          ? await createTaskSeries(owner, fields, rule, data.due_date)
+          : await supabase
+            .from('tasks')
+            .insert({ ...taskData, ...owner, competencia: template ? `${templateMonth}-01` : null })
+            .select()
+            .single();
 
         if (error) throw error;
 
+        if (template) {
+          const { error: checklistError } = await addTemplateChecklist(organization.id, template, [task.id]);
+          if (checklistError) throw checklistError;
+        }
+
         toast({
           title: 'Tarefa criada',
           description: 'A tarefa foi criada com sucesso.',
         });
       }
 
-      navigate('/tasks');
+      invalidateTasks();
+      navigate(backTo);
     } catch (error: any) {
       console.error('Error saving task:', error);
       toast({
@@ -157,6 +413,7 @@ export default function TaskFormPage() {
       });
     } finally {
       setLoading(false);
+      setPendingData(null);
     }
   };
 
@@ -176,7 +433,7 @@ export default function TaskFormPage() {
         {/* Header */}
         <div className="flex items-center gap-4">
           <Button variant="ghost" size="icon" asChild>
-            <Link to="/tasks">
+            <Link to={backTo}>
               <ArrowLeft className="w-5 h-5" />
             </Link>
           </Button>
@@ -190,6 +447,50 @@ export default function TaskFormPage() {
           </div>
         </div>
 
+        {/* Template */}
+        {!isEditing && templates.length > 0 && (
+          <div className="form-section">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <FileStack className="w-5 h-5 text-muted-foreground" />
+              Criar a partir de modelo
+            </h3>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Modelo</Label>
+                <Select
+                  value={template?.id ?? NO_TEMPLATE}
+                  onValueChange={(value) => setTemplate(templates.find((t) => t.id === value) ?? null)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEMPLATE}>Nenhum</SelectItem>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-month">Competência</Label>
+                <Input
+                  id="template-month"
+                  type="month"
+                  value={templateMonth}
+                  onChange={(e) => setTemplateMonth(e.target.value)}
+                  disabled={!template}
+                />
+              </div>
+            </div>
+            {template && template.checklist.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                O checklist do modelo ({template.checklist.length} itens) será adicionado à tarefa.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit(onSubmit)} className="form-section space-y-6">
           <div className="space-y-2">
@@ -246,6 +547,115 @@ export default function TaskFormPage() {
             </div>
           </div>
 
+          {nonBusinessReason && (
+            <div className="rounded-lg border border-warning/30 bg-warning/10 p-4 space-y-3">
+              <p className="text-sm">
+                {formatDate(dueDate)} cai em {nonBusinessReason}.
+                {obligation && ` Pela regra do ${obligation.label}, o vencimento é ${adjustmentLabels[obligation.adjustment]}.`}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {dueDateOptions.map((adjustment) => {
+                  const adjusted = adjustDueDate(dueDate, adjustment, calendar);
+                  return (
+                    <Button
+                      key={adjustment}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setValue('due_date', adjusted.date, { shouldValidate: true })}
+                    >
+                      {adjustment === 'antecipar' ? 'Antecipar' : 'Prorrogar'} para {formatDate(adjusted.date)}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Repetir</Label>
+              <Select
+                value={recurrence}
+                onValueChange={(value) => setValue('recurrence', value as TaskFormData['recurrence'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="nenhuma">Não repetir</SelectItem>
+                  {Object.entries(recurrenceLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {recurrence !== 'nenhuma' && (
+              <div className="grid sm:grid-cols-2 gap-4">
+                {recurrence === 'anual' && (
+                  <div className="space-y-2">
+                    <Label>Mês</Label>
+                    <Select
+                      value={monthOfYear || ''}
+                      onValueChange={(value) => setValue('month_of_year', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Mês do vencimento" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {monthLabels.map((label, index) => (
+                          <SelectItem key={label} value={String(index + 1)}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {recurrence === 'dias_uteis' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="interval_count">A cada quantos dias úteis</Label>
+                    <Input id="interval_count" inputMode="numeric" {...register('interval_count')} placeholder="5" />
+                    {errors.interval_count && (
+                      <p className="text-sm text-destructive">{errors.interval_count.message}</p>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="day_of_month">Dia do vencimento</Label>
+                      <Input id="day_of_month" inputMode="numeric" {...register('day_of_month')} placeholder="20" />
+                      {errors.day_of_month && (
+                        <p className="text-sm text-destructive">{errors.day_of_month.message}</p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Em dia não útil</Label>
+                      <Select
+                        value={dueAdjustment}
+                        onValueChange={(value) => setValue('due_adjustment', value as DueDateAdjustment)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="antecipar">Antecipar para o dia útil anterior</SelectItem>
+                          <SelectItem value="postergar">Prorrogar para o próximo dia útil</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {recurrence !== 'nenhuma' && watch('due_date') && (
+              <p className="text-sm text-muted-foreground">
+                {describeRecurrence(buildRule(watch()) as RecurrenceRule)}. A próxima ocorrência é criada quando esta for concluída.
+              </p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label>Cliente (opcional)</Label>
             <Select
@@ -266,8 +676,54 @@ export default function TaskFormPage() {
             </Select>
           </div>
 
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Responsável *</Label>
+              <Select
+                value={assigneeId || ''}
+                onValueChange={(value) => setValue('assignee_id', value, { shouldValidate: true })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o responsável" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {member.user_id === user?.id ? `${member.name} (você)` : member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.assignee_id && (
+                <p className="text-sm text-destructive">{errors.assignee_id.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Revisor (opcional)</Label>
+              <Select
+                value={reviewerId || ''}
+                onValueChange={(value) => setValue('reviewer_id', value || undefined)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Sem revisão" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">Sem revisão</SelectItem>
+                  {members
+                    .filter((member) => member.user_id !== assigneeId)
+                    .map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="flex gap-3 pt-4">
-            <Button type="button" variant="outline" onClick={() => navigate('/tasks')}>
+            <Button type="button" variant="outline" onClick={() => navigate(backTo)}>
               Cancelar
             </Button>
             <Button type="submit" disabled={loading}>
@@ -282,7 +738,130 @@ export default function TaskFormPage() {
             </Button>
           </div>
         </form>
+
+        {/* Status */}
+        {statusTask && (
+          <div className="form-section">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <GitBranch className="w-5 h-5 text-muted-foreground" />
+                Status
+              </h3>
+              <TaskStatusSelect
+                status={statusTask.status}
+                dueDate={dueDate}
+                completedAt={statusTask.completed_at}
+                targets={statusChange.targetsFor(statusTask.status)}
+                onChange={(status) => statusChange.request(statusTask, status)}
+              />
+            </div>
+            {statusTask.completed_at && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Concluída em:</span> {formatDateTime(statusTask.completed_at, timeZone)}
+              </p>
+            )}
+            {statusTask.receipt_number && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Número do recibo:</span> {statusTask.receipt_number}
+              </p>
+            )}
+            {statusHistory.length > 0 && (
+              <ul className="space-y-2">
+                {statusHistory.map((entry) => (
+                  <li key={entry.id} className="text-sm flex justify-between gap-4">
+                    <span>
+                      {taskStatusLabels[entry.from_status]} → {taskStatusLabels[entry.to_status]}
+                      {entry.by && <span className="text-muted-foreground"> — por {entry.by.name}</span>}
+                      {entry.comment && <span className="block text-muted-foreground">“{entry.comment}”</span>}
+                    </span>
+                    <span className="text-muted-foreground shrink-0">
+                      {formatDateTime(entry.created_at, timeZone)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Checklist */}
+        {statusTask && (
+          <div className="form-section">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <ListChecks className="w-5 h-5 text-muted-foreground" />
+              Checklist
+            </h3>
+            <TaskChecklist
+              taskId={statusTask.id}
+              taskType={taskType}
+              taskDone={statusTask.status === 'concluida'}
+              onComplete={() => statusChange.request(statusTask, 'concluida')}
+            />
+          </div>
+        )}
+
+        {/* Assignment History */}
+        {assignments.length > 0 && (
+          <div className="form-section">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <History className="w-5 h-5 text-muted-foreground" />
+              Histórico de atribuição
+            </h3>
+            <ul className="space-y-2">
+              {assignments.map((assignment) => (
+                <li key={assignment.id} className="text-sm flex justify-between gap-4">
+                  <span>
+                    {assignment.to?.name ?? 'Sem responsável'}
+                    {assignment.by && <span className="text-muted-foreground"> — por {assignment.by.name}</span>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDateTime(assignment.created_at, timeZone)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Documents */}
+        {isEditing && (
+          <div className="form-section">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <FileText className="w-5 h-5 text-muted-foreground" />
+              Documentos
+            </h3>
+            <DocumentsPanel taskId={id} clientId={clientId} competencia={competencia} />
+          </div>
+        )}
       </div>
+
+      {/* Status Change Dialog */}
+      <StatusChangeDialog
+        change={statusChange.change}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+
+      {/* Series Edit Scope Dialog */}
+      <AlertDialog open={!!pendingData} onOpenChange={(open) => !open && setPendingData(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Editar tarefa recorrente</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta tarefa faz parte de uma série. Deseja aplicar as alterações somente a esta ocorrência ou também às próximas?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={loading}>Cancelar</AlertDialogCancel>
+            <Button variant="outline" disabled={loading} onClick={() => saveTask(pendingData, 'occurrence')}>
+              Somente esta ocorrência
+            </Button>
+            <Button disabled={loading} onClick={() => saveTask(pendingData, 'future')}>
+              Esta e as futuras
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </MainLayout>
   );
 }
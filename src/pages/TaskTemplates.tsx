@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { CopyPlus, FileStack, ListChecks, Pencil, Plus, Trash2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { TaskTemplateDialog } from '@/components/templates/TaskTemplateDialog';
+import { ApplyTemplateDialog } from '@/components/templates/ApplyTemplateDialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { can } from '@/lib/permissions';
+import { taskTypeLabels } from '@/lib/tasks';
+import { describeDueRule, templateDueRule, type TaskTemplate } from '@/lib/taskTemplates';
+
+export default function TaskTemplates() {
+  const { organization, role } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [editing, setEditing] = useState<TaskTemplate | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [applying, setApplying] = useState<TaskTemplate | null>(null);
+  const [deleting, setDeleting] = useState<TaskTemplate | null>(null);
+
+  const canManage = can(role, 'manage_templates');
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_templates')
+        .select('*')
+        .eq('organization_id', organization.id)
+        .order('name');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching task templates:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao carregar modelos de tarefa.',
+      });
+    }
+  };
+
+  const openForm = (template: TaskTemplate | null) => {
+    setEditing(template);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      const { error } = await supabase
+        .from('task_templates')
+        .delete()
+        .eq('id', deleting.id);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting task template:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao excluir modelo de tarefa.',
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Modelos de tarefa</h1>
+            <p className="text-muted-foreground mt-1">
+              Tarefas recorrentes do escritório, prontas para criar para um ou vários clientes
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Novo modelo
+            </Button>
+          )}
+        </div>
+
+        {/* Templates List */}
+        {templates.length === 0 ? (
+          <div className="bg-card rounded-xl border border-border/50 p-12 text-center">
+            <FileStack className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
+            <p className="text-muted-foreground">Nenhum modelo cadastrado</p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {templates.map((template) => (
+              <div key={template.id} className="bg-card rounded-xl border border-border/50 p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold">{template.name}</h3>
+                    <p className="text-sm text-muted-foreground font-mono truncate">{template.title_pattern}</p>
+                  </div>
+                  <span className="status-badge bg-primary/10 text-primary shrink-0">{taskTypeLabels[template.task_type]}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                  <span>{describeDueRule(templateDueRule(template))}</span>
+                  {template.checklist.length > 0 && (
+                    <span className="flex items-center gap-1">
+                      <ListChecks className="w-4 h-4" />
+                      {template.checklist.length} itens
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setApplying(template)}>
+                    <CopyPlus className="w-4 h-4 mr-2" />
+                    Aplicar
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button size="icon" variant="ghost" onClick={() => openForm(template)} aria-label="Editar modelo">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setDeleting(template)} aria-label="Excluir modelo">
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Template Dialog */}
+      <TaskTemplateDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        template={editing}
+        onSaved={fetchTemplates}
+      />
+
+      {/* Apply Dialog */}
+      <ApplyTemplateDialog
+        open={!!applying}
+        onOpenChange={(open) => !open && setApplying(null)}
+        template={applying}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir modelo</AlertDialogTitle>
+            <AlertDialogDescription>
+              O modelo "{deleting?.name}" será excluído. As tarefas já criadas a partir dele não são afetadas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+}
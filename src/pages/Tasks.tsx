@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, CheckSquare, Filter, Check } from 'lucide-react';
+import { Plus, CheckSquare, Filter, Repeat, Download, List, CalendarDays, Columns3, ArrowDown, ArrowUp, X } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ToastAction } from '@/components/ui/toast';
 import {
   Select,
   SelectContent,
@@ -10,65 +12,198 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-
-interface Task {
-  id: string;
-  title: string;
-  description: string | null;
-  task_type: 'imposto' | 'folha' | 'declaracao' | 'outro';
-  due_date: string;
-  status: 'pendente' | 'concluida' | 'atrasada';
-  client_id: string | null;
-  clients: { name: string } | null;
-}
+import { findNextOccurrence, findNextOccurrences } from '@/lib/taskSeries';
+import { TaskStatusSelect } from '@/components/tasks/TaskStatusSelect';
+import { StatusChangeDialog } from '@/components/tasks/StatusChangeDialog';
+import { TaskCalendar, type CalendarTask } from '@/components/tasks/TaskCalendar';
+import { QuickTaskDialog } from '@/components/tasks/QuickTaskDialog';
+import { TaskBoard } from '@/components/tasks/TaskBoard';
+import { ChecklistProgressBar } from '@/components/tasks/ChecklistProgressBar';
+import { BulkTaskBar } from '@/components/tasks/BulkTaskBar';
+import { ExportDialog } from '@/components/exports/ExportDialog';
+import { SearchInput } from '@/components/lists/SearchInput';
+import { ListPagination } from '@/components/lists/ListPagination';
+import { useAuth } from '@/contexts/AuthContext';
+import { useListParams } from '@/hooks/use-list-params';
+import { useTaskStatusChange } from '@/hooks/use-task-status-change';
+import {
+  useChangeTaskStatus,
+  useInvalidateTasks,
+  useRescheduleTask,
+  useTaskList,
+  useTaskPage,
+} from '@/hooks/use-tasks';
+import { fetchAllTasks, taskSorts, type TaskFilters, type TaskListItem, type TaskSort } from '@/lib/api';
+import {
+  bulkDeleteTasks,
+  bulkUpdateTasks,
+  pluralizeTasks,
+  pruneSelection,
+  selectRange,
+  undoBulkOperation,
+  type BulkTaskChanges,
+} from '@/lib/bulkTasks';
+import { formatDate } from '@/lib/dates';
+import type { AdjustedDueDate } from '@/lib/holidays';
+import { rowCursor } from '@/lib/pagination';
+import { can } from '@/lib/permissions';
+import { taskExportColumns } from '@/lib/exports';
+import { NO_CLIENT, taskStatusLabels, taskStatusOrder, taskTypeLabels, type TaskStatus, type TaskType } from '@/lib/tasks';
+import type { TransitionValues } from '@/lib/workflow';
+
+type Task = TaskListItem;
+
+const NO_TASKS: Task[] = [];
+
+type TaskView = 'list' | 'board' | 'calendar';
+
+const taskViews: TaskView[] = ['list', 'board', 'calendar'];
+
+const taskSortLabels: Record<TaskSort, string> = {
+  due_date: 'Vencimento',
+  title: 'Título',
+  created_at: 'Criação',
+};
 
-const taskTypeLabels: Record<string, string> = {
-  imposto: 'Imposto',
-  folha: 'Folha',
-  declaracao: 'Declaração',
-  outro: 'Outro',
+const bulkActionTitle = (changes: BulkTaskChanges) => {
+  if (changes.status === 'concluida') return 'Tarefas concluídas';
+  if (changes.status) return 'Tarefas reabertas';
+  if (changes.due_date || changes.shift_days) return 'Vencimento alterado';
+  if (changes.task_type) return 'Tipo alterado';
+  if ('client_id' in changes) return changes.client_id ? 'Cliente vinculado' : 'Cliente removido';
+  return 'Responsável alterado';
 };
 
 export default function Tasks() {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [loading, setLoading] = useState(true);
+  const [exportRows, setExportRows] = useState<Task[] | null>(null);
+  const [quickCreateDate, setQuickCreateDate] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  // Every task matching the filters, loaded when the selection goes past the page
+  const [matchingTasks, setMatchingTasks] = useState<Task[] | null>(null);
   const { toast } = useToast();
+  const { user, organization, role } = useAuth();
+  const list = useListParams<TaskSort>({ sorts: taskSorts, defaultSort: 'due_date' });
+  const { search, sort, ascending, page } = list;
+
+  const statusParam = list.get('status') as TaskStatus | 'open' | 'delivered' | null;
+  const statusFilter: TaskFilters['status'] =
+    statusParam === 'open' || statusParam === 'delivered' || (statusParam && taskStatusOrder.includes(statusParam))
+      ? statusParam
+      : 'all';
+  const typeParam = list.get('type') as TaskType | null;
+  const typeFilter = typeParam && typeParam in taskTypeLabels ? typeParam : null;
+  // Set by the dashboard charts' drill-down
+  const clientFilter = list.get('client');
+  const dueFrom = list.get('from');
+  const dueTo = list.get('to');
+  const scopeFilter: 'mine' | 'all' = list.get('scope') === 'all' ? 'all' : 'mine';
+  const viewParam = list.get('view') as TaskView | null;
+  const view: TaskView = viewParam && taskViews.includes(viewParam) ? viewParam : 'list';
+
+  const filters: TaskFilters = {
+    search,
+    status: statusFilter,
+    assigneeId: scopeFilter === 'mine' ? user?.id ?? null : null,
+    taskType: typeFilter,
+    clientId: clientFilter,
+    dueFrom,
+    dueTo,
+  };
+
+  // The board and the calendar show every matching task; the list is paged
+  const pageQuery = useTaskPage({ ...filters, sort, ascending, page }, view === 'list');
+  const listQuery = useTaskList(filters, view !== 'list');
+  const tasksError = view === 'list' ? pageQuery.error : listQuery.error;
+  const tasks = (view === 'list' ? pageQuery.data?.rows : listQuery.data) ?? NO_TASKS;
+  const hasPrevious = view === 'list' && !!pageQuery.data?.hasPrevious;
+  const hasNext = view === 'list' && !!pageQuery.data?.hasNext;
+
+  const invalidateTasks = useInvalidateTasks();
+  const changeStatus = useChangeTaskStatus();
+  const reschedule = useRescheduleTask();
+
+  useEffect(() => {
+    if (!tasksError) return;
+    console.error('Error fetching tasks:', tasksError);
+    toast({
+      variant: 'destructive',
+      title: 'Erro',
+      description: 'Erro ao carregar tarefas.',
+    });
+  }, [tasksError]);
 
+  const filtersKey = JSON.stringify(filters);
   useEffect(() => {
-    fetchTasks();
-  }, []);
+    setMatchingTasks(null);
+  }, [filtersKey]);
 
   useEffect(() => {
-    if (statusFilter === 'all') {
-      setFilteredTasks(tasks);
-    } else {
-      const today = new Date().toISOString().split('T')[0];
-      let filtered = tasks;
-      
-      if (statusFilter === 'overdue') {
-        filtered = tasks.filter(t => t.status === 'pendente' && t.due_date < today);
-      } else {
-        filtered = tasks.filter(t => t.status === statusFilter);
+    setSelected((current) => pruneSelection(current, (matchingTasks ?? tasks).map((task) => task.id)));
+  }, [tasks, matchingTasks]);
+
+  const updateTaskStatus = async (task: Task, newStatus: TaskStatus, values: TransitionValues) => {
+    try {
+      let next: AdjustedDueDate | null = null;
+      if (newStatus === 'concluida' && task.series_id) {
+        const { data, error: nextError } = await findNextOccurrence(task);
+        if (nextError) throw nextError;
+        next = data;
       }
-      
-      setFilteredTasks(filtered);
+
+      // Reopened tasks past their due date are moved to 'atrasada' by the database
+      await changeStatus.mutateAsync({ taskId: task.id, status: newStatus, values, next });
+
+      const description = next
+        ? `${task.title} — próxima ocorrência em ${formatDate(next.date)}`
+        : task.title;
+
+      toast({
+        title: newStatus === 'concluida'
+          ? 'Tarefa concluída!'
+          : task.status === 'concluida'
+            ? 'Tarefa reaberta'
+            : `Tarefa movida para "${taskStatusLabels[newStatus]}"`,
+        description,
+      });
+    } catch (error) {
+      console.error('Error updating task:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao atualizar tarefa.',
+      });
     }
-  }, [statusFilter, tasks]);
+  };
+
+  const statusChange = useTaskStatusChange(updateTaskStatus);
 
-  const fetchTasks = async () => {
+  const rescheduleTask = async (task: CalendarTask, dueDate: string) => {
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*, clients(name)')
-        .order('due_date', { ascending: true });
+      // The database may move the task in or out of 'atrasada'
+      await reschedule.mutateAsync({ taskId: task.id, dueDate });
 
-      if (error) throw error;
-      setTasks(data || []);
-      setFilteredTasks(data || []);
+      toast({
+        title: 'Tarefa reagendada',
+        description: `${task.title} — vencimento em ${formatDate(dueDate)}`,
+      });
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao reagendar tarefa.',
+      });
+    }
+  };
+
+  const openExport = async () => {
+    if (!organization) return;
+
+    try {
+      setExportRows(await fetchAllTasks(organization.id, filters, sort, ascending));
     } catch (error) {
       console.error('Error fetching tasks:', error);
       toast({
@@ -76,55 +211,164 @@ export default function Tasks() {
         title: 'Erro',
         description: 'Erro ao carregar tarefas.',
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const toggleTaskComplete = async (task: Task) => {
-    try {
-      const newStatus = task.status === 'concluida' ? 'pendente' : 'concluida';
-      
-      const { error } = await supabase
-        .from('tasks')
-        .update({ status: newStatus })
-        .eq('id', task.id);
+  // "Minhas tarefas" hides the rest of the office, so an empty list there does not mean no tasks exist
+  const filtered = scopeFilter === 'mine'
+    || !!search || statusFilter !== 'all' || !!typeFilter || !!clientFilter || !!dueFrom || !!dueTo;
 
-      if (error) throw error;
+  const clientFilterLabel = clientFilter === NO_CLIENT
+    ? 'Sem cliente'
+    : tasks.find((task) => task.client_id === clientFilter)?.clients?.name ?? 'Cliente selecionado';
+  const dueFilterLabel = dueFrom && dueTo
+    ? `${formatDate(dueFrom)} a ${formatDate(dueTo)}`
+    : dueFrom
+      ? `a partir de ${formatDate(dueFrom)}`
+      : `até ${formatDate(dueTo ?? '')}`;
+
+  const selectedTasks = (matchingTasks ?? tasks).filter((task) => selected.has(task.id));
+  const allSelected = tasks.length > 0 && tasks.every((task) => selected.has(task.id));
 
+  const toggleSelection = (taskId: string, shiftKey: boolean) => {
+    setSelected((current) =>
+      selectRange(tasks.map((task) => task.id), current, selectionAnchor, taskId, !current.has(taskId), shiftKey),
+    );
+    setSelectionAnchor(taskId);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    setSelectionAnchor(null);
+    setMatchingTasks(null);
+  };
+
+  const selectAllMatching = async () => {
+    if (!organization) return;
+
+    try {
+      const rows = await fetchAllTasks(organization.id, filters, sort, ascending);
+      setMatchingTasks(rows);
+      setSelected(new Set(rows.map((task) => task.id)));
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
       toast({
-        title: newStatus === 'concluida' ? 'Tarefa concluída!' : 'Tarefa reaberta',
-        description: task.title,
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao carregar tarefas.',
       });
+    }
+  };
 
-      fetchTasks();
+  const undoBulkAction = async (operationId: string) => {
+    try {
+      const { error } = await undoBulkOperation(operationId);
+      if (error) throw error;
+
+      toast({ title: 'Ação desfeita' });
+      invalidateTasks();
     } catch (error) {
-      console.error('Error updating task:', error);
+      console.error('Error undoing bulk action:', error);
       toast({
         variant: 'destructive',
         title: 'Erro',
-        description: 'Erro ao atualizar tarefa.',
+        description: 'Erro ao desfazer ação.',
       });
     }
   };
 
-  const getStatusBadge = (status: string, dueDate: string) => {
-    const today = new Date().toISOString().split('T')[0];
-    
-    if (status === 'concluida') {
-      return <span className="status-badge status-concluida">Concluída</span>;
-    }
-    if (dueDate < today) {
-      return <span className="status-badge status-atrasada">Atrasada</span>;
+  const undoAction = (operationId: string | null) =>
+    operationId ? (
+      <ToastAction altText="Desfazer" onClick={() => undoBulkAction(operationId)}>
+        Desfazer
+      </ToastAction>
+    ) : undefined;
+
+  const applyBulkChanges = async (changes: BulkTaskChanges, comment?: string) => {
+    if (!organization) return;
+
+    // Completing or reopening leaves alone the tasks already in that state
+    const targets = changes.status === 'concluida'
+      ? selectedTasks.filter((task) => task.status !== 'concluida')
+      : changes.status
+        ? selectedTasks.filter((task) => task.status === 'concluida')
+        : selectedTasks;
+
+    if (targets.length === 0) {
+      toast({
+        title: 'Nada a alterar',
+        description: changes.status === 'concluida'
+          ? 'As tarefas selecionadas já estão concluídas.'
+          : 'Nenhuma das tarefas selecionadas está concluída.',
+      });
+      return;
     }
-    if (dueDate === today) {
-      return <span className="status-badge bg-accent/15 text-accent">Hoje</span>;
+
+    try {
+      const { data: nextOccurrences, error: nextError } = changes.status === 'concluida'
+        ? await findNextOccurrences(targets)
+        : { data: {}, error: null };
+      if (nextError) throw nextError;
+
+      const { data, error } = await bulkUpdateTasks(
+        organization.id,
+        targets.map((task) => task.id),
+        changes,
+        comment,
+        nextOccurrences,
+      );
+      if (error) throw error;
+
+      if (data.updated === 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Nenhuma tarefa alterada',
+          description: 'O fluxo de trabalho não permite essa mudança para as tarefas selecionadas.',
+        });
+        return;
+      }
+
+      clearSelection();
+      invalidateTasks();
+      toast({
+        title: bulkActionTitle(changes),
+        description: data.skipped.length > 0
+          ? `${pluralizeTasks(data.updated)} · ${pluralizeTasks(data.skipped.length)} não permitida(s) pelo fluxo de trabalho`
+          : pluralizeTasks(data.updated),
+        action: undoAction(data.operationId),
+      });
+    } catch (error) {
+      console.error('Error updating tasks:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao atualizar tarefas.',
+      });
     }
-    return <span className="status-badge status-pendente">Pendente</span>;
   };
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('pt-BR');
+  const deleteSelectedTasks = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await bulkDeleteTasks(organization.id, selectedTasks.map((task) => task.id));
+      if (error) throw error;
+
+      clearSelection();
+      invalidateTasks();
+      toast({
+        title: 'Tarefas excluídas',
+        description: pluralizeTasks(data.deleted),
+        action: undoAction(data.operationId),
+      });
+    } catch (error) {
+      console.error('Error deleting tasks:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao excluir tarefas.',
+      });
+    }
   };
 
   return (
@@ -138,41 +382,140 @@ export default function Tasks() {
               Gerencie suas tarefas contábeis
             </p>
           </div>
-          <Button asChild>
-            <Link to="/tasks/new">
-              <Plus className="w-4 h-4 mr-2" />
-              Nova Tarefa
-            </Link>
-          </Button>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={openExport} disabled={tasks.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Exportar
+            </Button>
+            <Button asChild>
+              <Link to="/tasks/new">
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Tarefa
+              </Link>
+            </Button>
+          </div>
         </div>
 
+        {/* Search */}
+        <SearchInput
+          value={search}
+          onSearch={(value) => list.update({ q: value })}
+          placeholder="Buscar por título, cliente ou CPF/CNPJ..."
+        />
+
         {/* Filters */}
-        <div className="flex items-center gap-4">
+        <div className="flex flex-wrap items-center gap-4">
           <div className="flex items-center gap-2">
             <Filter className="w-4 h-4 text-muted-foreground" />
             <span className="text-sm text-muted-foreground">Filtrar:</span>
           </div>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <Select value={scopeFilter} onValueChange={(value) => list.update({ scope: value === 'all' ? 'all' : null })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mine">Minhas tarefas</SelectItem>
+              <SelectItem value="all">Todas</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={(value) => list.update({ status: value === 'all' ? null : value })}>
             <SelectTrigger className="w-48">
               <SelectValue placeholder="Todos os status" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Todos</SelectItem>
-              <SelectItem value="pendente">Pendentes</SelectItem>
-              <SelectItem value="concluida">Concluídas</SelectItem>
-              <SelectItem value="overdue">Atrasadas</SelectItem>
+              <SelectItem value="open">Em aberto</SelectItem>
+              <SelectItem value="delivered">Entregues</SelectItem>
+              {taskStatusOrder.map((status) => (
+                <SelectItem key={status} value={status}>{taskStatusLabels[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter ?? 'all'} onValueChange={(value) => list.update({ type: value === 'all' ? null : value })}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os tipos</SelectItem>
+              {(Object.entries(taskTypeLabels) as [TaskType, string][]).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
+          {view === 'list' && (
+            <div className="flex items-center gap-1">
+              <Select value={sort} onValueChange={(value) => list.update({ sort: value })}>
+                <SelectTrigger className="w-40" aria-label="Ordenar por">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {taskSorts.map((column) => (
+                    <SelectItem key={column} value={column}>{taskSortLabels[column]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => list.toggleSort(sort)}
+                aria-label={ascending ? 'Ordem crescente' : 'Ordem decrescente'}
+              >
+                {ascending ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+              </Button>
+            </div>
+          )}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={view}
+            onValueChange={(value) => value && list.update({ view: value === 'list' ? null : value })}
+            className="ml-auto"
+          >
+            <ToggleGroupItem value="list" aria-label="Lista">
+              <List className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="board" aria-label="Quadro">
+              <Columns3 className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="calendar" aria-label="Calendário">
+              <CalendarDays className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
         </div>
 
+        {(clientFilter || dueFrom || dueTo) && (
+          <div className="flex flex-wrap gap-2 -mt-2">
+            {clientFilter && (
+              <Button variant="secondary" size="sm" onClick={() => list.update({ client: null })}>
+                Cliente: {clientFilterLabel}
+                <X className="w-3.5 h-3.5 ml-2" />
+              </Button>
+            )}
+            {(dueFrom || dueTo) && (
+              <Button variant="secondary" size="sm" onClick={() => list.update({ from: null, to: null })}>
+                Vencimento {dueFilterLabel}
+                <X className="w-3.5 h-3.5 ml-2" />
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Tasks List */}
-        {filteredTasks.length === 0 ? (
+        {view === 'board' ? (
+          <TaskBoard tasks={tasks} onMove={statusChange.request} />
+        ) : view === 'calendar' ? (
+          <TaskCalendar
+            tasks={tasks}
+            onReschedule={rescheduleTask}
+            onCreate={setQuickCreateDate}
+          />
+        ) : tasks.length === 0 ? (
           <div className="bg-card rounded-xl border border-border/50 p-12 text-center">
             <CheckSquare className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
             <p className="text-muted-foreground">
-              {statusFilter !== 'all' ? 'Nenhuma tarefa encontrada' : 'Nenhuma tarefa cadastrada'}
+              {filtered || hasPrevious ? 'Nenhuma tarefa encontrada' : 'Nenhuma tarefa cadastrada'}
             </p>
-            {statusFilter === 'all' && (
+            {!filtered && (
               <Button asChild className="mt-4">
                 <Link to="/tasks/new">
                   <Plus className="w-4 h-4 mr-2" />
@@ -183,25 +526,52 @@ export default function Tasks() {
           </div>
         ) : (
           <div className="space-y-3">
-            {filteredTasks.map((task) => (
+            {selectedTasks.length > 0 && (
+              <BulkTaskBar
+                count={selectedTasks.length}
+                canDelete={can(role, 'delete_records')}
+                onUpdate={applyBulkChanges}
+                onDelete={deleteSelectedTasks}
+                onClear={clearSelection}
+              />
+            )}
+            <label className="flex items-center gap-3 px-4 text-sm text-muted-foreground">
+              <Checkbox
+                checked={allSelected ? true : selectedTasks.length > 0 ? 'indeterminate' : false}
+                onCheckedChange={() =>
+                  allSelected ? clearSelection() : setSelected(new Set(tasks.map((task) => task.id)))
+                }
+              />
+              Selecionar todas ({tasks.length})
+            </label>
+            {allSelected && (hasPrevious || hasNext) && (
+              <p className="px-4 text-sm text-muted-foreground">
+                {matchingTasks ? (
+                  `Todas as ${pluralizeTasks(matchingTasks.length)} que correspondem aos filtros estão selecionadas.`
+                ) : (
+                  <Button variant="link" className="h-auto p-0" onClick={selectAllMatching}>
+                    Selecionar todas as tarefas que correspondem aos filtros
+                  </Button>
+                )}
+              </p>
+            )}
+            {tasks.map((task) => (
               <div 
                 key={task.id} 
-                className={`bg-card rounded-xl border border-border/50 p-4 transition-all hover:shadow-md ${
-                  task.status === 'concluida' ? 'opacity-75' : ''
-                }`}
+                className={`bg-card rounded-xl border p-4 transition-all hover:shadow-md ${
+                  selected.has(task.id) ? 'border-primary/50' : 'border-border/50'
+                } ${task.status === 'concluida' ? 'opacity-75' : ''}`}
               >
                 <div className="flex items-start gap-4">
-                  <button
-                    onClick={() => toggleTaskComplete(task)}
-                    className={`mt-1 w-5 h-5 rounded border-2 flex items-center justify-center transition-all ${
-                      task.status === 'concluida'
-                        ? 'bg-success border-success text-success-foreground'
-                        : 'border-border hover:border-primary'
-                    }`}
-                  >
-                    {task.status === 'concluida' && <Check className="w-3 h-3" />}
-                  </button>
-                  
+                  <Checkbox
+                    className="mt-1"
+                    checked={selected.has(task.id)}
+                    onClick={(event) => {
+                      event.preventDefault();
+                      toggleSelection(task.id, event.shiftKey);
+                    }}
+                    aria-label={`Selecionar ${task.title}`}
+                  />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-start justify-between gap-4">
                       <div>
@@ -219,10 +589,26 @@ export default function Tasks() {
                           <span>{taskTypeLabels[task.task_type]}</span>
                           <span>•</span>
                           <span>{formatDate(task.due_date)}</span>
+                          {scopeFilter === 'all' && (
+                            <>
+                              <span>•</span>
+                              <span>{task.assignee?.name || 'Sem responsável'}</span>
+                            </>
+                          )}
+                          {task.series_id && (
+                            <Repeat className="w-3.5 h-3.5" aria-label="Tarefa recorrente" />
+                          )}
                         </div>
+                        <ChecklistProgressBar items={task.task_checklist_items} className="mt-2 max-w-xs" />
                       </div>
                       <div className="flex items-center gap-3">
-                        {getStatusBadge(task.status, task.due_date)}
+                        <TaskStatusSelect
+                          status={task.status}
+                          dueDate={task.due_date}
+                          completedAt={task.completed_at}
+                          targets={statusChange.targetsFor(task.status)}
+                          onChange={(status) => statusChange.request(task, status)}
+                        />
                         <Button variant="ghost" size="sm" asChild>
                           <Link to={`/tasks/${task.id}/edit`}>Editar</Link>
                         </Button>
@@ -234,7 +620,45 @@ export default function Tasks() {
             ))}
           </div>
         )}
+
+        {view === 'list' && (
+          <ListPagination
+            hasPrevious={hasPrevious}
+            hasNext={hasNext}
+            first={tasks.length > 0 ? rowCursor(tasks[0], sort) : null}
+            last={tasks.length > 0 ? rowCursor(tasks[tasks.length - 1], sort) : null}
+            pageSearch={list.pageSearch}
+            onNavigate={list.goToPage}
+          />
+        )}
       </div>
+
+      {/* Status Change Dialog */}
+      <StatusChangeDialog
+        change={statusChange.change}
+        onConfirm={statusChange.confirm}
+        onCancel={statusChange.cancel}
+      />
+
+      {/* Quick Create Dialog */}
+      <QuickTaskDialog
+        date={quickCreateDate}
+        onOpenChange={(open) => !open && setQuickCreateDate(null)}
+        onCreated={invalidateTasks}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        open={!!exportRows}
+        onOpenChange={(open) => !open && setExportRows(null)}
+        title={statusFilter === 'all'
+          ? 'Tarefas'
+          : `Tarefas (${statusFilter === 'open'
+            ? 'em aberto'
+            : statusFilter === 'delivered' ? 'entregues' : taskStatusLabels[statusFilter].toLowerCase()})`}
+        columns={taskExportColumns}
+        rows={exportRows || []}
+      />
     </MainLayout>
   );
 }
@@ -0,0 +1,459 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Copy, Loader2, Mail, Save, Trash2, UserPlus } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { formatTimestamp } from '@/lib/dates';
+import { can, roleDescriptions, roleLabels, type OrganizationRole } from '@/lib/permissions';
+
+const inviteSchema = z.object({
+  email: z.string().email('E-mail inválido'),
+  role: z.enum(['admin', 'contador', 'assistente']),
+});
+
+type InviteForm = z.infer<typeof inviteSchema>;
+
+interface Member {
+  user_id: string;
+  role: OrganizationRole;
+  profiles: { name: string; email: string } | null;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+  expires_at: string;
+}
+
+const invitableRoles: InviteForm['role'][] = ['admin', 'contador', 'assistente'];
+
+const inviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export default function Team() {
+  const { user, organization, role, refreshMemberships } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimeZone();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [organizationName, setOrganizationName] = useState(organization?.name ?? '');
+  const [savingName, setSavingName] = useState(false);
+  const [inviting, setInviting] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<Member | null>(null);
+
+  const canManage = can(role, 'manage_members');
+
+  const { register, handleSubmit, formState: { errors }, setValue, watch, reset } = useForm<InviteForm>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: {
+      role: 'assistente',
+    },
+  });
+
+  const inviteRole = watch('role');
+
+  useEffect(() => {
+    setOrganizationName(organization?.name ?? '');
+    fetchTeam();
+  }, [organization?.id]);
+
+  const fetchTeam = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('user_id, role, profiles(name, email)')
+        .eq('organization_id', organization.id)
+        .order('created_at');
+
+      if (error) throw error;
+      setMembers(data || []);
+
+      if (canManage) {
+        const { data: pending, error: invitationsError } = await supabase
+          .from('organization_invitations')
+          .select('id, email, role, token, expires_at')
+          .eq('organization_id', organization.id)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false });
+
+        if (invitationsError) throw invitationsError;
+        setInvitations(pending || []);
+      }
+    } catch (error) {
+      console.error('Error fetching team:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao carregar a equipe.',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveOrganizationName = async () => {
+    if (!organization || organizationName.trim().length < 2) return;
+
+    setSavingName(true);
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ name: organizationName.trim() })
+        .eq('id', organization.id);
+
+      if (error) throw error;
+      await refreshMemberships();
+      toast({
+        title: 'Escritório atualizado',
+        description: 'O nome do escritório foi alterado.',
+      });
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao atualizar o escritório.',
+      });
+    } finally {
+      setSavingName(false);
+    }
+  };
+
+  const onInvite = async (data: InviteForm) => {
+    if (!organization) return;
+
+    setInviting(true);
+    try {
+      const { data: invitation, error } = await supabase
+        .from('organization_invitations')
+        .insert({
+          organization_id: organization.id,
+          email: data.email.toLowerCase(),
+          role: data.role,
+        })
+        .select('id, token')
+        .single();
+
+      if (error) throw error;
+
+      const { error: sendError } = await supabase.functions.invoke('invite-member', {
+        body: { invitationId: invitation.id, redirectTo: window.location.origin },
+      });
+
+      if (sendError) {
+        console.error('Error sending invitation:', sendError);
+        toast({
+          variant: 'destructive',
+          title: 'Convite criado, mas o e-mail não foi enviado',
+          description: 'Copie o link do convite e envie manualmente.',
+        });
+      } else {
+        toast({
+          title: 'Convite enviado',
+          description: `${data.email} receberá um e-mail para entrar no escritório.`,
+        });
+      }
+
+      reset({ email: '', role: data.role });
+      fetchTeam();
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: (error as { code?: string }).code === '23505'
+          ? 'Já existe um convite pendente para este e-mail.'
+          : 'Erro ao criar convite.',
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const changeRole = async (member: Member, newRole: OrganizationRole) => {
+    if (!organization) return;
+
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role: newRole })
+        .eq('organization_id', organization.id)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+      setMembers(members.map((m) => (m.user_id === member.user_id ? { ...m, role: newRole } : m)));
+    } catch (error) {
+      console.error('Error updating member:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao alterar a função.',
+      });
+    }
+  };
+
+  const removeMember = async () => {
+    if (!organization || !memberToRemove) return;
+
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('organization_id', organization.id)
+        .eq('user_id', memberToRemove.user_id);
+
+      if (error) throw error;
+      toast({
+        title: 'Membro removido',
+        description: `${memberToRemove.profiles?.name ?? 'O membro'} não tem mais acesso ao escritório.`,
+      });
+      fetchTeam();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao remover membro.',
+      });
+    } finally {
+      setMemberToRemove(null);
+    }
+  };
+
+  const revokeInvitation = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setInvitations(invitations.filter((invitation) => invitation.id !== id));
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao cancelar convite.',
+      });
+    }
+  };
+
+  const copyInviteLink = async (token: string) => {
+    await navigator.clipboard.writeText(inviteLink(token));
+    toast({
+      title: 'Link copiado',
+      description: 'Envie o link para a pessoa convidada.',
+    });
+  };
+
+  // Only owners can hand out or take away ownership
+  const canEditMember = (member: Member) =>
+    canManage && member.user_id !== user?.id && (member.role !== 'owner' || role === 'owner');
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold">Equipe</h1>
+          <p className="text-muted-foreground mt-1">
+            Pessoas com acesso aos clientes e tarefas do escritório
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Organization */}
+            <div className="form-section">
+              <h3 className="text-lg font-semibold">Escritório</h3>
+              <div className="flex gap-2">
+                <Input
+                  value={organizationName}
+                  onChange={(e) => setOrganizationName(e.target.value)}
+                  disabled={!canManage}
+                />
+                {canManage && (
+                  <Button onClick={saveOrganizationName} disabled={savingName || organizationName === organization?.name}>
+                    {savingName ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Members */}
+            <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+              <div className="p-4 border-b border-border/50">
+                <h2 className="text-lg font-semibold">Membros</h2>
+              </div>
+
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="divide-y divide-border/50">
+                  {members.map((member) => (
+                    <div key={member.user_id} className="px-4 py-3 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {member.profiles?.name ?? '—'}
+                          {member.user_id === user?.id && <span className="text-muted-foreground"> (você)</span>}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">{member.profiles?.email}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {canEditMember(member) ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => changeRole(member, value as OrganizationRole)}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(role === 'owner' ? ['owner', ...invitableRoles] : invitableRoles).map((value) => (
+                                <SelectItem key={value} value={value}>{roleLabels[value as OrganizationRole]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="status-badge bg-muted text-muted-foreground">{roleLabels[member.role]}</span>
+                        )}
+                        {canEditMember(member) && member.role !== 'owner' ? (
+                          <Button variant="ghost" size="icon" onClick={() => setMemberToRemove(member)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        ) : (
+                          <div className="w-10" />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Pending Invitations */}
+            {canManage && invitations.length > 0 && (
+              <div className="bg-card rounded-xl border border-border/50 overflow-hidden">
+                <div className="p-4 border-b border-border/50">
+                  <h2 className="text-lg font-semibold">Convites pendentes</h2>
+                </div>
+                <div className="divide-y divide-border/50">
+                  {invitations.map((invitation) => (
+                    <div key={invitation.id} className="px-4 py-3 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{invitation.email}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {roleLabels[invitation.role]} · expira em {formatTimestamp(invitation.expires_at, timeZone)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => copyInviteLink(invitation.token)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => revokeInvitation(invitation.id)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Invite Form */}
+          {canManage && (
+            <form onSubmit={handleSubmit(onInvite)} className="form-section h-fit">
+              <h3 className="text-lg font-semibold">Convidar</h3>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">E-mail *</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input id="email" type="email" {...register('email')} placeholder="nome@escritorio.com.br" className="pl-10" />
+                </div>
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Função</Label>
+                <Select value={inviteRole} onValueChange={(value) => setValue('role', value as InviteForm['role'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {invitableRoles.map((value) => (
+                      <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{roleDescriptions[inviteRole]}</p>
+              </div>
+
+              <Button type="submit" disabled={inviting} className="w-full">
+                {inviting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <UserPlus className="w-4 h-4 mr-2" />
+                )}
+                Enviar convite
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {/* Remove Confirmation Dialog */}
+      <AlertDialog open={!!memberToRemove} onOpenChange={() => setMemberToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover membro</AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberToRemove?.profiles?.name} perderá o acesso aos clientes e tarefas do escritório.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={removeMember} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+}
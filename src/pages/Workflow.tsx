@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { ChecklistTemplates } from '@/components/tasks/ChecklistTemplates';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { can } from '@/lib/permissions';
+import { taskStatusClasses, taskStatusLabels, type TaskStatus } from '@/lib/tasks';
+import {
+  findTransition,
+  transitionFieldLabels,
+  workflowStatuses,
+  type TaskTransition,
+  type TransitionField,
+} from '@/lib/workflow';
+import { cn } from '@/lib/utils';
+
+const transitionFields = Object.keys(transitionFieldLabels) as TransitionField[];
+
+export default function Workflow() {
+  const { organization, role } = useAuth();
+  const { toast } = useToast();
+  const [transitions, setTransitions] = useState<TaskTransition[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can(role, 'manage_workflow');
+
+  useEffect(() => {
+    fetchTransitions();
+  }, []);
+
+  const fetchTransitions = async () => {
+    if (!organization) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('task_status_transitions')
+        .select('*')
+        .eq('organization_id', organization.id);
+
+      if (error) throw error;
+      setTransitions(data || []);
+    } catch (error) {
+      console.error('Error fetching workflow:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao carregar fluxo de trabalho.',
+      });
+    }
+  };
+
+  const toggleTransition = async (from: TaskStatus, to: TaskStatus, allowed: boolean) => {
+    if (!organization) return;
+
+    setSaving(true);
+    try {
+      const transition = findTransition(transitions, from, to);
+      const { error } = allowed
+        ? await supabase
+          .from('task_status_transitions')
+          .insert({ organization_id: organization.id, from_status: from, to_status: to })
+        : await supabase
+          .from('task_status_transitions')
+          .delete()
+          .eq('id', transition?.id);
+
+      if (error) throw error;
+      fetchTransitions();
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao salvar fluxo de trabalho.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleField = async (transition: TaskTransition, field: TransitionField, required: boolean) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('task_status_transitions')
+        .update({
+          required_fields: required
+            ? [...transition.required_fields, field]
+            : transition.required_fields.filter((current) => current !== field),
+        })
+        .eq('id', transition.id);
+
+      if (error) throw error;
+      fetchTransitions();
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Erro',
+        description: 'Erro ao salvar fluxo de trabalho.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold">Fluxo de trabalho</h1>
+          <p className="text-muted-foreground mt-1">
+            Mudanças de status permitidas para as tarefas e os dados exigidos em cada uma.
+            Tarefas atrasadas seguem as regras de "{taskStatusLabels.pendente}".
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {workflowStatuses.map((from) => (
+            <div key={from} className="bg-card rounded-xl border border-border/50 overflow-hidden">
+              <div className="p-4 border-b border-border/50 flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">De</span>
+                <span className={cn("status-badge", taskStatusClasses[from])}>{taskStatusLabels[from]}</span>
+              </div>
+
+              <div className="divide-y divide-border/50">
+                {workflowStatuses.filter((to) => to !== from).map((to) => {
+                  const transition = findTransition(transitions, from, to);
+                  return (
+                    <div key={to} className="px-4 py-3 space-y-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-2">
+                          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                          <span className={cn("font-medium", !transition && "text-muted-foreground")}>
+                            {taskStatusLabels[to]}
+                          </span>
+                        </div>
+                        <Switch
+                          checked={!!transition}
+                          disabled={!canManage || saving}
+                          onCheckedChange={(checked) => toggleTransition(from, to, checked)}
+                          aria-label={`Permitir mudar para ${taskStatusLabels[to]}`}
+                        />
+                      </div>
+                      {transition && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 pl-6">
+                          <span className="text-xs text-muted-foreground">Exige:</span>
+                          {transitionFields.map((field) => (
+                            <label key={field} className="flex items-center gap-1.5 text-xs">
+                              <Checkbox
+                                checked={transition.required_fields.includes(field)}
+                                disabled={!canManage || saving}
+                                onCheckedChange={(checked) => toggleField(transition, field, checked === true)}
+                              />
+                              {transitionFieldLabels[field]}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <ChecklistTemplates />
+      </div>
+    </MainLayout>
+  );
+}
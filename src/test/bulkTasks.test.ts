@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { pluralizeTasks, pruneSelection, selectRange } from "@/lib/bulkTasks";
+
+describe("bulk tasks", () => {
+  const ids = ["a", "b", "c", "d", "e"];
+
+  it("toggles a single task on a plain click", () => {
+    expect([...selectRange(ids, new Set(["a"]), "a", "d", true, false)]).toEqual(["a", "d"]);
+    expect([...selectRange(ids, new Set(["a", "d"]), "d", "a", false, false)]).toEqual(["d"]);
+  });
+
+  it("selects the range between the anchor and a shift-clicked task", () => {
+    expect([...selectRange(ids, new Set(["b"]), "b", "d", true, true)].sort()).toEqual(["b", "c", "d"]);
+    expect([...selectRange(ids, new Set(["d"]), "d", "b", true, true)].sort()).toEqual(["b", "c", "d"]);
+    expect([...selectRange(ids, new Set(ids), "e", "c", false, true)].sort()).toEqual(["a", "b"]);
+  });
+
+  it("falls back to a single toggle when the anchor is gone", () => {
+    expect([...selectRange(ids, new Set(), "z", "c", true, true)]).toEqual(["c"]);
+    expect([...selectRange(ids, new Set(), null, "c", true, true)]).toEqual(["c"]);
+  });
+
+  it("drops tasks that are no longer listed", () => {
+    const selected = new Set(["a", "c"]);
+    expect(pruneSelection(selected, ids)).toBe(selected);
+    expect([...pruneSelection(selected, ["a", "b"])]).toEqual(["a"]);
+  });
+
+  it("pluralizes task counts", () => {
+    expect(pluralizeTasks(1)).toBe("1 tarefa");
+    expect(pluralizeTasks(4)).toBe("4 tarefas");
+  });
+});
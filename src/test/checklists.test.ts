@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { checklistProgress, itemsFromTemplate, moveItem, nextPosition, parseTemplateItems } from "@/lib/checklists";
+
+describe("checklists", () => {
+  it("computes progress", () => {
+    expect(checklistProgress([{ done: true }, { done: false }, { done: false }])).toEqual({ done: 1, total: 3, percent: 33 });
+    expect(checklistProgress([])).toEqual({ done: 0, total: 0, percent: 0 });
+  });
+
+  it("moves items and renumbers positions", () => {
+    const items = [
+      { id: "a", position: 0 },
+      { id: "b", position: 3 },
+      { id: "c", position: 7 },
+    ];
+
+    expect(moveItem(items, 2, -1)).toEqual([
+      { id: "a", position: 0 },
+      { id: "c", position: 1 },
+      { id: "b", position: 2 },
+    ]);
+    expect(moveItem(items, 0, -1)).toBe(items);
+    expect(nextPosition(items)).toBe(8);
+  });
+
+  it("appends template items after the existing ones", () => {
+    const template = { items: parseTemplateItems("Importar NF-e\n\n  Conciliação bancária \nEmitir guias") };
+
+    expect(template.items).toEqual(["Importar NF-e", "Conciliação bancária", "Emitir guias"]);
+    expect(itemsFromTemplate(template, [{ position: 0 }, { position: 1 }])).toEqual([
+      { title: "Importar NF-e", position: 2 },
+      { title: "Conciliação bancária", position: 3 },
+      { title: "Emitir guias", position: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { buildErrorReport, buildImportRows, guessMapping, missingRequiredFields } from "@/lib/clientImport";
+
+const sheet = {
+  headers: ["Razão Social", "CNPJ/CPF", "E-mail", "Regime"],
+  rows: [
+    ["Padaria Central", "11.222.333/0001-81", "contato@padaria.com", "Simples Nacional"],
+    ["Maria Souza", "529.982.247-25", "", ""],
+    ["João", "529.982.247-24", "joao@", ""],
+    ["Maria S.", "52998224725", "", ""],
+    ["Mercado", "11222333000181", "", "Lucro inventado"],
+  ],
+};
+
+describe("clientImport", () => {
+  it("guesses the column mapping from header names", () => {
+    const mapping = guessMapping(sheet.headers);
+    expect(mapping).toEqual({ name: 0, cpf_cnpj: 1, email: 2, tax_regime: 3 });
+    expect(missingRequiredFields(mapping)).toEqual([]);
+    expect(missingRequiredFields({ name: 0 }).map((field) => field.field)).toEqual(["cpf_cnpj"]);
+  });
+
+  it("validates rows and flags duplicates against existing clients and the file", () => {
+    const rows = buildImportRows(sheet, guessMapping(sheet.headers), new Set(["11222333000181"]));
+
+    expect(rows[0]).toMatchObject({ line: 2, data: null, duplicate: true, errors: ["CPF/CNPJ já cadastrado"] });
+    expect(rows[1].data).toMatchObject({ name: "Maria Souza", person_type: "PF", tax_regime: "pf" });
+    expect(rows[2].errors).toEqual(["E-mail inválido", "CPF inválido"]);
+    expect(rows[3]).toMatchObject({ duplicate: true, errors: ["CPF/CNPJ repetido na linha 3"] });
+    expect(rows[4].errors[0]).toBe('Regime tributário desconhecido: "Lucro inventado"');
+  });
+
+  it("restores leading zeros dropped by spreadsheets", () => {
+    const numeric = { headers: ["Nome", "CPF"], rows: [["Ana Lima", "1234567890"]] };
+    const [row] = buildImportRows(numeric, guessMapping(numeric.headers), new Set());
+    // 012.345.678-90 is a valid CPF
+    expect(row.data?.cpf_cnpj).toBe("01234567890");
+  });
+
+  it("builds an error report with the original columns", () => {
+    const rows = buildImportRows(sheet, guessMapping(sheet.headers), new Set());
+    const report = buildErrorReport(sheet, rows);
+
+    expect(report[0]).toEqual(["Linha", ...sheet.headers, "Erros"]);
+    expect(report.map((row) => row[0])).toEqual(["Linha", 4, 5, 6]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildClosingRows,
+  closingCellLabel,
+  closingColumns,
+  closingCompetencias,
+  closingSheetRows,
+  columnProgress,
+  type ClosingTask,
+} from "@/lib/closing";
+
+const task = (overrides: Partial<ClosingTask>): ClosingTask => ({
+  id: "t1",
+  title: "DAS 03/2026",
+  client_id: "c1",
+  obligation_code: "das",
+  competencia: "2026-03-01",
+  status: "pendente",
+  due_date: "2026-04-20",
+  completed_at: null,
+  series_id: null,
+  receipt_number: null,
+  reviewer_id: null,
+  ...overrides,
+});
+
+const clients = [
+  { id: "c1", name: "Padaria", tax_regime: "mei" as const },
+  { id: "c2", name: "João", tax_regime: "pf" as const },
+  { id: "c3", name: "Sem regime", tax_regime: null },
+];
+
+describe("closing", () => {
+  it("fetches the month and the previous year for annual obligations", () => {
+    expect(closingCompetencias("2026-03")).toEqual(["2026-03-01", "2025-01-01"]);
+  });
+
+  it("limits the columns to the regime's obligations", () => {
+    expect(closingColumns("mei").map((obligation) => obligation.code)).toEqual(["das", "dasn_simei"]);
+    expect(closingColumns(null)).toHaveLength(9);
+  });
+
+  it("places each task in its client's obligation cell", () => {
+    const tasks = [
+      task({ id: "t1" }),
+      task({ id: "t2", obligation_code: "dasn_simei", competencia: "2025-01-01", status: "concluida" }),
+      // Another month's DAS stays out
+      task({ id: "t3", competencia: "2026-02-01" }),
+    ];
+    const rows = buildClosingRows(clients, tasks, closingColumns("mei"), "2026-03");
+
+    expect(rows[0].cells).toEqual([
+      { kind: "task", task: tasks[0] },
+      { kind: "task", task: tasks[1] },
+    ]);
+    expect(rows[1].cells).toEqual([{ kind: "not_applicable" }, { kind: "not_applicable" }]);
+    expect(rows[2].cells).toEqual([{ kind: "not_applicable" }, { kind: "not_applicable" }]);
+  });
+
+  it("marks owed obligations without a task as missing", () => {
+    const rows = buildClosingRows(clients, [], closingColumns("mei"), "2026-03");
+    expect(rows[0].cells).toEqual([{ kind: "missing" }, { kind: "missing" }]);
+  });
+
+  it("counts delivered tasks out of the owed cells", () => {
+    const rows = buildClosingRows(
+      [...clients, { id: "c4", name: "Mercado", tax_regime: "mei" as const }],
+      [
+        task({ status: "concluida", completed_at: "2026-04-10T12:00:00Z" }),
+        task({ id: "t2", client_id: "c4", status: "transmitida", completed_at: "2026-04-15T12:00:00Z" }),
+      ],
+      closingColumns("mei"),
+      "2026-03",
+    );
+
+    expect(columnProgress(rows, 0)).toEqual({ done: 2, total: 2 });
+    expect(columnProgress(rows, 1)).toEqual({ done: 0, total: 2 });
+  });
+
+  it("words cells like the status badge", () => {
+    const today = "2026-04-25";
+    expect(closingCellLabel({ kind: "missing" }, today)).toBe("Não gerada");
+    expect(closingCellLabel({ kind: "not_applicable" }, today)).toBe("—");
+    expect(closingCellLabel({ kind: "task", task: task({ status: "em_andamento" }) }, today)).toBe("Em andamento (vencida)");
+    expect(closingCellLabel({ kind: "task", task: task({ status: "atrasada" }) }, today)).toBe("Atrasada");
+    expect(
+      closingCellLabel({ kind: "task", task: task({ status: "concluida", completed_at: "2026-04-22T12:00:00Z" }) }, today),
+    ).toBe("Entregue com atraso");
+    expect(
+      closingCellLabel({ kind: "task", task: task({ status: "transmitida", completed_at: "2026-04-10T12:00:00Z" }) }, today),
+    ).toBe("Transmitida");
+  });
+
+  it("exports the grid with the competência in the headers", () => {
+    const columns = closingColumns("mei");
+    const rows = buildClosingRows(clients.slice(0, 1), [task({})], columns, "2026-03");
+
+    expect(closingSheetRows(rows, columns, "2026-03", "2026-04-01")).toEqual([
+      ["Cliente", "Regime tributário", "DAS 03/2026", `${columns[1].label} 2025`],
+      ["Padaria", "MEI", "Pendente", "Não gerada"],
+    ]);
+  });
+});
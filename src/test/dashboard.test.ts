@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { deliveryMonths, lastMonths, monthRange, nextDays, openShare, taskListPath, workloadWeeks } from "@/lib/dashboard";
+
+describe("dashboard", () => {
+  it("covers the whole month", () => {
+    expect(monthRange("2026-03")).toEqual({ start: "2026-03-01", end: "2026-03-31" });
+    expect(monthRange("2028-02")).toEqual({ start: "2028-02-01", end: "2028-02-29" });
+  });
+
+  it("computes the open share", () => {
+    expect(openShare({ total: 4, open: 1, overdue: 0 })).toBe(25);
+    expect(openShare({ total: 0, open: 0, overdue: 0 })).toBe(0);
+  });
+
+  it("fills the weeks without tasks", () => {
+    const range = nextDays("2026-03-11", 14);
+    expect(range).toEqual({ start: "2026-03-11", end: "2026-03-25" });
+
+    const weeks = workloadWeeks([{ week_start: "2026-03-15", task_type: "imposto", total: 3 }], range);
+    expect(weeks).toEqual([{ week: "2026-03-08" }, { week: "2026-03-15", imposto: 3 }, { week: "2026-03-22" }]);
+  });
+
+  it("fills the months without tasks", () => {
+    const range = lastMonths("2026-02-10", 3);
+    expect(range).toEqual({ start: "2025-12-01", end: "2026-02-28" });
+
+    const january = { month: "2026-01-01", on_time: 4, late: 1, overdue: 2 };
+    expect(deliveryMonths([january], range).map((row) => row.on_time)).toEqual([0, 4, 0]);
+  });
+
+  it("links to the filtered task list", () => {
+    expect(taskListPath({ taskType: "folha", from: "2026-03-08", to: "2026-03-14" })).toBe(
+      "/tasks?scope=all&type=folha&from=2026-03-08&to=2026-03-14",
+    );
+    expect(taskListPath({ status: "open", clientId: null })).toBe("/tasks?scope=all&status=open&client=none");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  addWidget,
+  configureWidget,
+  defaultLayout,
+  moveWidget,
+  parseLayout,
+  removeWidget,
+  resizeWidget,
+  shiftWidget,
+} from "@/lib/dashboardWidgets";
+
+describe("dashboard widgets", () => {
+  const ids = (layout: { widgets: { id: string }[] }) => layout.widgets.map((widget) => widget.id);
+
+  it("falls back to the default layout", () => {
+    expect(parseLayout(null)).toEqual(defaultLayout());
+    expect(parseLayout({ widgets: "nope" })).toEqual(defaultLayout());
+    expect(parseLayout({ widgets: [] })).toEqual({ widgets: [] });
+  });
+
+  it("drops unknown widgets and invalid settings", () => {
+    const layout = parseLayout({
+      widgets: [
+        { id: "a", type: "revenue", size: "sm", config: {} },
+        { id: "b", type: "pending_tasks", size: "full", config: { scope: "all", taskType: "folha", period: "90" } },
+        { id: "b", type: "today_tasks", size: "sm" },
+        { id: "c", type: "workload", size: "lg", config: { period: "7", scope: "all" } },
+      ],
+    });
+
+    expect(layout.widgets).toEqual([
+      { id: "b", type: "pending_tasks", size: "sm", config: { scope: "all", taskType: "folha" } },
+      { id: "c", type: "workload", size: "lg", config: { period: "90" } },
+    ]);
+  });
+
+  it("adds, removes, resizes and configures widgets", () => {
+    const added = addWidget({ widgets: [] }, "upcoming_tasks");
+    const [widget] = added.widgets;
+    expect(widget).toMatchObject({ type: "upcoming_tasks", size: "full", config: { scope: "mine", limit: 5 } });
+
+    expect(resizeWidget(added, widget.id, "md").widgets[0].size).toBe("md");
+    expect(configureWidget(added, widget.id, { scope: "all" }).widgets[0].config).toEqual({ scope: "all" });
+    expect(removeWidget(added, widget.id).widgets).toEqual([]);
+  });
+
+  it("reorders widgets", () => {
+    const layout = parseLayout({
+      widgets: ["a", "b", "c", "d"].map((id) => ({ id, type: "total_clients" })),
+    });
+
+    expect(ids(moveWidget(layout, "a", "c"))).toEqual(["b", "c", "a", "d"]);
+    expect(ids(moveWidget(layout, "d", "b"))).toEqual(["a", "d", "b", "c"]);
+    expect(ids(shiftWidget(layout, "b", -1))).toEqual(["b", "a", "c", "d"]);
+    expect(shiftWidget(layout, "d", 1)).toBe(layout);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import {
+  currentMonthISO,
+  formatDate,
+  formatTimestamp,
+  fromLocalDate,
+  isValidTimeZone,
+  startOfWeek,
+  toLocalDate,
+  todayISO,
+} from "@/lib/dates";
+
+describe("dates", () => {
+  it("resolves today in the office time zone, not UTC", () => {
+    // 22:30 in Brasília on 2026-03-10 is already 2026-03-11 in UTC
+    const evening = new Date("2026-03-11T01:30:00Z");
+    expect(todayISO("America/Sao_Paulo", evening)).toBe("2026-03-10");
+    expect(todayISO("America/Noronha", evening)).toBe("2026-03-10");
+    expect(todayISO("UTC", evening)).toBe("2026-03-11");
+    expect(currentMonthISO("America/Sao_Paulo", new Date("2026-04-01T02:00:00Z"))).toBe("2026-03");
+  });
+
+  it("formats DATE columns as calendar days", () => {
+    expect(formatDate("2026-03-01")).toBe("01/03/2026");
+  });
+
+  it("formats timestamps in the office time zone", () => {
+    expect(formatTimestamp("2026-03-11T01:30:00Z", "America/Sao_Paulo")).toBe("10/03/2026");
+  });
+
+  it("finds the start of the week and converts picker dates", () => {
+    expect(startOfWeek("2026-03-11")).toBe("2026-03-08");
+    expect(startOfWeek("2026-03-08")).toBe("2026-03-08");
+    expect(startOfWeek("2026-01-01")).toBe("2025-12-28");
+    expect(fromLocalDate(toLocalDate("2026-02-28"))).toBe("2026-02-28");
+  });
+
+  it("accepts only known time zones", () => {
+    expect(isValidTimeZone("America/Sao_Paulo")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("America/Brasilia")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
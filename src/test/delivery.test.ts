@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { deliveryRates, formatRate, isDeliveredLate, overallDeliveryRate, type DeliveryReportTask } from "@/lib/delivery";
+
+const task = (overrides: Partial<DeliveryReportTask>): DeliveryReportTask => ({
+  due_date: "2026-03-20",
+  completed_at: "2026-03-19T15:00:00Z",
+  task_type: "imposto",
+  client_id: "acme",
+  assignee_id: "ana",
+  clients: { name: "Acme" },
+  assignee: { name: "Ana" },
+  ...overrides,
+});
+
+describe("delivery", () => {
+  it("compares the completion day in the office time zone", () => {
+    // 23:30 in Brasília on the due date is already the next day in UTC
+    expect(isDeliveredLate(task({ completed_at: "2026-03-21T02:30:00Z" }), "America/Sao_Paulo")).toBe(false);
+    expect(isDeliveredLate(task({ completed_at: "2026-03-21T03:30:00Z" }), "America/Sao_Paulo")).toBe(true);
+    expect(isDeliveredLate(task({ completed_at: null }))).toBe(false);
+  });
+
+  it("groups completed tasks and lists the worst rates first", () => {
+    const tasks = [
+      task({}),
+      task({ completed_at: "2026-03-23T12:00:00Z" }),
+      task({ client_id: "beta", clients: { name: "Beta" } }),
+      task({ client_id: null, clients: null, completed_at: null }),
+    ];
+
+    expect(deliveryRates(tasks, "client")).toEqual([
+      { key: "acme", label: "Acme", total: 2, onTime: 1, rate: 0.5 },
+      { key: "beta", label: "Beta", total: 1, onTime: 1, rate: 1 },
+    ]);
+    expect(deliveryRates(tasks, "task_type").map((rate) => rate.label)).toEqual(["Imposto"]);
+    expect(formatRate(overallDeliveryRate(tasks).rate)).toBe("67%");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDocument,
+  isValidCnpj,
+  isValidCpf,
+  maskDocument,
+  normalizeDocument,
+} from "@/lib/documents";
+
+describe("documents", () => {
+  it("validates CPF check digits", () => {
+    expect(isValidCpf("529.982.247-25")).toBe(true);
+    expect(isValidCpf("52998224725")).toBe(true);
+    expect(isValidCpf("529.982.247-24")).toBe(false);
+    expect(isValidCpf("111.111.111-11")).toBe(false);
+    expect(isValidCpf("5299822472")).toBe(false);
+  });
+
+  it("validates numeric and alphanumeric CNPJ check digits", () => {
+    expect(isValidCnpj("11.222.333/0001-81")).toBe(true);
+    expect(isValidCnpj("11.222.333/0001-80")).toBe(false);
+    expect(isValidCnpj("12.ABC.345/01DE-35")).toBe(true);
+    expect(isValidCnpj("12.abc.345/01de-35")).toBe(true);
+    expect(isValidCnpj("12.ABC.345/01DE-36")).toBe(false);
+    expect(isValidCnpj("00.000.000/0000-00")).toBe(false);
+  });
+
+  it("normalizes and masks by person type", () => {
+    expect(normalizeDocument("529.982.247-25", "PF")).toBe("52998224725");
+    expect(normalizeDocument("12.abc.345/01de-35", "PJ")).toBe("12ABC34501DE35");
+    expect(maskDocument("5299822", "PF")).toBe("529.982.2");
+    expect(maskDocument("12abc34501de35", "PJ")).toBe("12.ABC.345/01DE-35");
+  });
+
+  it("formats stored documents for display", () => {
+    expect(formatDocument("52998224725")).toBe("529.982.247-25");
+    expect(formatDocument("11222333000181")).toBe("11.222.333/0001-81");
+    expect(formatDocument("123")).toBe("123");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { buildExportRows, clientExportColumns, exportFileName, taskExportColumns } from "@/lib/exports";
+
+describe("exports", () => {
+  it("exports tasks with client, type label, due date and status", () => {
+    const rows = buildExportRows(taskExportColumns, [
+      {
+        title: "DAS 03/2026",
+        task_type: "imposto",
+        due_date: "2026-04-20",
+        status: "atrasada",
+        clients: { name: "Padaria Central" },
+        assignee: null,
+      },
+    ]);
+
+    expect(rows).toEqual([
+      ["Tarefa", "Cliente", "Tipo", "Vencimento", "Status", "Responsável"],
+      ["DAS 03/2026", "Padaria Central", "Imposto", "20/04/2026", "Atrasada", ""],
+    ]);
+  });
+
+  it("exports only the selected columns", () => {
+    const columns = clientExportColumns("America/Sao_Paulo").filter((column) => ["name", "cpf_cnpj"].includes(column.key));
+    const rows = buildExportRows(columns, [
+      {
+        name: "Maria Souza",
+        cpf_cnpj: "52998224725",
+        person_type: "PF",
+        tax_regime: "pf",
+        email: null,
+        phone: null,
+        created_at: "2026-03-01T02:00:00Z",
+      },
+    ]);
+
+    expect(rows).toEqual([["Nome", "CPF/CNPJ"], ["Maria Souza", "529.982.247-25"]]);
+  });
+
+  it("builds file names from the title and date", () => {
+    expect(exportFileName("Tarefas (concluída)", "pdf", "2026-03-01")).toBe("tarefas-concluida-2026-03-01.pdf");
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { formatFileSize, previewKind, sanitizeFileName, storagePath } from "@/lib/files";
+
+describe("files", () => {
+  it("sanitizes file names for storage keys", () => {
+    expect(sanitizeFileName("Declaração IRPF 2025.pdf")).toBe("Declaracao_IRPF_2025.pdf");
+    expect(sanitizeFileName("guia (1) & recibo.xml")).toBe("guia_1_recibo.xml");
+  });
+
+  it("builds versioned paths under the organization folder", () => {
+    expect(storagePath("org", "doc", 2, "Guia DAS.pdf")).toBe("org/doc/v2-Guia_DAS.pdf");
+  });
+
+  it("detects previewable files", () => {
+    expect(previewKind("application/pdf")).toBe("pdf");
+    expect(previewKind("image/png")).toBe("image");
+    expect(previewKind("text/xml")).toBeNull();
+    expect(previewKind(null)).toBeNull();
+  });
+
+  it("formats file sizes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(2048)).toBe("2 KB");
+    expect(formatFileSize(5 * 1024 * 1024 + 512 * 1024)).toBe("5,5 MB");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { adjustDueDate, createHolidayCalendar, easterSunday, nationalHolidays } from "@/lib/holidays";
+
+describe("holidays", () => {
+  it("computes Easter and the moveable holidays", () => {
+    expect(easterSunday(2025)).toBe("2025-04-20");
+    expect(easterSunday(2026)).toBe("2026-04-05");
+
+    const moveable = nationalHolidays(2026).filter((holiday) => !/-(01-01|04-21|05-01|09-07|10-12|11-02|11-15|11-20|12-25)$/.test(holiday.date));
+    expect(moveable.map((holiday) => [holiday.date, holiday.name])).toEqual([
+      ["2026-02-16", "Carnaval"],
+      ["2026-02-17", "Carnaval"],
+      ["2026-04-03", "Sexta-feira Santa"],
+      ["2026-06-04", "Corpus Christi"],
+    ]);
+  });
+
+  it("includes recurring and one-off custom holidays", () => {
+    const calendar = createHolidayCalendar([
+      { date: "2020-01-25", name: "Aniversário de São Paulo", scope: "municipal", recurring: true },
+      { date: "2026-03-10", name: "Ponto facultativo", scope: "municipal", recurring: false },
+    ]);
+
+    expect(calendar.holidayOn("2027-01-25")?.name).toBe("Aniversário de São Paulo");
+    expect(calendar.isBusinessDay("2026-03-10")).toBe(false);
+    expect(calendar.isBusinessDay("2027-03-10")).toBe(true);
+  });
+
+  it("moves deadlines forward or back and explains why", () => {
+    const calendar = createHolidayCalendar();
+
+    // Tuesday of Carnaval 2026, after the Monday of Carnaval
+    expect(adjustDueDate("2026-02-17", "antecipar", calendar)).toMatchObject({ date: "2026-02-13" });
+    expect(adjustDueDate("2026-02-17", "postergar", calendar).date).toBe("2026-02-18");
+    expect(adjustDueDate("2026-02-17", "postergar", calendar).reason).toContain("Carnaval");
+    expect(adjustDueDate("2026-02-18", "postergar", calendar)).toEqual({
+      date: "2026-02-18",
+      original: "2026-02-18",
+      reason: null,
+    });
+  });
+});
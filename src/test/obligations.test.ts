@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { buildObligationTasks } from "@/lib/obligations";
+
+const byCode = (regime: Parameters<typeof buildObligationTasks>[0], month: string) =>
+  Object.fromEntries(buildObligationTasks(regime, month).map((task) => [task.obligation.code, task]));
+
+describe("obligations", () => {
+  it("maps each regime to its obligations", () => {
+    expect(Object.keys(byCode("mei", "2026-01"))).toEqual(["das", "dasn_simei"]);
+    expect(Object.keys(byCode("pf", "2026-01"))).toEqual(["dirpf"]);
+    expect(Object.keys(byCode("lucro_real", "2026-01"))).toEqual([
+      "dctfweb",
+      "efd_reinf",
+      "efd_contribuicoes",
+      "sped_ecd",
+      "sped_ecf",
+    ]);
+  });
+
+  it("computes legal due dates from the competência", () => {
+    const simples = byCode("simples_nacional", "2026-01");
+    expect(simples.das).toMatchObject({ competencia: "2026-01-01", due_date: "2026-02-20", title: "DAS 01/2026" });
+    // February 15th 2026 is a Sunday: DCTFWeb moves back, DAS would move forward
+    expect(simples.dctfweb).toMatchObject({ due_date: "2026-02-13" });
+    expect(simples.dctfweb.adjustment_reason).toContain("domingo");
+    expect(simples.das.adjustment_reason).toBeNull();
+    expect(simples.defis).toMatchObject({ competencia: "2025-01-01", due_date: "2026-03-31", title: "DEFIS 2025" });
+
+    // 10th business day of March 2026 (the 1st is a Sunday)
+    expect(byCode("lucro_presumido", "2026-01").efd_contribuicoes.due_date).toBe("2026-03-13");
+    // May 31st 2026 is a Sunday
+    expect(byCode("pf", "2026-04").dirpf.due_date).toBe("2026-05-29");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchAllRows,
+  keysetFilter,
+  queryAscending,
+  rowCursor,
+  toPage,
+} from "@/lib/pagination";
+
+describe("pagination", () => {
+  const id = "0d5c6a8e-4a4f-4c53-9d1e-2f6f1d7d7e10";
+
+  it("round-trips cursors whose value contains the separator", () => {
+    const cursor = { value: "Silva | Souza Ltda", id };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(rowCursor({ id, name: "ACME" }, "name")).toEqual({ value: "ACME", id });
+  });
+
+  it("ignores malformed cursors", () => {
+    expect(decodeCursor(null)).toBeNull();
+    expect(decodeCursor("no-separator")).toBeNull();
+    expect(decodeCursor("value|")).toBeNull();
+  });
+
+  it("filters past the cursor in query order", () => {
+    const cursor = { value: "Padaria, Pão & Cia", id };
+
+    expect(keysetFilter("name", true, { cursor, direction: "after" })).toBe(
+      `name.gt."Padaria, Pão & Cia",and(name.eq."Padaria, Pão & Cia",id.gt.${id})`,
+    );
+    expect(keysetFilter("due_date", false, { cursor: { value: "2026-03-10", id }, direction: "after" })).toBe(
+      `due_date.lt."2026-03-10",and(due_date.eq."2026-03-10",id.lt.${id})`,
+    );
+    // Previous pages are read backwards
+    expect(queryAscending(true, { cursor, direction: "before" })).toBe(false);
+    expect(keysetFilter("name", true, { cursor, direction: "before" })).toMatch(/^name\.lt\./);
+    expect(keysetFilter("name", true, { cursor: { value: 'O "Bar"', id }, direction: "after" })).toMatch(
+      /^name\.gt\."O \\"Bar\\"",/,
+    );
+  });
+
+  it("builds pages from the extra row", () => {
+    expect(toPage([1, 2, 3], 2, null)).toEqual({ rows: [1, 2], hasPrevious: false, hasNext: true });
+    expect(toPage([1, 2], 2, null)).toEqual({ rows: [1, 2], hasPrevious: false, hasNext: false });
+
+    const cursor = { value: "x", id };
+    expect(toPage([3], 2, { cursor, direction: "after" })).toEqual({ rows: [3], hasPrevious: true, hasNext: false });
+    expect(toPage([4, 3, 2], 2, { cursor, direction: "before" })).toEqual({ rows: [3, 4], hasPrevious: true, hasNext: true });
+    expect(toPage([2, 1], 2, { cursor, direction: "before" })).toEqual({ rows: [1, 2], hasPrevious: false, hasNext: true });
+  });
+
+  it("reads every row in batches until a short one", async () => {
+    const rows = Array.from({ length: 5 }, (_, index) => index);
+    const ranges: [number, number][] = [];
+    const fetchBatch = async (from: number, to: number) => {
+      ranges.push([from, to]);
+      return { data: rows.slice(from, to + 1), error: null };
+    };
+
+    expect(await fetchAllRows(fetchBatch, 2)).toEqual(rows);
+    expect(ranges).toEqual([[0, 1], [2, 3], [4, 5]]);
+
+    ranges.length = 0;
+    expect(await fetchAllRows(fetchBatch, 5)).toEqual(rows);
+    expect(ranges).toEqual([[0, 4], [5, 9]]);
+  });
+
+  it("throws the error of a failed batch", async () => {
+    const error = new Error("boom");
+    await expect(fetchAllRows(async () => ({ data: null, error }))).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { can } from "@/lib/permissions";
+
+describe("permissions", () => {
+  it("restricts team management to owners and admins", () => {
+    expect(can("owner", "manage_members")).toBe(true);
+    expect(can("admin", "manage_members")).toBe(true);
+    expect(can("contador", "manage_members")).toBe(false);
+    expect(can("assistente", "manage_members")).toBe(false);
+  });
+
+  it("does not let assistants delete records", () => {
+    expect(can("contador", "delete_records")).toBe(true);
+    expect(can("assistente", "delete_records")).toBe(false);
+    expect(can(null, "delete_records")).toBe(false);
+  });
+});
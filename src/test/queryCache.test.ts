@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { queryKeys } from "@/lib/api";
+import { patchCachedRows, removeCachedRows } from "@/lib/queryCache";
+
+describe("query cache", () => {
+  const rows = [
+    { id: "a", status: "pendente" },
+    { id: "b", status: "pendente" },
+  ];
+
+  it("patches rows in lists and pages", () => {
+    expect(patchCachedRows(rows, ["b"], { status: "concluida" })).toEqual([
+      { id: "a", status: "pendente" },
+      { id: "b", status: "concluida" },
+    ]);
+
+    const page = { rows, hasPrevious: false, hasNext: true };
+    expect(patchCachedRows(page, ["a"], { status: "em_andamento" })).toEqual({
+      ...page,
+      rows: [{ id: "a", status: "em_andamento" }, rows[1]],
+    });
+  });
+
+  it("leaves other cached data untouched", () => {
+    const counts = { open: 3, today: 1, overdue: 0 };
+    expect(patchCachedRows(counts, ["a"], { status: "concluida" })).toBe(counts);
+    expect(patchCachedRows(rows, ["z"], { status: "concluida" })).toBe(rows);
+    expect(patchCachedRows(undefined, ["a"], { status: "concluida" })).toBeUndefined();
+  });
+
+  it("removes rows from lists and pages", () => {
+    expect(removeCachedRows(rows, ["a"])).toEqual([rows[1]]);
+    expect(removeCachedRows({ rows, hasPrevious: false, hasNext: false }, ["b"]).rows).toEqual([rows[0]]);
+  });
+
+  it("nests every task query under the organization's task key", () => {
+    const all = queryKeys.tasks.all("org");
+    const filters = { search: "", status: "all" as const, assigneeId: null };
+
+    for (const key of [
+      queryKeys.tasks.list("org", filters),
+      queryKeys.tasks.page("org", { ...filters, sort: "due_date", ascending: true, page: null }),
+    ]) {
+      expect(key.slice(0, all.length)).toEqual([...all]);
+    }
+    expect(queryKeys.clients.all("org")).not.toEqual(all);
+    expect(queryKeys.dashboard.all("org")).not.toEqual(all);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { createHolidayCalendar } from "@/lib/holidays";
+import { addBusinessDays, nextOccurrence, nextSeriesOccurrence, type RecurrenceRule } from "@/lib/recurrence";
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: "mensal",
+  interval_count: 1,
+  day_of_month: null,
+  month_of_year: null,
+  due_adjustment: "antecipar",
+  ...overrides,
+});
+
+describe("recurrence", () => {
+  it("repeats monthly on a fixed day, clamped to the month length", () => {
+    expect(nextOccurrence(rule({ day_of_month: 20 }), "2026-01-20")).toBe("2026-02-20");
+    expect(nextOccurrence(rule({ day_of_month: 31 }), "2026-01-31")).toBe("2026-02-28");
+    expect(nextOccurrence(rule({ day_of_month: 31 }), "2026-02-28")).toBe("2026-03-31");
+    expect(nextOccurrence(rule({ day_of_month: 15 }), "2026-12-15")).toBe("2027-01-15");
+  });
+
+  it("repeats quarterly and yearly", () => {
+    expect(nextOccurrence(rule({ frequency: "trimestral", day_of_month: 30 }), "2026-01-30")).toBe("2026-04-30");
+    expect(
+      nextOccurrence(rule({ frequency: "anual", day_of_month: 29, month_of_year: 5 }), "2026-05-29"),
+    ).toBe("2027-05-29");
+  });
+
+  it("counts business days skipping weekends and custom holidays", () => {
+    // 2026-03-06 is a Friday
+    expect(addBusinessDays("2026-03-06", 1)).toBe("2026-03-09");
+    expect(nextOccurrence(rule({ frequency: "dias_uteis", interval_count: 5 }), "2026-03-06")).toBe("2026-03-13");
+    expect(addBusinessDays("2026-03-06", 1, (date) => !["2026-03-07", "2026-03-08", "2026-03-09"].includes(date))).toBe(
+      "2026-03-10",
+    );
+  });
+
+  it("moves occurrences off weekends and holidays by the series rule", () => {
+    // 2026-03-20 is a Friday, 2026-04-20 a Monday, 2026-06-20 a Saturday
+    const calendar = createHolidayCalendar();
+    expect(nextSeriesOccurrence(rule({ day_of_month: 20 }), "2026-03-20", calendar)).toEqual({
+      date: "2026-04-20",
+      original: "2026-04-20",
+      reason: null,
+    });
+
+    const early = nextSeriesOccurrence(rule({ day_of_month: 20 }), "2026-05-20", calendar);
+    expect(early.date).toBe("2026-06-19");
+    expect(early.reason).toBe("20/06/2026 cai em um sábado; vencimento antecipado para o dia útil anterior.");
+
+    const late = nextSeriesOccurrence(rule({ day_of_month: 20, due_adjustment: "postergar" }), "2026-05-20", calendar);
+    expect(late.date).toBe("2026-06-22");
+  });
+
+  it("counts the next occurrence from the scheduled date, not the moved one", () => {
+    // Day 1 of 2026-01 is a holiday, moved back to 2025-12-31
+    expect(nextOccurrence(rule({ day_of_month: 1 }), "2025-12-31")).toBe("2026-02-01");
+    // 2026-06-20 (Saturday) postponed to 2026-06-22
+    expect(nextOccurrence(rule({ day_of_month: 20 }), "2026-06-22")).toBe("2026-07-20");
+    expect(
+      nextOccurrence(rule({ frequency: "anual", day_of_month: 1, month_of_year: 1 }), "2025-12-31"),
+    ).toBe("2027-01-01");
+  });
+});
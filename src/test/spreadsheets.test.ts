@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { readWorkbook } from "@/lib/spreadsheets";
+
+describe("spreadsheets", () => {
+  it("reads numeric cells by value instead of their displayed text", () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ["Nome", "CNPJ", "CPF"],
+        [" Padaria ", 11222333000181, 1234567890],
+      ]),
+    );
+
+    // Round-trip through a file, as an upload would
+    const read = XLSX.read(XLSX.write(workbook, { type: "array", bookType: "xlsx" }), { type: "array" });
+    expect(readWorkbook(read)).toEqual({
+      headers: ["Nome", "CNPJ", "CPF"],
+      rows: [["Padaria", "11222333000181", "1234567890"]],
+    });
+  });
+
+  it("reads an empty workbook as an empty sheet", () => {
+    expect(readWorkbook(XLSX.utils.book_new())).toEqual({ headers: [], rows: [] });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { buildTemplateTasks, describeDueRule, fillTemplate, templateDueRule, type TaskTemplate } from "@/lib/taskTemplates";
+
+const template: TaskTemplate = {
+  id: "t1",
+  organization_id: "org",
+  name: "Fechamento mensal",
+  title_pattern: "Fechamento {competencia} - {cliente}",
+  task_type: "outro",
+  description: "Fechamento de {cliente}",
+  checklist: ["Importar NF-e", "Conciliação bancária"],
+  due_kind: "day",
+  due_months_after: 1,
+  due_day: 10,
+  due_adjustment: "antecipar",
+  created_by: null,
+  created_at: "2026-03-01T12:00:00Z",
+};
+
+describe("task templates", () => {
+  it("fills the placeholders", () => {
+    expect(fillTemplate("DAS {competencia} - {cliente}", { cliente: "Acme", competencia: "2026-03-01" }))
+      .toBe("DAS 03/2026 - Acme");
+    expect(fillTemplate("DAS {competencia} - {cliente}", { cliente: null, competencia: "2026-03-01" }))
+      .toBe("DAS 03/2026");
+  });
+
+  it("describes due rules", () => {
+    expect(describeDueRule(templateDueRule(template))).toBe("Dia 10 do mês seguinte");
+    expect(describeDueRule({ kind: "last_business_day", monthsAfter: 0 })).toBe("Último dia útil do mês da competência");
+  });
+
+  it("builds one task per client with the adjusted due date", () => {
+    // 2026-05-10 is a Sunday, moved back to Friday
+    const tasks = buildTemplateTasks(template, [{ id: "c1", name: "Acme" }, { id: "c2", name: "Beta" }], "2026-04");
+
+    expect(tasks.map((task) => task.title)).toEqual(["Fechamento 04/2026 - Acme", "Fechamento 04/2026 - Beta"]);
+    expect(tasks[0]).toMatchObject({
+      client_id: "c1",
+      description: "Fechamento de Acme",
+      competencia: "2026-04-01",
+      due_date: "2026-05-08",
+    });
+    expect(tasks[0].adjustment_reason).not.toBeNull();
+    expect(buildTemplateTasks(template, [], "2026-04")).toHaveLength(1);
+  });
+});
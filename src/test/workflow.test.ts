@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { allowedTargets, findTransition, missingTransitionFields, type TaskTransition } from "@/lib/workflow";
+import type { TaskStatus } from "@/lib/tasks";
+
+const transition = (from_status: TaskStatus, to_status: TaskStatus, required_fields: string[] = []): TaskTransition => ({
+  id: `${from_status}-${to_status}`,
+  organization_id: "org",
+  from_status,
+  to_status,
+  required_fields,
+  created_at: "2026-03-02T12:00:00Z",
+});
+
+const transitions = [
+  transition("pendente", "em_andamento"),
+  transition("pendente", "concluida"),
+  transition("em_andamento", "transmitida", ["receipt_number"]),
+  transition("concluida", "pendente", ["comment"]),
+];
+
+describe("workflow", () => {
+  it("treats overdue tasks as pending", () => {
+    expect(findTransition(transitions, "atrasada", "em_andamento")?.id).toBe("pendente-em_andamento");
+    expect(findTransition(transitions, "concluida", "atrasada")?.id).toBe("concluida-pendente");
+    expect(findTransition(transitions, "pendente", "transmitida")).toBeNull();
+  });
+
+  it("lists allowed targets in display order", () => {
+    expect(allowedTargets(transitions, "atrasada")).toEqual(["em_andamento", "concluida"]);
+    expect(allowedTargets(transitions, "transmitida")).toEqual([]);
+  });
+
+  it("reports required fields that are still empty", () => {
+    const toTransmitted = findTransition(transitions, "em_andamento", "transmitida");
+    expect(missingTransitionFields(toTransmitted, {})).toEqual(["receipt_number"]);
+    expect(missingTransitionFields(toTransmitted, { receipt_number: "  " })).toEqual(["receipt_number"]);
+    expect(missingTransitionFields(toTransmitted, { receipt_number: "123456" })).toEqual([]);
+  });
+});
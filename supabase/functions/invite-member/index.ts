@@ -0,0 +1,58 @@
+// Sends the e-mail for an invitation created in organization_invitations.
+//
+// The invitation row is read with the caller's token, so RLS guarantees only
+// owners and admins of the organization can trigger the e-mail. New users get
+// a sign-up invite; existing users get a magic link. Both land on
+// /invite/:token, which accepts the invitation.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const { invitationId, redirectTo } = await req.json();
+  if (!invitationId || !redirectTo) return json({ error: "invitationId e redirectTo são obrigatórios" }, 400);
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: invitation, error } = await caller
+    .from("organization_invitations")
+    .select("email, token, accepted_at, organizations(name)")
+    .eq("id", invitationId)
+    .maybeSingle();
+
+  if (error) return json({ error: error.message }, 500);
+  if (!invitation || invitation.accepted_at) return json({ error: "Convite não encontrado" }, 404);
+
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const link = `${redirectTo}/invite/${invitation.token}`;
+
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(invitation.email, {
+    redirectTo: link,
+    data: { name: invitation.email, invited_to: invitation.organizations?.name },
+  });
+
+  if (inviteError) {
+    // Already registered: send a sign-in link instead
+    const { error: otpError } = await admin.auth.signInWithOtp({
+      email: invitation.email,
+      options: { emailRedirectTo: link, shouldCreateUser: false },
+    });
+    if (otpError) return json({ error: otpError.message }, 500);
+  }
+
+  return json({ sent: true });
+});
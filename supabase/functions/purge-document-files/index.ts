@@ -0,0 +1,42 @@
+// Removes the files of deleted documents from storage.
+//
+// Deleted document versions are queued in document_file_removals. A file is
+// only removed once it has been queued for longer than bulk operations are
+// kept (7 days), so undoing a bulk delete still finds it. Called daily by the
+// purge-document-files cron job.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DOCUMENTS_BUCKET = "documents";
+// Storage removes at most 1000 objects per call
+const BATCH_SIZE = 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+Deno.serve(async () => {
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const queuedBefore = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  let removed = 0;
+
+  while (true) {
+    const { data: queued, error } = await admin
+      .from("document_file_removals")
+      .select("storage_path")
+      .lt("queued_at", queuedBefore)
+      .limit(BATCH_SIZE);
+
+    if (error) return json({ error: error.message }, 500);
+    if (!queued.length) break;
+
+    const paths = queued.map((row) => row.storage_path);
+    const { error: storageError } = await admin.storage.from(DOCUMENTS_BUCKET).remove(paths);
+    if (storageError) return json({ error: storageError.message }, 500);
+
+    const { error: deleteError } = await admin.from("document_file_removals").delete().in("storage_path", paths);
+    if (deleteError) return json({ error: deleteError.message }, 500);
+
+    removed += paths.length;
+  }
+
+  return json({ removed });
+});
@@ -0,0 +1,121 @@
+-- Normalize a CPF/CNPJ to its stored form: digits and (for the alphanumeric
+-- CNPJ) upper-case letters only
+CREATE OR REPLACE FUNCTION public.normalize_cpf_cnpj(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(upper(coalesce(value, '')), '[^0-9A-Z]', '', 'g');
+$$;
+
+-- Validate CPF check digits
+CREATE OR REPLACE FUNCTION public.is_valid_cpf(value TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  cpf TEXT := regexp_replace(coalesce(value, ''), '\D', '', 'g');
+  total INTEGER;
+  digit INTEGER;
+  i INTEGER;
+BEGIN
+  IF length(cpf) <> 11 OR cpf ~ '^(.)\1*$' THEN
+    RETURN FALSE;
+  END IF;
+
+  total := 0;
+  FOR i IN 1..9 LOOP
+    total := total + substr(cpf, i, 1)::INTEGER * (11 - i);
+  END LOOP;
+  digit := (total * 10) % 11;
+  IF digit = 10 THEN digit := 0; END IF;
+  IF digit <> substr(cpf, 10, 1)::INTEGER THEN
+    RETURN FALSE;
+  END IF;
+
+  total := 0;
+  FOR i IN 1..10 LOOP
+    total := total + substr(cpf, i, 1)::INTEGER * (12 - i);
+  END LOOP;
+  digit := (total * 10) % 11;
+  IF digit = 10 THEN digit := 0; END IF;
+
+  RETURN digit = substr(cpf, 11, 1)::INTEGER;
+END;
+$$;
+
+-- Validate CNPJ check digits, numeric or alphanumeric (each character is worth
+-- its ASCII code minus 48)
+CREATE OR REPLACE FUNCTION public.is_valid_cnpj(value TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  cnpj TEXT := public.normalize_cpf_cnpj(value);
+  total INTEGER;
+  weight INTEGER;
+  digit INTEGER;
+  len INTEGER;
+  i INTEGER;
+BEGIN
+  IF cnpj !~ '^[0-9A-Z]{12}[0-9]{2}$' OR cnpj ~ '^(.)\1*$' THEN
+    RETURN FALSE;
+  END IF;
+
+  FOREACH len IN ARRAY ARRAY[12, 13] LOOP
+    total := 0;
+    weight := 2;
+    FOR i IN REVERSE len..1 LOOP
+      total := total + (ascii(substr(cnpj, i, 1)) - 48) * weight;
+      weight := CASE WHEN weight = 9 THEN 2 ELSE weight + 1 END;
+    END LOOP;
+    digit := CASE WHEN total % 11 < 2 THEN 0 ELSE 11 - total % 11 END;
+    IF digit <> substr(cnpj, len + 1, 1)::INTEGER THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Normalize and validate clients.cpf_cnpj on every write
+CREATE OR REPLACE FUNCTION public.validate_client_cpf_cnpj()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cpf_cnpj := public.normalize_cpf_cnpj(NEW.cpf_cnpj);
+
+  IF NEW.person_type = 'PF' AND NOT public.is_valid_cpf(NEW.cpf_cnpj) THEN
+    RAISE EXCEPTION 'CPF inválido: %', NEW.cpf_cnpj
+      USING ERRCODE = 'check_violation', HINT = 'cpf_cnpj';
+  END IF;
+
+  IF NEW.person_type = 'PJ' AND NOT public.is_valid_cnpj(NEW.cpf_cnpj) THEN
+    RAISE EXCEPTION 'CNPJ inválido: %', NEW.cpf_cnpj
+      USING ERRCODE = 'check_violation', HINT = 'cpf_cnpj';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Store existing documents in normalized form before enforcing uniqueness
+UPDATE public.clients
+SET cpf_cnpj = public.normalize_cpf_cnpj(cpf_cnpj)
+WHERE cpf_cnpj <> public.normalize_cpf_cnpj(cpf_cnpj);
+
+CREATE TRIGGER validate_client_cpf_cnpj
+  BEFORE INSERT OR UPDATE OF cpf_cnpj, person_type ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION public.validate_client_cpf_cnpj();
+
+-- A document can only be registered once per account
+ALTER TABLE public.clients
+  ADD CONSTRAINT clients_user_id_cpf_cnpj_key UNIQUE (user_id, cpf_cnpj);
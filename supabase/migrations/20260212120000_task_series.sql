@@ -0,0 +1,49 @@
+-- Create enum for recurrence frequency
+CREATE TYPE public.recurrence_frequency AS ENUM ('mensal', 'trimestral', 'anual', 'dias_uteis');
+
+-- Create task series table: the template and recurrence rule shared by every
+-- occurrence of a recurring task
+CREATE TABLE public.task_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  task_type task_type NOT NULL DEFAULT 'outro',
+  frequency recurrence_frequency NOT NULL,
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),
+  month_of_year SMALLINT CHECK (month_of_year BETWEEN 1 AND 12),
+  ends_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Link occurrences to their series
+ALTER TABLE public.tasks
+  ADD COLUMN series_id UUID REFERENCES public.task_series(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.task_series ENABLE ROW LEVEL SECURITY;
+
+-- Task series policies
+CREATE POLICY "Users can view their own task series"
+  ON public.task_series FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own task series"
+  ON public.task_series FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own task series"
+  ON public.task_series FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own task series"
+  ON public.task_series FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- One occurrence per series and due date, so generating the next occurrence
+-- twice (complete → reopen → complete) is a no-op. One-off tasks have a NULL
+-- series_id and never conflict.
+CREATE UNIQUE INDEX idx_tasks_series_due_date ON public.tasks(series_id, due_date);
+CREATE INDEX idx_task_series_user_id ON public.task_series(user_id);
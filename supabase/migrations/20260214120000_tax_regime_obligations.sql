@@ -0,0 +1,17 @@
+-- Create enum for client tax regime
+CREATE TYPE public.tax_regime AS ENUM ('mei', 'simples_nacional', 'lucro_presumido', 'lucro_real', 'pf');
+
+ALTER TABLE public.clients
+  ADD COLUMN tax_regime tax_regime;
+
+-- Fiscal obligation generated for a task (catalog code, e.g. 'das', 'dctfweb')
+-- and the competência it refers to (first day of the reference month, or
+-- January 1st for annual obligations)
+ALTER TABLE public.tasks
+  ADD COLUMN obligation_code TEXT,
+  ADD COLUMN competencia DATE;
+
+-- Generating obligations twice for the same client and competência is a no-op.
+-- Manual tasks have no obligation_code and never conflict.
+CREATE UNIQUE INDEX idx_tasks_client_obligation_competencia
+  ON public.tasks(client_id, obligation_code, competencia);
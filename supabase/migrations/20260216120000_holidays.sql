@@ -0,0 +1,35 @@
+-- Create enum for holiday scope (national holidays are computed in the app)
+CREATE TYPE public.holiday_scope AS ENUM ('estadual', 'municipal');
+
+-- Create holidays table for state/municipal holidays per account
+CREATE TABLE public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  scope holiday_scope NOT NULL DEFAULT 'municipal',
+  -- Repeats every year on the same day and month
+  recurring BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, date)
+);
+
+-- Enable RLS
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- Holidays policies
+CREATE POLICY "Users can view their own holidays"
+  ON public.holidays FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own holidays"
+  ON public.holidays FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own holidays"
+  ON public.holidays FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own holidays"
+  ON public.holidays FOR DELETE
+  USING (auth.uid() = user_id);
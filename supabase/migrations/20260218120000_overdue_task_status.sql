@@ -0,0 +1,59 @@
+-- Keep tasks.status in sync with due_date: open tasks past their due date are
+-- 'atrasada', open tasks due today or later are 'pendente'. Dates are compared
+-- against the current day in Brasília.
+
+-- Apply the rule to a single row whenever it is written
+CREATE OR REPLACE FUNCTION public.sync_task_overdue_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := (now() AT TIME ZONE 'America/Sao_Paulo')::date;
+BEGIN
+  IF NEW.status = 'pendente' AND NEW.due_date < today THEN
+    NEW.status := 'atrasada';
+  ELSIF NEW.status = 'atrasada' AND NEW.due_date >= today THEN
+    NEW.status := 'pendente';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_task_overdue_status
+  BEFORE INSERT OR UPDATE OF status, due_date ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.sync_task_overdue_status();
+
+-- Apply the rule to every task; run daily so tasks become overdue as days pass
+CREATE OR REPLACE FUNCTION public.refresh_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := (now() AT TIME ZONE 'America/Sao_Paulo')::date;
+  updated INTEGER;
+BEGIN
+  UPDATE public.tasks
+  SET status = CASE WHEN due_date < today THEN 'atrasada'::task_status ELSE 'pendente'::task_status END
+  WHERE (status = 'pendente' AND due_date < today)
+     OR (status = 'atrasada' AND due_date >= today);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_overdue_tasks() FROM PUBLIC, anon, authenticated;
+
+SELECT public.refresh_overdue_tasks();
+
+-- Schedule the refresh right after midnight in Brasília (03:05 UTC)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-overdue-tasks',
+  '5 3 * * *',
+  $$SELECT public.refresh_overdue_tasks()$$
+);
@@ -0,0 +1,67 @@
+-- Time zone used to decide what "today" is for the account (IANA name)
+ALTER TABLE public.profiles
+  ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- Current day in the time zone of the task owner's account
+CREATE OR REPLACE FUNCTION public.account_today(account_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (now() AT TIME ZONE coalesce(
+    (SELECT time_zone FROM public.profiles WHERE id = account_id),
+    'America/Sao_Paulo'
+  ))::date;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_task_overdue_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  today DATE := public.account_today(NEW.user_id);
+BEGIN
+  IF NEW.status = 'pendente' AND NEW.due_date < today THEN
+    NEW.status := 'atrasada';
+  ELSIF NEW.status = 'atrasada' AND NEW.due_date >= today THEN
+    NEW.status := 'pendente';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE public.tasks t
+  SET status = CASE WHEN t.due_date < p.today THEN 'atrasada'::task_status ELSE 'pendente'::task_status END
+  FROM (
+    SELECT id, (now() AT TIME ZONE time_zone)::date AS today FROM public.profiles
+  ) p
+  WHERE p.id = t.user_id
+    AND ((t.status = 'pendente' AND t.due_date < p.today)
+      OR (t.status = 'atrasada' AND t.due_date >= p.today));
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- Accounts may be in any Brazilian time zone, so midnight happens at
+-- different UTC hours: refresh every hour instead of once a day
+SELECT cron.unschedule('refresh-overdue-tasks');
+
+SELECT cron.schedule(
+  'refresh-overdue-tasks',
+  '5 * * * *',
+  $$SELECT public.refresh_overdue_tasks()$$
+);
@@ -0,0 +1,326 @@
+-- Create enum for organization roles
+CREATE TYPE public.organization_role AS ENUM ('owner', 'admin', 'contador', 'assistente');
+
+-- Create organizations table (accounting offices)
+CREATE TABLE public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create organization members table
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role organization_role NOT NULL DEFAULT 'assistente',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Create organization invitations table
+CREATE TABLE public.organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role organization_role NOT NULL DEFAULT 'assistente' CHECK (role <> 'owner'),
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX idx_organization_invitations_pending
+  ON public.organization_invitations(organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+
+-- Membership helpers. SECURITY DEFINER so policies on organization_members
+-- can use them without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION public.is_org_member(org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = org_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(org_id UUID, roles organization_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = org_id AND user_id = auth.uid() AND role = ANY(roles)
+  );
+$$;
+
+-- The creator of an organization becomes its owner
+CREATE OR REPLACE FUNCTION public.handle_new_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_organization_created
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_organization();
+
+-- Every existing account becomes the owner of its own organization
+INSERT INTO public.organizations (name, created_by)
+SELECT name, id FROM public.profiles;
+
+-- Every new account also gets its own organization
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, name, email, account_type)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', NEW.email),
+    NEW.email,
+    COALESCE((NEW.raw_user_meta_data->>'account_type')::account_type, 'contador')
+  );
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NEW.raw_user_meta_data->>'name', NEW.email), NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Accept an invitation addressed to the signed-in user's e-mail
+CREATE OR REPLACE FUNCTION public.accept_invitation(invitation_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.organization_invitations;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.organization_invitations
+  WHERE token = invitation_token;
+
+  IF invitation IS NULL OR invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Convite inválido ou já utilizado' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Convite expirado' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF lower(invitation.email) <> lower(auth.jwt()->>'email') THEN
+    RAISE EXCEPTION 'Este convite foi enviado para outro e-mail' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (invitation.organization_id, auth.uid(), invitation.role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.organization_invitations
+  SET accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.organization_id;
+END;
+$$;
+
+-- Move data ownership from users to organizations
+ALTER TABLE public.clients ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.tasks ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.task_series ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.holidays ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+UPDATE public.clients t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.tasks t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.task_series t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+UPDATE public.holidays t SET organization_id = o.id FROM public.organizations o WHERE o.created_by = t.user_id;
+
+ALTER TABLE public.clients ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.tasks ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.task_series ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.holidays ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX idx_clients_organization_id ON public.clients(organization_id);
+CREATE INDEX idx_tasks_organization_id ON public.tasks(organization_id);
+CREATE INDEX idx_task_series_organization_id ON public.task_series(organization_id);
+
+-- Documents and holidays are unique per office, not per user
+ALTER TABLE public.clients DROP CONSTRAINT clients_user_id_cpf_cnpj_key;
+ALTER TABLE public.clients
+  ADD CONSTRAINT clients_organization_id_cpf_cnpj_key UNIQUE (organization_id, cpf_cnpj);
+
+ALTER TABLE public.holidays DROP CONSTRAINT holidays_user_id_date_key;
+ALTER TABLE public.holidays
+  ADD CONSTRAINT holidays_organization_id_date_key UNIQUE (organization_id, date);
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Organizations policies
+CREATE POLICY "Members can view their organizations"
+  ON public.organizations FOR SELECT
+  USING (public.is_org_member(id));
+
+CREATE POLICY "Users can create organizations"
+  ON public.organizations FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners and admins can update their organization"
+  ON public.organizations FOR UPDATE
+  USING (public.has_org_role(id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Owners can delete their organization"
+  ON public.organizations FOR DELETE
+  USING (public.has_org_role(id, ARRAY['owner']::organization_role[]));
+
+-- Organization members policies
+CREATE POLICY "Members can view their colleagues"
+  ON public.organization_members FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Owners and admins can update members"
+  ON public.organization_members FOR UPDATE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]))
+  WITH CHECK (role <> 'owner' OR public.has_org_role(organization_id, ARRAY['owner']::organization_role[]));
+
+CREATE POLICY "Owners and admins can remove members, members can leave"
+  ON public.organization_members FOR DELETE
+  USING (
+    (auth.uid() = user_id AND role <> 'owner')
+    OR (role <> 'owner' AND public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]))
+  );
+
+-- Profiles of colleagues are visible (names in assignments, member lists)
+CREATE POLICY "Members can view their colleagues' profiles"
+  ON public.profiles FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.user_id = profiles.id AND public.is_org_member(m.organization_id)
+  ));
+
+-- Organization invitations policies
+CREATE POLICY "Owners and admins can view invitations"
+  ON public.organization_invitations FOR SELECT
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Owners and admins can invite"
+  ON public.organization_invitations FOR INSERT
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Owners and admins can revoke invitations"
+  ON public.organization_invitations FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+-- Rewrite data policies: access follows organization membership; deleting
+-- is not allowed to assistants
+DROP POLICY "Users can view their own clients" ON public.clients;
+DROP POLICY "Users can insert their own clients" ON public.clients;
+DROP POLICY "Users can update their own clients" ON public.clients;
+DROP POLICY "Users can delete their own clients" ON public.clients;
+
+CREATE POLICY "Members can view organization clients"
+  ON public.clients FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization clients"
+  ON public.clients FOR INSERT
+  WITH CHECK (public.is_org_member(organization_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can update organization clients"
+  ON public.clients FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (public.is_org_member(organization_id));
+
+CREATE POLICY "Accountants can delete organization clients"
+  ON public.clients FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
+
+DROP POLICY "Users can view their own tasks" ON public.tasks;
+DROP POLICY "Users can insert their own tasks" ON public.tasks;
+DROP POLICY "Users can update their own tasks" ON public.tasks;
+DROP POLICY "Users can delete their own tasks" ON public.tasks;
+
+CREATE POLICY "Members can view organization tasks"
+  ON public.tasks FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization tasks"
+  ON public.tasks FOR INSERT
+  WITH CHECK (public.is_org_member(organization_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can update organization tasks"
+  ON public.tasks FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (public.is_org_member(organization_id));
+
+CREATE POLICY "Accountants can delete organization tasks"
+  ON public.tasks FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
+
+DROP POLICY "Users can view their own task series" ON public.task_series;
+DROP POLICY "Users can insert their own task series" ON public.task_series;
+DROP POLICY "Users can update their own task series" ON public.task_series;
+DROP POLICY "Users can delete their own task series" ON public.task_series;
+
+CREATE POLICY "Members can view organization task series"
+  ON public.task_series FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization task series"
+  ON public.task_series FOR INSERT
+  WITH CHECK (public.is_org_member(organization_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Members can update organization task series"
+  ON public.task_series FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (public.is_org_member(organization_id));
+
+CREATE POLICY "Accountants can delete organization task series"
+  ON public.task_series FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
+
+DROP POLICY "Users can view their own holidays" ON public.holidays;
+DROP POLICY "Users can insert their own holidays" ON public.holidays;
+DROP POLICY "Users can update their own holidays" ON public.holidays;
+DROP POLICY "Users can delete their own holidays" ON public.holidays;
+
+CREATE POLICY "Members can view organization holidays"
+  ON public.holidays FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can insert organization holidays"
+  ON public.holidays FOR INSERT
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]) AND auth.uid() = user_id);
+
+CREATE POLICY "Admins can update organization holidays"
+  ON public.holidays FOR UPDATE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Admins can delete organization holidays"
+  ON public.holidays FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
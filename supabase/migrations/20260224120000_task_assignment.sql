@@ -0,0 +1,137 @@
+-- Add assignee and reviewer to tasks and to the series that generate them
+ALTER TABLE public.tasks
+  ADD COLUMN assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN reviewer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.task_series
+  ADD COLUMN assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN reviewer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+UPDATE public.tasks SET assignee_id = user_id;
+UPDATE public.task_series SET assignee_id = user_id;
+
+CREATE INDEX idx_tasks_assignee_id ON public.tasks(assignee_id);
+
+-- Create assignment history table
+CREATE TABLE public.task_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  from_assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  to_assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_assignments_task_id ON public.task_assignments(task_id);
+
+-- Create in-app notifications table
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.task_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Assignment history is written by the trigger below only
+CREATE POLICY "Members can view organization task assignments"
+  ON public.task_assignments FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+-- Notifications are written by triggers only
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- New tasks are assigned to their creator unless told otherwise, and only
+-- members of the task's organization can be assignee or reviewer
+CREATE OR REPLACE FUNCTION public.validate_task_assignees()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.assignee_id IS NULL THEN
+    NEW.assignee_id := NEW.user_id;
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = NEW.organization_id AND user_id = NEW.assignee_id
+  ) THEN
+    RAISE EXCEPTION 'O responsável não faz parte do escritório' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.reviewer_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = NEW.organization_id AND user_id = NEW.reviewer_id
+  ) THEN
+    RAISE EXCEPTION 'O revisor não faz parte do escritório' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_task_assignees
+  BEFORE INSERT OR UPDATE OF assignee_id, reviewer_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_task_assignees();
+
+-- Record every (re)assignment and notify the new assignee, unless they
+-- assigned the task to themselves
+CREATE OR REPLACE FUNCTION public.record_task_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous UUID := CASE WHEN TG_OP = 'UPDATE' THEN OLD.assignee_id END;
+BEGIN
+  IF NEW.assignee_id IS NOT DISTINCT FROM previous THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_assignments (task_id, organization_id, from_assignee_id, to_assignee_id, assigned_by)
+  VALUES (NEW.id, NEW.organization_id, previous, NEW.assignee_id, auth.uid());
+
+  IF NEW.assignee_id IS NOT NULL AND NEW.assignee_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, organization_id, task_id, title, body)
+    VALUES (
+      NEW.assignee_id,
+      NEW.organization_id,
+      NEW.id,
+      'Nova tarefa atribuída a você',
+      NEW.title || ' — vence em ' || to_char(NEW.due_date, 'DD/MM/YYYY')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_task_assignment
+  AFTER INSERT OR UPDATE OF assignee_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.record_task_assignment();
+
+-- Deliver notifications live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,31 @@
+-- Create client notes table
+CREATE TABLE public.client_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_client_notes_client_id ON public.client_notes(client_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.client_notes ENABLE ROW LEVEL SECURITY;
+
+-- Client notes policies: the whole office reads them, authors manage their own
+CREATE POLICY "Members can view organization client notes"
+  ON public.client_notes FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization client notes"
+  ON public.client_notes FOR INSERT
+  WITH CHECK (public.is_org_member(organization_id) AND auth.uid() = user_id);
+
+CREATE POLICY "Authors can update their client notes"
+  ON public.client_notes FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Authors and admins can delete client notes"
+  ON public.client_notes FOR DELETE
+  USING (auth.uid() = user_id OR public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
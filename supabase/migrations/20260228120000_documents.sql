@@ -0,0 +1,92 @@
+-- Create enum for document types
+CREATE TYPE public.document_type AS ENUM ('guia', 'recibo', 'contrato', 'xml', 'declaracao', 'outro');
+
+-- Create documents table. Each row is a document with its current version;
+-- every uploaded file, including the current one, is kept in document_versions.
+CREATE TABLE public.documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  document_type document_type NOT NULL DEFAULT 'outro',
+  competencia DATE,
+  name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  version INTEGER NOT NULL DEFAULT 1,
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (client_id IS NOT NULL OR task_id IS NOT NULL)
+);
+
+CREATE TABLE public.document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version)
+);
+
+CREATE INDEX idx_documents_client_id ON public.documents(client_id);
+CREATE INDEX idx_documents_task_id ON public.documents(task_id);
+
+-- Enable RLS
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Documents policies
+CREATE POLICY "Members can view organization documents"
+  ON public.documents FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization documents"
+  ON public.documents FOR INSERT
+  WITH CHECK (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can update organization documents"
+  ON public.documents FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (public.is_org_member(organization_id));
+
+CREATE POLICY "Accountants can delete organization documents"
+  ON public.documents FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
+
+-- Document versions policies: history is append-only
+CREATE POLICY "Members can view organization document versions"
+  ON public.document_versions FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization document versions"
+  ON public.document_versions FOR INSERT
+  WITH CHECK (public.is_org_member(organization_id));
+
+-- Private bucket; objects live under <organization_id>/<document_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('documents', 'documents', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies mirror the documents table: the first folder of the
+-- object path is the organization
+CREATE POLICY "Members can view organization files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'documents' AND public.is_org_member(((storage.foldername(name))[1])::uuid));
+
+CREATE POLICY "Members can upload organization files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'documents' AND public.is_org_member(((storage.foldername(name))[1])::uuid));
+
+CREATE POLICY "Accountants can delete organization files"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'documents'
+    AND public.has_org_role(((storage.foldername(name))[1])::uuid, ARRAY['owner', 'admin', 'contador']::organization_role[])
+  );
@@ -0,0 +1,6 @@
+-- New workflow states. Added in their own migration: enum values cannot be
+-- used in the transaction that creates them.
+ALTER TYPE public.task_status ADD VALUE IF NOT EXISTS 'em_andamento' BEFORE 'concluida';
+ALTER TYPE public.task_status ADD VALUE IF NOT EXISTS 'aguardando_cliente' BEFORE 'concluida';
+ALTER TYPE public.task_status ADD VALUE IF NOT EXISTS 'em_revisao' BEFORE 'concluida';
+ALTER TYPE public.task_status ADD VALUE IF NOT EXISTS 'transmitida' BEFORE 'concluida';
@@ -0,0 +1,222 @@
+-- Configurable task workflow
+--
+-- Each organization lists the status changes it allows and the fields each
+-- change requires. 'atrasada' is not a workflow state: the database moves
+-- 'pendente' tasks in and out of it from the due date, so transitions are
+-- written from 'pendente' and apply to overdue tasks as well.
+
+-- Receipt (recibo de entrega) of transmitted obligations
+ALTER TABLE public.tasks ADD COLUMN receipt_number TEXT;
+
+CREATE TABLE public.task_status_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  from_status task_status NOT NULL CHECK (from_status <> 'atrasada'),
+  to_status task_status NOT NULL CHECK (to_status <> 'atrasada'),
+  required_fields TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (required_fields <@ ARRAY['receipt_number', 'comment', 'reviewer_id']),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_status <> to_status),
+  UNIQUE (organization_id, from_status, to_status)
+);
+
+CREATE TABLE public.task_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  from_status task_status NOT NULL,
+  to_status task_status NOT NULL,
+  comment TEXT,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_status_history_task_id ON public.task_status_history(task_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.task_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization workflow"
+  ON public.task_status_transitions FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can insert organization workflow"
+  ON public.task_status_transitions FOR INSERT
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Admins can update organization workflow"
+  ON public.task_status_transitions FOR UPDATE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]))
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Admins can delete organization workflow"
+  ON public.task_status_transitions FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+-- History is written by the trigger below only
+CREATE POLICY "Members can view organization task status history"
+  ON public.task_status_history FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+-- Default workflow for an organization
+CREATE OR REPLACE FUNCTION public.seed_task_workflow(target_organization_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.task_status_transitions (organization_id, from_status, to_status, required_fields)
+  VALUES
+    (target_organization_id, 'pendente', 'em_andamento', '{}'),
+    (target_organization_id, 'pendente', 'aguardando_cliente', '{}'),
+    (target_organization_id, 'pendente', 'concluida', '{}'),
+    (target_organization_id, 'em_andamento', 'pendente', '{}'),
+    (target_organization_id, 'em_andamento', 'aguardando_cliente', '{}'),
+    (target_organization_id, 'em_andamento', 'em_revisao', '{}'),
+    (target_organization_id, 'em_andamento', 'transmitida', '{receipt_number}'),
+    (target_organization_id, 'em_andamento', 'concluida', '{}'),
+    (target_organization_id, 'aguardando_cliente', 'em_andamento', '{}'),
+    (target_organization_id, 'aguardando_cliente', 'pendente', '{}'),
+    (target_organization_id, 'em_revisao', 'em_andamento', '{comment}'),
+    (target_organization_id, 'em_revisao', 'transmitida', '{receipt_number}'),
+    (target_organization_id, 'em_revisao', 'concluida', '{}'),
+    (target_organization_id, 'transmitida', 'concluida', '{}'),
+    (target_organization_id, 'transmitida', 'em_revisao', '{comment}'),
+    (target_organization_id, 'concluida', 'pendente', '{comment}')
+  ON CONFLICT (organization_id, from_status, to_status) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_task_workflow(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT public.seed_task_workflow(id) FROM public.organizations;
+
+CREATE OR REPLACE FUNCTION public.handle_new_organization_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_task_workflow(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_organization_created_workflow
+  AFTER INSERT ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_organization_workflow();
+
+-- Reject status changes the organization's workflow does not allow. Runs after
+-- sync_task_overdue_status (triggers fire in name order). Changes made without
+-- a user (cron, service role) are not workflow moves and are not checked.
+CREATE OR REPLACE FUNCTION public.validate_task_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  from_state task_status := CASE WHEN OLD.status = 'atrasada' THEN 'pendente'::task_status ELSE OLD.status END;
+  to_state task_status := CASE WHEN NEW.status = 'atrasada' THEN 'pendente'::task_status ELSE NEW.status END;
+  required TEXT[];
+BEGIN
+  IF auth.uid() IS NULL OR from_state = to_state THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT required_fields INTO required
+  FROM public.task_status_transitions
+  WHERE organization_id = NEW.organization_id
+    AND from_status = from_state
+    AND to_status = to_state;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'O fluxo de trabalho não permite mudar de % para %', from_state, to_state
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF 'receipt_number' = ANY(required) AND coalesce(btrim(NEW.receipt_number), '') = '' THEN
+    RAISE EXCEPTION 'Informe o número do recibo' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  IF 'reviewer_id' = ANY(required) AND NEW.reviewer_id IS NULL THEN
+    RAISE EXCEPTION 'Informe o revisor' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  IF 'comment' = ANY(required) AND coalesce(btrim(current_setting('app.status_comment', true)), '') = '' THEN
+    RAISE EXCEPTION 'Informe um comentário' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_task_status_transition
+  BEFORE UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_task_status_transition();
+
+-- Record every status change except the automatic pendente/atrasada moves
+CREATE OR REPLACE FUNCTION public.record_task_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR (OLD.status IN ('pendente', 'atrasada') AND NEW.status IN ('pendente', 'atrasada')) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_status_history (task_id, organization_id, from_status, to_status, comment, changed_by)
+  VALUES (
+    NEW.id,
+    NEW.organization_id,
+    OLD.status,
+    NEW.status,
+    nullif(btrim(current_setting('app.status_comment', true)), ''),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_task_status_change
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.record_task_status_change();
+
+-- Changes a task's status, filling the fields the transition may require.
+-- The comment reaches the triggers through a transaction-local setting.
+CREATE OR REPLACE FUNCTION public.set_task_status(
+  target_task_id UUID,
+  new_status task_status,
+  receipt TEXT DEFAULT NULL,
+  status_comment TEXT DEFAULT NULL,
+  reviewer UUID DEFAULT NULL
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  result public.tasks;
+BEGIN
+  PERFORM set_config('app.status_comment', coalesce(status_comment, ''), true);
+
+  UPDATE public.tasks
+  SET status = new_status,
+      receipt_number = coalesce(nullif(btrim(receipt), ''), receipt_number),
+      reviewer_id = coalesce(reviewer, reviewer_id)
+  WHERE id = target_task_id
+  RETURNING * INTO result;
+
+  PERFORM set_config('app.status_comment', '', true);
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Tarefa não encontrada' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,46 @@
+-- When and by whom a task was completed, to measure on-time delivery.
+-- Tasks completed before this migration have no completion record unless the
+-- status history has one, and are left out of the delivery metrics.
+ALTER TABLE public.tasks
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_completed_at ON public.tasks(organization_id, completed_at)
+  WHERE completed_at IS NOT NULL;
+
+UPDATE public.tasks t
+SET completed_at = h.created_at,
+    completed_by = h.changed_by
+FROM (
+  SELECT DISTINCT ON (task_id) task_id, created_at, changed_by
+  FROM public.task_status_history
+  WHERE to_status = 'concluida'
+  ORDER BY task_id, created_at DESC
+) h
+WHERE t.id = h.task_id
+  AND t.status = 'concluida';
+
+-- Stamp completion when a task moves to 'concluida' and clear it when the
+-- task is reopened
+CREATE OR REPLACE FUNCTION public.set_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'concluida' THEN
+    IF TG_OP = 'INSERT' OR OLD.status <> 'concluida' THEN
+      NEW.completed_at := now();
+      NEW.completed_by := auth.uid();
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_task_completion
+  BEFORE INSERT OR UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.set_task_completion();
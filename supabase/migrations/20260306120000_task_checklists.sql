@@ -0,0 +1,120 @@
+-- Checklists: the steps of a task (e.g. "Fechamento mensal": import NF-e,
+-- bank reconciliation, compute taxes, issue guias, send to client), each with
+-- its own done state, optional assignee and position.
+CREATE TABLE public.task_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (btrim(title) <> ''),
+  done BOOLEAN NOT NULL DEFAULT false,
+  assignee_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_checklist_items_task_id ON public.task_checklist_items(task_id, position);
+
+-- Reusable checklists per task type. Templates marked auto_apply are copied
+-- into every new task of that type.
+CREATE TABLE public.checklist_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  task_type task_type NOT NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  items TEXT[] NOT NULL DEFAULT '{}',
+  auto_apply BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_checklist_templates_organization_id ON public.checklist_templates(organization_id, task_type);
+
+-- Enable RLS
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.checklist_templates ENABLE ROW LEVEL SECURITY;
+
+-- Checklist items follow the task: every member who can edit the task can
+-- edit its checklist
+CREATE POLICY "Members can view organization checklist items"
+  ON public.task_checklist_items FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can insert organization checklist items"
+  ON public.task_checklist_items FOR INSERT
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND organization_id = task_checklist_items.organization_id)
+  );
+
+CREATE POLICY "Members can update organization checklist items"
+  ON public.task_checklist_items FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can delete organization checklist items"
+  ON public.task_checklist_items FOR DELETE
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Members can view organization checklist templates"
+  ON public.checklist_templates FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Admins can insert organization checklist templates"
+  ON public.checklist_templates FOR INSERT
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Admins can update organization checklist templates"
+  ON public.checklist_templates FOR UPDATE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]))
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Admins can delete organization checklist templates"
+  ON public.checklist_templates FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+-- Only members of the organization can be assigned a checklist item
+CREATE OR REPLACE FUNCTION public.validate_checklist_item_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assignee_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = NEW.organization_id AND user_id = NEW.assignee_id
+  ) THEN
+    RAISE EXCEPTION 'O responsável não faz parte do escritório' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_checklist_item_assignee
+  BEFORE INSERT OR UPDATE OF assignee_id ON public.task_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.validate_checklist_item_assignee();
+
+-- Copy the auto_apply templates of the task's type into new tasks, whatever
+-- created them (form, quick create, obligations, recurring series)
+CREATE OR REPLACE FUNCTION public.apply_checklist_templates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.task_checklist_items (task_id, organization_id, title, position)
+  SELECT NEW.id, NEW.organization_id, item.title, row_number() OVER (ORDER BY template.created_at, item.ordinality) - 1
+  FROM public.checklist_templates template
+  CROSS JOIN LATERAL unnest(template.items) WITH ORDINALITY AS item(title, ordinality)
+  WHERE template.organization_id = NEW.organization_id
+    AND template.task_type = NEW.task_type
+    AND template.auto_apply;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_checklist_templates
+  AFTER INSERT ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.apply_checklist_templates();
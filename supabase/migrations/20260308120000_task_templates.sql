@@ -0,0 +1,46 @@
+-- Task templates: reusable blueprints an office applies to one or many
+-- clients. Titles and descriptions may use the {cliente} and {competencia}
+-- placeholders. The due date is counted from the competência with the same
+-- rules as the fiscal obligations (see src/lib/obligations.ts): a fixed day,
+-- the n-th business day or the last business day, `due_months_after` months
+-- after the competência, moved by `due_adjustment` when it is not a business day.
+CREATE TABLE public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  title_pattern TEXT NOT NULL CHECK (btrim(title_pattern) <> ''),
+  task_type task_type NOT NULL DEFAULT 'outro',
+  description TEXT,
+  checklist TEXT[] NOT NULL DEFAULT '{}',
+  due_kind TEXT NOT NULL DEFAULT 'day'
+    CHECK (due_kind IN ('day', 'business_day', 'last_business_day')),
+  due_months_after INTEGER NOT NULL DEFAULT 1 CHECK (due_months_after BETWEEN 0 AND 24),
+  due_day INTEGER CHECK (due_day BETWEEN 1 AND 31),
+  due_adjustment TEXT NOT NULL DEFAULT 'antecipar'
+    CHECK (due_adjustment IN ('antecipar', 'postergar')),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (due_kind = 'last_business_day' OR due_day IS NOT NULL)
+);
+
+CREATE INDEX idx_task_templates_organization_id ON public.task_templates(organization_id, name);
+
+-- Enable RLS
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization task templates"
+  ON public.task_templates FOR SELECT
+  USING (public.is_org_member(organization_id));
+
+CREATE POLICY "Accountants can insert organization task templates"
+  ON public.task_templates FOR INSERT
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
+
+CREATE POLICY "Accountants can update organization task templates"
+  ON public.task_templates FOR UPDATE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]))
+  WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
+
+CREATE POLICY "Accountants can delete organization task templates"
+  ON public.task_templates FOR DELETE
+  USING (public.has_org_role(organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]));
@@ -0,0 +1,350 @@
+-- Bulk task operations with undo
+--
+-- Each bulk action runs as one call and keeps a snapshot of the rows it
+-- touched, so the user who ran it can revert it. Restoring goes around the
+-- workflow and completion triggers: the rows go back exactly as they were.
+
+CREATE TABLE public.task_bulk_operations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  performed_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete')),
+  task_count INTEGER NOT NULL DEFAULT 0,
+  snapshot JSONB NOT NULL DEFAULT '{}',
+  undone_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_bulk_operations_performed_by ON public.task_bulk_operations(performed_by, created_at DESC);
+
+ALTER TABLE public.task_bulk_operations ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are written by the bulk functions below and only their author
+-- can see or undo them
+CREATE POLICY "Users can view their own bulk operations"
+  ON public.task_bulk_operations FOR SELECT
+  USING (auth.uid() = performed_by);
+
+CREATE POLICY "Members can insert their own bulk operations"
+  ON public.task_bulk_operations FOR INSERT
+  WITH CHECK (auth.uid() = performed_by AND public.is_org_member(organization_id));
+
+-- Skip the workflow, completion and template triggers while an undo puts rows
+-- back. The flag is a transaction-local setting set by
+-- undo_task_bulk_operation only.
+CREATE OR REPLACE FUNCTION public.is_restoring_tasks()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(current_setting('app.restoring_tasks', true), '') = 'on';
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_task_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  from_state task_status := CASE WHEN OLD.status = 'atrasada' THEN 'pendente'::task_status ELSE OLD.status END;
+  to_state task_status := CASE WHEN NEW.status = 'atrasada' THEN 'pendente'::task_status ELSE NEW.status END;
+  required TEXT[];
+BEGIN
+  IF auth.uid() IS NULL OR from_state = to_state OR public.is_restoring_tasks() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT required_fields INTO required
+  FROM public.task_status_transitions
+  WHERE organization_id = NEW.organization_id
+    AND from_status = from_state
+    AND to_status = to_state;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'O fluxo de trabalho não permite mudar de % para %', from_state, to_state
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF 'receipt_number' = ANY(required) AND coalesce(btrim(NEW.receipt_number), '') = '' THEN
+    RAISE EXCEPTION 'Informe o número do recibo' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  IF 'reviewer_id' = ANY(required) AND NEW.reviewer_id IS NULL THEN
+    RAISE EXCEPTION 'Informe o revisor' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  IF 'comment' = ANY(required) AND coalesce(btrim(current_setting('app.status_comment', true)), '') = '' THEN
+    RAISE EXCEPTION 'Informe um comentário' USING ERRCODE = 'not_null_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_restoring_tasks() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'concluida' THEN
+    IF TG_OP = 'INSERT' OR OLD.status <> 'concluida' THEN
+      NEW.completed_at := now();
+      NEW.completed_by := auth.uid();
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_checklist_templates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_restoring_tasks() THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_checklist_items (task_id, organization_id, title, position)
+  SELECT NEW.id, NEW.organization_id, item.title, row_number() OVER (ORDER BY template.created_at, item.ordinality) - 1
+  FROM public.checklist_templates template
+  CROSS JOIN LATERAL unnest(template.items) WITH ORDINALITY AS item(title, ordinality)
+  WHERE template.organization_id = NEW.organization_id
+    AND template.task_type = NEW.task_type
+    AND template.auto_apply;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Restored tasks bring their own assignment history back, and putting back a
+-- previous assignee does not notify them again
+CREATE OR REPLACE FUNCTION public.record_task_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous UUID := CASE WHEN TG_OP = 'UPDATE' THEN OLD.assignee_id END;
+BEGIN
+  IF NEW.assignee_id IS NOT DISTINCT FROM previous
+    OR (TG_OP = 'INSERT' AND public.is_restoring_tasks()) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_assignments (task_id, organization_id, from_assignee_id, to_assignee_id, assigned_by)
+  VALUES (NEW.id, NEW.organization_id, previous, NEW.assignee_id, auth.uid());
+
+  IF NEW.assignee_id IS NOT NULL AND NEW.assignee_id IS DISTINCT FROM auth.uid()
+    AND NOT public.is_restoring_tasks() THEN
+    INSERT INTO public.notifications (user_id, organization_id, task_id, title, body)
+    VALUES (
+      NEW.assignee_id,
+      NEW.organization_id,
+      NEW.id,
+      'Nova tarefa atribuída a você',
+      NEW.title || ' — vence em ' || to_char(NEW.due_date, 'DD/MM/YYYY')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Applies the same changes to several tasks. Supported keys of `changes`:
+-- status, due_date, shift_days, task_type, client_id, assignee_id (a key set
+-- to null clears the field). Tasks the workflow or the assignee rules reject
+-- are skipped and returned in `skipped` instead of failing the whole call.
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  target_organization_id UUID,
+  target_task_ids UUID[],
+  changes JSONB,
+  status_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  task public.tasks;
+  previous JSONB := '[]';
+  skipped UUID[] := '{}';
+  operation_id UUID;
+BEGIN
+  PERFORM set_config('app.status_comment', coalesce(status_comment, ''), true);
+
+  FOR task IN
+    SELECT * FROM public.tasks
+    WHERE organization_id = target_organization_id AND id = ANY(target_task_ids)
+    ORDER BY due_date
+    FOR UPDATE
+  LOOP
+    BEGIN
+      UPDATE public.tasks
+      SET status = CASE WHEN changes ? 'status' THEN (changes->>'status')::task_status ELSE status END,
+          due_date = CASE
+            WHEN changes ? 'due_date' THEN (changes->>'due_date')::date
+            WHEN changes ? 'shift_days' THEN due_date + (changes->>'shift_days')::integer
+            ELSE due_date
+          END,
+          task_type = CASE WHEN changes ? 'task_type' THEN (changes->>'task_type')::task_type ELSE task_type END,
+          client_id = CASE WHEN changes ? 'client_id' THEN (changes->>'client_id')::uuid ELSE client_id END,
+          assignee_id = CASE WHEN changes ? 'assignee_id' THEN (changes->>'assignee_id')::uuid ELSE assignee_id END
+      WHERE id = task.id;
+
+      previous := previous || jsonb_build_array(to_jsonb(task));
+    EXCEPTION
+      WHEN check_violation OR not_null_violation OR unique_violation THEN
+        skipped := skipped || task.id;
+    END;
+  END LOOP;
+
+  PERFORM set_config('app.status_comment', '', true);
+
+  IF jsonb_array_length(previous) > 0 THEN
+    INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+    VALUES (target_organization_id, auth.uid(), 'update', jsonb_array_length(previous), jsonb_build_object('tasks', previous))
+    RETURNING id INTO operation_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'operation_id', operation_id,
+    'updated', jsonb_array_length(previous),
+    'skipped', to_jsonb(skipped)
+  );
+END;
+$$;
+
+-- Deletes several tasks, keeping what the cascade would lose (checklist,
+-- status and assignment history, document links) for undo
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(
+  target_organization_id UUID,
+  target_task_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  ids UUID[];
+  snapshot JSONB;
+  operation_id UUID;
+BEGIN
+  IF NOT public.has_org_role(target_organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]) THEN
+    RAISE EXCEPTION 'Sem permissão para excluir tarefas' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT array_agg(id) INTO ids
+  FROM public.tasks
+  WHERE organization_id = target_organization_id AND id = ANY(target_task_ids);
+
+  IF ids IS NULL THEN
+    RETURN jsonb_build_object('operation_id', NULL, 'deleted', 0);
+  END IF;
+
+  SELECT jsonb_build_object(
+    'tasks', (SELECT coalesce(jsonb_agg(to_jsonb(t)), '[]') FROM public.tasks t WHERE t.id = ANY(ids)),
+    'checklist_items', (SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]') FROM public.task_checklist_items c WHERE c.task_id = ANY(ids)),
+    'status_history', (SELECT coalesce(jsonb_agg(to_jsonb(h)), '[]') FROM public.task_status_history h WHERE h.task_id = ANY(ids)),
+    'assignments', (SELECT coalesce(jsonb_agg(to_jsonb(a)), '[]') FROM public.task_assignments a WHERE a.task_id = ANY(ids)),
+    'documents', (SELECT coalesce(jsonb_agg(jsonb_build_object('id', d.id, 'task_id', d.task_id)), '[]') FROM public.documents d WHERE d.task_id = ANY(ids))
+  ) INTO snapshot;
+
+  DELETE FROM public.tasks WHERE id = ANY(ids);
+
+  INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+  VALUES (target_organization_id, auth.uid(), 'delete', array_length(ids, 1), snapshot)
+  RETURNING id INTO operation_id;
+
+  RETURN jsonb_build_object('operation_id', operation_id, 'deleted', array_length(ids, 1));
+END;
+$$;
+
+-- Reverts a bulk operation of the calling user. Runs as definer because the
+-- history tables are written by triggers only and restored tasks keep their
+-- original creator.
+CREATE OR REPLACE FUNCTION public.undo_task_bulk_operation(target_operation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  operation public.task_bulk_operations;
+BEGIN
+  SELECT * INTO operation
+  FROM public.task_bulk_operations
+  WHERE id = target_operation_id AND performed_by = auth.uid()
+  FOR UPDATE;
+
+  IF operation.id IS NULL OR NOT public.is_org_member(operation.organization_id) THEN
+    RAISE EXCEPTION 'Operação não encontrada' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF operation.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta operação já foi desfeita' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', 'on', true);
+  PERFORM set_config('app.status_comment', 'Ação em lote desfeita', true);
+
+  IF operation.action = 'update' THEN
+    UPDATE public.tasks t
+    SET status = s.status,
+        due_date = s.due_date,
+        task_type = s.task_type,
+        client_id = s.client_id,
+        assignee_id = s.assignee_id,
+        completed_at = s.completed_at,
+        completed_by = s.completed_by
+    FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks') s
+    WHERE t.id = s.id AND t.organization_id = operation.organization_id;
+  ELSE
+    INSERT INTO public.tasks
+    SELECT * FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_checklist_items
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_checklist_items, operation.snapshot->'checklist_items')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_status_history
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_status_history, operation.snapshot->'status_history')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_assignments
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_assignments, operation.snapshot->'assignments')
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.documents d
+    SET task_id = (link->>'task_id')::uuid
+    FROM jsonb_array_elements(operation.snapshot->'documents') link
+    WHERE d.id = (link->>'id')::uuid AND d.task_id IS NULL;
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', '', true);
+  PERFORM set_config('app.status_comment', '', true);
+
+  UPDATE public.task_bulk_operations SET undone_at = now() WHERE id = operation.id;
+
+  RETURN operation.task_count;
+END;
+$$;
+
+-- Undo is offered right after the action: keep a week of snapshots
+SELECT cron.schedule(
+  'purge-task-bulk-operations',
+  '30 3 * * *',
+  $$DELETE FROM public.task_bulk_operations WHERE created_at < now() - interval '7 days'$$
+);
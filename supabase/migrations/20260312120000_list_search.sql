@@ -0,0 +1,94 @@
+-- Server-side search for the client and task lists
+--
+-- Names are matched accent- and case-insensitively by word prefix (full-text)
+-- and by substring or similarity (trigram), so "joao silv" and "Joao Slva"
+-- both find "João da Silva". CPF/CNPJ match on their normalized digits.
+-- The search functions only filter: sorting and pagination are applied by
+-- the caller on top of them, like on a table.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- Lower-case, accent-free form used by the indexes and the searches. The
+-- dictionary is named explicitly so the function can be IMMUTABLE.
+CREATE OR REPLACE FUNCTION public.search_normalize(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = public
+AS $$
+  SELECT lower(extensions.unaccent('extensions.unaccent'::regdictionary, coalesce(value, '')));
+$$;
+
+-- "joao silv" -> 'joao':* & 'silv':*
+CREATE OR REPLACE FUNCTION public.search_prefix_query(value TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(public.search_normalize(value), '[^a-z0-9]+') AS word
+  WHERE word <> '';
+$$;
+
+CREATE INDEX idx_clients_name_search ON public.clients
+  USING GIN (to_tsvector('simple', public.search_normalize(name)));
+CREATE INDEX idx_clients_name_trgm ON public.clients
+  USING GIN (public.search_normalize(name) extensions.gin_trgm_ops);
+CREATE INDEX idx_clients_cpf_cnpj_trgm ON public.clients
+  USING GIN (cpf_cnpj extensions.gin_trgm_ops);
+CREATE INDEX idx_tasks_title_search ON public.tasks
+  USING GIN (to_tsvector('simple', public.search_normalize(title)));
+CREATE INDEX idx_tasks_title_trgm ON public.tasks
+  USING GIN (public.search_normalize(title) extensions.gin_trgm_ops);
+
+-- Keyset pagination: (sort column, id) per organization
+CREATE INDEX idx_clients_org_name ON public.clients(organization_id, name, id);
+CREATE INDEX idx_clients_org_created_at ON public.clients(organization_id, created_at, id);
+CREATE INDEX idx_tasks_org_due_date ON public.tasks(organization_id, due_date, id);
+CREATE INDEX idx_tasks_org_title ON public.tasks(organization_id, title, id);
+CREATE INDEX idx_tasks_org_created_at ON public.tasks(organization_id, created_at, id);
+
+-- The search functions have no SET clause and qualify every name so that
+-- PostgreSQL can inline them into the caller's query, where the ORDER BY,
+-- LIMIT and keyset filters can use the indexes above. They run with the
+-- caller's rights: RLS still applies.
+CREATE OR REPLACE FUNCTION public.search_clients(target_organization_id UUID, search TEXT DEFAULT NULL)
+RETURNS SETOF public.clients
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.*
+  FROM public.clients c
+  WHERE c.organization_id = target_organization_id
+    AND (
+      coalesce(btrim(search), '') = ''
+      OR to_tsvector('simple', public.search_normalize(c.name)) @@ public.search_prefix_query(search)
+      OR public.search_normalize(c.name) LIKE '%' || public.search_normalize(btrim(search)) || '%'
+      OR public.search_normalize(c.name) OPERATOR(extensions.%) public.search_normalize(btrim(search))
+      OR (
+        length(public.normalize_cpf_cnpj(search)) >= 3
+        AND c.cpf_cnpj LIKE '%' || public.normalize_cpf_cnpj(search) || '%'
+      )
+    );
+$$;
+
+-- Tasks match on their title or on their client's name and CPF/CNPJ
+CREATE OR REPLACE FUNCTION public.search_tasks(target_organization_id UUID, search TEXT DEFAULT NULL)
+RETURNS SETOF public.tasks
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.*
+  FROM public.tasks t
+  WHERE t.organization_id = target_organization_id
+    AND (
+      coalesce(btrim(search), '') = ''
+      OR to_tsvector('simple', public.search_normalize(t.title)) @@ public.search_prefix_query(search)
+      OR public.search_normalize(t.title) LIKE '%' || public.search_normalize(btrim(search)) || '%'
+      OR public.search_normalize(t.title) OPERATOR(extensions.%) public.search_normalize(btrim(search))
+      OR t.client_id IN (SELECT id FROM public.search_clients(target_organization_id, search))
+    );
+$$;
@@ -0,0 +1,79 @@
+-- Dashboard data in a single call
+--
+-- The counters are "as of today" in the given time zone; the task_type and
+-- client breakdowns cover the tasks due within the date range. Tasks can be
+-- limited to one assignee (the dashboard shows the user's own tasks). Runs
+-- with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.dashboard_summary(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  target_assignee_id UUID DEFAULT NULL,
+  client_limit INTEGER DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clock AS (
+    SELECT (now() AT TIME ZONE time_zone)::date AS today
+  ),
+  scoped AS (
+    SELECT t.*, t.status <> 'concluida' AS open, t.status <> 'concluida' AND t.due_date < clock.today AS overdue
+    FROM public.tasks t, clock
+    WHERE t.organization_id = target_organization_id
+      AND (target_assignee_id IS NULL OR t.assignee_id = target_assignee_id)
+  ),
+  in_range AS (
+    SELECT * FROM scoped WHERE due_date BETWEEN range_start AND range_end
+  )
+  SELECT jsonb_build_object(
+    'today', clock.today,
+    'total_clients', (
+      SELECT count(*) FROM public.clients WHERE organization_id = target_organization_id
+    ),
+    'pending_tasks', (SELECT count(*) FROM scoped WHERE open),
+    'today_tasks', (SELECT count(*) FROM scoped WHERE open AND due_date = clock.today),
+    'overdue_tasks', (SELECT count(*) FROM scoped WHERE overdue),
+    'upcoming_tasks', coalesce((
+      SELECT jsonb_agg(to_jsonb(upcoming) ORDER BY upcoming.due_date, upcoming.id)
+      FROM (
+        SELECT s.id, s.title, s.status, s.due_date, s.completed_at, c.name AS client_name
+        FROM scoped s
+        LEFT JOIN public.clients c ON c.id = s.client_id
+        WHERE s.open
+        ORDER BY s.due_date, s.id
+        LIMIT 5
+      ) upcoming
+    ), '[]'),
+    'by_task_type', coalesce((
+      SELECT jsonb_agg(to_jsonb(types) ORDER BY types.total DESC, types.task_type)
+      FROM (
+        SELECT task_type,
+               count(*) AS total,
+               count(*) FILTER (WHERE open) AS open,
+               count(*) FILTER (WHERE overdue) AS overdue
+        FROM in_range
+        GROUP BY task_type
+      ) types
+    ), '[]'),
+    'by_client', coalesce((
+      SELECT jsonb_agg(to_jsonb(per_client) ORDER BY per_client.total DESC, per_client.client_name)
+      FROM (
+        SELECT r.client_id,
+               c.name AS client_name,
+               count(*) AS total,
+               count(*) FILTER (WHERE r.open) AS open,
+               count(*) FILTER (WHERE r.overdue) AS overdue
+        FROM in_range r
+        LEFT JOIN public.clients c ON c.id = r.client_id
+        GROUP BY r.client_id, c.name
+        ORDER BY count(*) DESC, c.name
+        LIMIT client_limit
+      ) per_client
+    ), '[]')
+  )
+  FROM clock;
+$$;
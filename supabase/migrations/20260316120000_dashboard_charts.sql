@@ -0,0 +1,82 @@
+-- Dashboard charts
+--
+-- Aggregates behind the workload, delivery trend and top clients charts, for
+-- every task of the organization. Weeks start on Sunday, like the calendar.
+-- Run with the caller's rights, so RLS still applies.
+
+-- Tasks due per week and task type
+CREATE OR REPLACE FUNCTION public.dashboard_workload(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE
+)
+RETURNS TABLE (week_start DATE, task_type public.task_type, total BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.due_date - extract(dow FROM t.due_date)::int AS week_start, t.task_type, count(*) AS total
+  FROM public.tasks t
+  WHERE t.organization_id = target_organization_id
+    AND t.due_date BETWEEN range_start AND range_end
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- Tasks due per month: completed on time, completed late and still open past due
+CREATE OR REPLACE FUNCTION public.dashboard_delivery_trend(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (month DATE, on_time BIGINT, late BIGINT, overdue BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', t.due_date)::date AS month,
+         count(*) FILTER (
+           WHERE t.status = 'concluida' AND (t.completed_at AT TIME ZONE time_zone)::date <= t.due_date
+         ) AS on_time,
+         count(*) FILTER (
+           WHERE t.status = 'concluida' AND (t.completed_at AT TIME ZONE time_zone)::date > t.due_date
+         ) AS late,
+         count(*) FILTER (
+           WHERE t.status <> 'concluida' AND t.due_date < (now() AT TIME ZONE time_zone)::date
+         ) AS overdue
+  FROM public.tasks t
+  WHERE t.organization_id = target_organization_id
+    AND t.due_date BETWEEN range_start AND range_end
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Clients with the most open tasks due within the range; either bound may be
+-- left out, e.g. to include everything already overdue
+CREATE OR REPLACE FUNCTION public.dashboard_top_clients(
+  target_organization_id UUID,
+  range_start DATE DEFAULT NULL,
+  range_end DATE DEFAULT NULL,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  client_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (client_id UUID, client_name TEXT, open BIGINT, overdue BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.client_id,
+         c.name AS client_name,
+         count(*) AS open,
+         count(*) FILTER (WHERE t.due_date < (now() AT TIME ZONE time_zone)::date) AS overdue
+  FROM public.tasks t
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  WHERE t.organization_id = target_organization_id
+    AND t.status <> 'concluida'
+    AND (range_start IS NULL OR t.due_date >= range_start)
+    AND (range_end IS NULL OR t.due_date <= range_end)
+  GROUP BY t.client_id, c.name
+  ORDER BY count(*) DESC, c.name
+  LIMIT client_limit;
+$$;
@@ -0,0 +1,87 @@
+-- Customizable dashboard
+--
+-- Each user arranges their own dashboard: the widgets, their size, order and
+-- filters are kept on the profile. NULL means the default layout.
+ALTER TABLE public.profiles
+  ADD COLUMN dashboard_layout JSONB;
+
+-- Widgets can narrow the summary to a task type and choose how many upcoming
+-- tasks to list
+DROP FUNCTION public.dashboard_summary(UUID, DATE, DATE, TEXT, UUID, INTEGER);
+
+CREATE FUNCTION public.dashboard_summary(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  target_assignee_id UUID DEFAULT NULL,
+  client_limit INTEGER DEFAULT 10,
+  target_task_type public.task_type DEFAULT NULL,
+  upcoming_limit INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clock AS (
+    SELECT (now() AT TIME ZONE time_zone)::date AS today
+  ),
+  scoped AS (
+    SELECT t.*, t.status <> 'concluida' AS open, t.status <> 'concluida' AND t.due_date < clock.today AS overdue
+    FROM public.tasks t, clock
+    WHERE t.organization_id = target_organization_id
+      AND (target_assignee_id IS NULL OR t.assignee_id = target_assignee_id)
+      AND (target_task_type IS NULL OR t.task_type = target_task_type)
+  ),
+  in_range AS (
+    SELECT * FROM scoped WHERE due_date BETWEEN range_start AND range_end
+  )
+  SELECT jsonb_build_object(
+    'today', clock.today,
+    'total_clients', (
+      SELECT count(*) FROM public.clients WHERE organization_id = target_organization_id
+    ),
+    'pending_tasks', (SELECT count(*) FROM scoped WHERE open),
+    'today_tasks', (SELECT count(*) FROM scoped WHERE open AND due_date = clock.today),
+    'overdue_tasks', (SELECT count(*) FROM scoped WHERE overdue),
+    'upcoming_tasks', coalesce((
+      SELECT jsonb_agg(to_jsonb(upcoming) ORDER BY upcoming.due_date, upcoming.id)
+      FROM (
+        SELECT s.id, s.title, s.status, s.due_date, s.completed_at, c.name AS client_name
+        FROM scoped s
+        LEFT JOIN public.clients c ON c.id = s.client_id
+        WHERE s.open
+        ORDER BY s.due_date, s.id
+        LIMIT upcoming_limit
+      ) upcoming
+    ), '[]'),
+    'by_task_type', coalesce((
+      SELECT jsonb_agg(to_jsonb(types) ORDER BY types.total DESC, types.task_type)
+      FROM (
+        SELECT task_type,
+               count(*) AS total,
+               count(*) FILTER (WHERE open) AS open,
+               count(*) FILTER (WHERE overdue) AS overdue
+        FROM in_range
+        GROUP BY task_type
+      ) types
+    ), '[]'),
+    'by_client', coalesce((
+      SELECT jsonb_agg(to_jsonb(per_client) ORDER BY per_client.total DESC, per_client.client_name)
+      FROM (
+        SELECT r.client_id,
+               c.name AS client_name,
+               count(*) AS total,
+               count(*) FILTER (WHERE r.open) AS open,
+               count(*) FILTER (WHERE r.overdue) AS overdue
+        FROM in_range r
+        LEFT JOIN public.clients c ON c.id = r.client_id
+        GROUP BY r.client_id, c.name
+        ORDER BY count(*) DESC, c.name
+        LIMIT client_limit
+      ) per_client
+    ), '[]')
+  )
+  FROM clock;
+$$;
@@ -0,0 +1,160 @@
+-- Documents attached only to a task
+--
+-- A document needs a client or a task, so the task's ON DELETE SET NULL
+-- cannot apply to documents uploaded on a task without a client: deleting
+-- the task would break the check. Those documents go with the task, as a
+-- client's documents go with the client; documents that also belong to a
+-- client stay and only lose the task link.
+
+CREATE OR REPLACE FUNCTION public.delete_task_only_documents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.documents WHERE task_id = OLD.id AND client_id IS NULL;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_task_only_documents
+  BEFORE DELETE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_task_only_documents();
+
+-- Bulk deletes keep the task-only documents and their versions whole, so
+-- undo can put them back (the files stay in storage)
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(
+  target_organization_id UUID,
+  target_task_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  ids UUID[];
+  snapshot JSONB;
+  operation_id UUID;
+BEGIN
+  IF NOT public.has_org_role(target_organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]) THEN
+    RAISE EXCEPTION 'Sem permissão para excluir tarefas' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT array_agg(id) INTO ids
+  FROM public.tasks
+  WHERE organization_id = target_organization_id AND id = ANY(target_task_ids);
+
+  IF ids IS NULL THEN
+    RETURN jsonb_build_object('operation_id', NULL, 'deleted', 0);
+  END IF;
+
+  SELECT jsonb_build_object(
+    'tasks', (SELECT coalesce(jsonb_agg(to_jsonb(t)), '[]') FROM public.tasks t WHERE t.id = ANY(ids)),
+    'checklist_items', (SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]') FROM public.task_checklist_items c WHERE c.task_id = ANY(ids)),
+    'status_history', (SELECT coalesce(jsonb_agg(to_jsonb(h)), '[]') FROM public.task_status_history h WHERE h.task_id = ANY(ids)),
+    'assignments', (SELECT coalesce(jsonb_agg(to_jsonb(a)), '[]') FROM public.task_assignments a WHERE a.task_id = ANY(ids)),
+    'documents', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', d.id, 'task_id', d.task_id)), '[]')
+      FROM public.documents d
+      WHERE d.task_id = ANY(ids) AND d.client_id IS NOT NULL
+    ),
+    'task_documents', (
+      SELECT coalesce(jsonb_agg(to_jsonb(d)), '[]')
+      FROM public.documents d
+      WHERE d.task_id = ANY(ids) AND d.client_id IS NULL
+    ),
+    'task_document_versions', (
+      SELECT coalesce(jsonb_agg(to_jsonb(v)), '[]')
+      FROM public.document_versions v
+      JOIN public.documents d ON d.id = v.document_id
+      WHERE d.task_id = ANY(ids) AND d.client_id IS NULL
+    )
+  ) INTO snapshot;
+
+  DELETE FROM public.tasks WHERE id = ANY(ids);
+
+  INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+  VALUES (target_organization_id, auth.uid(), 'delete', array_length(ids, 1), snapshot)
+  RETURNING id INTO operation_id;
+
+  RETURN jsonb_build_object('operation_id', operation_id, 'deleted', array_length(ids, 1));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.undo_task_bulk_operation(target_operation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  operation public.task_bulk_operations;
+BEGIN
+  SELECT * INTO operation
+  FROM public.task_bulk_operations
+  WHERE id = target_operation_id AND performed_by = auth.uid()
+  FOR UPDATE;
+
+  IF operation.id IS NULL OR NOT public.is_org_member(operation.organization_id) THEN
+    RAISE EXCEPTION 'Operação não encontrada' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF operation.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta operação já foi desfeita' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', 'on', true);
+  PERFORM set_config('app.status_comment', 'Ação em lote desfeita', true);
+
+  IF operation.action = 'update' THEN
+    UPDATE public.tasks t
+    SET status = s.status,
+        due_date = s.due_date,
+        task_type = s.task_type,
+        client_id = s.client_id,
+        assignee_id = s.assignee_id,
+        completed_at = s.completed_at,
+        completed_by = s.completed_by
+    FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks') s
+    WHERE t.id = s.id AND t.organization_id = operation.organization_id;
+  ELSE
+    INSERT INTO public.tasks
+    SELECT * FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_checklist_items
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_checklist_items, operation.snapshot->'checklist_items')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_status_history
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_status_history, operation.snapshot->'status_history')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_assignments
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_assignments, operation.snapshot->'assignments')
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.documents d
+    SET task_id = (link->>'task_id')::uuid
+    FROM jsonb_array_elements(operation.snapshot->'documents') link
+    WHERE d.id = (link->>'id')::uuid AND d.task_id IS NULL;
+
+    -- Snapshots taken before task-only documents were kept have neither key
+    INSERT INTO public.documents
+    SELECT * FROM jsonb_populate_recordset(NULL::public.documents, coalesce(operation.snapshot->'task_documents', '[]'))
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.document_versions
+    SELECT * FROM jsonb_populate_recordset(NULL::public.document_versions, coalesce(operation.snapshot->'task_document_versions', '[]'))
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', '', true);
+  PERFORM set_config('app.status_comment', '', true);
+
+  UPDATE public.task_bulk_operations SET undone_at = now() WHERE id = operation.id;
+
+  RETURN operation.task_count;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Member roles
+--
+-- Only owners may touch an owner's membership: the update policy checked the
+-- new row only, so an admin could demote the owner. Accepting an invitation
+-- no longer changes the role of someone who is already a member either, or an
+-- owner accepting a lower invitation would leave the office without an owner.
+
+DROP POLICY "Owners and admins can update members" ON public.organization_members;
+
+CREATE POLICY "Owners and admins can update members"
+  ON public.organization_members FOR UPDATE
+  USING (
+    public.has_org_role(organization_id, ARRAY['owner', 'admin']::organization_role[])
+    AND (role <> 'owner' OR public.has_org_role(organization_id, ARRAY['owner']::organization_role[]))
+  )
+  WITH CHECK (role <> 'owner' OR public.has_org_role(organization_id, ARRAY['owner']::organization_role[]));
+
+CREATE OR REPLACE FUNCTION public.accept_invitation(invitation_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.organization_invitations;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.organization_invitations
+  WHERE token = invitation_token;
+
+  IF invitation IS NULL OR invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Convite inválido ou já utilizado' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Convite expirado' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF lower(invitation.email) <> lower(auth.jwt()->>'email') THEN
+    RAISE EXCEPTION 'Este convite foi enviado para outro e-mail' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Existing members keep their role; it is changed from the team page
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (invitation.organization_id, auth.uid(), invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE public.organization_invitations
+  SET accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.organization_id;
+END;
+$$;
@@ -0,0 +1,190 @@
+-- Time zone validation
+--
+-- An unknown zone makes `AT TIME ZONE` raise, so a single bad profile broke
+-- every task write of its account (sync_task_overdue_status) and the hourly
+-- refresh_overdue_tasks of all accounts. Profiles only take zones the
+-- database knows, and the dashboard functions reject unknown ones up front.
+
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(zone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = zone);
+$$;
+
+-- Returns the zone, or raises when the database does not know it
+CREATE OR REPLACE FUNCTION public.checked_time_zone(zone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_valid_time_zone(zone) THEN
+    RAISE EXCEPTION 'Fuso horário inválido: %', zone
+      USING ERRCODE = 'invalid_parameter_value', HINT = 'time_zone';
+  END IF;
+  RETURN zone;
+END;
+$$;
+
+UPDATE public.profiles
+SET time_zone = 'America/Sao_Paulo'
+WHERE NOT public.is_valid_time_zone(time_zone);
+
+CREATE OR REPLACE FUNCTION public.validate_profile_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.checked_time_zone(NEW.time_zone);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profile_time_zone
+  BEFORE INSERT OR UPDATE OF time_zone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_profile_time_zone();
+
+-- Dashboard functions: the zone comes from the caller and is checked once
+CREATE OR REPLACE FUNCTION public.dashboard_delivery_trend(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (month DATE, on_time BIGINT, late BIGINT, overdue BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH zone AS (
+    SELECT public.checked_time_zone(time_zone) AS name
+  )
+  SELECT date_trunc('month', t.due_date)::date AS month,
+         count(*) FILTER (
+           WHERE t.status = 'concluida' AND (t.completed_at AT TIME ZONE zone.name)::date <= t.due_date
+         ) AS on_time,
+         count(*) FILTER (
+           WHERE t.status = 'concluida' AND (t.completed_at AT TIME ZONE zone.name)::date > t.due_date
+         ) AS late,
+         count(*) FILTER (
+           WHERE t.status <> 'concluida' AND t.due_date < (now() AT TIME ZONE zone.name)::date
+         ) AS overdue
+  FROM public.tasks t, zone
+  WHERE t.organization_id = target_organization_id
+    AND t.due_date BETWEEN range_start AND range_end
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dashboard_top_clients(
+  target_organization_id UUID,
+  range_start DATE DEFAULT NULL,
+  range_end DATE DEFAULT NULL,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  client_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (client_id UUID, client_name TEXT, open BIGINT, overdue BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clock AS (
+    SELECT (now() AT TIME ZONE public.checked_time_zone(time_zone))::date AS today
+  )
+  SELECT t.client_id,
+         c.name AS client_name,
+         count(*) AS open,
+         count(*) FILTER (WHERE t.due_date < clock.today) AS overdue
+  FROM public.tasks t
+  CROSS JOIN clock
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  WHERE t.organization_id = target_organization_id
+    AND t.status <> 'concluida'
+    AND (range_start IS NULL OR t.due_date >= range_start)
+    AND (range_end IS NULL OR t.due_date <= range_end)
+  GROUP BY t.client_id, c.name
+  ORDER BY count(*) DESC, c.name
+  LIMIT client_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dashboard_summary(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  target_assignee_id UUID DEFAULT NULL,
+  client_limit INTEGER DEFAULT 10,
+  target_task_type public.task_type DEFAULT NULL,
+  upcoming_limit INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clock AS (
+    SELECT (now() AT TIME ZONE public.checked_time_zone(time_zone))::date AS today
+  ),
+  scoped AS (
+    SELECT t.*, t.status <> 'concluida' AS open, t.status <> 'concluida' AND t.due_date < clock.today AS overdue
+    FROM public.tasks t, clock
+    WHERE t.organization_id = target_organization_id
+      AND (target_assignee_id IS NULL OR t.assignee_id = target_assignee_id)
+      AND (target_task_type IS NULL OR t.task_type = target_task_type)
+  ),
+  in_range AS (
+    SELECT * FROM scoped WHERE due_date BETWEEN range_start AND range_end
+  )
+  SELECT jsonb_build_object(
+    'today', clock.today,
+    'total_clients', (
+      SELECT count(*) FROM public.clients WHERE organization_id = target_organization_id
+    ),
+    'pending_tasks', (SELECT count(*) FROM scoped WHERE open),
+    'today_tasks', (SELECT count(*) FROM scoped WHERE open AND due_date = clock.today),
+    'overdue_tasks', (SELECT count(*) FROM scoped WHERE overdue),
+    'upcoming_tasks', coalesce((
+      SELECT jsonb_agg(to_jsonb(upcoming) ORDER BY upcoming.due_date, upcoming.id)
+      FROM (
+        SELECT s.id, s.title, s.status, s.due_date, s.completed_at, c.name AS client_name
+        FROM scoped s
+        LEFT JOIN public.clients c ON c.id = s.client_id
+        WHERE s.open
+        ORDER BY s.due_date, s.id
+        LIMIT upcoming_limit
+      ) upcoming
+    ), '[]'),
+    'by_task_type', coalesce((
+      SELECT jsonb_agg(to_jsonb(types) ORDER BY types.total DESC, types.task_type)
+      FROM (
+        SELECT task_type,
+               count(*) AS total,
+               count(*) FILTER (WHERE open) AS open,
+               count(*) FILTER (WHERE overdue) AS overdue
+        FROM in_range
+        GROUP BY task_type
+      ) types
+    ), '[]'),
+    'by_client', coalesce((
+      SELECT jsonb_agg(to_jsonb(per_client) ORDER BY per_client.total DESC, per_client.client_name)
+      FROM (
+        SELECT r.client_id,
+               c.name AS client_name,
+               count(*) AS total,
+               count(*) FILTER (WHERE r.open) AS open,
+               count(*) FILTER (WHERE r.overdue) AS overdue
+        FROM in_range r
+        LEFT JOIN public.clients c ON c.id = r.client_id
+        GROUP BY r.client_id, c.name
+        ORDER BY count(*) DESC, c.name
+        LIMIT client_limit
+      ) per_client
+    ), '[]')
+  )
+  FROM clock;
+$$;
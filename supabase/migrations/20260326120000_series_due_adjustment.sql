@@ -0,0 +1,7 @@
+-- Recurring tasks follow the same rule as templates and obligations: an
+-- occurrence that falls on a weekend or holiday moves to the previous
+-- (antecipar) or next (postergar) business day. The move is computed when the
+-- next occurrence is created (see src/lib/recurrence.ts).
+ALTER TABLE public.task_series
+  ADD COLUMN due_adjustment TEXT NOT NULL DEFAULT 'antecipar'
+    CHECK (due_adjustment IN ('antecipar', 'postergar'));
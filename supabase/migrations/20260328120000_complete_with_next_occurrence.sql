@@ -0,0 +1,56 @@
+-- Completing an occurrence of a series and creating the next one happen in
+-- the same call, so a failure cannot leave the series without its next
+-- occurrence. The client computes the next due date (the recurrence rule and
+-- the office's holiday calendar live in src/lib/recurrence.ts) and passes it
+-- with the explanation of a move to a business day.
+DROP FUNCTION public.set_task_status(UUID, task_status, TEXT, TEXT, UUID);
+
+CREATE FUNCTION public.set_task_status(
+  target_task_id UUID,
+  new_status task_status,
+  receipt TEXT DEFAULT NULL,
+  status_comment TEXT DEFAULT NULL,
+  reviewer UUID DEFAULT NULL,
+  next_due_date DATE DEFAULT NULL,
+  next_due_note TEXT DEFAULT NULL
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  result public.tasks;
+BEGIN
+  PERFORM set_config('app.status_comment', coalesce(status_comment, ''), true);
+
+  UPDATE public.tasks
+  SET status = new_status,
+      receipt_number = coalesce(nullif(btrim(receipt), ''), receipt_number),
+      reviewer_id = coalesce(reviewer, reviewer_id)
+  WHERE id = target_task_id
+  RETURNING * INTO result;
+
+  PERFORM set_config('app.status_comment', '', true);
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Tarefa não encontrada' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Completing twice (complete → reopen → complete) finds the occurrence
+  -- already created and leaves it alone
+  IF new_status = 'concluida' AND result.series_id IS NOT NULL AND next_due_date IS NOT NULL THEN
+    INSERT INTO public.tasks (
+      title, description, task_type, client_id, assignee_id, reviewer_id,
+      due_date, series_id, user_id, organization_id
+    )
+    SELECT s.title, nullif(concat_ws(E'\n', s.description, next_due_note), ''), s.task_type,
+           s.client_id, s.assignee_id, s.reviewer_id,
+           next_due_date, s.id, s.user_id, s.organization_id
+    FROM public.task_series s
+    WHERE s.id = result.series_id
+    ON CONFLICT (series_id, due_date) DO NOTHING;
+  END IF;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,185 @@
+-- Bulk completion creates the next occurrence of recurring tasks
+--
+-- Completing occurrences in bulk creates the occurrences that follow them in
+-- the same call, as set_task_status does for a single task, and undo deletes
+-- them again. The client computes the due dates (see src/lib/recurrence.ts)
+-- and passes them keyed by task id: {"<task id>": {"due_date", "note"}}.
+DROP FUNCTION public.bulk_update_tasks(UUID, UUID[], JSONB, TEXT);
+
+CREATE FUNCTION public.bulk_update_tasks(
+  target_organization_id UUID,
+  target_task_ids UUID[],
+  changes JSONB,
+  status_comment TEXT DEFAULT NULL,
+  next_occurrences JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  task public.tasks;
+  previous JSONB := '[]';
+  skipped UUID[] := '{}';
+  created UUID[] := '{}';
+  created_id UUID;
+  next_occurrence JSONB;
+  operation_id UUID;
+BEGIN
+  PERFORM set_config('app.status_comment', coalesce(status_comment, ''), true);
+
+  FOR task IN
+    SELECT * FROM public.tasks
+    WHERE organization_id = target_organization_id AND id = ANY(target_task_ids)
+    ORDER BY due_date
+    FOR UPDATE
+  LOOP
+    BEGIN
+      UPDATE public.tasks
+      SET status = CASE WHEN changes ? 'status' THEN (changes->>'status')::task_status ELSE status END,
+          due_date = CASE
+            WHEN changes ? 'due_date' THEN (changes->>'due_date')::date
+            WHEN changes ? 'shift_days' THEN due_date + (changes->>'shift_days')::integer
+            ELSE due_date
+          END,
+          task_type = CASE WHEN changes ? 'task_type' THEN (changes->>'task_type')::task_type ELSE task_type END,
+          client_id = CASE WHEN changes ? 'client_id' THEN (changes->>'client_id')::uuid ELSE client_id END,
+          assignee_id = CASE WHEN changes ? 'assignee_id' THEN (changes->>'assignee_id')::uuid ELSE assignee_id END
+      WHERE id = task.id;
+
+      -- An occurrence that already exists (completed, reopened, completed
+      -- again) is left alone and not deleted by undo
+      next_occurrence := next_occurrences->(task.id::text);
+      IF changes->>'status' = 'concluida' AND task.status <> 'concluida'
+        AND task.series_id IS NOT NULL AND next_occurrence IS NOT NULL THEN
+        INSERT INTO public.tasks (
+          title, description, task_type, client_id, assignee_id, reviewer_id,
+          due_date, series_id, user_id, organization_id
+        )
+        SELECT s.title, nullif(concat_ws(E'\n', s.description, next_occurrence->>'note'), ''), s.task_type,
+               s.client_id, s.assignee_id, s.reviewer_id,
+               (next_occurrence->>'due_date')::date, s.id, s.user_id, s.organization_id
+        FROM public.task_series s
+        WHERE s.id = task.series_id
+        ON CONFLICT (series_id, due_date) DO NOTHING
+        RETURNING id INTO created_id;
+
+        IF created_id IS NOT NULL THEN
+          created := created || created_id;
+        END IF;
+      END IF;
+
+      previous := previous || jsonb_build_array(to_jsonb(task));
+    EXCEPTION
+      WHEN check_violation OR not_null_violation OR unique_violation THEN
+        skipped := skipped || task.id;
+    END;
+  END LOOP;
+
+  PERFORM set_config('app.status_comment', '', true);
+
+  IF jsonb_array_length(previous) > 0 THEN
+    INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+    VALUES (
+      target_organization_id,
+      auth.uid(),
+      'update',
+      jsonb_array_length(previous),
+      jsonb_build_object('tasks', previous, 'created_task_ids', to_jsonb(created))
+    )
+    RETURNING id INTO operation_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'operation_id', operation_id,
+    'updated', jsonb_array_length(previous),
+    'skipped', to_jsonb(skipped)
+  );
+END;
+$$;
+
+-- Undoing a bulk update also deletes the occurrences it created
+CREATE OR REPLACE FUNCTION public.undo_task_bulk_operation(target_operation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  operation public.task_bulk_operations;
+BEGIN
+  SELECT * INTO operation
+  FROM public.task_bulk_operations
+  WHERE id = target_operation_id AND performed_by = auth.uid()
+  FOR UPDATE;
+
+  IF operation.id IS NULL OR NOT public.is_org_member(operation.organization_id) THEN
+    RAISE EXCEPTION 'Operação não encontrada' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF operation.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta operação já foi desfeita' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', 'on', true);
+  PERFORM set_config('app.status_comment', 'Ação em lote desfeita', true);
+
+  IF operation.action = 'update' THEN
+    UPDATE public.tasks t
+    SET status = s.status,
+        due_date = s.due_date,
+        task_type = s.task_type,
+        client_id = s.client_id,
+        assignee_id = s.assignee_id,
+        completed_at = s.completed_at,
+        completed_by = s.completed_by
+    FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks') s
+    WHERE t.id = s.id AND t.organization_id = operation.organization_id;
+
+    -- Snapshots taken before completions created occurrences have no ids
+    DELETE FROM public.tasks
+    WHERE organization_id = operation.organization_id
+      AND id IN (
+        SELECT created.id::uuid
+        FROM jsonb_array_elements_text(coalesce(operation.snapshot->'created_task_ids', '[]')) created(id)
+      );
+  ELSE
+    INSERT INTO public.tasks
+    SELECT * FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_checklist_items
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_checklist_items, operation.snapshot->'checklist_items')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_status_history
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_status_history, operation.snapshot->'status_history')
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_assignments
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_assignments, operation.snapshot->'assignments')
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.documents d
+    SET task_id = (link->>'task_id')::uuid
+    FROM jsonb_array_elements(operation.snapshot->'documents') link
+    WHERE d.id = (link->>'id')::uuid AND d.task_id IS NULL;
+
+    -- Snapshots taken before task-only documents were kept have neither key
+    INSERT INTO public.documents
+    SELECT * FROM jsonb_populate_recordset(NULL::public.documents, coalesce(operation.snapshot->'task_documents', '[]'))
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.document_versions
+    SELECT * FROM jsonb_populate_recordset(NULL::public.document_versions, coalesce(operation.snapshot->'task_document_versions', '[]'))
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', '', true);
+  PERFORM set_config('app.status_comment', '', true);
+
+  UPDATE public.task_bulk_operations SET undone_at = now() WHERE id = operation.id;
+
+  RETURN operation.task_count;
+END;
+$$;
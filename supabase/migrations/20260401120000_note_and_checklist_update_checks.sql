@@ -0,0 +1,33 @@
+-- Updates must leave a row where an insert could have put it: a note stays
+-- with its author, in an organization they belong to and on a client of that
+-- organization; a checklist item stays on a task of its organization.
+DROP POLICY "Members can insert organization client notes" ON public.client_notes;
+
+CREATE POLICY "Members can insert organization client notes"
+  ON public.client_notes FOR INSERT
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.clients WHERE id = client_id AND organization_id = client_notes.organization_id)
+  );
+
+DROP POLICY "Authors can update their client notes" ON public.client_notes;
+
+CREATE POLICY "Authors can update their client notes"
+  ON public.client_notes FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.clients WHERE id = client_id AND organization_id = client_notes.organization_id)
+  );
+
+DROP POLICY "Members can update organization checklist items" ON public.task_checklist_items;
+
+CREATE POLICY "Members can update organization checklist items"
+  ON public.task_checklist_items FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND organization_id = task_checklist_items.organization_id)
+  );
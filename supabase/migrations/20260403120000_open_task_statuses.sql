@@ -0,0 +1,194 @@
+-- Open and delivered tasks
+--
+-- A task transmitted to the tax authority ('transmitida') has been delivered,
+-- even if the office has not concluded it yet: it is no longer open or
+-- overdue, and its transmission is the delivery measured for on-time rates.
+-- is_open_status is the one definition, mirrored by isOpenStatus in
+-- src/lib/tasks.ts.
+CREATE OR REPLACE FUNCTION public.is_open_status(status task_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT status NOT IN ('transmitida', 'concluida');
+$$;
+
+-- Stamp the delivery when a task leaves the open statuses, keep it while it
+-- moves from 'transmitida' to 'concluida', and clear it when the task is
+-- reopened
+CREATE OR REPLACE FUNCTION public.set_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_restoring_tasks() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_open_status(NEW.status) THEN
+    IF TG_OP = 'INSERT' OR public.is_open_status(OLD.status) THEN
+      NEW.completed_at := now();
+      NEW.completed_by := auth.uid();
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+    NEW.completed_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Tasks already transmitted take the time of their latest transmission
+UPDATE public.tasks t
+SET completed_at = h.created_at,
+    completed_by = h.changed_by
+FROM (
+  SELECT DISTINCT ON (task_id) task_id, created_at, changed_by
+  FROM public.task_status_history
+  WHERE to_status = 'transmitida'
+  ORDER BY task_id, created_at DESC
+) h
+WHERE t.id = h.task_id
+  AND t.status = 'transmitida';
+
+-- Dashboard functions count open and delivered tasks through is_open_status
+CREATE OR REPLACE FUNCTION public.dashboard_delivery_trend(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (month DATE, on_time BIGINT, late BIGINT, overdue BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH zone AS (
+    SELECT public.checked_time_zone(time_zone) AS name
+  )
+  SELECT date_trunc('month', t.due_date)::date AS month,
+         count(*) FILTER (
+           WHERE NOT public.is_open_status(t.status) AND (t.completed_at AT TIME ZONE zone.name)::date <= t.due_date
+         ) AS on_time,
+         count(*) FILTER (
+           WHERE NOT public.is_open_status(t.status) AND (t.completed_at AT TIME ZONE zone.name)::date > t.due_date
+         ) AS late,
+         count(*) FILTER (
+           WHERE public.is_open_status(t.status) AND t.due_date < (now() AT TIME ZONE zone.name)::date
+         ) AS overdue
+  FROM public.tasks t, zone
+  WHERE t.organization_id = target_organization_id
+    AND t.due_date BETWEEN range_start AND range_end
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dashboard_top_clients(
+  target_organization_id UUID,
+  range_start DATE DEFAULT NULL,
+  range_end DATE DEFAULT NULL,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  client_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (client_id UUID, client_name TEXT, open BIGINT, overdue BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clock AS (
+    SELECT (now() AT TIME ZONE public.checked_time_zone(time_zone))::date AS today
+  )
+  SELECT t.client_id,
+         c.name AS client_name,
+         count(*) AS open,
+         count(*) FILTER (WHERE t.due_date < clock.today) AS overdue
+  FROM public.tasks t
+  CROSS JOIN clock
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  WHERE t.organization_id = target_organization_id
+    AND public.is_open_status(t.status)
+    AND (range_start IS NULL OR t.due_date >= range_start)
+    AND (range_end IS NULL OR t.due_date <= range_end)
+  GROUP BY t.client_id, c.name
+  ORDER BY count(*) DESC, c.name
+  LIMIT client_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dashboard_summary(
+  target_organization_id UUID,
+  range_start DATE,
+  range_end DATE,
+  time_zone TEXT DEFAULT 'America/Sao_Paulo',
+  target_assignee_id UUID DEFAULT NULL,
+  client_limit INTEGER DEFAULT 10,
+  target_task_type public.task_type DEFAULT NULL,
+  upcoming_limit INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clock AS (
+    SELECT (now() AT TIME ZONE public.checked_time_zone(time_zone))::date AS today
+  ),
+  scoped AS (
+    SELECT t.*, public.is_open_status(t.status) AS open,
+           public.is_open_status(t.status) AND t.due_date < clock.today AS overdue
+    FROM public.tasks t, clock
+    WHERE t.organization_id = target_organization_id
+      AND (target_assignee_id IS NULL OR t.assignee_id = target_assignee_id)
+      AND (target_task_type IS NULL OR t.task_type = target_task_type)
+  ),
+  in_range AS (
+    SELECT * FROM scoped WHERE due_date BETWEEN range_start AND range_end
+  )
+  SELECT jsonb_build_object(
+    'today', clock.today,
+    'total_clients', (
+      SELECT count(*) FROM public.clients WHERE organization_id = target_organization_id
+    ),
+    'pending_tasks', (SELECT count(*) FROM scoped WHERE open),
+    'today_tasks', (SELECT count(*) FROM scoped WHERE open AND due_date = clock.today),
+    'overdue_tasks', (SELECT count(*) FROM scoped WHERE overdue),
+    'upcoming_tasks', coalesce((
+      SELECT jsonb_agg(to_jsonb(upcoming) ORDER BY upcoming.due_date, upcoming.id)
+      FROM (
+        SELECT s.id, s.title, s.status, s.due_date, s.completed_at, c.name AS client_name
+        FROM scoped s
+        LEFT JOIN public.clients c ON c.id = s.client_id
+        WHERE s.open
+        ORDER BY s.due_date, s.id
+        LIMIT upcoming_limit
+      ) upcoming
+    ), '[]'),
+    'by_task_type', coalesce((
+      SELECT jsonb_agg(to_jsonb(types) ORDER BY types.total DESC, types.task_type)
+      FROM (
+        SELECT task_type,
+               count(*) AS total,
+               count(*) FILTER (WHERE open) AS open,
+               count(*) FILTER (WHERE overdue) AS overdue
+        FROM in_range
+        GROUP BY task_type
+      ) types
+    ), '[]'),
+    'by_client', coalesce((
+      SELECT jsonb_agg(to_jsonb(per_client) ORDER BY per_client.total DESC, per_client.client_name)
+      FROM (
+        SELECT r.client_id,
+               c.name AS client_name,
+               count(*) AS total,
+               count(*) FILTER (WHERE r.open) AS open,
+               count(*) FILTER (WHERE r.overdue) AS overdue
+        FROM in_range r
+        LEFT JOIN public.clients c ON c.id = r.client_id
+        GROUP BY r.client_id, c.name
+        ORDER BY count(*) DESC, c.name
+        LIMIT client_limit
+      ) per_client
+    ), '[]')
+  )
+  FROM clock;
+$$;
@@ -0,0 +1,269 @@
+-- Bulk operation snapshots are written by the bulk functions only
+--
+-- Undo runs as definer and puts a snapshot's rows back, so a snapshot must
+-- never come from the client: the insert policy is dropped and the bulk
+-- functions run as definer, checking the membership and the role the task
+-- policies would. Undo also only restores rows of the operation's
+-- organization. The next occurrences created by a bulk completion belong to
+-- the member who ran it, as in set_task_status.
+DROP POLICY "Members can insert their own bulk operations" ON public.task_bulk_operations;
+
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  target_organization_id UUID,
+  target_task_ids UUID[],
+  changes JSONB,
+  status_comment TEXT DEFAULT NULL,
+  next_occurrences JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  task public.tasks;
+  previous JSONB := '[]';
+  skipped UUID[] := '{}';
+  created UUID[] := '{}';
+  created_id UUID;
+  next_occurrence JSONB;
+  operation_id UUID;
+BEGIN
+  IF NOT public.is_org_member(target_organization_id) THEN
+    RAISE EXCEPTION 'Sem permissão para alterar tarefas' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF changes->>'client_id' IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.clients
+    WHERE id = (changes->>'client_id')::uuid AND organization_id = target_organization_id
+  ) THEN
+    RAISE EXCEPTION 'O cliente não faz parte do escritório' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.status_comment', coalesce(status_comment, ''), true);
+
+  FOR task IN
+    SELECT * FROM public.tasks
+    WHERE organization_id = target_organization_id AND id = ANY(target_task_ids)
+    ORDER BY due_date
+    FOR UPDATE
+  LOOP
+    BEGIN
+      UPDATE public.tasks
+      SET status = CASE WHEN changes ? 'status' THEN (changes->>'status')::task_status ELSE status END,
+          due_date = CASE
+            WHEN changes ? 'due_date' THEN (changes->>'due_date')::date
+            WHEN changes ? 'shift_days' THEN due_date + (changes->>'shift_days')::integer
+            ELSE due_date
+          END,
+          task_type = CASE WHEN changes ? 'task_type' THEN (changes->>'task_type')::task_type ELSE task_type END,
+          client_id = CASE WHEN changes ? 'client_id' THEN (changes->>'client_id')::uuid ELSE client_id END,
+          assignee_id = CASE WHEN changes ? 'assignee_id' THEN (changes->>'assignee_id')::uuid ELSE assignee_id END
+      WHERE id = task.id;
+
+      -- An occurrence that already exists (completed, reopened, completed
+      -- again) is left alone and not deleted by undo
+      next_occurrence := next_occurrences->(task.id::text);
+      IF changes->>'status' = 'concluida' AND task.status <> 'concluida'
+        AND task.series_id IS NOT NULL AND next_occurrence IS NOT NULL THEN
+        INSERT INTO public.tasks (
+          title, description, task_type, client_id, assignee_id, reviewer_id,
+          due_date, series_id, user_id, organization_id
+        )
+        SELECT s.title, nullif(concat_ws(E'\n', s.description, next_occurrence->>'note'), ''), s.task_type,
+               s.client_id, s.assignee_id, s.reviewer_id,
+               (next_occurrence->>'due_date')::date, s.id, auth.uid(), s.organization_id
+        FROM public.task_series s
+        WHERE s.id = task.series_id
+        ON CONFLICT (series_id, due_date) DO NOTHING
+        RETURNING id INTO created_id;
+
+        IF created_id IS NOT NULL THEN
+          created := created || created_id;
+        END IF;
+      END IF;
+
+      previous := previous || jsonb_build_array(to_jsonb(task));
+    EXCEPTION
+      WHEN check_violation OR not_null_violation OR unique_violation THEN
+        skipped := skipped || task.id;
+    END;
+  END LOOP;
+
+  PERFORM set_config('app.status_comment', '', true);
+
+  IF jsonb_array_length(previous) > 0 THEN
+    INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+    VALUES (
+      target_organization_id,
+      auth.uid(),
+      'update',
+      jsonb_array_length(previous),
+      jsonb_build_object('tasks', previous, 'created_task_ids', to_jsonb(created))
+    )
+    RETURNING id INTO operation_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'operation_id', operation_id,
+    'updated', jsonb_array_length(previous),
+    'skipped', to_jsonb(skipped)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(
+  target_organization_id UUID,
+  target_task_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ids UUID[];
+  snapshot JSONB;
+  operation_id UUID;
+BEGIN
+  IF NOT public.has_org_role(target_organization_id, ARRAY['owner', 'admin', 'contador']::organization_role[]) THEN
+    RAISE EXCEPTION 'Sem permissão para excluir tarefas' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT array_agg(id) INTO ids
+  FROM public.tasks
+  WHERE organization_id = target_organization_id AND id = ANY(target_task_ids);
+
+  IF ids IS NULL THEN
+    RETURN jsonb_build_object('operation_id', NULL, 'deleted', 0);
+  END IF;
+
+  SELECT jsonb_build_object(
+    'tasks', (SELECT coalesce(jsonb_agg(to_jsonb(t)), '[]') FROM public.tasks t WHERE t.id = ANY(ids)),
+    'checklist_items', (SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]') FROM public.task_checklist_items c WHERE c.task_id = ANY(ids)),
+    'status_history', (SELECT coalesce(jsonb_agg(to_jsonb(h)), '[]') FROM public.task_status_history h WHERE h.task_id = ANY(ids)),
+    'assignments', (SELECT coalesce(jsonb_agg(to_jsonb(a)), '[]') FROM public.task_assignments a WHERE a.task_id = ANY(ids)),
+    'documents', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('id', d.id, 'task_id', d.task_id)), '[]')
+      FROM public.documents d
+      WHERE d.task_id = ANY(ids) AND d.client_id IS NOT NULL
+    ),
+    'task_documents', (
+      SELECT coalesce(jsonb_agg(to_jsonb(d)), '[]')
+      FROM public.documents d
+      WHERE d.task_id = ANY(ids) AND d.client_id IS NULL
+    ),
+    'task_document_versions', (
+      SELECT coalesce(jsonb_agg(to_jsonb(v)), '[]')
+      FROM public.document_versions v
+      JOIN public.documents d ON d.id = v.document_id
+      WHERE d.task_id = ANY(ids) AND d.client_id IS NULL
+    )
+  ) INTO snapshot;
+
+  DELETE FROM public.tasks WHERE id = ANY(ids);
+
+  INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+  VALUES (target_organization_id, auth.uid(), 'delete', array_length(ids, 1), snapshot)
+  RETURNING id INTO operation_id;
+
+  RETURN jsonb_build_object('operation_id', operation_id, 'deleted', array_length(ids, 1));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.undo_task_bulk_operation(target_operation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  operation public.task_bulk_operations;
+BEGIN
+  SELECT * INTO operation
+  FROM public.task_bulk_operations
+  WHERE id = target_operation_id AND performed_by = auth.uid()
+  FOR UPDATE;
+
+  IF operation.id IS NULL OR NOT public.is_org_member(operation.organization_id) THEN
+    RAISE EXCEPTION 'Operação não encontrada' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF operation.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta operação já foi desfeita' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', 'on', true);
+  PERFORM set_config('app.status_comment', 'Ação em lote desfeita', true);
+
+  IF operation.action = 'update' THEN
+    UPDATE public.tasks t
+    SET status = s.status,
+        due_date = s.due_date,
+        task_type = s.task_type,
+        client_id = s.client_id,
+        assignee_id = s.assignee_id,
+        completed_at = s.completed_at,
+        completed_by = s.completed_by
+    FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks') s
+    WHERE t.id = s.id AND t.organization_id = operation.organization_id;
+
+    -- Snapshots taken before completions created occurrences have no ids
+    DELETE FROM public.tasks
+    WHERE organization_id = operation.organization_id
+      AND id IN (
+        SELECT created.id::uuid
+        FROM jsonb_array_elements_text(coalesce(operation.snapshot->'created_task_ids', '[]')) created(id)
+      );
+  ELSE
+    INSERT INTO public.tasks
+    SELECT * FROM jsonb_populate_recordset(NULL::public.tasks, operation.snapshot->'tasks') s
+    WHERE s.organization_id = operation.organization_id
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_checklist_items
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_checklist_items, operation.snapshot->'checklist_items') s
+    WHERE s.organization_id = operation.organization_id
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_status_history
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_status_history, operation.snapshot->'status_history') s
+    WHERE s.organization_id = operation.organization_id
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.task_assignments
+    SELECT * FROM jsonb_populate_recordset(NULL::public.task_assignments, operation.snapshot->'assignments') s
+    WHERE s.organization_id = operation.organization_id
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.documents d
+    SET task_id = (link->>'task_id')::uuid
+    FROM jsonb_array_elements(operation.snapshot->'documents') link
+    WHERE d.id = (link->>'id')::uuid
+      AND d.task_id IS NULL
+      AND d.organization_id = operation.organization_id
+      AND EXISTS (
+        SELECT 1 FROM public.tasks t
+        WHERE t.id = (link->>'task_id')::uuid AND t.organization_id = operation.organization_id
+      );
+
+    -- Snapshots taken before task-only documents were kept have neither key
+    INSERT INTO public.documents
+    SELECT * FROM jsonb_populate_recordset(NULL::public.documents, coalesce(operation.snapshot->'task_documents', '[]')) s
+    WHERE s.organization_id = operation.organization_id
+    ON CONFLICT (id) DO NOTHING;
+
+    INSERT INTO public.document_versions
+    SELECT * FROM jsonb_populate_recordset(NULL::public.document_versions, coalesce(operation.snapshot->'task_document_versions', '[]')) s
+    WHERE s.organization_id = operation.organization_id
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  PERFORM set_config('app.restoring_tasks', '', true);
+  PERFORM set_config('app.status_comment', '', true);
+
+  UPDATE public.task_bulk_operations SET undone_at = now() WHERE id = operation.id;
+
+  RETURN operation.task_count;
+END;
+$$;
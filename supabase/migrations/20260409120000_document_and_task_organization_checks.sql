@@ -0,0 +1,51 @@
+-- A document, a document version or a task may only point at clients, tasks
+-- and documents of its own organization, on insert as on update.
+DROP POLICY "Members can insert organization documents" ON public.documents;
+
+CREATE POLICY "Members can insert organization documents"
+  ON public.documents FOR INSERT
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND (client_id IS NULL OR EXISTS (SELECT 1 FROM public.clients WHERE id = client_id AND organization_id = documents.organization_id))
+    AND (task_id IS NULL OR EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND organization_id = documents.organization_id))
+  );
+
+DROP POLICY "Members can update organization documents" ON public.documents;
+
+CREATE POLICY "Members can update organization documents"
+  ON public.documents FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND (client_id IS NULL OR EXISTS (SELECT 1 FROM public.clients WHERE id = client_id AND organization_id = documents.organization_id))
+    AND (task_id IS NULL OR EXISTS (SELECT 1 FROM public.tasks WHERE id = task_id AND organization_id = documents.organization_id))
+  );
+
+DROP POLICY "Members can insert organization document versions" ON public.document_versions;
+
+CREATE POLICY "Members can insert organization document versions"
+  ON public.document_versions FOR INSERT
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND EXISTS (SELECT 1 FROM public.documents WHERE id = document_id AND organization_id = document_versions.organization_id)
+  );
+
+DROP POLICY "Members can insert organization tasks" ON public.tasks;
+
+CREATE POLICY "Members can insert organization tasks"
+  ON public.tasks FOR INSERT
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND auth.uid() = user_id
+    AND (client_id IS NULL OR EXISTS (SELECT 1 FROM public.clients WHERE id = client_id AND organization_id = tasks.organization_id))
+  );
+
+DROP POLICY "Members can update organization tasks" ON public.tasks;
+
+CREATE POLICY "Members can update organization tasks"
+  ON public.tasks FOR UPDATE
+  USING (public.is_org_member(organization_id))
+  WITH CHECK (
+    public.is_org_member(organization_id)
+    AND (client_id IS NULL OR EXISTS (SELECT 1 FROM public.clients WHERE id = client_id AND organization_id = tasks.organization_id))
+  );
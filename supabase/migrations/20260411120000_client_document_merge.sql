@@ -0,0 +1,82 @@
+-- A CPF is stored as digits only: letters are only part of the alphanumeric
+-- CNPJ, so "52998224725X" is the same CPF as "52998224725"
+CREATE OR REPLACE FUNCTION public.validate_client_cpf_cnpj()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cpf_cnpj := CASE
+    WHEN NEW.person_type = 'PF' THEN regexp_replace(coalesce(NEW.cpf_cnpj, ''), '\D', '', 'g')
+    ELSE public.normalize_cpf_cnpj(NEW.cpf_cnpj)
+  END;
+
+  IF NEW.person_type = 'PF' AND NOT public.is_valid_cpf(NEW.cpf_cnpj) THEN
+    RAISE EXCEPTION 'CPF inválido: %', NEW.cpf_cnpj
+      USING ERRCODE = 'check_violation', HINT = 'cpf_cnpj';
+  END IF;
+
+  IF NEW.person_type = 'PJ' AND NOT public.is_valid_cnpj(NEW.cpf_cnpj) THEN
+    RAISE EXCEPTION 'CNPJ inválido: %', NEW.cpf_cnpj
+      USING ERRCODE = 'check_violation', HINT = 'cpf_cnpj';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Merge clients registered more than once in an organization, counting CPFs
+-- stored with letters, into the oldest record: their tasks, series, notes and
+-- documents move to it and it takes the contact details it was missing
+CREATE TEMPORARY TABLE duplicate_clients AS
+SELECT id, keeper_id
+FROM (
+  SELECT id, first_value(id) OVER (
+    PARTITION BY organization_id,
+      CASE WHEN person_type = 'PF' THEN regexp_replace(cpf_cnpj, '\D', '', 'g') ELSE cpf_cnpj END
+    ORDER BY created_at, id
+  ) AS keeper_id
+  FROM public.clients
+) ranked
+WHERE id <> keeper_id;
+
+UPDATE public.clients keeper
+SET email = coalesce(keeper.email, merged.email),
+    phone = coalesce(keeper.phone, merged.phone)
+FROM (
+  SELECT d.keeper_id,
+         (array_agg(c.email ORDER BY c.created_at) FILTER (WHERE c.email IS NOT NULL))[1] AS email,
+         (array_agg(c.phone ORDER BY c.created_at) FILTER (WHERE c.phone IS NOT NULL))[1] AS phone
+  FROM duplicate_clients d
+  JOIN public.clients c ON c.id = d.id
+  GROUP BY d.keeper_id
+) merged
+WHERE keeper.id = merged.keeper_id;
+
+UPDATE public.tasks t
+SET client_id = d.keeper_id
+FROM duplicate_clients d
+WHERE t.client_id = d.id;
+
+UPDATE public.task_series s
+SET client_id = d.keeper_id
+FROM duplicate_clients d
+WHERE s.client_id = d.id;
+
+UPDATE public.client_notes n
+SET client_id = d.keeper_id
+FROM duplicate_clients d
+WHERE n.client_id = d.id;
+
+UPDATE public.documents doc
+SET client_id = d.keeper_id
+FROM duplicate_clients d
+WHERE doc.client_id = d.id;
+
+DELETE FROM public.clients WHERE id IN (SELECT id FROM duplicate_clients);
+
+DROP TABLE duplicate_clients;
+
+UPDATE public.clients
+SET cpf_cnpj = regexp_replace(cpf_cnpj, '\D', '', 'g')
+WHERE person_type = 'PF' AND cpf_cnpj ~ '\D';
@@ -0,0 +1,68 @@
+-- Files of deleted documents
+--
+-- Documents also go away without deleteDocument: with their client, and with
+-- their task when it has no client (delete_task_only_documents). Every stored
+-- version that goes is queued here, and the purge-document-files function
+-- removes the queued files from storage once a bulk delete can no longer be
+-- undone. Undo puts the versions back, which takes their files off the queue.
+CREATE TABLE public.document_file_removals (
+  storage_path TEXT PRIMARY KEY,
+  queued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the triggers below and the purge function (service role) use the queue
+ALTER TABLE public.document_file_removals ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_document_file_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.document_file_removals (storage_path)
+  VALUES (OLD.storage_path)
+  ON CONFLICT (storage_path) DO UPDATE SET queued_at = now();
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER queue_document_file_removal
+  AFTER DELETE ON public.document_versions
+  FOR EACH ROW EXECUTE FUNCTION public.queue_document_file_removal();
+
+CREATE OR REPLACE FUNCTION public.keep_document_file()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.document_file_removals WHERE storage_path = NEW.storage_path;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_document_file
+  AFTER INSERT ON public.document_versions
+  FOR EACH ROW EXECUTE FUNCTION public.keep_document_file();
+
+-- Runs after the bulk operation purge (03:30 UTC). The project URL and the
+-- service role key are read from Vault (secrets `project_url` and
+-- `service_role_key`).
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-document-files',
+  '45 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-document-files',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  )
+  $$
+);
@@ -0,0 +1,28 @@
+-- Storing client documents (run with `supabase test db`)
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-000000000001', 'dono@example.com', '{"name": "Dono"}');
+
+INSERT INTO public.clients (id, user_id, organization_id, name, cpf_cnpj, person_type)
+SELECT '00000000-0000-0000-0000-0000000000c1', created_by, id, 'Cliente', '529.982.247-25x', 'PF'
+FROM public.organizations WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT cpf_cnpj FROM public.clients WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  '52998224725',
+  'a CPF is stored as digits only'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.clients (user_id, organization_id, name, cpf_cnpj, person_type)
+    SELECT user_id, organization_id, 'Cliente', '52998224725', 'PF'
+    FROM public.clients WHERE id = '00000000-0000-0000-0000-0000000000c1'$$,
+  '23505', NULL,
+  'the same CPF cannot be registered twice in an organization'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,91 @@
+-- Pointing documents and tasks at another organization (run with `supabase test db`)
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-000000000001', 'dono@example.com', '{"name": "Dono"}'),
+       ('00000000-0000-0000-0000-000000000002', 'outro@example.com', '{"name": "Outro"}');
+
+INSERT INTO public.clients (id, user_id, organization_id, name, cpf_cnpj, person_type)
+SELECT client.id::uuid, created_by, organizations.id, 'Cliente', '52998224725', 'PF'
+FROM public.organizations
+JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-000000000001'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-000000000002')
+) AS client(id, created_by) ON organizations.created_by = client.created_by::uuid;
+
+INSERT INTO public.tasks (id, user_id, organization_id, client_id, title, due_date)
+SELECT task.id::uuid, created_by, organizations.id, task.client_id::uuid, 'Tarefa', '2027-01-20'
+FROM public.organizations
+JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-000000000001'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-000000000002')
+) AS task(id, client_id, created_by) ON organizations.created_by = task.created_by::uuid;
+
+INSERT INTO public.documents (id, organization_id, client_id, task_id, name, storage_path)
+SELECT document.id::uuid, organization_id, client_id, id, 'guia.pdf', 'x/guia.pdf'
+FROM public.tasks
+JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1'),
+  ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000a2')
+) AS document(id, task_id) ON tasks.id = document.task_id::uuid;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000001"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$INSERT INTO public.tasks (user_id, organization_id, client_id, title, due_date)
+    SELECT '00000000-0000-0000-0000-000000000001', organization_id, '00000000-0000-0000-0000-0000000000c2', 'Tarefa', '2027-01-20'
+    FROM public.tasks WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  '42501', NULL,
+  'a task cannot be created for a client of another organization'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.tasks SET client_id = '00000000-0000-0000-0000-0000000000c2'
+    WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  '42501', NULL,
+  'a task cannot be moved to a client of another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.documents (organization_id, client_id, name, storage_path)
+    SELECT organization_id, '00000000-0000-0000-0000-0000000000c2', 'guia.pdf', 'x/guia.pdf'
+    FROM public.tasks WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  '42501', NULL,
+  'a document cannot be created for a client of another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.documents (organization_id, task_id, name, storage_path)
+    SELECT organization_id, '00000000-0000-0000-0000-0000000000a2', 'guia.pdf', 'x/guia.pdf'
+    FROM public.tasks WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  '42501', NULL,
+  'a document cannot be created for a task of another organization'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.documents SET client_id = '00000000-0000-0000-0000-0000000000c2'
+    WHERE id = '00000000-0000-0000-0000-0000000000d1'$$,
+  '42501', NULL,
+  'a document cannot be moved to a client of another organization'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.documents SET task_id = '00000000-0000-0000-0000-0000000000a2'
+    WHERE id = '00000000-0000-0000-0000-0000000000d1'$$,
+  '42501', NULL,
+  'a document cannot be moved to a task of another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.document_versions (document_id, organization_id, version, name, storage_path)
+    SELECT '00000000-0000-0000-0000-0000000000d2', organization_id, 2, 'guia.pdf', 'x/guia.pdf'
+    FROM public.documents WHERE id = '00000000-0000-0000-0000-0000000000d1'$$,
+  '42501', NULL,
+  'a version cannot be added to a document of another organization'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,37 @@
+-- Completing an occurrence created by another member (run with `supabase test db`)
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-000000000001', 'dono@example.com', '{"name": "Dono"}'),
+       ('00000000-0000-0000-0000-000000000002', 'colega@example.com', '{"name": "Colega"}');
+
+INSERT INTO public.organization_members (organization_id, user_id, role)
+SELECT id, '00000000-0000-0000-0000-000000000002', 'assistente'
+FROM public.organizations WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.task_series (id, user_id, organization_id, title, frequency, day_of_month, assignee_id)
+SELECT '00000000-0000-0000-0000-0000000000b1', created_by, id, 'DAS', 'mensal', 20, created_by
+FROM public.organizations WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.tasks (id, user_id, organization_id, series_id, title, due_date)
+SELECT '00000000-0000-0000-0000-0000000000a1', user_id, organization_id, id, title, '2027-01-20'
+FROM public.task_series;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000002"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$SELECT public.set_task_status('00000000-0000-0000-0000-0000000000a1', 'concluida', next_due_date => '2027-02-19')$$,
+  'a colleague completes an occurrence of a series they did not create'
+);
+
+SELECT results_eq(
+  $$SELECT user_id, assignee_id FROM public.tasks WHERE due_date = '2027-02-19'$$,
+  $$VALUES ('00000000-0000-0000-0000-000000000002'::uuid, '00000000-0000-0000-0000-000000000001'::uuid)$$,
+  'the next occurrence is created by the colleague and keeps the series assignee'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,78 @@
+-- Completing occurrences of a series in bulk and undoing it (run with `supabase test db`)
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-000000000001', 'dono@example.com', '{"name": "Dono"}'),
+       ('00000000-0000-0000-0000-000000000002', 'colega@example.com', '{"name": "Colega"}');
+
+INSERT INTO public.organization_members (organization_id, user_id, role)
+SELECT id, '00000000-0000-0000-0000-000000000002', 'assistente'
+FROM public.organizations WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.task_series (id, user_id, organization_id, title, description, frequency, day_of_month)
+SELECT '00000000-0000-0000-0000-0000000000b1', created_by, id, 'DAS', 'Guia mensal', 'mensal', 20
+FROM public.organizations WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+-- a2's next occurrence (a3) already exists: completing a2 leaves it alone
+INSERT INTO public.tasks (id, user_id, organization_id, series_id, title, due_date)
+SELECT task.id::uuid, user_id, organization_id, id, title, task.due_date::date
+FROM public.task_series
+CROSS JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '2027-01-20'),
+  ('00000000-0000-0000-0000-0000000000a2', '2027-03-19'),
+  ('00000000-0000-0000-0000-0000000000a3', '2027-04-20')
+) AS task(id, due_date);
+
+-- A colleague completes occurrences of a series they did not create
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000002"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT (public.bulk_update_tasks(
+    organization_id,
+    ARRAY['00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2']::uuid[],
+    '{"status": "concluida"}',
+    NULL,
+    '{"00000000-0000-0000-0000-0000000000a1": {"due_date": "2027-02-19", "note": "Antecipado"},
+      "00000000-0000-0000-0000-0000000000a2": {"due_date": "2027-04-20", "note": null}}'
+  )->>'updated')::integer FROM public.task_series),
+  2,
+  'completes both occurrences'
+);
+
+SELECT results_eq(
+  $$SELECT due_date, description, user_id FROM public.tasks
+    WHERE series_id IS NOT NULL AND status <> 'concluida' ORDER BY due_date$$,
+  $$VALUES ('2027-02-19'::date, E'Guia mensal\nAntecipado', '00000000-0000-0000-0000-000000000002'::uuid),
+           ('2027-04-20'::date, NULL::text, '00000000-0000-0000-0000-000000000001'::uuid)$$,
+  'creates the next occurrence of a1 as the colleague and keeps the existing one of a2'
+);
+
+SELECT lives_ok(
+  $$SELECT public.undo_task_bulk_operation(id) FROM public.task_bulk_operations$$,
+  'undoes the bulk completion'
+);
+
+SELECT results_eq(
+  $$SELECT id::text, status::text FROM public.tasks WHERE series_id IS NOT NULL ORDER BY due_date$$,
+  $$VALUES ('00000000-0000-0000-0000-0000000000a1', 'pendente'),
+           ('00000000-0000-0000-0000-0000000000a2', 'pendente'),
+           ('00000000-0000-0000-0000-0000000000a3', 'pendente')$$,
+  'undo reopens the tasks, deletes the occurrence it created and keeps the other'
+);
+
+-- Undo restores whatever a snapshot holds, so members cannot write one
+SELECT throws_ok(
+  $$INSERT INTO public.task_bulk_operations (organization_id, performed_by, action, task_count, snapshot)
+    SELECT organization_id, '00000000-0000-0000-0000-000000000002', 'delete', 1,
+           jsonb_build_object('tasks', jsonb_build_array(to_jsonb(t)))
+    FROM public.tasks t WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  '42501',
+  NULL,
+  'members cannot insert a bulk operation snapshot'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
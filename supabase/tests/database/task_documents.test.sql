@@ -0,0 +1,85 @@
+-- Deleting tasks that have documents attached (run with `supabase test db`)
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-000000000001', 'dono@example.com', '{"name": "Dono"}');
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000001"}', true);
+
+INSERT INTO public.clients (id, user_id, organization_id, name, cpf_cnpj, person_type)
+SELECT '00000000-0000-0000-0000-0000000000c1', created_by, id, 'Cliente', '52998224725', 'PF'
+FROM public.organizations WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.tasks (id, user_id, organization_id, client_id, title, due_date)
+SELECT task.id::uuid, created_by, organizations.id, task.client_id::uuid, task.title, '2026-03-20'
+FROM public.organizations
+CROSS JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000a1', NULL, 'Sem cliente'),
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000c1', 'Com cliente'),
+  ('00000000-0000-0000-0000-0000000000a3', NULL, 'Sem cliente, em lote')
+) AS task(id, client_id, title)
+WHERE created_by = '00000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.documents (id, organization_id, client_id, task_id, name, storage_path)
+SELECT document.id::uuid, organization_id, document.client_id::uuid, document.task_id::uuid, 'guia.pdf', document.id || '/guia.pdf'
+FROM public.tasks
+CROSS JOIN (VALUES
+  ('00000000-0000-0000-0000-0000000000d1', NULL, '00000000-0000-0000-0000-0000000000a1'),
+  ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2'),
+  ('00000000-0000-0000-0000-0000000000d3', NULL, '00000000-0000-0000-0000-0000000000a3')
+) AS document(id, client_id, task_id)
+WHERE tasks.id = '00000000-0000-0000-0000-0000000000a1';
+
+INSERT INTO public.document_versions (document_id, organization_id, version, name, storage_path)
+SELECT id, organization_id, 1, name, storage_path FROM public.documents;
+
+SELECT lives_ok(
+  $$DELETE FROM public.tasks WHERE id IN ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2')$$,
+  'deletes tasks with documents, with or without a client'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.documents WHERE id = '00000000-0000-0000-0000-0000000000d1'$$,
+  'documents of a task without a client go with the task'
+);
+
+SELECT results_eq(
+  $$SELECT task_id FROM public.documents WHERE id = '00000000-0000-0000-0000-0000000000d2'$$,
+  ARRAY[NULL::uuid],
+  'documents of a client stay without the task'
+);
+
+SELECT lives_ok(
+  $$SELECT public.bulk_delete_tasks(organization_id, ARRAY['00000000-0000-0000-0000-0000000000a3'::uuid])
+    FROM public.tasks WHERE id = '00000000-0000-0000-0000-0000000000a3'$$,
+  'bulk deletes a task without a client that has documents'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.document_file_removals),
+  2::bigint,
+  'the files of deleted task-only documents are queued for removal'
+);
+
+SELECT lives_ok(
+  $$SELECT public.undo_task_bulk_operation(id) FROM public.task_bulk_operations$$,
+  'undoes the bulk delete'
+);
+
+SELECT results_eq(
+  $$SELECT task_id, (SELECT count(*) FROM public.document_versions WHERE document_id = documents.id)
+    FROM public.documents WHERE id = '00000000-0000-0000-0000-0000000000d3'$$,
+  $$VALUES ('00000000-0000-0000-0000-0000000000a3'::uuid, 1::bigint)$$,
+  'undo brings the task-only document and its versions back'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.document_file_removals),
+  1::bigint,
+  'undo takes the files it brings back off the queue'
+);
+
+SELECT * FROM finish();
+ROLLBACK;